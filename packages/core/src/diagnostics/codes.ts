@@ -0,0 +1,117 @@
+/**
+ * Parser error code catalog
+ * Titles and help texts from the Error Code Registry (docs/specs/error-code-registry.md)
+ */
+
+import { Position } from '../types/token.js';
+import {
+  DeclareDiagnostic,
+  DiagnosticFix,
+  DiagnosticSeverity,
+  ParseErrorCode,
+} from '../types/diagnostic.js';
+
+/**
+ * Registry entry of a parser error code
+ */
+export interface ParseErrorCodeInfo {
+  title: string;
+  help: string;
+}
+
+export const PARSE_ERROR_CODES: Record<ParseErrorCode, ParseErrorCodeInfo> = {
+  PARSE001: { title: 'Unexpected Token', help: 'Check syntax guide for correct format' },
+  PARSE002: { title: 'Missing Required Keyword', help: 'Add the required keyword' },
+  PARSE003: {
+    title: 'Invalid Field Name',
+    help: 'Use only letters, numbers, spaces, hyphens, underscores',
+  },
+  PARSE004: { title: 'Duplicate Model Definition', help: 'Remove duplicate or rename model' },
+  PARSE005: {
+    title: 'Unknown Field Type',
+    help: 'Use valid field type: text, long text, number, decimal, boolean, timestamp, json, uuid',
+  },
+  PARSE006: {
+    title: 'Unknown Constraint',
+    help: 'Use valid constraint: unique, required, indexed',
+  },
+  PARSE007: {
+    title: 'Invalid Pluralization',
+    help: 'Use `Name[suffix]` or `Stem[singular|plural]`',
+  },
+  PARSE008: {
+    title: 'Invalid Time Expression',
+    help: 'Use full unit names (minutes, hours, days, etc.)',
+  },
+  PARSE009: {
+    title: 'Invalid Comparison Operator',
+    help: 'Use valid operator: is, equals, matches, contains, is after, is before',
+  },
+  PARSE010: {
+    title: 'Model Reference Not Found',
+    help: 'Check model name spelling or define the model',
+  },
+  PARSE011: {
+    title: 'Field Reference Not Found',
+    help: 'Check field name or add field to model',
+  },
+  PARSE012: { title: 'Circular Relationship', help: 'Review relationship design' },
+  PARSE013: { title: 'Invalid Query Syntax', help: 'Follow query syntax rules' },
+  PARSE014: { title: 'Invalid Mutation Syntax', help: 'Follow mutation syntax rules' },
+  PARSE015: { title: 'Invalid Auth Rule', help: 'Follow auth rule syntax' },
+  PARSE016: { title: 'Undefined Role', help: 'Add role to Roles section or fix typo' },
+  PARSE017: { title: 'Invalid Validation Constraint', help: 'Check validation syntax guide' },
+  PARSE018: { title: 'Unsupported Aggregation', help: "Use 'counts' or 'sums' in V1" },
+  PARSE019: { title: 'Missing File', help: 'Create file or check path' },
+  PARSE020: { title: 'File Read Error', help: 'Check file permissions' },
+};
+
+/**
+ * Optional parts of a diagnostic
+ */
+export interface DiagnosticDetails {
+  end?: Position; // defaults to the start position
+  file?: string;
+  severity?: DiagnosticSeverity; // defaults to "error"
+  help?: string; // defaults to the registry help text of the code
+  fix?: DiagnosticFix;
+}
+
+/**
+ * Create a diagnostic for an error code
+ *
+ * @param code - Registry error code
+ * @param message - Error message
+ * @param start - Start of the offending text
+ * @param details - Range end, file, help and fix
+ * @returns Diagnostic
+ */
+export function createDiagnostic(
+  code: ParseErrorCode,
+  message: string,
+  start: Position,
+  details: DiagnosticDetails = {}
+): DeclareDiagnostic {
+  const diagnostic: DeclareDiagnostic = {
+    code,
+    severity: details.severity ?? 'error',
+    message,
+    start,
+    end: details.end ?? start,
+    help: details.help ?? PARSE_ERROR_CODES[code].help,
+  };
+  if (details.file !== undefined) {
+    diagnostic.file = details.file;
+  }
+  if (details.fix) {
+    diagnostic.fix = details.fix;
+  }
+  return diagnostic;
+}
+
+/**
+ * Fix that replaces a range with a suggested name
+ */
+export function replaceWith(suggestion: string, start: Position, end: Position): DiagnosticFix {
+  return { description: `Replace with '${suggestion}'`, replacement: suggestion, start, end };
+}
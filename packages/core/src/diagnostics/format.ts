@@ -0,0 +1,211 @@
+/**
+ * Diagnostic formatter
+ * Renders diagnostics as rustc-style code frames:
+ *
+ * error[PARSE005]: Unexpected token in type specification: txt
+ *   --> schema/ddl.dsl:2:15
+ *    |
+ *  2 | - has name as txt
+ *    |               ^^^
+ *    |
+ *    = help: Use valid field type: text, long text, ...
+ *    = fix: Replace with 'text'
+ *
+ * Modes:
+ * ansi  - colored output for terminals
+ * plain - same layout without escape codes (CI logs)
+ * json  - machine-readable diagnostics with the offending source lines
+ */
+
+import { DeclareDiagnostic, DiagnosticSeverity } from '../types/diagnostic.js';
+
+/**
+ * Output mode
+ */
+export type DiagnosticFormat = 'ansi' | 'plain' | 'json';
+
+/**
+ * Formatting options
+ */
+export interface FormatOptions {
+  format?: DiagnosticFormat; // default: plain
+  fileName?: string; // used when the diagnostic has no file (default: <input>)
+  contextLines?: number; // lines shown before and after the span (default: 0)
+}
+
+/**
+ * Source lines shown for a diagnostic
+ */
+interface FrameLine {
+  number: number;
+  text: string;
+  underline?: { from: number; to: number }; // 0-based columns, end exclusive
+}
+
+const ANSI = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+  green: '\x1b[32m',
+};
+
+const SEVERITY_COLORS: Record<DiagnosticSeverity, string> = {
+  error: ANSI.red,
+  warning: ANSI.yellow,
+  info: ANSI.cyan,
+};
+
+/**
+ * Format a single diagnostic
+ *
+ * @param diagnostic - Diagnostic to render
+ * @param source - Source text of the file the diagnostic belongs to
+ * @param options - Output mode and layout
+ * @returns Code frame (ansi/plain) or JSON object (json)
+ */
+export function formatDiagnostic(
+  diagnostic: DeclareDiagnostic,
+  source: string,
+  options: FormatOptions = {}
+): string {
+  if (options.format === 'json') {
+    return JSON.stringify(toJSON(diagnostic, source, options));
+  }
+  return renderFrame(diagnostic, source, options);
+}
+
+/**
+ * Format several diagnostics
+ *
+ * @param diagnostics - Diagnostics to render
+ * @param getSource - Source text for a diagnostic's file
+ * @param options - Output mode and layout
+ * @returns Code frames separated by blank lines (ansi/plain) or a JSON array (json)
+ */
+export function formatDiagnostics(
+  diagnostics: DeclareDiagnostic[],
+  getSource: (file: string | undefined) => string,
+  options: FormatOptions = {}
+): string {
+  if (options.format === 'json') {
+    return JSON.stringify(diagnostics.map((d) => toJSON(d, getSource(d.file), options)));
+  }
+  return diagnostics.map((d) => renderFrame(d, getSource(d.file), options)).join('\n\n');
+}
+
+/**
+ * Render the code frame of a diagnostic
+ */
+function renderFrame(
+  diagnostic: DeclareDiagnostic,
+  source: string,
+  options: FormatOptions
+): string {
+  const color = options.format === 'ansi';
+  const paint = (text: string, ...styles: string[]): string =>
+    color ? `${styles.join('')}${text}${ANSI.reset}` : text;
+
+  const lines = frameLines(diagnostic, source, options.contextLines ?? 0);
+  const width = String(lines[lines.length - 1]?.number ?? diagnostic.start.line).length;
+  const gutter = (label = ''): string => paint(`${label.padStart(width)} |`, ANSI.bold, ANSI.blue);
+  const severityColor = SEVERITY_COLORS[diagnostic.severity];
+
+  const output = [
+    paint(`${diagnostic.severity}[${diagnostic.code}]`, ANSI.bold, severityColor) +
+      paint(`: ${diagnostic.message}`, ANSI.bold),
+    `${' '.repeat(width)}${paint('-->', ANSI.bold, ANSI.blue)} ${location(diagnostic, options)}`,
+    gutter(),
+  ];
+
+  for (const line of lines) {
+    output.push(`${gutter(String(line.number))} ${line.text}`.trimEnd());
+    if (line.underline) {
+      const { from, to } = line.underline;
+      const marker = '^'.repeat(Math.max(1, to - from));
+      output.push(`${gutter()} ${' '.repeat(from)}${paint(marker, ANSI.bold, severityColor)}`);
+    }
+  }
+
+  const notes: string[] = [];
+  if (diagnostic.help) {
+    notes.push(`${paint('help', ANSI.bold, ANSI.cyan)}: ${diagnostic.help}`);
+  }
+  if (diagnostic.fix) {
+    notes.push(`${paint('fix', ANSI.bold, ANSI.green)}: ${diagnostic.fix.description}`);
+  }
+  if (notes.length > 0) {
+    output.push(gutter());
+    for (const note of notes) {
+      output.push(`${' '.repeat(width)} ${paint('=', ANSI.bold, ANSI.blue)} ${note}`);
+    }
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Machine-readable form of a diagnostic
+ */
+function toJSON(diagnostic: DeclareDiagnostic, source: string, options: FormatOptions) {
+  return {
+    ...diagnostic,
+    file: diagnostic.file ?? options.fileName ?? '<input>',
+    lines: frameLines(diagnostic, source, options.contextLines ?? 0).map((line) => ({
+      number: line.number,
+      text: line.text,
+    })),
+  };
+}
+
+/**
+ * "file:line:column" of a diagnostic
+ */
+function location(diagnostic: DeclareDiagnostic, options: FormatOptions): string {
+  const file = diagnostic.file ?? options.fileName ?? '<input>';
+  return `${file}:${diagnostic.start.line}:${diagnostic.start.column}`;
+}
+
+/**
+ * Source lines covered by a diagnostic, with the part to underline on each
+ */
+function frameLines(
+  diagnostic: DeclareDiagnostic,
+  source: string,
+  contextLines: number
+): FrameLine[] {
+  const sourceLines = source.split('\n').map((line) => line.replace(/\r$/, ''));
+  const { start } = diagnostic;
+  let end = diagnostic.end;
+
+  // A span ending at the start of a line (e.g., after a newline) ends on the previous line
+  if (end.line > start.line && end.column === 1) {
+    const previous = sourceLines[end.line - 2] ?? '';
+    end = { line: end.line - 1, column: previous.length + 1, offset: end.offset - 1 };
+  }
+  const lastLine = Math.max(start.line, end.line);
+
+  const first = Math.max(1, start.line - contextLines);
+  const last = Math.min(sourceLines.length, lastLine + contextLines);
+
+  const lines: FrameLine[] = [];
+  for (let number = first; number <= last; number++) {
+    const text = sourceLines[number - 1] ?? '';
+    const line: FrameLine = { number, text };
+
+    if (number >= start.line && number <= lastLine) {
+      const from = number === start.line ? start.column - 1 : leadingWhitespace(text);
+      const to = number === end.line ? end.column - 1 : text.length;
+      line.underline = { from, to: Math.max(from, to) };
+    }
+
+    lines.push(line);
+  }
+  return lines;
+}
+
+function leadingWhitespace(text: string): number {
+  return text.length - text.trimStart().length;
+}
@@ -0,0 +1,7 @@
+/**
+ * Diagnostic exports
+ */
+
+export * from './codes.js';
+export * from './parse-error.js';
+export * from './format.js';
@@ -0,0 +1,40 @@
+/**
+ * Error thrown by the tokenizer and the parsers
+ * Carries a structured diagnostic so tooling can branch on the error code
+ */
+
+import { Position } from '../types/token.js';
+import { DeclareDiagnostic, ParseErrorCode } from '../types/diagnostic.js';
+import { DiagnosticDetails, createDiagnostic } from './codes.js';
+
+/**
+ * Source range of an error (e.g., the offending token)
+ */
+export interface ParseErrorRange {
+  start: Position;
+  end: Position;
+}
+
+/**
+ * Parser error with error code and position information
+ */
+export class ParseError extends Error {
+  public diagnostic: DeclareDiagnostic;
+  public position: Position;
+
+  /**
+   * @param at - Range of the error (a token, a node), or its start position
+   */
+  constructor(
+    message: string,
+    at: Position | ParseErrorRange,
+    public code: ParseErrorCode = 'PARSE001',
+    details: DiagnosticDetails = {}
+  ) {
+    super(message);
+    this.name = 'ParseError';
+    const { start, end } = 'start' in at ? at : { start: at, end: at };
+    this.position = start;
+    this.diagnostic = createDiagnostic(code, message, start, { end, ...details });
+  }
+}
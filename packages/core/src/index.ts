@@ -6,4 +6,11 @@
 export * from './types/index.js';
 export * from './tokenizer/index.js';
 export * from './parsers/index.js';
+export * from './project/index.js';
+export * from './diagnostics/index.js';
+export * from './validators/index.js';
+export * from './printer/index.js';
+export * from './refactor/index.js';
 export * from './utils/identifier.js';
+export * from './utils/suggestion.js';
+export * from './utils/source.js';
@@ -29,8 +29,10 @@ import {
   RequestSizeLimits,
   SortDirection,
 } from '../types/ast.js';
-import { normalizeIdentifier } from '../utils/identifier.js';
-import { ParseError } from './ddl-parser.js';
+import { normalizeName } from '../utils/identifier.js';
+import { ParseError } from '../diagnostics/parse-error.js';
+import { ParseResult, parseWithRecovery } from './recovery.js';
+import { fileTrivia, lineTrivia, moveHeaderTrivia, sectionTrivia } from './trivia.js';
 
 /**
  * API Parser
@@ -57,6 +59,7 @@ export class APIParser {
         queryParams: [],
         start: emptyPos,
         end: emptyPos,
+        ...fileTrivia(this.tokens),
       };
     }
 
@@ -137,14 +140,24 @@ export class APIParser {
       sizeLimits,
       start,
       end,
+      ...fileTrivia(this.tokens),
     };
   }
 
+  /**
+   * Parse API file in recovery mode
+   * Reports every parse error instead of throwing the first one
+   */
+  parseWithDiagnostics(): ParseResult<APIFile> {
+    return parseWithRecovery('api', this.tokens, (tokens) => new APIParser(tokens).parse());
+  }
+
   /**
    * Parse rate limit section
    */
   private parseRateLimitSection(): APIRateLimitRule[] {
     const rules: APIRateLimitRule[] = [];
+    const header = lineTrivia(this.tokens, this.currentToken().start);
     this.consume(TokenType.RATE, 'Expected "Rate"');
 
     let modelName: string | undefined;
@@ -174,6 +187,7 @@ export class APIParser {
       }
     }
 
+    moveHeaderTrivia(header, rules);
     return rules;
   }
 
@@ -216,6 +230,7 @@ export class APIParser {
       scope,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -242,7 +257,7 @@ export class APIParser {
     while (this.check(TokenType.DASH)) {
       this.advance(); // consume dash
 
-      const line = this.collectLine();
+      const line = this.collectSourceLine();
       const lowerLine = line.toLowerCase();
 
       if (lowerLine.startsWith('allow origins:')) {
@@ -269,6 +284,7 @@ export class APIParser {
       maxAge,
       start,
       end: this.previousToken().end,
+      ...sectionTrivia(this.tokens, start, this.previousToken().end),
     };
   }
 
@@ -305,7 +321,15 @@ export class APIParser {
       this.skipNewlines();
     }
 
-    return { dataField, metaField, errorsField, start, end: this.previousToken().end };
+    const end = this.previousToken().end;
+    return {
+      dataField,
+      metaField,
+      errorsField,
+      start,
+      end,
+      ...sectionTrivia(this.tokens, start, end),
+    };
   }
 
   /**
@@ -357,6 +381,7 @@ export class APIParser {
       metaFields: metaFields.length > 0 ? metaFields : undefined,
       start,
       end: this.previousToken().end,
+      ...sectionTrivia(this.tokens, start, this.previousToken().end),
     };
   }
 
@@ -406,6 +431,7 @@ export class APIParser {
       includeFields,
       start,
       end: this.previousToken().end,
+      ...sectionTrivia(this.tokens, start, this.previousToken().end),
     };
   }
 
@@ -440,7 +466,9 @@ export class APIParser {
 
     while (this.check(TokenType.DASH)) {
       this.advance();
+      const lineStart = this.currentToken().start;
       const line = this.collectLine();
+      const lineRange = { start: lineStart, end: this.previousToken().end };
       const lowerLine = line.toLowerCase();
 
       if (lowerLine.includes('default limit:')) {
@@ -454,7 +482,7 @@ export class APIParser {
         if (sortPart) {
           const parts = sortPart.split(/\s+/);
           if (parts.length >= 2) {
-            const field = normalizeIdentifier(parts.slice(0, -1).join(' '));
+            const field = normalizeName(parts.slice(0, -1).join(' '), lineRange);
             const direction =
               parts[parts.length - 1]?.toLowerCase() === 'descending'
                 ? SortDirection.DESCENDING
@@ -464,7 +492,7 @@ export class APIParser {
         }
       } else if (lowerLine.includes('allowed sort fields:')) {
         const fieldsStr = line.split(':')[1]?.trim() || '';
-        const fields = fieldsStr.split(',').map((f) => normalizeIdentifier(f.trim()));
+        const fields = fieldsStr.split(',').map((f) => normalizeName(f, lineRange));
         allowedSortFields.push(...fields);
       }
 
@@ -479,6 +507,7 @@ export class APIParser {
       allowedSortFields: allowedSortFields.length > 0 ? allowedSortFields : undefined,
       start,
       end: this.previousToken().end,
+      ...sectionTrivia(this.tokens, start, this.previousToken().end),
     });
 
     return configs;
@@ -521,6 +550,7 @@ export class APIParser {
       params,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -533,13 +563,17 @@ export class APIParser {
     this.consume(TokenType.DASH, 'Expected "-"');
 
     // Collect field name until "as"
+    const fieldStart = this.currentToken().start;
     const fieldParts: string[] = [];
     while (!this.check(TokenType.AS) && !this.isAtEnd() && !this.check(TokenType.NEWLINE)) {
       fieldParts.push(this.advance().value);
     }
 
     const originalField = fieldParts.join(' ');
-    const field = normalizeIdentifier(originalField);
+    const field = normalizeName(originalField, {
+      start: fieldStart,
+      end: this.previousToken().end,
+    });
 
     // Require "as" keyword (v0.1.0 syntax)
     this.consume(TokenType.AS, 'Expected "as" after field name');
@@ -558,6 +592,7 @@ export class APIParser {
       filterType,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -596,7 +631,15 @@ export class APIParser {
       this.skipNewlines();
     }
 
-    return { versionFormat, header, defaultVersion, start, end: this.previousToken().end };
+    const end = this.previousToken().end;
+    return {
+      versionFormat,
+      header,
+      defaultVersion,
+      start,
+      end,
+      ...sectionTrivia(this.tokens, start, end),
+    };
   }
 
   /**
@@ -604,6 +647,7 @@ export class APIParser {
    */
   private parseSecurityHeadersSection(): SecurityHeader[] {
     const headers: SecurityHeader[] = [];
+    const header = lineTrivia(this.tokens, this.currentToken().start);
 
     // Skip "Security headers:"
     while (!this.check(TokenType.COLON) && !this.isAtEnd()) {
@@ -617,18 +661,24 @@ export class APIParser {
       const start = this.currentToken().start;
       this.advance();
 
-      const line = this.collectLine();
+      const line = this.collectSourceLine();
       const parts = line.split(':');
       if (parts.length >= 2 && parts[0]) {
-        // Header names should preserve dashes (convert underscores back to dashes)
-        const name = parts[0].trim().replace(/_/g, '-');
+        const name = parts[0].trim();
         const value = parts.slice(1).join(':').trim();
-        headers.push({ name, value, start, end: this.previousToken().end });
+        headers.push({
+          name,
+          value,
+          start,
+          end: this.previousToken().end,
+          ...lineTrivia(this.tokens, start),
+        });
       }
 
       this.skipNewlines();
     }
 
+    moveHeaderTrivia(header, headers);
     return headers;
   }
 
@@ -673,6 +723,7 @@ export class APIParser {
       formats: formats.length > 0 ? formats : undefined,
       start,
       end: this.previousToken().end,
+      ...sectionTrivia(this.tokens, start, this.previousToken().end),
     };
   }
 
@@ -713,7 +764,15 @@ export class APIParser {
       this.skipNewlines();
     }
 
-    return { maxBodySize, maxFileUpload, maxQueryParams, start, end: this.previousToken().end };
+    const end = this.previousToken().end;
+    return {
+      maxBodySize,
+      maxFileUpload,
+      maxQueryParams,
+      start,
+      end,
+      ...sectionTrivia(this.tokens, start, end),
+    };
   }
 
   // Helper methods
@@ -738,6 +797,27 @@ export class APIParser {
     return parts.join('').trim();
   }
 
+  /**
+   * Collect the rest of the line as written, for values such as origins
+   * ("https://example.com") and header values ("max-age=31536000") that
+   * collectLine would space out. Identifiers come back with their dashes
+   * (the tokenizer turns "Content-Type" into "Content_Type") and strings
+   * with single quotes ("'self'").
+   */
+  private collectSourceLine(): string {
+    let line = '';
+    let previous: Token | undefined;
+    while (!this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
+      const token = this.advance();
+      if (previous) {
+        line += ' '.repeat(Math.max(0, token.start.offset - previous.end.offset));
+      }
+      line += token.type === TokenType.STRING ? `'${token.value}'` : token.value.replace(/_/g, '-');
+      previous = token;
+    }
+    return line.trim();
+  }
+
   private parseListAfterColon(line: string): string[] {
     const colonIndex = line.indexOf(':');
     if (colonIndex === -1) return [];
@@ -853,12 +933,12 @@ export class APIParser {
     if (this.check(type)) {
       return this.advance();
     }
-    throw new ParseError(message, this.currentToken().start);
+    throw new ParseError(message, this.currentToken(), 'PARSE002');
   }
 
   private consumeNewline(): void {
     if (!this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
-      throw new ParseError('Expected newline', this.currentToken().start);
+      throw new ParseError('Expected newline', this.currentToken());
     }
     if (this.check(TokenType.NEWLINE)) {
       this.advance();
@@ -9,7 +9,7 @@
  * field_rule_def ::= "Field Rules for" model_name ":" newline field_permission+
  */
 
-import { Token, TokenType, Position } from '../types/token.js';
+import { Token, TokenType } from '../types/token.js';
 import {
   AUTHFile,
   RoleDefinition,
@@ -29,20 +29,27 @@ import {
   ConditionValue,
   TimeUnit,
 } from '../types/ast.js';
-import { normalizeIdentifier } from '../utils/identifier.js';
-
-/**
- * Parser error with position information
- */
-export class ParseError extends Error {
-  constructor(
-    message: string,
-    public position: Position
-  ) {
-    super(message);
-    this.name = 'ParseError';
-  }
-}
+import { normalizeName } from '../utils/identifier.js';
+import { ParseResult, parseWithRecovery } from './recovery.js';
+import { fileTrivia, lineTrivia, moveHeaderTrivia } from './trivia.js';
+import { ParseError } from '../diagnostics/parse-error.js';
+
+const TIME_UNITS = new Set([
+  TokenType.MINUTE,
+  TokenType.MINUTES,
+  TokenType.HOUR,
+  TokenType.HOURS,
+  TokenType.DAY,
+  TokenType.DAYS,
+  TokenType.WEEK,
+  TokenType.WEEKS,
+  TokenType.MONTH,
+  TokenType.MONTHS,
+  TokenType.YEAR,
+  TokenType.YEARS,
+]);
+
+export { ParseError };
 
 /**
  * AUTH Parser
@@ -91,15 +98,25 @@ export class AUTHParser {
       fieldRules,
       start,
       end: this.previousToken().end,
+      ...fileTrivia(this.tokens),
     };
   }
 
+  /**
+   * Parse AUTH file in recovery mode
+   * Reports every parse error instead of throwing the first one
+   */
+  parseWithDiagnostics(): ParseResult<AUTHFile> {
+    return parseWithRecovery('auth', this.tokens, (tokens) => new AUTHParser(tokens).parse());
+  }
+
   /**
    * Parse role definition
    * role_def ::= "Roles:" newline role_item+
    */
   private parseRoleDefinition(): RoleDefinition[] {
     const roles: RoleDefinition[] = [];
+    const header = lineTrivia(this.tokens, this.currentToken().start);
 
     this.consume(TokenType.ROLES, 'Expected "Roles:"');
     this.consume(TokenType.COLON, 'Expected ":" after "Roles"');
@@ -114,6 +131,7 @@ export class AUTHParser {
       this.consume(TokenType.DASH, 'Expected "-"');
 
       // Collect all tokens until newline for multi-word role names
+      const nameStart = this.currentToken().start;
       const roleNameParts: string[] = [];
       while (!this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
         roleNameParts.push(this.advance().value);
@@ -121,16 +139,18 @@ export class AUTHParser {
       const roleName = roleNameParts.join(' ');
 
       roles.push({
-        name: normalizeIdentifier(roleName),
+        name: normalizeName(roleName, { start: nameStart, end: this.previousToken().end }),
         originalName: roleName,
         start,
         end: this.previousToken().end,
+        ...lineTrivia(this.tokens, start),
       });
 
       this.consumeNewline();
       this.skipNewlines();
     }
 
+    moveHeaderTrivia(header, roles);
     return roles;
   }
 
@@ -165,7 +185,11 @@ export class AUTHParser {
     }
 
     if (permissions.length === 0) {
-      throw new ParseError('Rules section must have at least one permission', start);
+      throw new ParseError(
+        'Rules section must have at least one permission',
+        { start, end: this.previousToken().end },
+        'PARSE015'
+      );
     }
 
     return {
@@ -173,6 +197,7 @@ export class AUTHParser {
       permissions,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -212,6 +237,7 @@ export class AUTHParser {
       condition,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -240,9 +266,15 @@ export class AUTHParser {
 
     // Otherwise, it's a role name (may be pluralized)
     if (token.type === TokenType.IDENTIFIER) {
-      // Collect all tokens until "can" for multi-word role names
+      // Collect all tokens until "can" / "cannot" for multi-word role names
+      const nameStart = token.start;
       const roleNameParts: string[] = [];
-      while (!this.check(TokenType.CAN) && !this.isAtEnd()) {
+      while (
+        !this.check(TokenType.CAN) &&
+        !this.check(TokenType.CANNOT) &&
+        !this.check(TokenType.NEWLINE) &&
+        !this.isAtEnd()
+      ) {
         roleNameParts.push(this.advance().value);
       }
       let roleName = roleNameParts.join(' ');
@@ -252,12 +284,16 @@ export class AUTHParser {
         roleName = roleName.slice(0, -1);
       }
 
-      return { type: SubjectType.ROLE, roleName: normalizeIdentifier(roleName) };
+      return {
+        type: SubjectType.ROLE,
+        roleName: normalizeName(roleName, { start: nameStart, end: this.previousToken().end }),
+      };
     }
 
     throw new ParseError(
       'Expected subject (anyone, authenticated users, users, or role name)',
-      token.start
+      token,
+      'PARSE015'
     );
   }
 
@@ -293,7 +329,7 @@ export class AUTHParser {
       return CRUDAction.DELETE;
     }
 
-    throw new ParseError('Expected action (create, read, edit, update, delete)', token.start);
+    throw new ParseError('Expected action (create, read, edit, update, delete)', token, 'PARSE015');
   }
 
   /**
@@ -375,7 +411,11 @@ export class AUTHParser {
       TokenType.ENDS,
     ]);
 
-    while (!comparisonKeywords.has(this.currentToken().type) && !this.isAtEnd()) {
+    // A field name may start with "is" (is approved is true)
+    while (
+      (fieldParts.length === 0 || !comparisonKeywords.has(this.currentToken().type)) &&
+      !this.isAtEnd()
+    ) {
       const token = this.currentToken();
 
       if (
@@ -390,17 +430,28 @@ export class AUTHParser {
     }
 
     if (fieldParts.length === 0) {
-      throw new ParseError('Expected field name in condition', this.currentToken().start);
+      throw new ParseError('Expected field name in condition', this.currentToken(), 'PARSE003');
     }
 
-    const field = normalizeIdentifier(fieldParts.join(' '));
+    const field = normalizeName(fieldParts.join(' '), { start, end: this.previousToken().end });
 
     // Parse operator
-    const operator = this.parseComparisonOperator();
+    let operator = this.parseComparisonOperator();
 
     // Parse value (optional for some operators)
     let value: ConditionValue | undefined;
-    if (operator !== ComparisonOperator.IS_EMPTY && operator !== ComparisonOperator.IS_NOT_EMPTY) {
+    if (
+      operator === ComparisonOperator.IS &&
+      this.currentToken().value.toLowerCase() === 'within'
+    ) {
+      // "created at is within 5 minutes" → "created at is after 5 minutes ago"
+      operator = ComparisonOperator.IS_AFTER;
+      value = this.parseWithin();
+    } else if (
+      (operator !== ComparisonOperator.IS_EMPTY && operator !== ComparisonOperator.IS_NOT_EMPTY) ||
+      // "Post has no Comments" names the records that must be missing
+      !(this.check(TokenType.NEWLINE) || this.check(TokenType.AND) || this.isAtEnd())
+    ) {
       value = this.parseConditionValue();
     }
 
@@ -473,14 +524,37 @@ export class AUTHParser {
     if (token.type === TokenType.HAS) {
       this.advance();
       // "has no" pattern
-      if (this.check(TokenType.NOT)) {
+      if (this.check(TokenType.NOT) || this.currentToken().value.toLowerCase() === 'no') {
         this.advance();
         return ComparisonOperator.IS_EMPTY;
       }
       return ComparisonOperator.CONTAINS;
     }
 
-    throw new ParseError(`Expected comparison operator, got: ${token.value}`, token.start);
+    throw new ParseError(`Expected comparison operator, got: ${token.value}`, token, 'PARSE009');
+  }
+
+  /**
+   * Parse a time window ("within 5 minutes") as the time it starts from
+   * within ::= "within" number time_unit
+   */
+  private parseWithin(): ConditionValue {
+    this.advance(); // consume "within"
+    const numToken = this.consume(TokenType.NUMBER, 'Expected number after "within"');
+    if (!TIME_UNITS.has(this.currentToken().type)) {
+      throw new ParseError('Expected time unit after number', this.currentToken(), 'PARSE002');
+    }
+    const unitToken = this.advance();
+    return {
+      type: 'time',
+      expression: {
+        type: 'relative',
+        value: parseInt(numToken.value, 10),
+        unit: unitToken.value as TimeUnit,
+        start: numToken.start,
+        end: unitToken.end,
+      },
+    };
   }
 
   /**
@@ -513,14 +587,7 @@ export class AUTHParser {
       const numberValue = parseInt(numToken.value, 10);
 
       // Check if this is a time expression (e.g., "5 days ago")
-      if (
-        this.check(TokenType.MINUTES) ||
-        this.check(TokenType.HOURS) ||
-        this.check(TokenType.DAYS) ||
-        this.check(TokenType.WEEKS) ||
-        this.check(TokenType.MONTHS) ||
-        this.check(TokenType.YEARS)
-      ) {
+      if (TIME_UNITS.has(this.currentToken().type)) {
         const unitToken = this.advance();
         this.consume(TokenType.AGO, 'Expected "ago" after time unit');
         return {
@@ -570,7 +637,7 @@ export class AUTHParser {
     }
 
     if (parts.length === 0) {
-      throw new ParseError('Expected value', this.currentToken().start);
+      throw new ParseError('Expected value', this.currentToken());
     }
 
     return {
@@ -611,7 +678,11 @@ export class AUTHParser {
     }
 
     if (permissions.length === 0) {
-      throw new ParseError('Field rules section must have at least one permission', start);
+      throw new ParseError(
+        'Field rules section must have at least one permission',
+        { start, end: this.previousToken().end },
+        'PARSE015'
+      );
     }
 
     return {
@@ -619,6 +690,7 @@ export class AUTHParser {
       permissions,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -626,14 +698,39 @@ export class AUTHParser {
    * Parse field permission
    * field_permission ::= "-" subject "can" field_action field_name newline
    *                    | "-" subject "cannot" field_action field_name newline
+   *                    | "-" "only" mutation_name "mutation" "can" field_action field_name newline
    */
   private parseFieldPermission(): FieldPermission {
     const start = this.currentToken().start;
 
     this.consume(TokenType.DASH, 'Expected "-"');
 
-    // Parse subject
-    const subject = this.parseSubject();
+    // "only <mutation> mutation": the field is reserved for that mutation,
+    // whoever runs it
+    let mutation: string | undefined;
+    let subject: PermissionSubject = { type: SubjectType.ANYONE };
+    if (this.check(TokenType.ONLY)) {
+      this.advance();
+      const mutationStart = this.currentToken().start;
+      const mutationParts: string[] = [];
+      while (!this.check(TokenType.MUTATION) && !this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
+        mutationParts.push(this.advance().value);
+      }
+      if (mutationParts.length === 0) {
+        throw new ParseError(
+          'Expected mutation name after "only"',
+          this.currentToken(),
+          'PARSE015'
+        );
+      }
+      mutation = normalizeName(mutationParts.join(' '), {
+        start: mutationStart,
+        end: this.previousToken().end,
+      });
+      this.consume(TokenType.MUTATION, 'Expected "mutation" after mutation name');
+    } else {
+      subject = this.parseSubject();
+    }
 
     // Check for "can" or "cannot"
     let allowed = true;
@@ -648,16 +745,20 @@ export class AUTHParser {
     const action = this.parseFieldAction();
 
     // Parse field name (rest of the line until newline)
+    const fieldStart = this.currentToken().start;
     const fieldParts: string[] = [];
     while (!this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
       fieldParts.push(this.advance().value);
     }
 
     if (fieldParts.length === 0) {
-      throw new ParseError('Expected field name', this.currentToken().start);
+      throw new ParseError('Expected field name', this.currentToken(), 'PARSE003');
     }
 
-    const fieldName = normalizeIdentifier(fieldParts.join(' '));
+    const fieldName = normalizeName(fieldParts.join(' '), {
+      start: fieldStart,
+      end: this.previousToken().end,
+    });
 
     this.consumeNewline();
 
@@ -666,8 +767,10 @@ export class AUTHParser {
       action,
       fieldName,
       allowed,
+      ...(mutation ? { mutation } : {}),
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -694,7 +797,7 @@ export class AUTHParser {
       return FieldAction.SET;
     }
 
-    throw new ParseError('Expected field action (edit, read, set)', token.start);
+    throw new ParseError('Expected field action (edit, read, set)', token, 'PARSE015');
   }
 
   /**
@@ -745,12 +848,12 @@ export class AUTHParser {
       return this.advance();
     }
 
-    throw new ParseError(message, this.currentToken().start);
+    throw new ParseError(message, this.currentToken(), 'PARSE002');
   }
 
   private consumeNewline(): void {
     if (!this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
-      throw new ParseError('Expected newline', this.currentToken().start);
+      throw new ParseError('Expected newline', this.currentToken());
     }
     if (this.check(TokenType.NEWLINE)) {
       this.advance();
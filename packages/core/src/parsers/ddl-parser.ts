@@ -14,7 +14,7 @@
  * belongs_to     ::= "belongs to" model_reference
  */
 
-import { Token, TokenType, Position } from '../types/token.js';
+import { Token, TokenType } from '../types/token.js';
 import {
   DDLFile,
   ModelDefinition,
@@ -26,20 +26,29 @@ import {
   RelationshipType,
   ModelName,
 } from '../types/ast.js';
-import { normalizeIdentifier, parseModelName } from '../utils/identifier.js';
+import { normalizeName, parseModelName } from '../utils/identifier.js';
+import { ParseResult, parseWithRecovery } from './recovery.js';
+import { fileTrivia, lineTrivia } from './trivia.js';
+import { ParseError } from '../diagnostics/parse-error.js';
+import { replaceWith } from '../diagnostics/codes.js';
+import { findClosestMatch } from '../utils/suggestion.js';
+
+export { ParseError };
 
 /**
- * Parser error with position information
+ * Spellings suggested for unknown words in a type specification
  */
-export class ParseError extends Error {
-  constructor(
-    message: string,
-    public position: Position
-  ) {
-    super(message);
-    this.name = 'ParseError';
-  }
-}
+const FIELD_TYPE_NAMES = [
+  'text',
+  'long text',
+  'number',
+  'decimal',
+  'boolean',
+  'timestamp',
+  'json',
+  'uuid',
+];
+const CONSTRAINT_NAMES = ['unique', 'required', 'indexed'];
 
 /**
  * DDL Parser
@@ -70,16 +79,28 @@ export class DDLParser {
     }
 
     if (models.length === 0) {
-      throw new ParseError('Expected at least one model definition', start);
+      throw new ParseError('Expected at least one model definition', {
+        start,
+        end: this.currentToken().end,
+      });
     }
 
     return {
       models,
       start,
       end: this.previousToken().end,
+      ...fileTrivia(this.tokens),
     };
   }
 
+  /**
+   * Parse DDL file in recovery mode
+   * Reports every parse error instead of throwing the first one
+   */
+  parseWithDiagnostics(): ParseResult<DDLFile> {
+    return parseWithRecovery('ddl', this.tokens, (tokens) => new DDLParser(tokens).parse());
+  }
+
   /**
    * Parse model definition
    * model_def ::= model_declaration newline field_list
@@ -109,7 +130,10 @@ export class DDLParser {
     }
 
     if (items.length === 0) {
-      throw new ParseError('Model must have at least one field or relationship', start);
+      throw new ParseError('Model must have at least one field or relationship', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
     return {
@@ -117,6 +141,7 @@ export class DDLParser {
       items,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -144,7 +169,11 @@ export class DDLParser {
         } else if (token.type === TokenType.IDENTIFIER) {
           pluralSpec += token.value;
         } else {
-          throw new ParseError(`Unexpected token in pluralization: ${token.value}`, token.start);
+          throw new ParseError(
+            `Unexpected token in pluralization: ${token.value}`,
+            token,
+            'PARSE007'
+          );
         }
       }
 
@@ -153,15 +182,19 @@ export class DDLParser {
     }
 
     // Parse pluralization
-    const { singular, plural, originalForm } = parseModelName(fullModelName);
+    const end = this.previousToken().end;
+    let name: { singular: string; plural: string; originalForm: string };
+    try {
+      name = parseModelName(fullModelName);
+    } catch (error) {
+      throw new ParseError(
+        error instanceof Error ? error.message : String(error),
+        { start, end },
+        'PARSE007'
+      );
+    }
 
-    return {
-      singular,
-      plural,
-      originalForm,
-      start,
-      end: this.previousToken().end,
-    };
+    return { ...name, start, end };
   }
 
   /**
@@ -193,7 +226,20 @@ export class DDLParser {
         return this.parseFieldDefinition();
       }
     } else {
-      throw new ParseError('Expected field or relationship definition', this.currentToken().start);
+      // "- email as text" → suggest the missing "has"
+      const token = this.currentToken();
+      const fix =
+        token.type === TokenType.IDENTIFIER
+          ? {
+              description: "Insert 'has'",
+              replacement: 'has ',
+              start: token.start,
+              end: token.start,
+            }
+          : undefined;
+      throw new ParseError('Expected field or relationship definition', token, 'PARSE002', {
+        fix,
+      });
     }
   }
 
@@ -208,8 +254,12 @@ export class DDLParser {
     this.consume(TokenType.HAS, "Expected 'has' for field definition");
 
     // Parse field name (may be multi-word)
+    const nameStart = this.currentToken().start;
     const fieldName = this.parseFieldName();
-    const normalizedName = normalizeIdentifier(fieldName);
+    const normalizedName = normalizeName(fieldName, {
+      start: nameStart,
+      end: this.previousToken().end,
+    });
 
     this.consume(TokenType.AS, "Expected 'as' after field name");
 
@@ -223,6 +273,7 @@ export class DDLParser {
       constraints,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -252,7 +303,7 @@ export class DDLParser {
       // Stop at structural tokens
       if (structuralKeywords.has(token.type)) {
         if (token.type === TokenType.NEWLINE || token.type === TokenType.DASH) {
-          throw new ParseError("Expected 'as' after field name", token.start);
+          throw new ParseError("Expected 'as' after field name", token, 'PARSE002');
         }
         break;
       }
@@ -264,7 +315,7 @@ export class DDLParser {
     }
 
     if (parts.length === 0) {
-      throw new ParseError('Expected field name', this.currentToken().start);
+      throw new ParseError('Expected field name', this.currentToken(), 'PARSE003');
     }
 
     return parts.join(' ');
@@ -308,10 +359,14 @@ export class DDLParser {
       else if (token.type === TokenType.TEXT) {
         // Check for "long text"
         if (this.peekNext()?.type === TokenType.LONG) {
-          throw new ParseError('Invalid type order: use "long text" not "text long"', token.start);
+          throw new ParseError(
+            'Invalid type order: use "long text" not "text long"',
+            token,
+            'PARSE005'
+          );
         }
         if (fieldType !== null) {
-          throw new ParseError('Field type already specified', token.start);
+          throw new ParseError('Field type already specified', token, 'PARSE005');
         }
         fieldType = FieldType.TEXT;
         this.advance();
@@ -320,57 +375,69 @@ export class DDLParser {
         this.advance();
         this.consume(TokenType.TEXT, "Expected 'text' after 'long'");
         if (fieldType !== null) {
-          throw new ParseError('Field type already specified', token.start);
+          throw new ParseError('Field type already specified', token, 'PARSE005');
         }
         fieldType = FieldType.LONG_TEXT;
       } else if (token.type === TokenType.NUMBER_TYPE) {
         if (fieldType !== null) {
-          throw new ParseError('Field type already specified', token.start);
+          throw new ParseError('Field type already specified', token, 'PARSE005');
         }
         fieldType = FieldType.NUMBER;
         this.advance();
       } else if (token.type === TokenType.DECIMAL) {
         if (fieldType !== null) {
-          throw new ParseError('Field type already specified', token.start);
+          throw new ParseError('Field type already specified', token, 'PARSE005');
         }
         fieldType = FieldType.DECIMAL;
         this.advance();
       } else if (token.type === TokenType.BOOLEAN_TYPE) {
         if (fieldType !== null) {
-          throw new ParseError('Field type already specified', token.start);
+          throw new ParseError('Field type already specified', token, 'PARSE005');
         }
         fieldType = FieldType.BOOLEAN;
         this.advance();
       } else if (token.type === TokenType.TIMESTAMP) {
         if (fieldType !== null) {
-          throw new ParseError('Field type already specified', token.start);
+          throw new ParseError('Field type already specified', token, 'PARSE005');
         }
         fieldType = FieldType.TIMESTAMP;
         this.advance();
       } else if (token.type === TokenType.JSON) {
         if (fieldType !== null) {
-          throw new ParseError('Field type already specified', token.start);
+          throw new ParseError('Field type already specified', token, 'PARSE005');
         }
         fieldType = FieldType.JSON;
         this.advance();
       } else if (token.type === TokenType.UUID) {
         if (fieldType !== null) {
-          throw new ParseError('Field type already specified', token.start);
+          throw new ParseError('Field type already specified', token, 'PARSE005');
         }
         fieldType = FieldType.UUID;
         this.advance();
       } else {
-        throw new ParseError(`Unexpected token in type specification: ${token.value}`, token.start);
+        throw this.typeSpecificationError(token);
       }
     }
 
     if (fieldType === null) {
-      throw new ParseError('Expected field type', this.currentToken().start);
+      throw new ParseError('Expected field type', this.currentToken(), 'PARSE005');
     }
 
     return { type: fieldType, constraints };
   }
 
+  /**
+   * Error for an unknown word in a type specification
+   * Suggests the closest field type (PARSE005) or constraint (PARSE006)
+   */
+  private typeSpecificationError(token: Token): ParseError {
+    const suggestion = findClosestMatch(token.value, [...FIELD_TYPE_NAMES, ...CONSTRAINT_NAMES]);
+    const code = suggestion && CONSTRAINT_NAMES.includes(suggestion) ? 'PARSE006' : 'PARSE005';
+    return new ParseError(`Unexpected token in type specification: ${token.value}`, token, code, {
+      fix: suggestion ? replaceWith(suggestion, token.start, token.end) : undefined,
+    });
+  }
+
   /**
    * Parse relationship
    * relationship ::= has_many | belongs_to
@@ -394,7 +461,7 @@ export class DDLParser {
       this.consume(TokenType.TO, "Expected 'to' after 'belongs'");
       relationshipType = RelationshipType.BELONGS_TO;
     } else {
-      throw new ParseError('Expected relationship keyword', this.currentToken().start);
+      throw new ParseError('Expected relationship keyword', this.currentToken());
     }
 
     // Parse target model (singular form)
@@ -408,6 +475,7 @@ export class DDLParser {
       targetModel,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -467,12 +535,12 @@ export class DDLParser {
       return this.advance();
     }
 
-    throw new ParseError(message, this.currentToken().start);
+    throw new ParseError(message, this.currentToken(), 'PARSE002');
   }
 
   private consumeNewline(): void {
     if (!this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
-      throw new ParseError('Expected newline', this.currentToken().start);
+      throw new ParseError('Expected newline', this.currentToken());
     }
     if (this.check(TokenType.NEWLINE)) {
       this.advance();
@@ -9,7 +9,7 @@
  * computed_def  ::= "Computed for" model_name ":" newline computed_item+
  */
 
-import { Token, TokenType, Position } from '../types/token.js';
+import { Token, TokenType } from '../types/token.js';
 import {
   DMLFile,
   DMLSection,
@@ -32,20 +32,12 @@ import {
   MutationAction,
   ComputedAggregation,
 } from '../types/ast.js';
-import { normalizeIdentifier } from '../utils/identifier.js';
+import { normalizeName } from '../utils/identifier.js';
+import { ParseResult, parseWithRecovery } from './recovery.js';
+import { fileTrivia, lineTrivia } from './trivia.js';
+import { ParseError } from '../diagnostics/parse-error.js';
 
-/**
- * Parser error with position information
- */
-export class ParseError extends Error {
-  constructor(
-    message: string,
-    public position: Position
-  ) {
-    super(message);
-    this.name = 'ParseError';
-  }
-}
+export { ParseError };
 
 /**
  * DML Parser
@@ -76,16 +68,28 @@ export class DMLParser {
     }
 
     if (sections.length === 0) {
-      throw new ParseError('Expected at least one query, mutation, or computed definition', start);
+      throw new ParseError('Expected at least one query, mutation, or computed definition', {
+        start,
+        end: this.currentToken().end,
+      });
     }
 
     return {
       sections,
       start,
       end: this.previousToken().end,
+      ...fileTrivia(this.tokens),
     };
   }
 
+  /**
+   * Parse DML file in recovery mode
+   * Reports every parse error instead of throwing the first one
+   */
+  parseWithDiagnostics(): ParseResult<DMLFile> {
+    return parseWithRecovery('dml', this.tokens, (tokens) => new DMLParser(tokens).parse());
+  }
+
   /**
    * Parse a section (query, mutation, or computed)
    */
@@ -101,11 +105,28 @@ export class DMLParser {
     } else {
       throw new ParseError(
         'Expected "Query", "Mutation", or "Computed" keyword',
-        this.currentToken().start
+        this.currentToken(),
+        'PARSE002'
       );
     }
   }
 
+  /**
+   * Parse the model name of a section header
+   * Keywords are accepted as model names (e.g., "Users" is a USERS keyword)
+   */
+  private parseModelName(): string {
+    const token = this.currentToken();
+    if (
+      token.type === TokenType.EOF ||
+      token.type === TokenType.NEWLINE ||
+      token.type === TokenType.COLON
+    ) {
+      throw new ParseError('Expected model name', token);
+    }
+    return this.advance().value;
+  }
+
   /**
    * Parse query section
    * query_def ::= "Query for" model_name ":" newline query_item+
@@ -116,7 +137,7 @@ export class DMLParser {
     this.consume(TokenType.QUERY, 'Expected "Query" keyword');
     this.consume(TokenType.FOR, 'Expected "for" after "Query"');
 
-    const modelName = this.consume(TokenType.IDENTIFIER, 'Expected model name').value;
+    const modelName = this.parseModelName();
     this.consume(TokenType.COLON, 'Expected ":" after model name');
     this.consumeNewline();
 
@@ -131,7 +152,11 @@ export class DMLParser {
     }
 
     if (queries.length === 0) {
-      throw new ParseError('Query section must have at least one query', start);
+      throw new ParseError(
+        'Query section must have at least one query',
+        { start, end: this.previousToken().end },
+        'PARSE013'
+      );
     }
 
     return {
@@ -139,6 +164,7 @@ export class DMLParser {
       queries,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -152,7 +178,7 @@ export class DMLParser {
     this.consume(TokenType.MUTATION, 'Expected "Mutation" keyword');
     this.consume(TokenType.FOR, 'Expected "for" after "Mutation"');
 
-    const modelName = this.consume(TokenType.IDENTIFIER, 'Expected model name').value;
+    const modelName = this.parseModelName();
     this.consume(TokenType.COLON, 'Expected ":" after model name');
     this.consumeNewline();
 
@@ -167,7 +193,11 @@ export class DMLParser {
     }
 
     if (mutations.length === 0) {
-      throw new ParseError('Mutation section must have at least one mutation', start);
+      throw new ParseError(
+        'Mutation section must have at least one mutation',
+        { start, end: this.previousToken().end },
+        'PARSE014'
+      );
     }
 
     return {
@@ -175,6 +205,7 @@ export class DMLParser {
       mutations,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -188,7 +219,7 @@ export class DMLParser {
     this.consume(TokenType.COMPUTED, 'Expected "Computed" keyword');
     this.consume(TokenType.FOR, 'Expected "for" after "Computed"');
 
-    const modelName = this.consume(TokenType.IDENTIFIER, 'Expected model name').value;
+    const modelName = this.parseModelName();
     this.consume(TokenType.COLON, 'Expected ":" after model name');
     this.consumeNewline();
 
@@ -203,7 +234,10 @@ export class DMLParser {
     }
 
     if (computed.length === 0) {
-      throw new ParseError('Computed section must have at least one computed field', start);
+      throw new ParseError('Computed section must have at least one computed field', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
     return {
@@ -211,6 +245,7 @@ export class DMLParser {
       computed,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -232,6 +267,11 @@ export class DMLParser {
     let limitClause: LimitClause | undefined;
 
     while (!this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
+      // Clauses may be separated by commas ("…7 days ago, sorted by…")
+      if (this.check(TokenType.COMMA)) {
+        this.advance();
+        continue;
+      }
       if (this.check(TokenType.WHERE)) {
         whereClause = this.parseWhereClause();
       } else if (this.check(TokenType.SORTED)) {
@@ -241,7 +281,8 @@ export class DMLParser {
       } else {
         throw new ParseError(
           `Unexpected token in query: ${this.currentToken().value}`,
-          this.currentToken().start
+          this.currentToken(),
+          'PARSE013'
         );
       }
     }
@@ -249,13 +290,14 @@ export class DMLParser {
     this.consumeNewline();
 
     return {
-      name: normalizeIdentifier(queryName),
+      name: normalizeName(queryName, { start, end: this.previousToken().end }),
       originalName: queryName,
       whereClause,
       sortClause,
       limitClause,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -277,11 +319,12 @@ export class DMLParser {
     this.consumeNewline();
 
     return {
-      name: normalizeIdentifier(mutationName),
+      name: normalizeName(mutationName, { start, end: this.previousToken().end }),
       originalName: mutationName,
       action,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -303,11 +346,12 @@ export class DMLParser {
     this.consumeNewline();
 
     return {
-      fieldName: normalizeIdentifier(fieldName),
+      fieldName: normalizeName(fieldName, { start, end: this.previousToken().end }),
       originalFieldName: fieldName,
       aggregation,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -337,7 +381,7 @@ export class DMLParser {
     }
 
     if (parts.length === 0) {
-      throw new ParseError('Expected query name', this.currentToken().start);
+      throw new ParseError('Expected query name', this.currentToken(), 'PARSE013');
     }
 
     return parts.join(' ');
@@ -361,7 +405,7 @@ export class DMLParser {
     }
 
     if (parts.length === 0) {
-      throw new ParseError('Expected mutation name', this.currentToken().start);
+      throw new ParseError('Expected mutation name', this.currentToken(), 'PARSE014');
     }
 
     return parts.join(' ');
@@ -387,7 +431,7 @@ export class DMLParser {
     }
 
     if (parts.length === 0) {
-      throw new ParseError('Expected computed field name', this.currentToken().start);
+      throw new ParseError('Expected computed field name', this.currentToken(), 'PARSE003');
     }
 
     return parts.join(' ');
@@ -425,7 +469,10 @@ export class DMLParser {
     const start = this.currentToken().start;
 
     // Parse field name (until comparison operator)
-    const field = this.parseFieldNameInCondition();
+    const field = normalizeName(this.parseFieldNameInCondition(), {
+      start,
+      end: this.previousToken().end,
+    });
 
     // Parse operator
     const operator = this.parseComparisonOperator();
@@ -436,10 +483,19 @@ export class DMLParser {
       value = this.parseConditionValue();
     }
 
+    // "is between <value> and <value>": the "and" starts the upper bound when
+    // a value follows it, another condition otherwise
+    let upperValue: ConditionValue | undefined;
+    if (operator === ComparisonOperator.IS_BETWEEN && this.isUpperBound()) {
+      this.advance(); // consume "and"
+      upperValue = this.parseConditionValue();
+    }
+
     return {
-      field: normalizeIdentifier(field),
+      field,
       operator,
       value,
+      upperValue,
       start,
       end: this.previousToken().end,
     };
@@ -460,8 +516,12 @@ export class DMLParser {
       TokenType.ENDS,
     ]);
 
-    // Read until we hit a comparison operator
-    while (!comparisonKeywords.has(this.currentToken().type) && !this.isAtEnd()) {
+    // Read until we hit a comparison operator; a leading "is" belongs to the
+    // field name ("is approved is true")
+    while (
+      (parts.length === 0 || !comparisonKeywords.has(this.currentToken().type)) &&
+      !this.isAtEnd()
+    ) {
       const token = this.currentToken();
 
       // Stop at structural tokens
@@ -478,7 +538,7 @@ export class DMLParser {
     }
 
     if (parts.length === 0) {
-      throw new ParseError('Expected field name', this.currentToken().start);
+      throw new ParseError('Expected field name', this.currentToken(), 'PARSE003');
     }
 
     return parts.join(' ');
@@ -533,7 +593,8 @@ export class DMLParser {
     } else {
       throw new ParseError(
         `Expected comparison operator, got: ${token.value}`,
-        this.currentToken().start
+        this.currentToken(),
+        'PARSE009'
       );
     }
   }
@@ -591,6 +652,7 @@ export class DMLParser {
     const parts: string[] = [];
     while (
       !this.check(TokenType.AND) &&
+      !this.check(TokenType.COMMA) &&
       !this.check(TokenType.SORTED) &&
       !this.check(TokenType.LIMITED) &&
       !this.check(TokenType.NEWLINE) &&
@@ -600,7 +662,7 @@ export class DMLParser {
     }
 
     if (parts.length === 0) {
-      throw new ParseError('Expected value', this.currentToken().start);
+      throw new ParseError('Expected value', this.currentToken());
     }
 
     return {
@@ -609,6 +671,21 @@ export class DMLParser {
     };
   }
 
+  /**
+   * Check if current position is "and" followed by the upper bound of "is between"
+   */
+  private isUpperBound(): boolean {
+    const next = this.peekNext();
+    if (!this.check(TokenType.AND) || !next) {
+      return false;
+    }
+    return (
+      [TokenType.NUMBER, TokenType.STRING, TokenType.TRUE, TokenType.FALSE, TokenType.NOW].includes(
+        next.type
+      ) || next.value.toLowerCase() === 'given'
+    );
+  }
+
   /**
    * Check if current position is a time expression
    */
@@ -725,7 +802,7 @@ export class DMLParser {
       this.advance();
       return TimeUnit.YEARS;
     } else {
-      throw new ParseError(`Expected time unit, got: ${token.value}`, token.start);
+      throw new ParseError(`Expected time unit, got: ${token.value}`, token, 'PARSE008');
     }
   }
 
@@ -740,6 +817,7 @@ export class DMLParser {
     this.consume(TokenType.BY, 'Expected "by" after "sorted"');
 
     // Parse field name (until direction keyword or newline)
+    const fieldStart = this.currentToken().start;
     const fieldParts: string[] = [];
     while (
       !this.check(TokenType.ASCENDING) &&
@@ -754,10 +832,17 @@ export class DMLParser {
     }
 
     if (fieldParts.length === 0) {
-      throw new ParseError('Expected field name after "sorted by"', this.currentToken().start);
+      throw new ParseError(
+        'Expected field name after "sorted by"',
+        this.currentToken(),
+        'PARSE003'
+      );
     }
 
-    const field = normalizeIdentifier(fieldParts.join(' '));
+    const field = normalizeName(fieldParts.join(' '), {
+      start: fieldStart,
+      end: this.previousToken().end,
+    });
 
     // Parse direction (optional, defaults to ascending)
     let direction = SortDirection.ASCENDING;
@@ -818,16 +903,24 @@ export class DMLParser {
       this.advance();
 
       // Parse field name (until "by")
+      const fieldStart = this.currentToken().start;
       const fieldParts: string[] = [];
       while (!this.check(TokenType.BY) && !this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
         fieldParts.push(this.advance().value);
       }
 
       if (fieldParts.length === 0) {
-        throw new ParseError('Expected field name after "increases"', this.currentToken().start);
+        throw new ParseError(
+          'Expected field name after "increases"',
+          this.currentToken(),
+          'PARSE003'
+        );
       }
 
-      const field = normalizeIdentifier(fieldParts.join(' '));
+      const field = normalizeName(fieldParts.join(' '), {
+        start: fieldStart,
+        end: this.previousToken().end,
+      });
 
       this.consume(TokenType.BY, 'Expected "by" after field name');
 
@@ -840,7 +933,11 @@ export class DMLParser {
         amount,
       };
     } else {
-      throw new ParseError('Expected "sets" or "increases" keyword', this.currentToken().start);
+      throw new ParseError(
+        'Expected "sets" or "increases" keyword',
+        this.currentToken(),
+        'PARSE014'
+      );
     }
   }
 
@@ -875,10 +972,10 @@ export class DMLParser {
     }
 
     if (fieldParts.length === 0) {
-      throw new ParseError('Expected field name in assignment', this.currentToken().start);
+      throw new ParseError('Expected field name in assignment', this.currentToken(), 'PARSE003');
     }
 
-    const field = normalizeIdentifier(fieldParts.join(' '));
+    const field = normalizeName(fieldParts.join(' '), { start, end: this.previousToken().end });
 
     this.consume(TokenType.TO, 'Expected "to" after field name');
 
@@ -936,7 +1033,7 @@ export class DMLParser {
       }
 
       if (fieldParts.length === 0) {
-        throw new ParseError('Expected field name after "."', this.currentToken().start);
+        throw new ParseError('Expected field name after "."', this.currentToken(), 'PARSE003');
       }
 
       const field = fieldParts.join(' ');
@@ -966,7 +1063,17 @@ export class DMLParser {
       this.advance();
       this.consume(TokenType.FROM, 'Expected "from" after "calculates"');
 
-      const field = this.consume(TokenType.IDENTIFIER, 'Expected field name after "from"').value;
+      // Field name may be multi-word ("content length")
+      const fieldParts: string[] = [];
+      while (!this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
+        fieldParts.push(this.advance().value);
+      }
+
+      if (fieldParts.length === 0) {
+        throw new ParseError('Expected field name after "from"', this.currentToken(), 'PARSE003');
+      }
+
+      const field = fieldParts.join(' ');
 
       return {
         type: 'calculates',
@@ -975,7 +1082,8 @@ export class DMLParser {
     } else {
       throw new ParseError(
         'Expected "counts", "sums", "returns", or "calculates" keyword',
-        this.currentToken().start
+        this.currentToken(),
+        'PARSE018'
       );
     }
   }
@@ -1036,12 +1144,12 @@ export class DMLParser {
       return this.advance();
     }
 
-    throw new ParseError(message, this.currentToken().start);
+    throw new ParseError(message, this.currentToken(), 'PARSE002');
   }
 
   private consumeNewline(): void {
     if (!this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
-      throw new ParseError('Expected newline', this.currentToken().start);
+      throw new ParseError('Expected newline', this.currentToken());
     }
     if (this.check(TokenType.NEWLINE)) {
       this.advance();
@@ -0,0 +1,278 @@
+/**
+ * Incremental parsing for DeclareLang
+ * Keeps the text, tokens, AST and diagnostics of a DSL file together, so that
+ * after an edit only the touched lines are re-lexed and only the touched
+ * top-level sections are re-parsed (for editors and the playground)
+ *
+ * Files that are a list of sections (DDL models, DML Query/Mutation/Computed
+ * sections, SEED sections) re-parse the sections from the one above the edit
+ * up to the first section below it; the others are re-parsed as a whole.
+ * Sections above the edit are reused as they are, sections below it are moved
+ * to their new positions. The result always equals parsing the edited text in
+ * full; whenever reusing sections could change it (e.g. the first or the last
+ * line of the file failed to parse), the file is parsed in full instead.
+ */
+
+import { Token, TokenType, TokenizerError } from '../types/token.js';
+import { BaseNode } from '../types/ast.js';
+import { DeclareDiagnostic } from '../types/diagnostic.js';
+import { DSLFileKind, DSLFileMap } from '../types/project.js';
+import { Tokenizer } from '../tokenizer/tokenizer.js';
+import { IncrementalTokens, retokenize } from '../tokenizer/incremental.js';
+import { TextEdit, applyTextEdit, shiftPositions } from '../utils/source.js';
+import { DDLParser } from './ddl-parser.js';
+import { DMLParser } from './dml-parser.js';
+import { AUTHParser } from './auth-parser.js';
+import { VALIDATIONParser } from './validation-parser.js';
+import { APIParser } from './api-parser.js';
+import { MONITORParser } from './monitor-parser.js';
+import { LOGParser } from './log-parser.js';
+import { SECURITYParser } from './security-parser.js';
+import { SEEDParser } from './seed-parser.js';
+import { ParseResult, createEmptyFile, isBlank } from './recovery.js';
+import { fileTrivia, lineTrivia } from './trivia.js';
+
+/**
+ * A parsed DSL file
+ */
+export interface ParsedDocument<K extends DSLFileKind = DSLFileKind> {
+  kind: K;
+  text: string;
+  tokens: Token[]; // empty when the text cannot be tokenized
+  ast: DSLFileMap[K]; // partial AST (see parseWithRecovery)
+  diagnostics: DeclareDiagnostic[];
+}
+
+/**
+ * Parser entry point in recovery mode for each file kind
+ */
+const RECOVERING_PARSERS: {
+  [K in DSLFileKind]: (tokens: Token[]) => ParseResult<DSLFileMap[K]>;
+} = {
+  ddl: (tokens) => new DDLParser(tokens).parseWithDiagnostics(),
+  dml: (tokens) => new DMLParser(tokens).parseWithDiagnostics(),
+  auth: (tokens) => new AUTHParser(tokens).parseWithDiagnostics(),
+  validation: (tokens) => new VALIDATIONParser(tokens).parseWithDiagnostics(),
+  api: (tokens) => new APIParser(tokens).parseWithDiagnostics(),
+  monitor: (tokens) => new MONITORParser(tokens).parseWithDiagnostics(),
+  log: (tokens) => new LOGParser(tokens).parseWithDiagnostics(),
+  security: (tokens) => new SECURITYParser(tokens).parseWithDiagnostics(),
+  seed: (tokens) => new SEEDParser(tokens).parseWithDiagnostics(),
+};
+
+/**
+ * Property holding the top-level sections of files that are a list of sections
+ */
+const SECTION_LISTS: { [K in DSLFileKind]?: string } = {
+  ddl: 'models',
+  dml: 'sections',
+  seed: 'sections',
+};
+
+/**
+ * Parse a DSL file in recovery mode
+ * A tokenizer error leaves the whole file empty; files with only comments and
+ * blank lines (other than ddl.dsl) become empty ASTs
+ *
+ * @param kind - DSL file kind
+ * @param text - Source text
+ * @returns Parsed document with every diagnostic of the file
+ */
+export function parseDocument<K extends DSLFileKind>(kind: K, text: string): ParsedDocument<K> {
+  let tokens: Token[];
+  try {
+    tokens = new Tokenizer(text).tokenize();
+  } catch (error) {
+    if (!(error instanceof TokenizerError)) {
+      throw error;
+    }
+    return { kind, text, tokens: [], ast: createEmptyFile(kind), diagnostics: [error.diagnostic] };
+  }
+
+  return { kind, text, tokens, ...parseTokens(kind, tokens) };
+}
+
+/**
+ * Parse a DSL file again after an edit, reusing what the edit did not touch
+ *
+ * @param document - Document before the edit (left unchanged)
+ * @param edit - Edit to apply to the document text
+ * @returns Parsed document of the edited text, equal to parseDocument() of that text
+ */
+export function updateDocument<K extends DSLFileKind>(
+  document: ParsedDocument<K>,
+  edit: TextEdit
+): ParsedDocument<K> {
+  const { kind } = document;
+  if (document.tokens.length === 0) {
+    return parseDocument(kind, applyTextEdit(document.text, edit));
+  }
+
+  let relexed: IncrementalTokens;
+  try {
+    relexed = retokenize(document.text, document.tokens, edit);
+  } catch (error) {
+    if (!(error instanceof TokenizerError)) {
+      throw error;
+    }
+    return {
+      kind,
+      text: applyTextEdit(document.text, edit),
+      tokens: [],
+      ast: createEmptyFile(kind),
+      diagnostics: [error.diagnostic],
+    };
+  }
+
+  const { text, tokens } = relexed;
+  return reparseSections(document, relexed) ?? { kind, text, tokens, ...parseTokens(kind, tokens) };
+}
+
+function parseTokens<K extends DSLFileKind>(kind: K, tokens: Token[]): ParseResult<DSLFileMap[K]> {
+  if (isBlank(tokens) && kind !== 'ddl') {
+    return { ast: createEmptyFile(kind), diagnostics: [] };
+  }
+  return RECOVERING_PARSERS[kind](tokens);
+}
+
+/**
+ * Re-parse only the sections around the re-lexed range
+ * Returns undefined when the file has to be parsed in full
+ */
+function reparseSections<K extends DSLFileKind>(
+  document: ParsedDocument<K>,
+  relexed: IncrementalTokens
+): ParsedDocument<K> | undefined {
+  const { kind } = document;
+  const key = SECTION_LISTS[kind];
+  const sections = key ? getSections(document.ast, key) : [];
+  if (!key || sections.length === 0) {
+    return undefined;
+  }
+
+  const { text, tokens } = relexed;
+  const delta = text.length - document.text.length;
+  const changeStart = relexed.start;
+  const changeEnd = relexed.end - delta;
+
+  // Re-parse from the section above the change (its items may continue below
+  // it) up to the first section that starts after the change
+  const below = sections.findIndex((section) => section.start.offset > changeStart);
+  const first = Math.max((below < 0 ? sections.length : below) - 1, 0);
+  const next = sections.findIndex(
+    (section, index) => index >= first && section.start.offset >= changeEnd
+  );
+  const before = sections.slice(0, first);
+  const after = next < 0 ? [] : sections.slice(next);
+  const from = below === 0 ? 0 : (sections[first]?.start.offset ?? 0);
+  const to = after[0]?.start.offset;
+
+  const sliceStart = tokenAt(tokens, from);
+  const sliceEnd = to === undefined ? tokens.length - 1 : tokenAt(tokens, to + delta);
+  const nextToken = tokens[sliceEnd];
+  if (!nextToken) {
+    return undefined;
+  }
+  const slice = [
+    ...tokens.slice(sliceStart, sliceEnd),
+    to === undefined
+      ? nextToken
+      : { type: TokenType.EOF, value: '', start: nextToken.start, end: nextToken.start },
+  ];
+  const lines = after[0] ? nextToken.start.line - after[0].start.line : 0;
+
+  const parsed: ParseResult<BaseNode[]> = isBlank(slice)
+    ? { ast: [], diagnostics: [] }
+    : toSections(RECOVERING_PARSERS[kind](slice), key);
+  const filtered = tokens.filter((t) => t.type !== TokenType.COMMENT);
+  const firstParsed = parsed.ast[0];
+  if (firstParsed && before.length > 0) {
+    // The slice started a file of its own; this section is not on the first line
+    const { leadingTrivia } = lineTrivia(filtered, firstParsed.start);
+    if (leadingTrivia) {
+      firstParsed.leadingTrivia = leadingTrivia;
+    }
+  }
+
+  const merged = [...before, ...parsed.ast, ...shiftPositions(after, delta, lines)];
+  const firstToken = filtered[0];
+  const lastToken = filtered[filtered.length - 2];
+  if (!firstToken || !lastToken || !coversFile(filtered, merged)) {
+    return undefined;
+  }
+
+  const diagnostics = [
+    ...document.diagnostics.filter((d) => d.start.offset < from),
+    ...parsed.diagnostics.map((d) => widenAt(d, nextToken)),
+    ...shiftPositions(
+      document.diagnostics.filter((d) => to !== undefined && d.start.offset >= to),
+      delta,
+      lines
+    ),
+  ];
+
+  const ast = {
+    [key]: merged,
+    start: firstToken.start,
+    end: lastToken.end,
+    ...fileTrivia(filtered),
+  } as unknown as DSLFileMap[K];
+
+  return { kind, text, tokens, ast, diagnostics };
+}
+
+function getSections(file: DSLFileMap[DSLFileKind], key: string): BaseNode[] {
+  return (file as unknown as Record<string, BaseNode[] | undefined>)[key] ?? [];
+}
+
+function toSections(
+  result: ParseResult<DSLFileMap[DSLFileKind]>,
+  key: string
+): ParseResult<BaseNode[]> {
+  return { ast: getSections(result.ast, key), diagnostics: result.diagnostics };
+}
+
+/**
+ * Whether the sections start on the first line and end on the last line of the
+ * file; otherwise a line outside them failed to parse, and the recovering
+ * parser builds the file node from the lines that are left
+ */
+function coversFile(filtered: Token[], sections: BaseNode[]): boolean {
+  const first = filtered.find((t) => t.type !== TokenType.NEWLINE);
+  const last = filtered[filtered.length - 2];
+  return (
+    sections.length > 0 &&
+    first?.start.offset === sections[0]?.start.offset &&
+    last?.end.offset === sections[sections.length - 1]?.end.offset
+  );
+}
+
+/**
+ * The slice ends with an EOF token where the next section starts; widen an
+ * error reported there to that section's first token, as parsing in full does
+ */
+function widenAt(diagnostic: DeclareDiagnostic, token: Token): DeclareDiagnostic {
+  const atToken =
+    diagnostic.start.offset === token.start.offset &&
+    diagnostic.end.offset === diagnostic.start.offset;
+  return atToken && token.type !== TokenType.EOF && token.type !== TokenType.NEWLINE
+    ? { ...diagnostic, end: token.end }
+    : diagnostic;
+}
+
+/**
+ * Index of the first token starting at or after an offset
+ */
+function tokenAt(tokens: Token[], offset: number): number {
+  let low = 0;
+  let high = tokens.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if ((tokens[middle]?.start.offset ?? offset) >= offset) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+}
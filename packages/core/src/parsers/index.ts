@@ -11,4 +11,7 @@ export { MONITORParser } from './monitor-parser.js';
 export { LOGParser } from './log-parser.js';
 export { SECURITYParser } from './security-parser.js';
 export { SEEDParser } from './seed-parser.js';
-export { ParseError } from './ddl-parser.js';
+export { parseWithRecovery } from './recovery.js';
+export type { ParseResult } from './recovery.js';
+export { parseDocument, updateDocument } from './incremental.js';
+export type { ParsedDocument } from './incremental.js';
@@ -41,8 +41,10 @@ import {
   ModelName,
   ThresholdUnit,
 } from '../types/ast.js';
-import { ParseError } from './ddl-parser.js';
+import { ParseError } from '../diagnostics/parse-error.js';
 import { parseModelName } from '../utils/identifier.js';
+import { ParseResult, parseWithRecovery } from './recovery.js';
+import { fileTrivia, lineTrivia, sectionTrivia } from './trivia.js';
 
 export class LOGParser {
   private tokens: Token[];
@@ -74,6 +76,7 @@ export class LOGParser {
         levels: [],
         start,
         end: this.currentToken().end,
+        ...fileTrivia(this.tokens),
       };
     }
 
@@ -96,14 +99,11 @@ export class LOGParser {
         audits.push(this.parseAuditSection());
       } else if (token.type === TokenType.EXCLUDE) {
         if (exclude) {
-          throw new ParseError('Duplicate Exclude section', token.start);
+          throw new ParseError('Duplicate Exclude section', token);
         }
         exclude = this.parseExcludeSection();
       } else {
-        throw new ParseError(
-          `Unexpected token in LOG file: ${token.type} "${token.value}"`,
-          token.start
-        );
+        throw new ParseError(`Unexpected token in LOG file: ${token.type} "${token.value}"`, token);
       }
 
       this.skipNewlines();
@@ -116,9 +116,18 @@ export class LOGParser {
       exclude,
       start,
       end: this.previousToken().end,
+      ...fileTrivia(this.tokens),
     };
   }
 
+  /**
+   * Parse LOG file in recovery mode
+   * Reports every parse error instead of throwing the first one
+   */
+  parseWithDiagnostics(): ParseResult<LOGFile> {
+    return parseWithRecovery('log', this.tokens, (tokens) => new LOGParser(tokens).parse());
+  }
+
   /**
    * Parse "Log for X:" section
    */
@@ -147,7 +156,7 @@ export class LOGParser {
     }
 
     if (items.length === 0) {
-      throw new ParseError('Expected at least one log item', this.currentToken().start);
+      throw new ParseError('Expected at least one log item', this.currentToken());
     }
 
     return {
@@ -155,6 +164,7 @@ export class LOGParser {
       items,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -212,6 +222,7 @@ export class LOGParser {
         detail,
         start,
         end: this.previousToken().end,
+        ...lineTrivia(this.tokens, start),
       };
     } else {
       // This is a simple field
@@ -224,6 +235,7 @@ export class LOGParser {
         field,
         start,
         end: this.previousToken().end,
+        ...lineTrivia(this.tokens, start),
       };
     }
   }
@@ -314,7 +326,7 @@ export class LOGParser {
     }
 
     if (items.length === 0) {
-      throw new ParseError('Expected at least one audit item', this.currentToken().start);
+      throw new ParseError('Expected at least one audit item', this.currentToken());
     }
 
     return {
@@ -322,6 +334,7 @@ export class LOGParser {
       items,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -347,6 +360,7 @@ export class LOGParser {
         action,
         start,
         end: this.previousToken().end,
+        ...lineTrivia(this.tokens, start),
       };
     }
 
@@ -361,6 +375,7 @@ export class LOGParser {
         event,
         start,
         end: this.previousToken().end,
+        ...lineTrivia(this.tokens, start),
       };
     }
 
@@ -373,6 +388,7 @@ export class LOGParser {
       field,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -407,7 +423,7 @@ export class LOGParser {
     }
 
     if (conditions.length === 0) {
-      throw new ParseError('Expected at least one condition', this.currentToken().start);
+      throw new ParseError('Expected at least one condition', this.currentToken());
     }
 
     return {
@@ -415,6 +431,7 @@ export class LOGParser {
       conditions,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -440,7 +457,7 @@ export class LOGParser {
       default:
         throw new ParseError(
           `Expected log level (debug, info, warning, error), got "${token.value}"`,
-          token.start
+          token
         );
     }
   }
@@ -505,6 +522,7 @@ export class LOGParser {
       unit,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -546,7 +564,7 @@ export class LOGParser {
       this.currentToken().type !== TokenType.IDENTIFIER ||
       this.currentToken().value.toLowerCase() !== 'logs'
     ) {
-      throw new ParseError('Expected "logs" after "from"', this.currentToken().start);
+      throw new ParseError('Expected "logs" after "from"', this.currentToken(), 'PARSE002');
     }
     this.advance();
 
@@ -565,13 +583,15 @@ export class LOGParser {
     }
 
     if (items.length === 0) {
-      throw new ParseError('Expected at least one exclude item', this.currentToken().start);
+      throw new ParseError('Expected at least one exclude item', this.currentToken());
     }
 
+    const end = this.previousToken().end;
     return {
       items,
       start,
-      end: this.previousToken().end,
+      end,
+      ...sectionTrivia(this.tokens, start, end),
     };
   }
 
@@ -602,7 +622,7 @@ export class LOGParser {
     }
 
     if (parts.length === 0) {
-      throw new ParseError('Expected action name', this.currentToken().start);
+      throw new ParseError('Expected action name', this.currentToken());
     }
 
     return parts.join(' ');
@@ -634,7 +654,7 @@ export class LOGParser {
     }
 
     if (parts.length === 0) {
-      throw new ParseError('Expected field name', this.currentToken().start);
+      throw new ParseError('Expected field name', this.currentToken(), 'PARSE003');
     }
 
     return parts.join(' ');
@@ -654,7 +674,7 @@ export class LOGParser {
       token.type === TokenType.NEWLINE ||
       token.type === TokenType.COLON
     ) {
-      throw new ParseError('Expected model name', token.start);
+      throw new ParseError('Expected model name', token);
     }
 
     let fullModelName = token.value;
@@ -736,7 +756,7 @@ export class LOGParser {
 
   private expect(type: TokenType, message: string): Token {
     if (this.currentToken().type !== type) {
-      throw new ParseError(message, this.currentToken().start);
+      throw new ParseError(message, this.currentToken(), 'PARSE002');
     }
     return this.advance();
   }
@@ -37,7 +37,9 @@ import {
   DashboardDefinition,
   DashboardMetric,
 } from '../types/ast.js';
-import { ParseError } from './ddl-parser.js';
+import { ParseError } from '../diagnostics/parse-error.js';
+import { ParseResult, parseWithRecovery } from './recovery.js';
+import { fileTrivia, lineTrivia } from './trivia.js';
 
 export class MONITORParser {
   private tokens: Token[];
@@ -68,6 +70,7 @@ export class MONITORParser {
         alerts: [],
         start,
         end: this.currentToken().end,
+        ...fileTrivia(this.tokens),
       };
     }
 
@@ -84,18 +87,18 @@ export class MONITORParser {
         alerts.push(this.parseAlertSection());
       } else if (token.type === TokenType.MONITOR) {
         if (monitorConfig) {
-          throw new ParseError('Duplicate Monitor section', token.start);
+          throw new ParseError('Duplicate Monitor section', token);
         }
         monitorConfig = this.parseMonitorConfigSection();
       } else if (token.type === TokenType.DASHBOARD) {
         if (dashboard) {
-          throw new ParseError('Duplicate Dashboard section', token.start);
+          throw new ParseError('Duplicate Dashboard section', token);
         }
         dashboard = this.parseDashboardSection();
       } else {
         throw new ParseError(
           `Unexpected token in MONITOR file: ${token.type} "${token.value}"`,
-          token.start
+          token
         );
       }
 
@@ -112,9 +115,18 @@ export class MONITORParser {
       dashboard,
       start,
       end,
+      ...fileTrivia(this.tokens),
     };
   }
 
+  /**
+   * Parse MONITOR file in recovery mode
+   * Reports every parse error instead of throwing the first one
+   */
+  parseWithDiagnostics(): ParseResult<MONITORFile> {
+    return parseWithRecovery('monitor', this.tokens, (tokens) => new MONITORParser(tokens).parse());
+  }
+
   /**
    * Parse Track section
    * track_def ::= "Track for" scope ":" newline metric_item+
@@ -137,7 +149,7 @@ export class MONITORParser {
       // Model name can be IDENTIFIER or keyword (e.g., "Users" is TokenType.USERS)
       const modelToken = this.advance();
       if (modelToken.type === TokenType.EOF || modelToken.type === TokenType.NEWLINE) {
-        throw new ParseError('Expected model name', modelToken.start);
+        throw new ParseError('Expected model name', modelToken);
       }
       scope = { type: 'model', modelName: modelToken.value };
     }
@@ -153,7 +165,10 @@ export class MONITORParser {
     }
 
     if (metrics.length === 0) {
-      throw new ParseError('Track section must have at least one metric', start);
+      throw new ParseError('Track section must have at least one metric', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
     const end = this.previousToken().end;
@@ -163,6 +178,7 @@ export class MONITORParser {
       metrics,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -182,7 +198,10 @@ export class MONITORParser {
     }
 
     if (metricParts.length === 0) {
-      throw new ParseError('Expected metric name after "-"', start);
+      throw new ParseError('Expected metric name after "-"', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
     const metricName = metricParts.join(' ').toLowerCase();
@@ -198,6 +217,7 @@ export class MONITORParser {
       metricType,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -220,11 +240,15 @@ export class MONITORParser {
       // Model name can be IDENTIFIER or keyword (e.g., "Users" is TokenType.USERS)
       const modelToken = this.advance();
       if (modelToken.type === TokenType.EOF || modelToken.type === TokenType.NEWLINE) {
-        throw new ParseError('Expected model name after "for"', modelToken.start);
+        throw new ParseError('Expected model name after "for"', modelToken);
       }
       modelName = modelToken.value;
     } else {
-      throw new ParseError('Expected "when" or "for" after "Alert"', this.currentToken().start);
+      throw new ParseError(
+        'Expected "when" or "for" after "Alert"',
+        this.currentToken(),
+        'PARSE002'
+      );
     }
 
     this.consume(TokenType.COLON, 'Expected ":"');
@@ -238,7 +262,10 @@ export class MONITORParser {
     }
 
     if (conditions.length === 0) {
-      throw new ParseError('Alert section must have at least one condition', start);
+      throw new ParseError('Alert section must have at least one condition', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
     const end = this.previousToken().end;
@@ -248,6 +275,7 @@ export class MONITORParser {
       conditions,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -270,7 +298,10 @@ export class MONITORParser {
     }
 
     if (lineParts.length === 0) {
-      throw new ParseError('Expected alert condition after "-"', start);
+      throw new ParseError('Expected alert condition after "-"', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
     // Parse metric name (everything before comparison operator)
@@ -306,7 +337,8 @@ export class MONITORParser {
     } else {
       throw new ParseError(
         'Expected comparison operator (exceeds, is above, is below, equals)',
-        start
+        { start, end: this.previousToken().end },
+        'PARSE009'
       );
     }
 
@@ -349,20 +381,30 @@ export class MONITORParser {
     const thresholdStr = thresholdParts[0];
 
     if (!thresholdStr) {
-      throw new ParseError('Expected numeric threshold after comparison operator', start);
+      throw new ParseError(
+        'Expected numeric threshold after comparison operator',
+        { start, end: this.previousToken().end },
+        'PARSE009'
+      );
     }
 
     threshold = parseFloat(thresholdStr);
 
     if (isNaN(threshold)) {
-      throw new ParseError('Expected numeric threshold after comparison operator', start);
+      throw new ParseError(
+        'Expected numeric threshold after comparison operator',
+        { start, end: this.previousToken().end },
+        'PARSE009'
+      );
     }
 
     // Check for unit (percent, milliseconds, requests, etc.)
+    let originalUnit: string | undefined;
     if (thresholdParts.length > 1) {
       const unitStr = thresholdParts[1];
       if (unitStr) {
         thresholdUnit = this.mapThresholdUnit(unitStr.toLowerCase());
+        originalUnit = thresholdParts.slice(1).join(' ');
       }
     }
 
@@ -375,9 +417,11 @@ export class MONITORParser {
       comparison,
       threshold,
       thresholdUnit,
+      originalUnit,
       timeWindow,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -401,7 +445,10 @@ export class MONITORParser {
     }
 
     if (items.length === 0) {
-      throw new ParseError('Monitor section must have at least one config item', start);
+      throw new ParseError('Monitor section must have at least one config item', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
     const end = this.previousToken().end;
@@ -410,6 +457,7 @@ export class MONITORParser {
       items,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -429,7 +477,10 @@ export class MONITORParser {
     }
 
     if (keyParts.length === 0) {
-      throw new ParseError('Expected config key after "-"', start);
+      throw new ParseError('Expected config key after "-"', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
     const key = keyParts.join(' ').toLowerCase();
@@ -437,9 +488,9 @@ export class MONITORParser {
     this.consume(TokenType.COLON, 'Expected ":" after config key');
 
     // Collect value (everything after colon until newline)
-    // Note: value is parsed but not stored in v0.1.0 MonitorConfigItem interface
+    const valueParts: string[] = [];
     while (!this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
-      this.advance();
+      valueParts.push(this.advance().value);
     }
 
     this.consumeNewlines();
@@ -449,8 +500,10 @@ export class MONITORParser {
     return {
       name: key,
       originalName: key,
+      value: valueParts.length > 0 ? valueParts.join(' ') : undefined,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -467,7 +520,7 @@ export class MONITORParser {
     // "metrics" is not a keyword, comes as IDENTIFIER
     const metricsToken = this.consume(TokenType.IDENTIFIER, 'Expected "metrics" after "Dashboard"');
     if (metricsToken.value.toLowerCase() !== 'metrics') {
-      throw new ParseError('Expected "metrics" after "Dashboard"', metricsToken.start);
+      throw new ParseError('Expected "metrics" after "Dashboard"', metricsToken, 'PARSE002');
     }
 
     this.consume(TokenType.COLON, 'Expected ":"');
@@ -481,7 +534,10 @@ export class MONITORParser {
     }
 
     if (metrics.length === 0) {
-      throw new ParseError('Dashboard section must have at least one metric', start);
+      throw new ParseError('Dashboard section must have at least one metric', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
     const end = this.previousToken().end;
@@ -490,6 +546,7 @@ export class MONITORParser {
       metrics,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -509,7 +566,10 @@ export class MONITORParser {
     }
 
     if (metricParts.length === 0) {
-      throw new ParseError('Expected metric name after "-"', start);
+      throw new ParseError('Expected metric name after "-"', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
     const name = metricParts.join(' ');
@@ -523,6 +583,7 @@ export class MONITORParser {
       originalName: name,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -646,7 +707,7 @@ export class MONITORParser {
       return this.advance();
     }
 
-    throw new ParseError(message, this.currentToken().start);
+    throw new ParseError(message, this.currentToken(), 'PARSE002');
   }
 
   private skipNewlines(): void {
@@ -657,7 +718,7 @@ export class MONITORParser {
 
   private consumeNewlines(): void {
     if (!this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
-      throw new ParseError('Expected newline', this.currentToken().start);
+      throw new ParseError('Expected newline', this.currentToken());
     }
     this.skipNewlines();
   }
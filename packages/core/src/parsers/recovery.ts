@@ -0,0 +1,166 @@
+/**
+ * Error recovery for DeclareLang parsers
+ * Collects every parse error of a file in one pass instead of stopping at the first
+ *
+ * Recovery strategy:
+ * - An error inside a `-` list item drops that item and resumes at the next line
+ * - An error on any other line (a section header) drops the header together with
+ *   its `-` items and resumes at the next section header
+ * The remaining tokens are parsed again until they parse cleanly, so the
+ * resulting AST contains every item that parsed on its own.
+ */
+
+import { Token, TokenType, Position } from '../types/token.js';
+import { DeclareDiagnostic } from '../types/diagnostic.js';
+import { ParseError } from '../diagnostics/parse-error.js';
+import { DSLFileKind, DSLFileMap } from '../types/project.js';
+
+/**
+ * Result of parsing in recovery mode
+ */
+export interface ParseResult<T> {
+  ast: T; // partial AST (items and sections that failed to parse are left out)
+  diagnostics: DeclareDiagnostic[];
+}
+
+/**
+ * Create an empty AST for a file kind
+ */
+export function createEmptyFile<K extends DSLFileKind>(kind: K): DSLFileMap[K] {
+  const start: Position = { line: 1, column: 1, offset: 0 };
+  const empty: DSLFileMap = {
+    ddl: { models: [], start, end: start },
+    dml: { sections: [], start, end: start },
+    auth: { roles: [], modelRules: [], fieldRules: [], start, end: start },
+    validation: {
+      validations: [],
+      crossFieldRules: [],
+      rateLimitRules: [],
+      businessRules: [],
+      start,
+      end: start,
+    },
+    api: { rateLimits: [], pagination: [], queryParams: [], start, end: start },
+    monitor: { tracks: [], alerts: [], start, end: start },
+    log: { logs: [], audits: [], levels: [], start, end: start },
+    security: {
+      constraints: [],
+      enforce: [],
+      passwordRules: [],
+      dataProtection: [],
+      apiSecurity: [],
+      start,
+      end: start,
+    },
+    seed: { sections: [], start, end: start },
+  };
+  return empty[kind];
+}
+
+/**
+ * Whether a file contains only comments and blank lines
+ */
+export function isBlank(tokens: Token[]): boolean {
+  return tokens.every(
+    (t) => t.type === TokenType.COMMENT || t.type === TokenType.NEWLINE || t.type === TokenType.EOF
+  );
+}
+
+/**
+ * Parse tokens, recovering from parse errors
+ *
+ * @param kind - DSL file kind (used for the empty AST when nothing can be parsed)
+ * @param tokens - Tokens of the file, without comments
+ * @param parse - Parses a token stream, throwing ParseError on the first error
+ * @returns Partial AST and one diagnostic per error
+ */
+export function parseWithRecovery<K extends DSLFileKind>(
+  kind: K,
+  tokens: Token[],
+  parse: (tokens: Token[]) => DSLFileMap[K]
+): ParseResult<DSLFileMap[K]> {
+  const diagnostics: DeclareDiagnostic[] = [];
+  let remaining = tokens;
+
+  for (;;) {
+    try {
+      return { ast: parse(remaining), diagnostics };
+    } catch (error) {
+      if (!(error instanceof ParseError)) {
+        throw error;
+      }
+
+      const skipped = skipFailedLines(remaining, error.position.line);
+
+      // Errors about the file as a whole (e.g., no models left) only matter if
+      // nothing else was reported
+      if (skipped.length < remaining.length || diagnostics.length === 0) {
+        diagnostics.push(toDiagnostic(remaining, error));
+      }
+
+      if (skipped.length === remaining.length) {
+        return { ast: createEmptyFile(kind), diagnostics };
+      }
+      remaining = skipped;
+    }
+  }
+}
+
+/**
+ * Diagnostic of a parse error
+ * Errors reported at a single position are widened to the offending token
+ */
+function toDiagnostic(tokens: Token[], error: ParseError): DeclareDiagnostic {
+  const { diagnostic } = error;
+  if (diagnostic.end.offset !== diagnostic.start.offset) {
+    return diagnostic;
+  }
+
+  const token = tokens.find((t) => t.start.offset === diagnostic.start.offset);
+  const end =
+    token && token.type !== TokenType.EOF && token.type !== TokenType.NEWLINE
+      ? token.end
+      : diagnostic.end;
+  return { ...diagnostic, end };
+}
+
+/**
+ * Remove the tokens of a failed line
+ * A failed `-` item (or blank line) is removed on its own; any other line is
+ * removed together with the `-` items that follow it
+ */
+function skipFailedLines(tokens: Token[], line: number): Token[] {
+  const first = tokens.findIndex((t) => t.start.line === line && t.type !== TokenType.EOF);
+  const type = tokens[first]?.type;
+  if (type === undefined) {
+    return tokens;
+  }
+
+  let end = endOfLine(tokens, first);
+  if (type !== TokenType.DASH && type !== TokenType.NEWLINE) {
+    while (tokens[end]?.type === TokenType.NEWLINE) {
+      end++;
+    }
+    while (tokens[end]?.type === TokenType.DASH) {
+      end = endOfLine(tokens, end);
+      while (tokens[end]?.type === TokenType.NEWLINE) {
+        end++;
+      }
+    }
+  }
+
+  return [...tokens.slice(0, first), ...tokens.slice(end)];
+}
+
+/**
+ * Index just past the newline ending the line that contains tokens[index]
+ */
+function endOfLine(tokens: Token[], index: number): number {
+  let i = index;
+  for (let type = tokens[i]?.type; type !== TokenType.NEWLINE; type = tokens[++i]?.type) {
+    if (type === undefined || type === TokenType.EOF) {
+      return i;
+    }
+  }
+  return i + 1;
+}
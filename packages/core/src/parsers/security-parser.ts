@@ -20,7 +20,9 @@ import {
   DataProtectionRule,
   APISecurityRule,
 } from '../types/ast.js';
-import { ParseError } from './ddl-parser.js';
+import { ParseError } from '../diagnostics/parse-error.js';
+import { ParseResult, parseWithRecovery } from './recovery.js';
+import { fileTrivia, lineTrivia, moveHeaderTrivia } from './trivia.js';
 
 /**
  * SECURITY Parser
@@ -49,6 +51,7 @@ export class SECURITYParser {
         apiSecurity: [],
         start: emptyPos,
         end: emptyPos,
+        ...fileTrivia(this.tokens),
       };
     }
 
@@ -95,9 +98,20 @@ export class SECURITYParser {
       apiSecurity,
       start,
       end,
+      ...fileTrivia(this.tokens),
     };
   }
 
+  /**
+   * Parse SECURITY file in recovery mode
+   * Reports every parse error instead of throwing the first one
+   */
+  parseWithDiagnostics(): ParseResult<SECURITYFile> {
+    return parseWithRecovery('security', this.tokens, (tokens) =>
+      new SECURITYParser(tokens).parse()
+    );
+  }
+
   /**
    * Parse Constraints section
    */
@@ -106,12 +120,12 @@ export class SECURITYParser {
 
     // Expect "Constraints:"
     if (this.currentToken().type !== TokenType.CONSTRAINTS) {
-      throw new ParseError('Expected "Constraints"', this.currentToken().start);
+      throw new ParseError('Expected "Constraints"', this.currentToken(), 'PARSE002');
     }
     this.advance();
 
     if (this.currentToken().type !== TokenType.COLON) {
-      throw new ParseError('Expected ":" after "Constraints"', this.currentToken().start);
+      throw new ParseError('Expected ":" after "Constraints"', this.currentToken(), 'PARSE002');
     }
     this.advance();
 
@@ -126,9 +140,13 @@ export class SECURITYParser {
     }
 
     if (rules.length === 0) {
-      throw new ParseError('Expected at least one constraint rule', start);
+      throw new ParseError('Expected at least one constraint rule', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
+    moveHeaderTrivia(lineTrivia(this.tokens, start), rules);
     return rules;
   }
 
@@ -150,6 +168,7 @@ export class SECURITYParser {
       description,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -161,12 +180,12 @@ export class SECURITYParser {
 
     // Expect "Enforce:"
     if (this.currentToken().type !== TokenType.ENFORCE) {
-      throw new ParseError('Expected "Enforce"', this.currentToken().start);
+      throw new ParseError('Expected "Enforce"', this.currentToken(), 'PARSE002');
     }
     this.advance();
 
     if (this.currentToken().type !== TokenType.COLON) {
-      throw new ParseError('Expected ":" after "Enforce"', this.currentToken().start);
+      throw new ParseError('Expected ":" after "Enforce"', this.currentToken(), 'PARSE002');
     }
     this.advance();
 
@@ -181,9 +200,13 @@ export class SECURITYParser {
     }
 
     if (rules.length === 0) {
-      throw new ParseError('Expected at least one enforce rule', start);
+      throw new ParseError('Expected at least one enforce rule', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
+    moveHeaderTrivia(lineTrivia(this.tokens, start), rules);
     return rules;
   }
 
@@ -205,6 +228,7 @@ export class SECURITYParser {
       description,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -216,7 +240,7 @@ export class SECURITYParser {
 
     // Expect "Password"
     if (this.currentToken().type !== TokenType.PASSWORD) {
-      throw new ParseError('Expected "Password"', this.currentToken().start);
+      throw new ParseError('Expected "Password"', this.currentToken(), 'PARSE002');
     }
     this.advance();
 
@@ -228,11 +252,11 @@ export class SECURITYParser {
     ) {
       this.advance();
     } else {
-      throw new ParseError('Expected "Rules" after "Password"', this.currentToken().start);
+      throw new ParseError('Expected "Rules" after "Password"', this.currentToken(), 'PARSE002');
     }
 
     if (this.currentToken().type !== TokenType.COLON) {
-      throw new ParseError('Expected ":" after "Password Rules"', this.currentToken().start);
+      throw new ParseError('Expected ":" after "Password Rules"', this.currentToken(), 'PARSE002');
     }
     this.advance();
 
@@ -247,9 +271,13 @@ export class SECURITYParser {
     }
 
     if (rules.length === 0) {
-      throw new ParseError('Expected at least one password rule', start);
+      throw new ParseError('Expected at least one password rule', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
+    moveHeaderTrivia(lineTrivia(this.tokens, start), rules);
     return rules;
   }
 
@@ -277,6 +305,7 @@ export class SECURITYParser {
       requirement,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -295,7 +324,7 @@ export class SECURITYParser {
     ) {
       this.advance();
     } else {
-      throw new ParseError('Expected "Data"', this.currentToken().start);
+      throw new ParseError('Expected "Data"', this.currentToken(), 'PARSE002');
     }
 
     // Expect "Protection:"
@@ -306,11 +335,11 @@ export class SECURITYParser {
     ) {
       this.advance();
     } else {
-      throw new ParseError('Expected "Protection" after "Data"', this.currentToken().start);
+      throw new ParseError('Expected "Protection" after "Data"', this.currentToken(), 'PARSE002');
     }
 
     if (this.currentToken().type !== TokenType.COLON) {
-      throw new ParseError('Expected ":" after "Data Protection"', this.currentToken().start);
+      throw new ParseError('Expected ":" after "Data Protection"', this.currentToken(), 'PARSE002');
     }
     this.advance();
 
@@ -325,9 +354,13 @@ export class SECURITYParser {
     }
 
     if (rules.length === 0) {
-      throw new ParseError('Expected at least one data protection rule', start);
+      throw new ParseError('Expected at least one data protection rule', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
+    moveHeaderTrivia(lineTrivia(this.tokens, start), rules);
     return rules;
   }
 
@@ -355,6 +388,7 @@ export class SECURITYParser {
       requirement,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -371,7 +405,7 @@ export class SECURITYParser {
         this.currentToken().value.toLowerCase() === 'api'
       )
     ) {
-      throw new ParseError('Expected "API"', this.currentToken().start);
+      throw new ParseError('Expected "API"', this.currentToken(), 'PARSE002');
     }
     this.advance();
 
@@ -383,11 +417,11 @@ export class SECURITYParser {
     ) {
       this.advance();
     } else {
-      throw new ParseError('Expected "Security" after "API"', this.currentToken().start);
+      throw new ParseError('Expected "Security" after "API"', this.currentToken(), 'PARSE002');
     }
 
     if (this.currentToken().type !== TokenType.COLON) {
-      throw new ParseError('Expected ":" after "API Security"', this.currentToken().start);
+      throw new ParseError('Expected ":" after "API Security"', this.currentToken(), 'PARSE002');
     }
     this.advance();
 
@@ -402,9 +436,13 @@ export class SECURITYParser {
     }
 
     if (rules.length === 0) {
-      throw new ParseError('Expected at least one API security rule', start);
+      throw new ParseError('Expected at least one API security rule', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
+    moveHeaderTrivia(lineTrivia(this.tokens, start), rules);
     return rules;
   }
 
@@ -432,6 +470,7 @@ export class SECURITYParser {
       requirement,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -486,7 +525,7 @@ export class SECURITYParser {
 
   private expect(type: TokenType, message: string): Token {
     if (this.currentToken().type !== type) {
-      throw new ParseError(message, this.currentToken().start);
+      throw new ParseError(message, this.currentToken(), 'PARSE002');
     }
     return this.advance();
   }
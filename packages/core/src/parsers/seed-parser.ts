@@ -20,7 +20,9 @@ import {
   AttributeAssignment,
   ModelReference,
 } from '../types/ast.js';
-import { ParseError } from './ddl-parser.js';
+import { ParseError } from '../diagnostics/parse-error.js';
+import { ParseResult, parseWithRecovery } from './recovery.js';
+import { fileTrivia, lineTrivia } from './trivia.js';
 
 /**
  * SEED Parser
@@ -45,6 +47,7 @@ export class SEEDParser {
         sections: [],
         start: emptyPos,
         end: emptyPos,
+        ...fileTrivia(this.tokens),
       };
     }
 
@@ -70,9 +73,18 @@ export class SEEDParser {
       sections,
       start,
       end,
+      ...fileTrivia(this.tokens),
     };
   }
 
+  /**
+   * Parse SEED file in recovery mode
+   * Reports every parse error instead of throwing the first one
+   */
+  parseWithDiagnostics(): ParseResult<SEEDFile> {
+    return parseWithRecovery('seed', this.tokens, (tokens) => new SEEDParser(tokens).parse());
+  }
+
   /**
    * Parse a seed section (e.g., "Seed Users:" or "Seed for development:")
    */
@@ -81,7 +93,7 @@ export class SEEDParser {
 
     // Expect "Seed"
     if (this.currentToken().type !== TokenType.SEED) {
-      throw new ParseError('Expected "Seed"', this.currentToken().start);
+      throw new ParseError('Expected "Seed"', this.currentToken(), 'PARSE002');
     }
     this.advance();
 
@@ -102,7 +114,7 @@ export class SEEDParser {
       if (!validEnvironments.includes(environment)) {
         throw new ParseError(
           `Invalid environment name: "${environment}". Must be one of: ${validEnvironments.join(', ')}`,
-          envToken.start
+          envToken
         );
       }
 
@@ -124,7 +136,8 @@ export class SEEDParser {
         ) {
           throw new ParseError(
             `Missing "for" keyword before environment name. Use "Seed for ${value}:" instead of "Seed ${value}:"`,
-            this.currentToken().start
+            this.currentToken(),
+            'PARSE002'
           );
         }
 
@@ -136,7 +149,11 @@ export class SEEDParser {
 
     // Expect ":"
     if (this.currentToken().type !== TokenType.COLON) {
-      throw new ParseError('Expected ":" after seed section header', this.currentToken().start);
+      throw new ParseError(
+        'Expected ":" after seed section header',
+        this.currentToken(),
+        'PARSE002'
+      );
     }
     this.advance();
 
@@ -151,7 +168,10 @@ export class SEEDParser {
     }
 
     if (items.length === 0) {
-      throw new ParseError('Expected at least one seed item', start);
+      throw new ParseError('Expected at least one seed item', {
+        start,
+        end: this.previousToken().end,
+      });
     }
 
     const end = this.previousToken().end;
@@ -162,6 +182,7 @@ export class SEEDParser {
       items,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -255,7 +276,7 @@ export class SEEDParser {
         ) {
           throw new ParseError(
             `Unexpected token "${this.currentToken().value}". Expected "with", "for", "in", or "by" keyword`,
-            this.currentToken().start
+            this.currentToken()
           );
         }
         break;
@@ -271,6 +292,7 @@ export class SEEDParser {
       references,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -421,7 +443,7 @@ export class SEEDParser {
           // Random seed (starts with number) must have "random" keyword after "with"
           throw new ParseError(
             `Expected "random" keyword after "with" in random seed (e.g., "5 Users with random usernames")`,
-            this.currentToken().start
+            this.currentToken()
           );
         }
       }
@@ -523,6 +545,7 @@ export class SEEDParser {
       quantifier,
       start,
       end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -759,7 +782,7 @@ export class SEEDParser {
 
   private expect(type: TokenType, message: string): Token {
     if (this.currentToken().type !== type) {
-      throw new ParseError(message, this.currentToken().start);
+      throw new ParseError(message, this.currentToken(), 'PARSE002');
     }
     return this.advance();
   }
@@ -0,0 +1,131 @@
+/**
+ * Trivia helpers for DeclareLang parsers
+ * Move the comments and blank lines the Tokenizer attached to tokens onto the
+ * AST nodes that own a line, so that printers can write them back
+ *
+ * Ownership:
+ * - Comments and blank lines before the first line belong to the file
+ * - Comments and blank lines before any other line belong to that line's node
+ * - A comment at the end of a line belongs to that line's node
+ * - Comments and blank lines after the last line belong to the file
+ */
+
+import { Position, Token, TokenType, Trivia } from '../types/token.js';
+import { BaseNode } from '../types/ast.js';
+
+/**
+ * Trivia properties of a node
+ */
+export type NodeTrivia = Pick<BaseNode, 'leadingTrivia' | 'trailingTrivia'>;
+
+/**
+ * Trivia of a file node
+ *
+ * @param tokens - Tokens of the file, without comments
+ */
+export function fileTrivia(tokens: Token[]): NodeTrivia {
+  const first = tokens.find((t) => t.type !== TokenType.NEWLINE);
+  const eof = tokens[tokens.length - 1];
+  const leading = first && first.type !== TokenType.EOF ? first.leadingTrivia : undefined;
+  const trailing = eof?.type === TokenType.EOF ? eof.leadingTrivia : undefined;
+  return nodeTrivia(leading, trailing);
+}
+
+/**
+ * Trivia of the line a section or list item node starts on
+ *
+ * @param tokens - Tokens of the file, without comments
+ * @param start - Start position of the node
+ */
+export function lineTrivia(tokens: Token[], start: Position): NodeTrivia {
+  let index = indexAt(tokens, start);
+  if (index < 0) {
+    return {};
+  }
+  while (index > 0 && tokens[index - 1]?.type !== TokenType.NEWLINE) {
+    index--;
+  }
+
+  const first = tokens[index];
+  const isFirstLine = index === tokens.findIndex((t) => t.type !== TokenType.NEWLINE);
+  const leading = isFirstLine ? undefined : first?.leadingTrivia;
+
+  let trailing: Trivia[] | undefined;
+  for (let token = first; token && !isLineEnd(token); token = tokens[++index]) {
+    trailing = token.trailingTrivia ?? trailing;
+  }
+
+  return nodeTrivia(leading, trailing);
+}
+
+/**
+ * Trivia of a section whose items are not nodes of their own
+ * Comments inside the section are kept with the section and printed above its header
+ *
+ * @param tokens - Tokens of the file, without comments
+ * @param start - Start position of the section
+ * @param end - End position of the section
+ */
+export function sectionTrivia(tokens: Token[], start: Position, end: Position): NodeTrivia {
+  const { leadingTrivia = [] } = lineTrivia(tokens, start);
+  const first = indexAt(tokens, start);
+  const comments: Trivia[] = [];
+  for (let index = Math.max(first, 0); index < tokens.length; index++) {
+    const token = tokens[index];
+    if (!token || token.start.offset >= end.offset) {
+      break;
+    }
+    if (index > first) {
+      comments.push(...(token.leadingTrivia ?? []));
+    }
+    comments.push(...(token.trailingTrivia ?? []));
+  }
+  return nodeTrivia(
+    [...leadingTrivia, ...comments.filter((trivia) => trivia.type === 'comment')],
+    undefined
+  );
+}
+
+/**
+ * Move the trivia of a section header without its own node onto the first item
+ * of the section; the header comment is printed above that item
+ */
+export function moveHeaderTrivia(header: NodeTrivia, items: BaseNode[]): void {
+  const item = items[0];
+  const comments = [...(header.leadingTrivia ?? []), ...(header.trailingTrivia ?? [])];
+  if (!item || comments.length === 0) {
+    return;
+  }
+  item.leadingTrivia = [...comments, ...(item.leadingTrivia ?? [])];
+}
+
+function nodeTrivia(leading: Trivia[] | undefined, trailing: Trivia[] | undefined): NodeTrivia {
+  return {
+    ...(leading && leading.length > 0 ? { leadingTrivia: leading } : {}),
+    ...(trailing && trailing.length > 0 ? { trailingTrivia: trailing } : {}),
+  };
+}
+
+function isLineEnd(token: Token): boolean {
+  return token.type === TokenType.NEWLINE || token.type === TokenType.EOF;
+}
+
+/**
+ * Index of the last token starting at or before a position
+ * (tokens are ordered by offset)
+ */
+function indexAt(tokens: Token[], position: Position): number {
+  let low = 0;
+  let high = tokens.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if ((tokens[middle]?.start.offset ?? 0) <= position.offset) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
@@ -22,20 +22,12 @@ import {
   Condition,
   ComparisonOperator,
 } from '../types/ast.js';
-import { normalizeIdentifier } from '../utils/identifier.js';
+import { normalizeName } from '../utils/identifier.js';
+import { ParseResult, parseWithRecovery } from './recovery.js';
+import { fileTrivia, lineTrivia, moveHeaderTrivia } from './trivia.js';
+import { ParseError } from '../diagnostics/parse-error.js';
 
-/**
- * Parser error with position information
- */
-export class ParseError extends Error {
-  constructor(
-    message: string,
-    public position: Position
-  ) {
-    super(message);
-    this.name = 'ParseError';
-  }
-}
+export { ParseError };
 
 /**
  * VALIDATION Parser
@@ -125,9 +117,20 @@ export class VALIDATIONParser {
       businessRules,
       start,
       end,
+      ...fileTrivia(this.tokens),
     };
   }
 
+  /**
+   * Parse VALIDATION file in recovery mode
+   * Reports every parse error instead of throwing the first one
+   */
+  parseWithDiagnostics(): ParseResult<VALIDATIONFile> {
+    return parseWithRecovery('validation', this.tokens, (tokens) =>
+      new VALIDATIONParser(tokens).parse()
+    );
+  }
+
   /**
    * Parse validation definition
    * validate_def ::= "Validate" model_name ":" newline validation_item+
@@ -162,6 +165,7 @@ export class VALIDATIONParser {
       rules,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -175,6 +179,7 @@ export class VALIDATIONParser {
     this.consume(TokenType.DASH, 'Expected "-"');
 
     // Collect field name until "must"
+    const fieldStart = this.currentToken().start;
     const fieldParts: string[] = [];
     while (!this.check(TokenType.MUST) && !this.isAtEnd()) {
       const token = this.currentToken();
@@ -185,7 +190,10 @@ export class VALIDATIONParser {
     }
 
     const originalField = fieldParts.join(' ');
-    const field = normalizeIdentifier(originalField);
+    const field = normalizeName(originalField, {
+      start: fieldStart,
+      end: this.previousToken().end,
+    });
 
     this.consume(TokenType.MUST, 'Expected "must"');
 
@@ -198,6 +206,7 @@ export class VALIDATIONParser {
       constraint,
       start,
       end: this.previousToken().end,
+      ...lineTrivia(this.tokens, start),
     };
   }
 
@@ -244,10 +253,10 @@ export class VALIDATIONParser {
           const listName = parts.slice(1).join(' ');
           return { type: 'not_in_list', list: listName };
         }
-        throw new ParseError(`Unknown constraint: not be ${text}`, next.start);
+        throw new ParseError(`Unknown constraint: not be ${text}`, next, 'PARSE017');
       }
 
-      throw new ParseError('Expected "contain" or "be" after "not"', next.start);
+      throw new ParseError('Expected "contain" or "be" after "not"', next, 'PARSE017');
     }
 
     // "match" constraint
@@ -265,7 +274,7 @@ export class VALIDATIONParser {
       return { type: 'exist_when', condition };
     }
 
-    throw new ParseError(`Expected constraint expression, got: ${token.value}`, token.start);
+    throw new ParseError(`Expected constraint expression, got: ${token.value}`, token, 'PARSE017');
   }
 
   /**
@@ -284,21 +293,11 @@ export class VALIDATIONParser {
       // Consume "characters" as identifier
       const charactersToken = this.currentToken();
       if (charactersToken.value.toLowerCase() !== 'characters') {
-        throw new ParseError('Expected "characters"', charactersToken.start);
+        throw new ParseError('Expected "characters"', charactersToken, 'PARSE017');
       }
       this.advance();
 
-      // Check for conditional "if provided"
-      let conditional: string | undefined;
-      if (this.check(TokenType.IDENTIFIER) && this.currentToken().value.toLowerCase() === 'if') {
-        this.advance();
-        const providedToken = this.currentToken();
-        if (providedToken.value.toLowerCase() !== 'provided') {
-          throw new ParseError('Expected "provided" after "if"', providedToken.start);
-        }
-        this.advance();
-        conditional = 'if provided';
-      }
+      const conditional = this.parseConditional();
 
       return { type: 'between', min, max, unit: 'characters', conditional };
     }
@@ -315,20 +314,11 @@ export class VALIDATIONParser {
         // Consume "characters" as identifier
         const charactersToken = this.currentToken();
         if (charactersToken.value.toLowerCase() !== 'characters') {
-          throw new ParseError('Expected "characters"', charactersToken.start);
+          throw new ParseError('Expected "characters"', charactersToken, 'PARSE017');
         }
         this.advance();
 
-        let conditional: string | undefined;
-        if (this.check(TokenType.IDENTIFIER) && this.currentToken().value.toLowerCase() === 'if') {
-          this.advance();
-          const providedToken = this.currentToken();
-          if (providedToken.value.toLowerCase() !== 'provided') {
-            throw new ParseError('Expected "provided"', providedToken.start);
-          }
-          this.advance();
-          conditional = 'if provided';
-        }
+        const conditional = this.parseConditional();
 
         return { type: 'at_least', value, unit: 'characters', conditional };
       }
@@ -340,25 +330,16 @@ export class VALIDATIONParser {
         // Consume "characters" as identifier
         const charactersToken = this.currentToken();
         if (charactersToken.value.toLowerCase() !== 'characters') {
-          throw new ParseError('Expected "characters"', charactersToken.start);
+          throw new ParseError('Expected "characters"', charactersToken, 'PARSE017');
         }
         this.advance();
 
-        let conditional: string | undefined;
-        if (this.check(TokenType.IDENTIFIER) && this.currentToken().value.toLowerCase() === 'if') {
-          this.advance();
-          const providedToken = this.currentToken();
-          if (providedToken.value.toLowerCase() !== 'provided') {
-            throw new ParseError('Expected "provided"', providedToken.start);
-          }
-          this.advance();
-          conditional = 'if provided';
-        }
+        const conditional = this.parseConditional();
 
         return { type: 'at_most', value, unit: 'characters', conditional };
       }
 
-      throw new ParseError('Expected "least" or "most" after "at"', next.start);
+      throw new ParseError('Expected "least" or "most" after "at"', next, 'PARSE017');
     }
 
     // "be empty when"
@@ -374,7 +355,7 @@ export class VALIDATIONParser {
       this.advance();
       const withinToken = this.currentToken();
       if (withinToken.value.toLowerCase() !== 'within') {
-        throw new ParseError('Expected "within" after "unique"', withinToken.start);
+        throw new ParseError('Expected "within" after "unique"', withinToken, 'PARSE017');
       }
       this.advance();
 
@@ -391,18 +372,37 @@ export class VALIDATIONParser {
     // Check if this looks like a format type by peeking ahead
     // If it starts with "unique", "in", or unknown keywords, throw error
     if (token.type === TokenType.IN) {
-      throw new ParseError(`Unexpected keyword after "be": ${token.value}`, token.start);
+      throw new ParseError(`Unexpected keyword after "be": ${token.value}`, token, 'PARSE017');
     }
     if (token.type === TokenType.IDENTIFIER) {
       const lowerValue = token.value.toLowerCase();
       if (lowerValue === 'in' || lowerValue === 'unique') {
-        throw new ParseError(`Unexpected keyword after "be": ${token.value}`, token.start);
+        throw new ParseError(`Unexpected keyword after "be": ${token.value}`, token, 'PARSE017');
       }
     }
 
     // "be" format_type - anything else is a format type
     const formatType = this.parseFormatType();
-    return { type: 'format', formatType };
+    const conditional = this.parseConditional();
+    return conditional
+      ? { type: 'format', formatType, conditional }
+      : { type: 'format', formatType };
+  }
+
+  /**
+   * Parse optional conditional "if provided" after a constraint
+   */
+  private parseConditional(): string | undefined {
+    if (!this.check(TokenType.IDENTIFIER) || this.currentToken().value.toLowerCase() !== 'if') {
+      return undefined;
+    }
+    this.advance();
+    const providedToken = this.currentToken();
+    if (providedToken.value.toLowerCase() !== 'provided') {
+      throw new ParseError('Expected "provided" after "if"', providedToken, 'PARSE017');
+    }
+    this.advance();
+    return 'if provided';
   }
 
   /**
@@ -447,7 +447,11 @@ export class VALIDATIONParser {
       return FormatType.LOWERCASE_ALPHANUMERIC_AND_DASHES;
     }
 
-    throw new ParseError(`Unknown format type: ${formatString}`, start.start);
+    throw new ParseError(
+      `Unknown format type: ${formatString}`,
+      { start: start.start, end: this.previousToken().end },
+      'PARSE017'
+    );
   }
 
   /**
@@ -493,7 +497,11 @@ export class VALIDATIONParser {
       return RequirementType.DISPOSABLE_EMAIL_LIST;
     }
 
-    throw new ParseError(`Unknown requirement type: ${requirementString}`, start.start);
+    throw new ParseError(
+      `Unknown requirement type: ${requirementString}`,
+      { start: start.start, end: this.previousToken().end },
+      'PARSE017'
+    );
   }
 
   /**
@@ -508,7 +516,7 @@ export class VALIDATIONParser {
       fieldParts.push(this.advance().value);
     }
 
-    const field = normalizeIdentifier(fieldParts.join(' '));
+    const field = normalizeName(fieldParts.join(' '), { start, end: this.previousToken().end });
 
     // Parse operator (simple "is" for v0.1.0)
     const operator = ComparisonOperator.IS;
@@ -525,7 +533,7 @@ export class VALIDATIONParser {
       this.advance();
       value = { type: 'literal' as const, value: false };
     } else {
-      throw new ParseError('Expected boolean value', valueToken.start);
+      throw new ParseError('Expected boolean value', valueToken, 'PARSE017');
     }
 
     return {
@@ -542,6 +550,7 @@ export class VALIDATIONParser {
    */
   private parseCrossFieldValidation(): CrossFieldRule[] {
     // Skip "Cross-field Validation:" header
+    const header = lineTrivia(this.tokens, this.currentToken().start);
     while (!this.check(TokenType.COLON) && !this.isAtEnd()) {
       this.advance();
     }
@@ -574,11 +583,13 @@ export class VALIDATIONParser {
         rule,
         start,
         end: this.previousToken().end,
+        ...lineTrivia(this.tokens, start),
       });
 
       this.skipNewlines();
     }
 
+    moveHeaderTrivia(header, rules);
     return rules;
   }
 
@@ -587,6 +598,7 @@ export class VALIDATIONParser {
    */
   private parseRateLimitValidation(): RateLimitRule[] {
     // Skip "Rate Limiting Validation:" or "Rate Limit Validation:" header
+    const header = lineTrivia(this.tokens, this.currentToken().start);
     while (!this.check(TokenType.COLON) && !this.isAtEnd()) {
       this.advance();
     }
@@ -603,31 +615,48 @@ export class VALIDATIONParser {
       // Parse: "User can create at most 10 Posts per day"
       const modelName = this.consume(TokenType.IDENTIFIER, 'Expected model name').value;
       this.consume(TokenType.CAN, 'Expected "can"');
-      const action = this.consume(TokenType.IDENTIFIER, 'Expected action').value;
+      // Action may be a keyword and span several words ("create", "update password")
+      const actionParts: string[] = [];
+      while (!this.check(TokenType.AT) && !this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
+        actionParts.push(this.advance().value);
+      }
+      if (actionParts.length === 0) {
+        throw new ParseError('Expected action', this.currentToken(), 'PARSE002');
+      }
+      const action = actionParts.join(' ');
       this.consume(TokenType.AT, 'Expected "at"');
       this.consume(TokenType.MOST, 'Expected "most"');
       const limit = parseInt(this.consume(TokenType.NUMBER, 'Expected limit').value, 10);
 
-      // Skip until "per"
-      while (!this.check(TokenType.PER) && !this.isAtEnd()) {
-        this.advance();
+      // What is counted, until "per": a model ("10 Posts") or "times"
+      const targetParts: string[] = [];
+      while (!this.check(TokenType.PER) && !this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
+        targetParts.push(this.advance().value);
       }
+      const target = targetParts.join(' ');
 
       this.consume(TokenType.PER, 'Expected "per"');
-      const period = this.consume(TokenType.IDENTIFIER, 'Expected period').value;
+      // Periods are time-unit keywords ("day", "hour") or identifiers
+      if (this.check(TokenType.NEWLINE) || this.isAtEnd()) {
+        throw new ParseError('Expected period', this.currentToken(), 'PARSE002');
+      }
+      const period = this.advance().value;
 
       rules.push({
         modelName,
         action,
         limit,
+        ...(target && !/^times?$/i.test(target) ? { targetModel: target } : {}),
         period: `per ${period}`,
         start,
         end: this.previousToken().end,
+        ...lineTrivia(this.tokens, start),
       });
 
       this.skipNewlines();
     }
 
+    moveHeaderTrivia(header, rules);
     return rules;
   }
 
@@ -636,6 +665,7 @@ export class VALIDATIONParser {
    */
   private parseBusinessRules(): BusinessRule[] {
     // Skip "Custom Business Rules:" or "Business Rules:" header
+    const header = lineTrivia(this.tokens, this.currentToken().start);
     while (!this.check(TokenType.COLON) && !this.isAtEnd()) {
       this.advance();
     }
@@ -659,11 +689,13 @@ export class VALIDATIONParser {
         description: descriptionParts.join(' '),
         start,
         end: this.previousToken().end,
+        ...lineTrivia(this.tokens, start),
       });
 
       this.skipNewlines();
     }
 
+    moveHeaderTrivia(header, rules);
     return rules;
   }
 
@@ -731,12 +763,12 @@ export class VALIDATIONParser {
       return this.advance();
     }
 
-    throw new ParseError(message, this.currentToken().start);
+    throw new ParseError(message, this.currentToken(), 'PARSE002');
   }
 
   private consumeNewline(): void {
     if (!this.check(TokenType.NEWLINE) && !this.isAtEnd()) {
-      throw new ParseError('Expected newline', this.currentToken().start);
+      throw new ParseError('Expected newline', this.currentToken());
     }
     if (this.check(TokenType.NEWLINE)) {
       this.advance();
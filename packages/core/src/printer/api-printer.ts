@@ -0,0 +1,225 @@
+/**
+ * API Printer for DeclareLang
+ * Regenerates canonical API text from an APIFile
+ *
+ * Section order:
+ * Rate limit, CORS, Response envelope, Success response, Error response,
+ * Pagination, Query parameters, API versioning, Security headers,
+ * Response compression, Request size limits
+ */
+
+import {
+  APIFile,
+  APIRateLimitRule,
+  CORSConfig,
+  ErrorResponse,
+  PaginationConfig,
+  QueryParamFilterType,
+  RateLimitScope,
+  RequestSizeLimits,
+  ResponseCompression,
+  ResponseEnvelope,
+  SortDirection,
+  SuccessResponse,
+} from '../types/ast.js';
+import { printSections, section, withTrivia } from './common.js';
+
+const SCOPES: Record<RateLimitScope, string> = {
+  [RateLimitScope.USER]: 'user',
+  [RateLimitScope.IP_ADDRESS]: 'ip address',
+  [RateLimitScope.API_KEY]: 'api key',
+};
+
+const FILTER_TYPES: Record<QueryParamFilterType, string> = {
+  [QueryParamFilterType.BOOLEAN]: 'boolean',
+  [QueryParamFilterType.NUMBER]: 'number',
+  [QueryParamFilterType.TEXT]: 'text',
+  [QueryParamFilterType.DATE_RANGE]: 'date range',
+  [QueryParamFilterType.NUMBER_RANGE]: 'number range',
+  [QueryParamFilterType.TEXT_CONTAINS]: 'text contains',
+  [QueryParamFilterType.TEXT_STARTS_WITH]: 'text starts with',
+  [QueryParamFilterType.TEXT_ENDS_WITH]: 'text ends with',
+};
+
+/**
+ * Print an API file
+ */
+export function printAPI(file: APIFile): string {
+  return printSections(
+    [
+      ...printRateLimits(file.rateLimits),
+      file.cors ? printCORS(file.cors) : [],
+      file.responseEnvelope ? printResponseEnvelope(file.responseEnvelope) : [],
+      file.successResponse ? printSuccessResponse(file.successResponse) : [],
+      file.errorResponse ? printErrorResponse(file.errorResponse) : [],
+      ...file.pagination.map(printPagination),
+      ...file.queryParams.map((definition) =>
+        section(
+          withTrivia(definition, `Query parameters for ${definition.modelName}`),
+          definition.params.map((param) =>
+            withTrivia(param, `${param.originalField} as ${FILTER_TYPES[param.filterType]}`)
+          )
+        )
+      ),
+      file.versioning
+        ? section(
+            withTrivia(file.versioning, 'API versioning'),
+            compact([
+              labeled('version format', file.versioning.versionFormat),
+              labeled('header', file.versioning.header),
+              labeled('default version', file.versioning.defaultVersion),
+            ])
+          )
+        : [],
+      file.securityHeaders
+        ? section(
+            'Security headers',
+            file.securityHeaders.map((header) =>
+              withTrivia(header, `${header.name}: ${header.value}`)
+            )
+          )
+        : [],
+      file.compression ? printCompression(file.compression) : [],
+      file.sizeLimits ? printSizeLimits(file.sizeLimits) : [],
+    ],
+    file
+  );
+}
+
+/**
+ * Print rate limits, one section per run of rules sharing a model
+ */
+function printRateLimits(rules: APIRateLimitRule[]): string[][] {
+  const groups: APIRateLimitRule[][] = [];
+  for (const rule of rules) {
+    const group = groups[groups.length - 1];
+    if (group && group[0]?.modelName === rule.modelName) {
+      group.push(rule);
+    } else {
+      groups.push([rule]);
+    }
+  }
+
+  return groups.map((group) => {
+    const modelName = group[0]?.modelName;
+    return section(
+      modelName ? `Rate limit for ${modelName}` : 'Rate limit',
+      group.map((rule) =>
+        withTrivia(
+          rule,
+          `${rule.count} ${rule.action} per ${rule.timeUnit} per ${SCOPES[rule.scope]}`
+        )
+      )
+    );
+  });
+}
+
+function printCORS(cors: CORSConfig): string[] {
+  return section(
+    withTrivia(cors, 'CORS'),
+    compact([
+      labeled('allow origins', cors.allowOrigins?.join(', ')),
+      labeled('allow methods', cors.allowMethods?.join(', ')),
+      labeled('allow headers', cors.allowHeaders?.join(', ')),
+      labeled('allow credentials', cors.allowCredentials),
+      labeled('max age', cors.maxAge),
+    ])
+  );
+}
+
+function printResponseEnvelope(envelope: ResponseEnvelope): string[] {
+  return section(
+    withTrivia(envelope, 'Response envelope'),
+    compact([
+      envelope.dataField && `${envelope.dataField} contains the payload`,
+      envelope.metaField && `${envelope.metaField} contains response metadata`,
+      envelope.errorsField && `${envelope.errorsField} contains error details`,
+    ])
+  );
+}
+
+function printSuccessResponse(response: SuccessResponse): string[] {
+  const metaFields = response.metaFields?.map((field) => field.replace(/_/g, ' '));
+  return section(
+    withTrivia(response, 'Success response'),
+    compact([
+      response.includeStatusCode && 'status code',
+      response.includeData && 'data',
+      response.includeMeta && (metaFields ? `meta with ${metaFields.join(', ')}` : 'meta'),
+    ])
+  );
+}
+
+function printErrorResponse(response: ErrorResponse): string[] {
+  const { errorFields } = response;
+  return section(
+    withTrivia(response, 'Error response'),
+    compact([
+      response.includeStatusCode && 'status code',
+      response.includeError && (errorFields ? `error with ${errorFields.join(', ')}` : 'error'),
+      response.includeFields && 'fields with validation errors',
+    ])
+  );
+}
+
+function printPagination(config: PaginationConfig): string[] {
+  const { defaultSort } = config;
+  const descending =
+    defaultSort?.direction === SortDirection.DESCENDING ||
+    defaultSort?.direction === SortDirection.DESC;
+  return section(
+    withTrivia(config, config.modelName ? `Pagination for ${config.modelName}` : 'Pagination'),
+    compact([
+      labeled('default limit', config.defaultLimit),
+      labeled('max limit', config.maxLimit),
+      labeled(
+        'default sort',
+        defaultSort && `${defaultSort.field} ${descending ? 'descending' : 'ascending'}`
+      ),
+      labeled('allowed sort fields', config.allowedSortFields?.join(', ')),
+    ])
+  );
+}
+
+function printCompression(compression: ResponseCompression): string[] {
+  const enable =
+    compression.minSize !== undefined
+      ? `enable for responses larger than ${compression.minSize} bytes`
+      : 'enabled';
+  return section(
+    withTrivia(compression, 'Response compression'),
+    compact([
+      compression.enabled && enable,
+      labeled('supported formats', compression.formats?.join(', ')),
+    ])
+  );
+}
+
+function printSizeLimits(limits: RequestSizeLimits): string[] {
+  return section(
+    withTrivia(limits, 'Request size limits'),
+    compact([
+      labeled('max body size', limits.maxBodySize, 'megabytes'),
+      labeled('max file upload', limits.maxFileUpload, 'megabytes'),
+      labeled('max query params', limits.maxQueryParams),
+    ])
+  );
+}
+
+/**
+ * "label: value [unit]" or undefined when the value is not set
+ */
+function labeled(
+  label: string,
+  value: string | number | boolean | undefined,
+  unit?: string
+): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return unit ? `${label}: ${value} ${unit}` : `${label}: ${value}`;
+}
+
+function compact(items: (string | false | undefined)[]): string[] {
+  return items.filter((item): item is string => typeof item === 'string' && item.length > 0);
+}
@@ -0,0 +1,88 @@
+/**
+ * AUTH Printer for DeclareLang
+ * Regenerates canonical AUTH text from an AUTHFile
+ *
+ * Output:
+ * Roles:
+ * - admin
+ *
+ * Rules for Posts:
+ * - users can edit own Posts where published is false
+ *
+ * Field Rules for Users:
+ * - users cannot edit role
+ */
+
+import {
+  AUTHFile,
+  FieldPermission,
+  PermissionRule,
+  PermissionSubject,
+  SubjectType,
+  TargetModifier,
+} from '../types/ast.js';
+import { Line, printSections, printWhereClause, section, withTrivia } from './common.js';
+
+/**
+ * Print an AUTH file
+ * Role subjects and targets are stored in singular form and printed plural
+ * ("admin" → "admins", "Post" → "Posts"); the parser strips the trailing "s"
+ */
+export function printAUTH(file: AUTHFile): string {
+  return printSections(
+    [
+      section(
+        'Roles',
+        file.roles.map((role) => withTrivia(role, role.originalName))
+      ),
+      ...file.modelRules.map((rules) =>
+        section(
+          withTrivia(rules, `Rules for ${rules.modelName}`),
+          rules.permissions.map(printPermission)
+        )
+      ),
+      ...file.fieldRules.map((rules) =>
+        section(
+          withTrivia(rules, `Field Rules for ${rules.modelName}`),
+          rules.permissions.map(printFieldPermission)
+        )
+      ),
+    ],
+    file
+  );
+}
+
+function printPermission(rule: PermissionRule): Line {
+  const target =
+    rule.target.modifier === TargetModifier.NONE
+      ? `${rule.target.modelName}s`
+      : `${rule.target.modifier} ${rule.target.modelName}s`;
+  const parts = [printSubject(rule.subject), 'can', rule.action, target];
+  if (rule.condition) {
+    parts.push(printWhereClause(rule.condition));
+  }
+  return withTrivia(rule, parts.join(' '));
+}
+
+function printFieldPermission(permission: FieldPermission): Line {
+  const parts = [
+    permission.mutation ? `only ${permission.mutation} mutation` : printSubject(permission.subject),
+    permission.allowed ? 'can' : 'cannot',
+    permission.action,
+    permission.fieldName,
+  ];
+  return withTrivia(permission, parts.join(' '));
+}
+
+function printSubject(subject: PermissionSubject): string {
+  switch (subject.type) {
+    case SubjectType.ANYONE:
+      return 'anyone';
+    case SubjectType.AUTHENTICATED_USERS:
+      return 'authenticated users';
+    case SubjectType.USERS:
+      return 'users';
+    case SubjectType.ROLE:
+      return `${subject.roleName}s`;
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Shared helpers for the DSL printers
+ * Layout rules used by every printer:
+ * - A section is a header line ending in ":" followed by its "- " items
+ * - Sections are separated by one blank line
+ * - Printed files end with a single newline (empty files print as "")
+ * - Comments are printed where the parser attached them; runs of blank lines
+ *   collapse into one
+ */
+
+import {
+  BaseNode,
+  ComparisonOperator,
+  Condition,
+  ConditionValue,
+  TimeExpression,
+  WhereClause,
+} from '../types/ast.js';
+import { Trivia } from '../types/token.js';
+
+/**
+ * Line text, optionally with the node whose trivia is printed around it
+ */
+export type Line = string | { text: string; node: BaseNode };
+
+/**
+ * Comparison operator keywords as written in DML, AUTH and VALIDATION conditions
+ */
+const COMPARISON_OPERATORS: Record<ComparisonOperator, string> = {
+  [ComparisonOperator.IS]: 'is',
+  [ComparisonOperator.EQUALS]: 'equals',
+  [ComparisonOperator.MATCHES]: 'matches',
+  [ComparisonOperator.CONTAINS]: 'contains',
+  [ComparisonOperator.IS_AFTER]: 'is after',
+  [ComparisonOperator.IS_BEFORE]: 'is before',
+  [ComparisonOperator.IS_BETWEEN]: 'is between',
+  [ComparisonOperator.STARTS_WITH]: 'starts with',
+  [ComparisonOperator.ENDS_WITH]: 'ends with',
+  [ComparisonOperator.IS_EMPTY]: 'is empty',
+  [ComparisonOperator.IS_NOT_EMPTY]: 'is not empty',
+};
+
+/**
+ * Line text printed with the comments of a node
+ */
+export function withTrivia(node: BaseNode, text: string): Line {
+  return { text, node };
+}
+
+/**
+ * Print a section: header line followed by "- " items
+ */
+export function section(header: Line, items: Line[]): string[] {
+  return [
+    ...printLine(header, (text) => `${text}:`, true),
+    ...items.flatMap((item) => printLine(item, (text) => `- ${text}`, false)),
+  ];
+}
+
+/**
+ * Join sections with blank lines into file text
+ *
+ * @param sections - Printed sections (empty sections are left out)
+ * @param file - File node whose leading and trailing comments enclose the sections
+ */
+export function printSections(sections: string[][], file?: BaseNode): string {
+  const body = sections
+    .filter((lines) => lines.length > 0)
+    .flatMap((lines, index) => (index > 0 ? ['', ...lines] : lines));
+  const header = trimBlankLines(triviaLines(file?.leadingTrivia), true, body.length === 0);
+  const footer = trimBlankLines(triviaLines(file?.trailingTrivia), body.length === 0, true);
+  const lines = [...header, ...body, ...footer];
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+/**
+ * Print a line with its leading comments above it and its trailing comment after it
+ * Blank lines before a section header are left to the section separator
+ */
+function printLine(line: Line, format: (text: string) => string, isHeader: boolean): string[] {
+  if (typeof line === 'string') {
+    return [format(line)];
+  }
+  const { leadingTrivia, trailingTrivia } = line.node;
+  const trailing = triviaLines(trailingTrivia).filter((text) => text !== '');
+  return [
+    ...trimBlankLines(triviaLines(leadingTrivia), isHeader, false),
+    [format(line.text), ...trailing].join(' '),
+  ];
+}
+
+/**
+ * Trivia as lines: comment text, or '' for a run of blank lines
+ */
+function triviaLines(trivia: Trivia[] = []): string[] {
+  const lines: string[] = [];
+  for (const item of trivia) {
+    if (item.type === 'comment') {
+      lines.push(item.text);
+    } else if (lines[lines.length - 1] !== '') {
+      lines.push('');
+    }
+  }
+  return lines;
+}
+
+function trimBlankLines(lines: string[], start: boolean, end: boolean): string[] {
+  let first = 0;
+  let last = lines.length;
+  while (start && first < last && lines[first] === '') {
+    first++;
+  }
+  while (end && last > first && lines[last - 1] === '') {
+    last--;
+  }
+  return lines.slice(first, last);
+}
+
+/**
+ * Quote a string literal, escaping characters the tokenizer unescapes
+ */
+export function quote(text: string): string {
+  const escaped = text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+  return `"${escaped}"`;
+}
+
+/**
+ * Print a where clause: "where <condition> and <condition>"
+ */
+export function printWhereClause(clause: WhereClause): string {
+  return `where ${clause.conditions.map(printCondition).join(' and ')}`;
+}
+
+/**
+ * Print a condition: "<field> <operator> <value>"
+ */
+export function printCondition(condition: Condition): string {
+  // "Post has no Comments": an empty check naming the related records
+  const operator =
+    condition.operator === ComparisonOperator.IS_EMPTY && condition.value
+      ? 'has no'
+      : COMPARISON_OPERATORS[condition.operator];
+  const parts = [condition.field, operator];
+  if (condition.value) {
+    parts.push(printConditionValue(condition.value));
+  }
+  if (condition.upperValue) {
+    parts.push('and', printConditionValue(condition.upperValue));
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Print a condition or assignment value
+ */
+export function printConditionValue(value: ConditionValue): string {
+  switch (value.type) {
+    case 'literal':
+      return typeof value.value === 'string' ? quote(value.value) : String(value.value);
+    case 'time':
+      return printTimeExpression(value.expression);
+    case 'reference':
+      return value.field;
+  }
+}
+
+/**
+ * Print a time expression: "now" or "<n> <unit> ago"
+ */
+export function printTimeExpression(expression: TimeExpression): string {
+  if (expression.type === 'now') {
+    return 'now';
+  }
+  return `${expression.value ?? 0} ${expression.unit ?? ''} ago`;
+}
@@ -0,0 +1,71 @@
+/**
+ * DDL Printer for DeclareLang
+ * Regenerates canonical DDL text from a DDLFile
+ *
+ * Output:
+ * User[s]:
+ * - has email as unique text and required
+ * - has many Posts
+ * - belongs to Category
+ */
+
+import {
+  DDLFile,
+  FieldConstraint,
+  FieldDefinition,
+  FieldType,
+  ModelDefinition,
+  ModelItem,
+  RelationshipType,
+  isFieldDefinition,
+} from '../types/ast.js';
+import { printSections, section, withTrivia } from './common.js';
+
+const FIELD_TYPES: Record<FieldType, string> = {
+  [FieldType.TEXT]: 'text',
+  [FieldType.LONG_TEXT]: 'long text',
+  [FieldType.NUMBER]: 'number',
+  [FieldType.DECIMAL]: 'decimal',
+  [FieldType.BOOLEAN]: 'boolean',
+  [FieldType.TIMESTAMP]: 'timestamp',
+  [FieldType.JSON]: 'json',
+  [FieldType.UUID]: 'uuid',
+};
+
+/**
+ * Print a DDL file
+ */
+export function printDDL(file: DDLFile): string {
+  return printSections(file.models.map(printModel), file);
+}
+
+function printModel(model: ModelDefinition): string[] {
+  return section(
+    withTrivia(model, model.name.originalForm),
+    model.items.map((item) => withTrivia(item, printModelItem(item)))
+  );
+}
+
+function printModelItem(item: ModelItem): string {
+  if (isFieldDefinition(item)) {
+    return `has ${item.originalName} as ${printTypeSpec(item)}`;
+  }
+  return item.type === RelationshipType.HAS_MANY
+    ? `has many ${item.targetModel}`
+    : `belongs to ${item.targetModel}`;
+}
+
+/**
+ * Print a type specification, keeping the constraint order of the AST
+ * Leading "unique"/"indexed" read as adjectives ("unique text"), the rest
+ * follow the type ("text and required")
+ */
+function printTypeSpec(field: FieldDefinition): string {
+  const { constraints } = field;
+  const firstAfter = constraints.findIndex(
+    (constraint) => constraint !== FieldConstraint.UNIQUE && constraint !== FieldConstraint.INDEXED
+  );
+  const split = firstAfter === -1 ? constraints.length : firstAfter;
+  const type = [...constraints.slice(0, split), FIELD_TYPES[field.type]].join(' ');
+  return [type, ...constraints.slice(split)].join(' and ');
+}
@@ -0,0 +1,107 @@
+/**
+ * DML Printer for DeclareLang
+ * Regenerates canonical DML text from a DMLFile
+ *
+ * Output:
+ * Query for Post:
+ * - published posts where published is true sorted by published_at descending limited to 10
+ *
+ * Mutation for Post:
+ * - publish post sets published to true and published_at to now
+ *
+ * Computed for User:
+ * - post count counts Post where published is true
+ */
+
+import {
+  ComputedAggregation,
+  ComputedDefinition,
+  DMLFile,
+  DMLSection,
+  MutationAction,
+  QueryDefinition,
+  WhereClause,
+  isMutationSection,
+  isQuerySection,
+} from '../types/ast.js';
+import {
+  printConditionValue,
+  printCondition,
+  printSections,
+  printWhereClause,
+  section,
+  withTrivia,
+} from './common.js';
+
+/**
+ * Print a DML file (sections keep their order)
+ */
+export function printDML(file: DMLFile): string {
+  return printSections(file.sections.map(printSection), file);
+}
+
+function printSection(dmlSection: DMLSection): string[] {
+  if (isQuerySection(dmlSection)) {
+    return section(
+      withTrivia(dmlSection, `Query for ${dmlSection.modelName}`),
+      dmlSection.queries.map((query) => withTrivia(query, printQuery(query)))
+    );
+  }
+  if (isMutationSection(dmlSection)) {
+    return section(
+      withTrivia(dmlSection, `Mutation for ${dmlSection.modelName}`),
+      dmlSection.mutations.map((mutation) =>
+        withTrivia(mutation, `${mutation.originalName} ${printAction(mutation.action)}`)
+      )
+    );
+  }
+  return section(
+    withTrivia(dmlSection, `Computed for ${dmlSection.modelName}`),
+    dmlSection.computed.map((computed) => withTrivia(computed, printComputed(computed)))
+  );
+}
+
+function printQuery(query: QueryDefinition): string {
+  const parts = [query.originalName];
+  if (query.whereClause) {
+    parts.push(printWhereClause(query.whereClause));
+  }
+  if (query.sortClause) {
+    parts.push(`sorted by ${query.sortClause.field} ${query.sortClause.direction}`);
+  }
+  if (query.limitClause) {
+    parts.push(`limited to ${query.limitClause.count}`);
+  }
+  return parts.join(' ');
+}
+
+function printAction(action: MutationAction): string {
+  if (action.type === 'increases') {
+    return `increases ${action.field} by ${action.amount}`;
+  }
+  const assignments = action.assignments.map(
+    (assignment) => `${assignment.field} to ${printConditionValue(assignment.value)}`
+  );
+  return `sets ${assignments.join(' and ')}`;
+}
+
+function printComputed(computed: ComputedDefinition): string {
+  return `${computed.originalFieldName} ${printAggregation(computed.aggregation)}`;
+}
+
+function printAggregation(aggregation: ComputedAggregation): string {
+  switch (aggregation.type) {
+    case 'counts':
+      return withWhere(`counts ${aggregation.targetModel}`, aggregation);
+    case 'sums':
+      return withWhere(`sums ${aggregation.targetModel}.${aggregation.field}`, aggregation);
+    case 'returns':
+      return `returns ${printCondition(aggregation.condition)}`;
+    case 'calculates':
+      return `calculates from ${aggregation.field}`;
+  }
+}
+
+function withWhere(text: string, aggregation: { whereClause?: WhereClause }): string {
+  return aggregation.whereClause ? `${text} ${printWhereClause(aggregation.whereClause)}` : text;
+}
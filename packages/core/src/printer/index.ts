@@ -0,0 +1,53 @@
+/**
+ * Printer exports for DeclareLang DSL
+ * Printers regenerate canonical DSL text from an AST; parsing the printed
+ * text yields an equivalent AST (positions and blank lines aside)
+ * Comments kept on the AST as trivia are printed back
+ */
+
+import { DSLFileKind, DSLFileMap } from '../types/project.js';
+import { printDDL } from './ddl-printer.js';
+import { printDML } from './dml-printer.js';
+import { printAUTH } from './auth-printer.js';
+import { printVALIDATION } from './validation-printer.js';
+import { printAPI } from './api-printer.js';
+import { printMONITOR } from './monitor-printer.js';
+import { printLOG } from './log-printer.js';
+import { printSECURITY } from './security-printer.js';
+import { printSEED } from './seed-printer.js';
+
+export {
+  printDDL,
+  printDML,
+  printAUTH,
+  printVALIDATION,
+  printAPI,
+  printMONITOR,
+  printLOG,
+  printSECURITY,
+  printSEED,
+};
+
+const PRINTERS: { [K in DSLFileKind]: (file: DSLFileMap[K]) => string } = {
+  ddl: printDDL,
+  dml: printDML,
+  auth: printAUTH,
+  validation: printVALIDATION,
+  api: printAPI,
+  monitor: printMONITOR,
+  log: printLOG,
+  security: printSECURITY,
+  seed: printSEED,
+};
+
+/**
+ * Print the AST of any DSL file kind
+ *
+ * @param kind - DSL file kind
+ * @param file - Parsed AST of that kind
+ * @returns Canonical DSL text
+ */
+export function printFile<K extends DSLFileKind>(kind: K, file: DSLFileMap[K]): string {
+  const print: (file: DSLFileMap[K]) => string = PRINTERS[kind];
+  return print(file);
+}
@@ -0,0 +1,89 @@
+/**
+ * LOG Printer for DeclareLang
+ * Regenerates canonical LOG text from a LOGFile
+ *
+ * Output:
+ * Log for Posts:
+ * - update with changed fields only
+ *
+ * Audit for Posts:
+ * - who created
+ *
+ * Log level warning for:
+ * - slow queries over 500 milliseconds
+ *
+ * Exclude from logs:
+ * - password fields
+ */
+
+import { AuditItem, LOGFile, LogDetail, LogItem, LogScope } from '../types/ast.js';
+import { Line, printSections, section, withTrivia } from './common.js';
+
+/**
+ * Print a LOG file
+ */
+export function printLOG(file: LOGFile): string {
+  return printSections(
+    [
+      ...file.logs.map((log) =>
+        section(withTrivia(log, `Log for ${printScope(log.scope)}`), log.items.map(printLogItem))
+      ),
+      ...file.audits.map((audit) =>
+        section(
+          withTrivia(audit, `Audit for ${audit.modelName.originalForm}`),
+          audit.items.map(printAuditItem)
+        )
+      ),
+      ...file.levels.map((level) =>
+        section(
+          withTrivia(level, `Log level ${level.level} for`),
+          level.conditions.map((condition) => withTrivia(condition, condition.description))
+        )
+      ),
+      file.exclude
+        ? section(withTrivia(file.exclude, 'Exclude from logs'), file.exclude.items)
+        : [],
+    ],
+    file
+  );
+}
+
+function printScope(scope: LogScope): string {
+  return scope.type === 'all_mutations' ? 'all mutations' : (scope.modelName?.originalForm ?? '');
+}
+
+function printLogItem(item: LogItem): Line {
+  if (item.type === 'field') {
+    return withTrivia(item, item.field ?? '');
+  }
+  return withTrivia(
+    item,
+    item.detail ? `${item.action ?? ''} with ${printDetail(item.detail)}` : (item.action ?? '')
+  );
+}
+
+function printDetail(detail: LogDetail): string {
+  switch (detail.type) {
+    case 'full_data':
+      return 'full data';
+    case 'changed_fields_only':
+      return 'changed fields only';
+    case 'specific_fields':
+      return (detail.fields ?? []).join(' and ');
+  }
+}
+
+function printAuditItem(item: AuditItem): Line {
+  return withTrivia(item, printAuditText(item));
+}
+
+function printAuditText(item: AuditItem): string {
+  switch (item.type) {
+    case 'who_action':
+      return `who ${item.action ?? ''}`;
+    case 'when_event':
+      return `when ${item.event ?? ''}`;
+    case 'generic':
+      return item.field ?? '';
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * MONITOR Printer for DeclareLang
+ * Regenerates canonical MONITOR text from a MONITORFile
+ *
+ * Output:
+ * Track for all endpoints:
+ * - request count
+ *
+ * Alert when:
+ * - failed login attempts exceeds 10 in 5 minutes
+ *
+ * Monitor:
+ * - slow query threshold: 500 milliseconds
+ *
+ * Dashboard metrics:
+ * - total users
+ */
+
+import {
+  AlertComparison,
+  AlertCondition,
+  MONITORFile,
+  ThresholdUnit,
+  TrackScope,
+} from '../types/ast.js';
+import { Line, printSections, section, withTrivia } from './common.js';
+
+/**
+ * Comparison keywords ("below" and "reached" print as their parseable equivalents)
+ */
+const COMPARISONS: Record<AlertComparison, string> = {
+  [AlertComparison.EXCEEDS]: 'exceeds',
+  [AlertComparison.IS_ABOVE]: 'is above',
+  [AlertComparison.IS_BELOW]: 'is below',
+  [AlertComparison.BELOW]: 'is below',
+  [AlertComparison.EQUALS]: 'equals',
+  [AlertComparison.REACHED]: 'equals',
+};
+
+const THRESHOLD_UNITS: Record<ThresholdUnit, string> = {
+  [ThresholdUnit.PERCENT]: 'percent',
+  [ThresholdUnit.MILLISECONDS]: 'milliseconds',
+  [ThresholdUnit.SECONDS]: 'seconds',
+  [ThresholdUnit.REQUESTS]: 'requests',
+  [ThresholdUnit.ERRORS]: 'errors',
+  [ThresholdUnit.PER_SECOND]: 'per second',
+  [ThresholdUnit.PER_MINUTE]: 'per minute',
+  [ThresholdUnit.PER_HOUR]: 'per hour',
+  [ThresholdUnit.PER_DAY]: 'per day',
+  [ThresholdUnit.COUNT]: 'count',
+  [ThresholdUnit.CUSTOM]: '',
+};
+
+/**
+ * Print a MONITOR file
+ */
+export function printMONITOR(file: MONITORFile): string {
+  return printSections(
+    [
+      ...file.tracks.map((track) =>
+        section(
+          withTrivia(track, `Track for ${printScope(track.scope)}`),
+          track.metrics.map((metric) => withTrivia(metric, metric.originalName))
+        )
+      ),
+      ...file.alerts.map((alert) =>
+        section(
+          withTrivia(alert, alert.modelName ? `Alert for ${alert.modelName}` : 'Alert when'),
+          alert.conditions.map(printAlertCondition)
+        )
+      ),
+      file.monitorConfig
+        ? section(
+            withTrivia(file.monitorConfig, 'Monitor'),
+            file.monitorConfig.items.map((item) =>
+              withTrivia(
+                item,
+                item.value ? `${item.originalName}: ${item.value}` : `${item.originalName}:`
+              )
+            )
+          )
+        : [],
+      file.dashboard
+        ? section(
+            withTrivia(file.dashboard, 'Dashboard metrics'),
+            file.dashboard.metrics.map((metric) => withTrivia(metric, metric.originalName))
+          )
+        : [],
+    ],
+    file
+  );
+}
+
+function printScope(scope: TrackScope): string {
+  return scope.type === 'all_endpoints' ? 'all endpoints' : scope.modelName;
+}
+
+function printAlertCondition(condition: AlertCondition): Line {
+  const parts = [condition.metric, COMPARISONS[condition.comparison], String(condition.threshold)];
+  const unit =
+    condition.originalUnit ?? (condition.thresholdUnit && THRESHOLD_UNITS[condition.thresholdUnit]);
+  if (unit) {
+    parts.push(unit);
+  }
+  if (condition.timeWindow) {
+    const { value, unit: windowUnit } = condition.timeWindow;
+    parts.push('in', String(value), value === 1 ? windowUnit : `${windowUnit}s`);
+  }
+  return withTrivia(condition, parts.join(' '));
+}
@@ -0,0 +1,31 @@
+/**
+ * SECURITY Printer for DeclareLang
+ * Regenerates canonical SECURITY text from a SECURITYFile
+ *
+ * Every rule is printed from its full description; subject and requirement
+ * are derived from it again when the output is parsed
+ */
+
+import { BaseNode, SECURITYFile } from '../types/ast.js';
+import { Line, printSections, section, withTrivia } from './common.js';
+
+/**
+ * Print a SECURITY file
+ */
+export function printSECURITY(file: SECURITYFile): string {
+  const describe = (rules: (BaseNode & { description: string })[]): Line[] =>
+    rules.map((rule) => withTrivia(rule, rule.description));
+
+  return printSections(
+    [
+      file.constraints.length > 0 ? section('Constraints', describe(file.constraints)) : [],
+      file.enforce.length > 0 ? section('Enforce', describe(file.enforce)) : [],
+      file.passwordRules.length > 0 ? section('Password Rules', describe(file.passwordRules)) : [],
+      file.dataProtection.length > 0
+        ? section('Data Protection', describe(file.dataProtection))
+        : [],
+      file.apiSecurity.length > 0 ? section('API Security', describe(file.apiSecurity)) : [],
+    ],
+    file
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * SEED Printer for DeclareLang
+ * Regenerates canonical SEED text from a SEEDFile
+ *
+ * Output:
+ * Seed Categories:
+ * - Technology with slug technology and description "All about tech"
+ *
+ * Seed for development:
+ * - 5 Users with random usernames and emails and role user
+ * - 20 Posts with random titles for random active Users with some published true
+ */
+
+import {
+  AttributeAssignment,
+  LiteralSeed,
+  ModelReference,
+  RandomSeed,
+  SEEDFile,
+  SeedItem,
+  SeedSection,
+} from '../types/ast.js';
+import { printSections, quote, section, withTrivia } from './common.js';
+
+/**
+ * Words that end an attribute list or change its meaning when written unquoted
+ */
+const RESERVED_VALUES = new Set(['and', 'for', 'in', 'by', 'with', 'true', 'false', 'now']);
+
+/**
+ * Print a SEED file
+ */
+export function printSEED(file: SEEDFile): string {
+  return printSections(file.sections.map(printSection), file);
+}
+
+function printSection(seedSection: SeedSection): string[] {
+  const header = seedSection.environment
+    ? `Seed for ${seedSection.environment}`
+    : `Seed ${seedSection.modelName ?? ''}`;
+  return section(
+    withTrivia(seedSection, header),
+    seedSection.items.map((item) => withTrivia(item, printItem(item)))
+  );
+}
+
+function printItem(item: SeedItem): string {
+  return item.type === 'literal' ? printLiteralSeed(item) : printRandomSeed(item);
+}
+
+function printLiteralSeed(seed: LiteralSeed): string {
+  const parts: string[] = [];
+  if (seed.primaryValue !== undefined) {
+    parts.push(seed.primaryValue);
+  }
+  if (seed.attributes.length > 0) {
+    parts.push('with', printAttributes(seed.attributes));
+  }
+  for (const reference of seed.references) {
+    parts.push('for', printReference(reference));
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Print a random seed
+ * Fixed attributes follow the random fields ("and role user") unless a
+ * quantifier is present ("with some published true")
+ */
+function printRandomSeed(seed: RandomSeed): string {
+  if (seed.count === 0 && seed.randomFields.length === 0) {
+    const target = seed.references[0];
+    return target
+      ? `random ${seed.modelName} attached to random ${target.modelName}`
+      : `random ${seed.modelName}`;
+  }
+
+  const parts = [String(seed.count), seed.modelName];
+  const trailingAttributes = seed.quantifier !== undefined || seed.randomFields.length === 0;
+
+  if (seed.randomFields.length > 0) {
+    parts.push('with random', seed.randomFields.join(' and '));
+    if (!trailingAttributes && seed.attributes.length > 0) {
+      parts.push('and', printAttributes(seed.attributes));
+    }
+  }
+  for (const reference of seed.references) {
+    parts.push('for', printReference(reference));
+  }
+  if (trailingAttributes && (seed.attributes.length > 0 || seed.quantifier !== undefined)) {
+    parts.push('with');
+    if (seed.quantifier !== undefined) {
+      parts.push(seed.quantifier);
+    }
+    parts.push(printAttributes(seed.attributes));
+  }
+  return parts.join(' ');
+}
+
+function printAttributes(attributes: AttributeAssignment[]): string {
+  return attributes
+    .map((attribute) => `${attribute.field} ${printValue(attribute.value)}`)
+    .join(' and ');
+}
+
+function printReference(reference: ModelReference): string {
+  const value = reference.value.startsWith('random')
+    ? reference.value
+    : printValue(reference.value);
+  return `${value} ${reference.modelName}`;
+}
+
+/**
+ * Print a value unquoted when it reads back as the same single word
+ */
+function printValue(value: string | number | boolean): string {
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  const plain = /^[a-zA-Z][a-zA-Z0-9_]*$/.test(value) && !RESERVED_VALUES.has(value.toLowerCase());
+  return plain ? value : quote(value);
+}
@@ -0,0 +1,123 @@
+/**
+ * VALIDATION Printer for DeclareLang
+ * Regenerates canonical VALIDATION text from a VALIDATIONFile
+ *
+ * Output:
+ * Validate User:
+ * - email must be valid email format
+ * - bio must be at most 500 characters if provided
+ *
+ * Rate Limiting Validation:
+ * - User can create at most 10 per day
+ */
+
+import {
+  ConstraintExpression,
+  FormatType,
+  RequirementType,
+  VALIDATIONFile,
+  ValidationRule,
+} from '../types/ast.js';
+import { Line, printCondition, printSections, quote, section, withTrivia } from './common.js';
+
+const FORMAT_TYPES: Record<FormatType, string> = {
+  [FormatType.VALID_EMAIL_FORMAT]: 'valid email format',
+  [FormatType.VALID_URL]: 'valid url',
+  [FormatType.ALPHANUMERIC]: 'alphanumeric',
+  [FormatType.LOWERCASE_ALPHANUMERIC_AND_DASHES]: 'lowercase alphanumeric and dashes only',
+};
+
+const REQUIREMENTS: Record<RequirementType, string> = {
+  [RequirementType.UPPERCASE_AND_LOWERCASE_AND_NUMBER]: 'uppercase and lowercase and number',
+  [RequirementType.SPECIAL_CHARACTER]: 'special character',
+  [RequirementType.PROFANITY]: 'profanity',
+  [RequirementType.SPAM_KEYWORDS]: 'spam keywords',
+  [RequirementType.MALICIOUS_LINKS]: 'malicious links',
+  [RequirementType.DISPOSABLE_EMAIL_LIST]: 'disposable email list',
+};
+
+/**
+ * Print a VALIDATION file
+ */
+export function printVALIDATION(file: VALIDATIONFile): string {
+  return printSections(
+    [
+      ...file.validations.map((validation) =>
+        section(
+          withTrivia(validation, `Validate ${validation.modelName}`),
+          validation.rules.map(printRule)
+        )
+      ),
+      file.crossFieldRules.length > 0
+        ? section(
+            'Cross-field Validation',
+            file.crossFieldRules.map((rule) => withTrivia(rule, rule.rule))
+          )
+        : [],
+      file.rateLimitRules.length > 0
+        ? section(
+            'Rate Limiting Validation',
+            file.rateLimitRules.map((rule) =>
+              withTrivia(
+                rule,
+                `${rule.modelName} can ${rule.action} at most ${rule.limit} ${rule.targetModel ?? 'times'} ${rule.period}`
+              )
+            )
+          )
+        : [],
+      file.businessRules.length > 0
+        ? section(
+            'Custom Business Rules',
+            file.businessRules.map((rule) => withTrivia(rule, rule.description))
+          )
+        : [],
+    ],
+    file
+  );
+}
+
+function printRule(rule: ValidationRule): Line {
+  return withTrivia(rule, `${rule.originalField} must ${printConstraint(rule.constraint)}`);
+}
+
+function printConstraint(constraint: ConstraintExpression): string {
+  switch (constraint.type) {
+    case 'format':
+      return withConditional(`be ${FORMAT_TYPES[constraint.formatType]}`, constraint.conditional);
+    case 'between':
+      return withConditional(
+        `be between ${constraint.min} and ${constraint.max} ${constraint.unit}`,
+        constraint.conditional
+      );
+    case 'at_least':
+      return withConditional(
+        `be at least ${constraint.value} ${constraint.unit}`,
+        constraint.conditional
+      );
+    case 'at_most':
+      return withConditional(
+        `be at most ${constraint.value} ${constraint.unit}`,
+        constraint.conditional
+      );
+    case 'contain':
+      return `contain ${REQUIREMENTS[constraint.requirement]}`;
+    case 'not_contain':
+      return `not contain ${REQUIREMENTS[constraint.requirement]}`;
+    case 'match':
+      return `match ${quote(constraint.pattern)}`;
+    case 'exist_when':
+      return `exist when ${printCondition(constraint.condition)}`;
+    case 'be_empty_when':
+      return `be empty when ${printCondition(constraint.condition)}`;
+    case 'unique_within':
+      return `be unique within all ${constraint.modelName}`;
+    case 'in_list':
+      return `be in ${constraint.list}`;
+    case 'not_in_list':
+      return `not be in ${constraint.list}`;
+  }
+}
+
+function withConditional(text: string, conditional: string | undefined): string {
+  return conditional ? `${text} ${conditional}` : text;
+}
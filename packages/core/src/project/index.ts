@@ -0,0 +1,5 @@
+/**
+ * Project loading exports
+ */
+
+export * from './loader.js';
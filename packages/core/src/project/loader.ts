@@ -0,0 +1,258 @@
+/**
+ * Project loader for DeclareLang
+ * Finds the DSL files of a schema directory, parses each one and combines
+ * the results into a single ProjectAST
+ *
+ * Layout follows the `schema` section of framework.config.ts:
+ * schema.path  - schema directory relative to the project root (default: ./schema)
+ * schema.files - DSL files to load (default: all nine)
+ */
+
+import { readFile } from 'fs/promises';
+import { basename, resolve } from 'path';
+import { Token } from '../types/token.js';
+import { DeclareDiagnostic } from '../types/diagnostic.js';
+import { ParseError } from '../diagnostics/parse-error.js';
+import { Tokenizer } from '../tokenizer/tokenizer.js';
+import { DDLParser } from '../parsers/ddl-parser.js';
+import { DMLParser } from '../parsers/dml-parser.js';
+import { AUTHParser } from '../parsers/auth-parser.js';
+import { VALIDATIONParser } from '../parsers/validation-parser.js';
+import { APIParser } from '../parsers/api-parser.js';
+import { MONITORParser } from '../parsers/monitor-parser.js';
+import { LOGParser } from '../parsers/log-parser.js';
+import { SECURITYParser } from '../parsers/security-parser.js';
+import { SEEDParser } from '../parsers/seed-parser.js';
+import { ParseResult, createEmptyFile, isBlank } from '../parsers/recovery.js';
+import { parseDocument } from '../parsers/incremental.js';
+import {
+  DSLFileKind,
+  DSLFileMap,
+  ProjectAST,
+  ProjectConfig,
+  ProjectSource,
+} from '../types/project.js';
+
+export { createEmptyFile };
+
+/**
+ * All DSL file kinds, in load order
+ */
+export const DSL_FILE_KINDS: readonly DSLFileKind[] = [
+  'ddl',
+  'dml',
+  'auth',
+  'validation',
+  'api',
+  'monitor',
+  'log',
+  'security',
+  'seed',
+];
+
+/**
+ * Default schema layout
+ */
+export const DEFAULT_SCHEMA_PATH = './schema';
+export const DEFAULT_SCHEMA_FILES: readonly string[] = DSL_FILE_KINDS.map((kind) => `${kind}.dsl`);
+
+/**
+ * Project loading error (PARSE019 / PARSE020)
+ */
+export class ProjectLoadError extends ParseError {
+  constructor(
+    message: string,
+    public code: 'PARSE019' | 'PARSE020',
+    public path: string
+  ) {
+    super(message, { line: 1, column: 1, offset: 0 }, code, { file: path });
+    this.name = 'ProjectLoadError';
+  }
+}
+
+/**
+ * Parser entry point for each file kind
+ */
+const PARSERS: { [K in DSLFileKind]: (tokens: Token[]) => DSLFileMap[K] } = {
+  ddl: (tokens) => new DDLParser(tokens).parse(),
+  dml: (tokens) => new DMLParser(tokens).parse(),
+  auth: (tokens) => new AUTHParser(tokens).parse(),
+  validation: (tokens) => new VALIDATIONParser(tokens).parse(),
+  api: (tokens) => new APIParser(tokens).parse(),
+  monitor: (tokens) => new MONITORParser(tokens).parse(),
+  log: (tokens) => new LOGParser(tokens).parse(),
+  security: (tokens) => new SECURITYParser(tokens).parse(),
+  seed: (tokens) => new SEEDParser(tokens).parse(),
+};
+
+/**
+ * Load and parse all DSL files of a project
+ *
+ * @param dir - Project root directory
+ * @param config - Schema layout (same shape as framework.config.ts)
+ * @returns Combined project AST
+ * @throws ProjectLoadError PARSE019 if ddl.dsl is missing, PARSE020 if a file cannot be read
+ */
+export async function loadProject(dir: string, config: ProjectConfig = {}): Promise<ProjectAST> {
+  const root = resolve(dir, config.schema?.path ?? DEFAULT_SCHEMA_PATH);
+  const files = config.schema?.files ?? DEFAULT_SCHEMA_FILES;
+
+  const sources = {} as Record<DSLFileKind, ProjectSource>;
+  for (const kind of DSL_FILE_KINDS) {
+    const file = files.find((f) => basename(f).toLowerCase() === `${kind}.dsl`);
+    const path = resolve(root, file ?? `${kind}.dsl`);
+
+    if (file === undefined) {
+      sources[kind] = { kind, path, source: '', exists: false };
+      continue;
+    }
+
+    sources[kind] = await readSource(kind, path);
+  }
+
+  return parseProject(root, sources);
+}
+
+/**
+ * Parse already-read project sources into a ProjectAST
+ * Missing optional files become empty ASTs
+ *
+ * @param root - Schema directory the sources belong to
+ * @param sources - Source of each DSL file
+ * @returns Combined project AST
+ * @throws ProjectLoadError PARSE019 if ddl.dsl is missing
+ */
+export function parseProject(
+  root: string,
+  sources: Record<DSLFileKind, ProjectSource>
+): ProjectAST {
+  requireDDL(sources);
+
+  return {
+    root,
+    ddl: parseSource('ddl', sources.ddl),
+    dml: parseSource('dml', sources.dml),
+    auth: parseSource('auth', sources.auth),
+    validation: parseSource('validation', sources.validation),
+    api: parseSource('api', sources.api),
+    monitor: parseSource('monitor', sources.monitor),
+    log: parseSource('log', sources.log),
+    security: parseSource('security', sources.security),
+    seed: parseSource('seed', sources.seed),
+    sources,
+  };
+}
+
+/**
+ * Parse already-read project sources in recovery mode
+ * Instead of throwing the first parse error, every file is parsed as far as
+ * possible and all errors are returned as diagnostics
+ *
+ * @param root - Schema directory the sources belong to
+ * @param sources - Source of each DSL file
+ * @returns Partial project AST and the diagnostics of all files
+ * @throws ProjectLoadError PARSE019 if ddl.dsl is missing
+ */
+export function parseProjectWithDiagnostics(
+  root: string,
+  sources: Record<DSLFileKind, ProjectSource>
+): ParseResult<ProjectAST> {
+  requireDDL(sources);
+
+  const diagnostics: DeclareDiagnostic[] = [];
+  const recover = <K extends DSLFileKind>(kind: K): DSLFileMap[K] => {
+    const result = recoverSource(kind, sources[kind]);
+    diagnostics.push(...result.diagnostics.map((d) => ({ ...d, file: sources[kind].path })));
+    return result.ast;
+  };
+
+  const ast: ProjectAST = {
+    root,
+    ddl: recover('ddl'),
+    dml: recover('dml'),
+    auth: recover('auth'),
+    validation: recover('validation'),
+    api: recover('api'),
+    monitor: recover('monitor'),
+    log: recover('log'),
+    security: recover('security'),
+    seed: recover('seed'),
+    sources,
+  };
+
+  return { ast, diagnostics };
+}
+
+/**
+ * ddl.dsl is the only required file
+ */
+function requireDDL(sources: Record<DSLFileKind, ProjectSource>): void {
+  if (!sources.ddl.exists) {
+    throw new ProjectLoadError(
+      `DSL file not found: ${sources.ddl.path}`,
+      'PARSE019',
+      sources.ddl.path
+    );
+  }
+}
+
+/**
+ * Read a single DSL file, treating "not found" as a missing file
+ */
+async function readSource(kind: DSLFileKind, path: string): Promise<ProjectSource> {
+  try {
+    const source = await readFile(path, 'utf-8');
+    return { kind, path, source, exists: true };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { kind, path, source: '', exists: false };
+    }
+    throw new ProjectLoadError(
+      `Cannot read file ${path}: ${(error as Error).message}`,
+      'PARSE020',
+      path
+    );
+  }
+}
+
+/**
+ * Parse a single DSL file
+ * Missing optional files and files with only comments/blank lines become empty ASTs
+ *
+ * @throws ParseError whose diagnostic names the path of the file
+ */
+function parseSource<K extends DSLFileKind>(kind: K, file: ProjectSource): DSLFileMap[K] {
+  if (!file.exists) {
+    return createEmptyFile(kind);
+  }
+
+  try {
+    const tokens = new Tokenizer(file.source).tokenize();
+    if (isBlank(tokens) && kind !== 'ddl') {
+      return createEmptyFile(kind);
+    }
+
+    return PARSERS[kind](tokens);
+  } catch (error) {
+    if (error instanceof ParseError) {
+      error.diagnostic.file ??= file.path;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse a single DSL file in recovery mode
+ * A tokenizer error leaves the whole file empty
+ */
+function recoverSource<K extends DSLFileKind>(
+  kind: K,
+  file: ProjectSource
+): ParseResult<DSLFileMap[K]> {
+  if (!file.exists) {
+    return { ast: createEmptyFile(kind), diagnostics: [] };
+  }
+
+  const { ast, diagnostics } = parseDocument(kind, file.source);
+  return { ast, diagnostics };
+}
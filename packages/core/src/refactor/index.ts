@@ -0,0 +1,5 @@
+/**
+ * Refactoring exports
+ */
+
+export * from './rename.js';
@@ -0,0 +1,318 @@
+/**
+ * Semantic rename for DeclareLang
+ * Renames a model or a field across all DSL files of a project, using the
+ * references resolved by the semantic pass (analyzeProject)
+ *
+ * Models take a new name in DDL notation ("Topic[s]", "Categor[y|ies]"):
+ * references to the singular get the new singular, references to the plural
+ * the new plural, and the foreign keys generated for `belongs to`
+ * relationships follow ("category id" → "topic id"). Field occurrences keep
+ * their spelling: "published at", "published_at" and "published-at" stay
+ * spaced, underscored or hyphenated.
+ *
+ * Renames that would collide with an existing model or field are refused
+ * with a RenameError.
+ */
+
+import { BaseNode, RelationshipType, isRelationshipDefinition } from '../types/ast.js';
+import { Position } from '../types/token.js';
+import { ParseErrorCode } from '../types/diagnostic.js';
+import { DSLFileKind, ProjectAST } from '../types/project.js';
+import { ParseError } from '../diagnostics/parse-error.js';
+import { DSL_FILE_KINDS } from '../project/loader.js';
+import { SemanticAnalysis, analyzeProject } from '../validators/reference-validator.js';
+import {
+  FieldSymbol,
+  ModelSymbol,
+  SymbolTable,
+  foreignKeyName,
+} from '../validators/symbol-table.js';
+import { normalizeIdentifier, parseModelName } from '../utils/identifier.js';
+import { TextEdit, findNameInNode } from '../utils/source.js';
+
+/**
+ * Edits a rename makes to one DSL file
+ */
+export interface FileEdits {
+  kind: DSLFileKind;
+  path: string;
+  edits: TextEdit[]; // sorted by offset, non-overlapping
+}
+
+/**
+ * Rename refused (unknown symbol, invalid name or collision)
+ * PARSE003 - Invalid or colliding field name
+ * PARSE004 - Colliding model name
+ * PARSE007 - Invalid model name
+ * PARSE010 - Model not found
+ * PARSE011 - Field not found
+ */
+export class RenameError extends ParseError {
+  constructor(message: string, code: ParseErrorCode, position: Position, path: string) {
+    super(message, position, code, { file: path });
+    this.name = 'RenameError';
+  }
+}
+
+/**
+ * Rename a model in every DSL file
+ *
+ * @param project - Project AST
+ * @param name - Current singular or plural name (e.g., "Category")
+ * @param newName - New name with pluralization (e.g., "Topic[s]")
+ * @param analysis - Semantic analysis of the project (computed if omitted)
+ * @returns Edits per affected file, in file order
+ * @throws RenameError if the model is unknown, the name invalid or already taken
+ */
+export function renameModel(
+  project: ProjectAST,
+  name: string,
+  newName: string,
+  analysis: SemanticAnalysis = analyzeProject(project)
+): FileEdits[] {
+  const { symbols } = analysis;
+  const ddl = project.sources.ddl;
+  const model = symbols.resolveModel(name);
+  if (!model) {
+    throw new RenameError(`Model '${name}' not found`, 'PARSE010', FILE_START, ddl.path);
+  }
+
+  const target = parseNewModelName(newName, ddl.path);
+  for (const form of [target.singular, target.plural]) {
+    const existing = symbols.resolveModel(form);
+    if (existing && existing !== model) {
+      throw new RenameError(
+        `Model '${existing.definition.name.singular}' already exists`,
+        'PARSE004',
+        existing.definition.name.start,
+        ddl.path
+      );
+    }
+  }
+
+  const edits = new EditCollector(project);
+  edits.replace('ddl', model.definition.name, target.originalForm);
+
+  const { singular, plural } = model.definition.name;
+  for (const reference of analysis.references) {
+    if (reference.kind !== 'model' || reference.model !== model) continue;
+
+    const written = edits.textAt(reference.file, reference);
+    const form = written.toLowerCase();
+    if (form === singular.toLowerCase()) {
+      edits.replace(reference.file, reference, matchCase(written, target.singular));
+    } else if (form === plural.toLowerCase()) {
+      edits.replace(reference.file, reference, matchCase(written, target.plural));
+    }
+  }
+
+  // Foreign keys generated for `belongs to <model>` are renamed with it
+  const foreignKey = foreignKeyName(singular);
+  const newForeignKey = foreignKeyName(target.singular);
+  if (newForeignKey !== foreignKey) {
+    const renamed = new Set<FieldSymbol>();
+    for (const owner of symbols.getModels()) {
+      const field = owner.fields.get(foreignKey);
+      if (!field?.implicit || !belongsTo(owner, model, symbols)) {
+        continue;
+      }
+      checkFieldCollision(owner, field, newForeignKey, ddl.path);
+      renamed.add(field);
+    }
+
+    for (const reference of analysis.references) {
+      if (reference.kind === 'field' && renamed.has(reference.field)) {
+        edits.renameField(reference.file, reference, foreignKey, newForeignKey);
+      }
+    }
+  }
+
+  return edits.result();
+}
+
+/**
+ * Rename a field of a model in every DSL file
+ *
+ * @param project - Project AST
+ * @param modelName - Singular or plural name of the model (e.g., "Comment")
+ * @param name - Current field name, in any spelling (e.g., "is approved")
+ * @param newName - New field name as it should be written in ddl.dsl (e.g., "approved")
+ * @param analysis - Semantic analysis of the project (computed if omitted)
+ * @returns Edits per affected file, in file order
+ * @throws RenameError if the field is unknown or generated, the name invalid or already taken
+ */
+export function renameField(
+  project: ProjectAST,
+  modelName: string,
+  name: string,
+  newName: string,
+  analysis: SemanticAnalysis = analyzeProject(project)
+): FileEdits[] {
+  const { symbols } = analysis;
+  const ddl = project.sources.ddl;
+  const model = symbols.resolveModel(modelName);
+  if (!model) {
+    throw new RenameError(`Model '${modelName}' not found`, 'PARSE010', FILE_START, ddl.path);
+  }
+
+  const modelSingular = model.definition.name.singular;
+  const field = symbols.resolveField(model, name);
+  if (!field) {
+    throw new RenameError(
+      `Field '${name}' not found in model '${modelSingular}'`,
+      'PARSE011',
+      model.definition.name.start,
+      ddl.path
+    );
+  }
+
+  const { definition } = field;
+  if (field.implicit) {
+    throw new RenameError(
+      `Field '${definition.name}' of model '${modelSingular}' is generated and cannot be renamed`,
+      'PARSE003',
+      definition.start,
+      ddl.path
+    );
+  }
+
+  let normalized: string;
+  try {
+    normalized = normalizeIdentifier(newName).toLowerCase();
+  } catch (error) {
+    throw new RenameError((error as Error).message, 'PARSE003', definition.start, ddl.path);
+  }
+  checkFieldCollision(model, field, normalized, ddl.path);
+
+  const edits = new EditCollector(project);
+  const declared = findNameInNode(ddl.source, definition, [definition.originalName]);
+  if (declared) {
+    edits.replace('ddl', declared, newName.trim());
+  }
+
+  for (const reference of analysis.references) {
+    if (reference.kind === 'field' && reference.field === field) {
+      edits.renameField(reference.file, reference, definition.name, newName.trim());
+    }
+  }
+
+  return edits.result();
+}
+
+const FILE_START: Position = { line: 1, column: 1, offset: 0 };
+
+/**
+ * Edits collected per file; the first edit at an offset wins
+ */
+class EditCollector {
+  private edits = new Map<DSLFileKind, TextEdit[]>();
+
+  constructor(private project: ProjectAST) {}
+
+  textAt(file: DSLFileKind, node: BaseNode): string {
+    return this.project.sources[file].source.slice(node.start.offset, node.end.offset);
+  }
+
+  replace(file: DSLFileKind, node: BaseNode, text: string): void {
+    const edits = this.edits.get(file) ?? [];
+    const offset = node.start.offset;
+    const deleteCount = node.end.offset - offset;
+    const overlaps = edits.some(
+      (edit) => offset < edit.offset + edit.deleteCount && edit.offset < offset + deleteCount
+    );
+
+    if (!overlaps && this.textAt(file, node) !== text) {
+      edits.push({ offset, deleteCount, insertText: text });
+      this.edits.set(file, edits);
+    }
+  }
+
+  /**
+   * Replace a field occurrence, keeping its word separator
+   * Occurrences that do not spell the field (unlocated references) are skipped
+   */
+  renameField(file: DSLFileKind, node: BaseNode, name: string, newName: string): void {
+    const written = this.textAt(file, node);
+    if (written.replace(/[\s-]+/g, '_').toLowerCase() !== name.toLowerCase()) {
+      return;
+    }
+
+    const separator = /[\s_-]+/.exec(written)?.[0];
+    const words = newName.split(/[\s_-]+/).filter((word) => word.length > 0);
+    this.replace(file, node, separator ? words.join(separator) : newName);
+  }
+
+  result(): FileEdits[] {
+    return DSL_FILE_KINDS.flatMap((kind) => {
+      const edits = this.edits.get(kind);
+      return edits
+        ? [
+            {
+              kind,
+              path: this.project.sources[kind].path,
+              edits: [...edits].sort((a, b) => a.offset - b.offset),
+            },
+          ]
+        : [];
+    });
+  }
+}
+
+/**
+ * Parse and check a new model name
+ */
+function parseNewModelName(newName: string, path: string): ReturnType<typeof parseModelName> {
+  try {
+    const name = parseModelName(newName.trim());
+    for (const form of [name.singular, name.plural]) {
+      if (normalizeIdentifier(form) !== form) {
+        throw new Error(`Invalid model name: '${form}'`);
+      }
+    }
+    return name;
+  } catch (error) {
+    throw new RenameError((error as Error).message, 'PARSE007', FILE_START, path);
+  }
+}
+
+/**
+ * Refuse a field name already used by another field of the model
+ */
+function checkFieldCollision(
+  model: ModelSymbol,
+  field: FieldSymbol,
+  newName: string,
+  path: string
+): void {
+  const existing = model.fields.get(newName);
+  if (existing && existing !== field) {
+    throw new RenameError(
+      `Field '${newName}' already exists in model '${model.definition.name.singular}'`,
+      'PARSE003',
+      existing.definition.start,
+      path
+    );
+  }
+}
+
+/**
+ * Whether a model has a `belongs to` relationship with another model
+ */
+function belongsTo(owner: ModelSymbol, model: ModelSymbol, symbols: SymbolTable): boolean {
+  return owner.definition.items.some(
+    (item) =>
+      isRelationshipDefinition(item) &&
+      item.type === RelationshipType.BELONGS_TO &&
+      symbols.resolveModel(item.targetModel) === model
+  );
+}
+
+/**
+ * Keep a lowercase first letter of the written name ("posts" → "topics")
+ */
+function matchCase(written: string, name: string): string {
+  const first = written.charAt(0);
+  return first !== '' && first === first.toLowerCase() && first !== first.toUpperCase()
+    ? name.charAt(0).toLowerCase() + name.slice(1)
+    : name;
+}
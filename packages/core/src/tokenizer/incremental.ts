@@ -0,0 +1,188 @@
+/**
+ * Incremental tokenization for DeclareLang DSL
+ * Re-lexes only the lines touched by an edit and reuses every other token
+ *
+ * The re-lexed range is widened so that the Tokenizer is in the same state at
+ * both ends as when tokenizing the whole text:
+ * - It starts and ends on line boundaries that the edit did not touch
+ * - It takes in the comment and blank lines above the edited lines, and the next
+ *   line with a token below them, because trivia is attached to the next token
+ * Tokens before the range are reused as they are; tokens after it are moved by
+ * the number of characters and lines the edit added or removed.
+ */
+
+import { Token, TokenType, TokenizerError } from '../types/token.js';
+import { TextEdit, applyTextEdit, shiftPositions } from '../utils/source.js';
+import { Tokenizer } from './tokenizer.js';
+
+/**
+ * Result of re-tokenizing after an edit
+ */
+export interface IncrementalTokens {
+  text: string; // source text after the edit
+  tokens: Token[]; // tokens of the whole text
+  start: number; // offset where the re-lexed range starts
+  end: number; // offset where the re-lexed range ends (in the edited text)
+}
+
+/**
+ * Re-tokenize source text after an edit
+ *
+ * @param text - Source text before the edit
+ * @param tokens - Tokens of the text before the edit
+ * @param edit - Edit to apply
+ * @returns Edited text and its tokens, equal to tokenizing the edited text in full
+ * @throws TokenizerError if the edited text cannot be tokenized
+ */
+export function retokenize(text: string, tokens: Token[], edit: TextEdit): IncrementalTokens {
+  const edited = applyTextEdit(text, edit);
+  const editStart = Math.max(0, Math.min(edit.offset, text.length));
+  const editEnd = Math.max(editStart, Math.min(edit.offset + edit.deleteCount, text.length));
+  const delta = edited.length - text.length;
+
+  if (tokens[tokens.length - 1]?.type !== TokenType.EOF) {
+    return tokenizeAll(edited);
+  }
+
+  const first = firstRelexed(tokens, editStart);
+  const last = lastRelexed(tokens, editEnd);
+  const start = first > 0 ? (tokens[first - 1]?.end.offset ?? 0) : 0;
+  const lastToken = tokens[last];
+  const atEnd = lastToken?.type === TokenType.EOF;
+  const end = atEnd ? text.length : (lastToken?.end.offset ?? text.length);
+  const line = tokens[first]?.start.line ?? 1;
+
+  let relexed: Token[];
+  try {
+    relexed = new Tokenizer(edited.slice(start, end + delta)).tokenize();
+  } catch (error) {
+    if (!(error instanceof TokenizerError)) {
+      throw error;
+    }
+    // e.g. a string opened in the range and closed after it
+    return tokenizeAll(edited);
+  }
+
+  const eof = relexed.pop();
+  if (!atEnd && eof?.leadingTrivia) {
+    return tokenizeAll(edited);
+  }
+  if (atEnd && eof) {
+    relexed.push(eof);
+  }
+
+  const lines = countNewlines(relexed) - countNewlines(tokens.slice(first, last + 1));
+  return {
+    text: edited,
+    tokens: [
+      ...tokens.slice(0, first),
+      ...relexed.map((token) => shiftPositions(token, start, line - 1)),
+      ...tokens.slice(last + 1).map((token) => shiftPositions(token, delta, lines)),
+    ],
+    start,
+    end: end + delta,
+  };
+}
+
+function tokenizeAll(text: string): IncrementalTokens {
+  return { text, tokens: new Tokenizer(text).tokenize(), start: 0, end: text.length };
+}
+
+/**
+ * Index of the first re-lexed token: the start of the first edited line, moved up
+ * over the comment and blank lines above it
+ */
+function firstRelexed(tokens: Token[], editStart: number): number {
+  let index = lineStart(
+    tokens,
+    firstIndex(tokens, (token) => token.end.offset >= editStart)
+  );
+  while (index > 0) {
+    const previous = lineStart(tokens, index - 1);
+    if (hasContent(tokens, previous, index - 1)) {
+      break;
+    }
+    index = previous;
+  }
+  return index;
+}
+
+/**
+ * Index of the last re-lexed token: the newline ending the last edited line, moved
+ * down over the comment and blank lines below it and the next line with content
+ */
+function lastRelexed(tokens: Token[], editEnd: number): number {
+  let index = firstIndex(tokens, (token) => token.start.offset > editEnd);
+  index = lineEnd(tokens, Math.max(index - 1, 0));
+  // The newline must not be part of the edit, nor end where text is inserted
+  while ((tokens[index]?.end.offset ?? 0) <= editEnd && index < tokens.length - 1) {
+    index = lineEnd(tokens, index + 1);
+  }
+
+  while (index < tokens.length - 1) {
+    const next = lineEnd(tokens, index + 1);
+    index = next;
+    if (hasContent(tokens, lineStart(tokens, next), next)) {
+      break;
+    }
+  }
+  return index;
+}
+
+/**
+ * First index whose token matches, or the EOF index when none does
+ * (tokens are ordered by offset, so the predicate must be monotonic)
+ */
+function firstIndex(tokens: Token[], matches: (token: Token) => boolean): number {
+  let low = 0;
+  let high = tokens.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    const token = tokens[middle];
+    if (!token || matches(token)) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Index of the first token on the line of tokens[index]
+ */
+function lineStart(tokens: Token[], index: number): number {
+  let i = index;
+  while (i > 0 && tokens[i - 1]?.type !== TokenType.NEWLINE) {
+    i--;
+  }
+  return i;
+}
+
+/**
+ * Index of the newline (or EOF) ending the line of tokens[index]
+ */
+function lineEnd(tokens: Token[], index: number): number {
+  let i = index;
+  while (i < tokens.length - 1 && tokens[i]?.type !== TokenType.NEWLINE) {
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Whether the tokens from..to (inclusive) hold anything but comments and newlines
+ */
+function hasContent(tokens: Token[], from: number, to: number): boolean {
+  for (let i = from; i <= to; i++) {
+    const type = tokens[i]?.type;
+    if (type !== TokenType.COMMENT && type !== TokenType.NEWLINE) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function countNewlines(tokens: Token[]): number {
+  return tokens.filter((token) => token.type === TokenType.NEWLINE).length;
+}
@@ -3,3 +3,4 @@
  */
 
 export * from './tokenizer.js';
+export * from './incremental.js';
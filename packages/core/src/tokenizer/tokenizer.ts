@@ -7,14 +7,15 @@
  * - Identifier normalization (spaces/hyphens → underscores)
  * - Position tracking for error reporting
  * - Comment support
+ * - Trivia: comments and blank lines are attached to the neighbouring tokens
  */
 
-import { Token, TokenType, Position, TokenizerError } from '../types/token.js';
+import { Token, TokenType, Position, Trivia, TokenizerError } from '../types/token.js';
 
 /**
  * Keyword map (lowercase for case-insensitive matching)
  */
-const KEYWORDS: Record<string, TokenType> = {
+export const KEYWORDS: Record<string, TokenType> = {
   // Model/Entity
   has: TokenType.HAS,
   as: TokenType.AS,
@@ -201,6 +202,7 @@ export class Tokenizer {
   private line = 1;
   private column = 1;
   private tokens: Token[] = [];
+  private pendingTrivia: Trivia[] = [];
 
   constructor(input: string) {
     this.input = input;
@@ -211,6 +213,7 @@ export class Tokenizer {
    */
   tokenize(): Token[] {
     this.tokens = [];
+    this.pendingTrivia = [];
 
     while (!this.isAtEnd()) {
       this.skipWhitespace();
@@ -218,21 +221,67 @@ export class Tokenizer {
 
       const token = this.nextToken();
       if (token) {
+        this.attachTrivia(token);
         this.tokens.push(token);
       }
     }
 
     // Add EOF token
-    this.tokens.push({
+    const eof: Token = {
       type: TokenType.EOF,
       value: '',
       start: this.currentPosition(),
       end: this.currentPosition(),
-    });
+    };
+    this.attachTrivia(eof);
+    this.tokens.push(eof);
 
     return this.tokens;
   }
 
+  /**
+   * Attach trivia before a token is added
+   * - A comment after a token on the same line is trailing trivia of that token
+   * - Other comments and blank lines are leading trivia of the next token that
+   *   is neither a comment nor a newline
+   * COMMENT tokens stay in the token stream as well
+   */
+  private attachTrivia(token: Token): void {
+    const previous = this.tokens[this.tokens.length - 1];
+
+    if (token.type === TokenType.COMMENT) {
+      const comment: Trivia = {
+        type: 'comment',
+        text: token.value.trimEnd(),
+        start: token.start,
+        end: token.end,
+      };
+      if (previous && previous.type !== TokenType.NEWLINE) {
+        previous.trailingTrivia = [...(previous.trailingTrivia ?? []), comment];
+      } else {
+        this.pendingTrivia.push(comment);
+      }
+      return;
+    }
+
+    if (token.type === TokenType.NEWLINE) {
+      if (!previous || previous.type === TokenType.NEWLINE) {
+        this.pendingTrivia.push({
+          type: 'blank_line',
+          text: '',
+          start: token.start,
+          end: token.end,
+        });
+      }
+      return;
+    }
+
+    if (this.pendingTrivia.length > 0) {
+      token.leadingTrivia = this.pendingTrivia;
+      this.pendingTrivia = [];
+    }
+  }
+
   /**
    * Get next token
    */
@@ -309,6 +358,9 @@ export class Tokenizer {
       case '%':
         this.advance();
         return this.makeToken(TokenType.IDENTIFIER, '%', start);
+      case '*':
+        this.advance();
+        return this.makeToken(TokenType.IDENTIFIER, '*', start);
     }
 
     // Identifiers and keywords
@@ -316,7 +368,9 @@ export class Tokenizer {
       return this.readIdentifierOrKeyword(start);
     }
 
-    throw new TokenizerError(`Unexpected character: '${char}'`, this.currentPosition());
+    throw new TokenizerError(`Unexpected character: '${char}'`, start, 'PARSE001', {
+      end: { ...start, column: start.column + 1, offset: start.offset + 1 },
+    });
   }
 
   /**
@@ -369,7 +423,9 @@ export class Tokenizer {
     }
 
     if (this.isAtEnd()) {
-      throw new TokenizerError('Unterminated string', start);
+      throw new TokenizerError('Unterminated string', start, 'PARSE001', {
+        end: this.currentPosition(),
+      });
     }
 
     this.advance(); // consume closing quote
@@ -470,7 +526,9 @@ export class Tokenizer {
     if (value.length > 63) {
       throw new TokenizerError(
         `Identifier exceeds maximum length of 63 characters: '${value}'`,
-        start
+        start,
+        'PARSE003',
+        { end: this.currentPosition() }
       );
     }
 
@@ -3,14 +3,17 @@
  * Based on DSL Grammar Specification v0.1.0
  */
 
-import { Position } from './token.js';
+import { Position, Trivia } from './token.js';
 
 /**
  * Base node with position information
+ * Trivia is kept on files, sections and list items (the nodes that own a line)
  */
 export interface BaseNode {
   start: Position;
   end: Position;
+  leadingTrivia?: Trivia[];
+  trailingTrivia?: Trivia[];
 }
 
 /**
@@ -162,6 +165,7 @@ export interface Condition extends BaseNode {
   field: string; // normalized field name
   operator: ComparisonOperator;
   value?: ConditionValue; // optional for IS_EMPTY, IS_NOT_EMPTY
+  upperValue?: ConditionValue; // upper bound of IS_BETWEEN
 }
 
 /**
@@ -391,6 +395,7 @@ export interface FieldPermission extends BaseNode {
   action: FieldAction;
   fieldName: string; // normalized
   allowed: boolean; // true for "can", false for "cannot"
+  mutation?: string; // normalized mutation name, for "only <mutation> mutation can …"
 }
 
 /**
@@ -486,6 +491,7 @@ export interface RateLimitRule extends BaseNode {
   modelName: string; // User, Post, etc.
   action: string; // create, update, etc.
   limit: number;
+  targetModel?: string; // e.g., "Posts" in "at most 10 Posts per day", none for "3 times"
   period: string; // per day, per hour, etc.
 }
 
@@ -775,6 +781,7 @@ export interface AlertCondition extends BaseNode {
   comparison: AlertComparison;
   threshold: number;
   thresholdUnit?: ThresholdUnit;
+  originalUnit?: string; // unit as written, e.g., "per minute"
   timeWindow?: TimeWindow;
 }
 
@@ -792,6 +799,7 @@ export interface AlertDefinition extends BaseNode {
 export interface MonitorConfigItem extends BaseNode {
   name: string; // e.g., "database query time"
   originalName: string;
+  value?: string; // e.g., "monitored", "500 milliseconds"
 }
 
 /**
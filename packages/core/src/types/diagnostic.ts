@@ -0,0 +1,62 @@
+/**
+ * Diagnostic types for DeclareLang
+ * Error codes follow the Error Code Registry (docs/specs/error-code-registry.md)
+ */
+
+import { Position } from './token.js';
+
+/**
+ * Parser error codes (PARSE001-PARSE020)
+ */
+export type ParseErrorCode =
+  | 'PARSE001' // Unexpected token
+  | 'PARSE002' // Missing required keyword
+  | 'PARSE003' // Invalid field name
+  | 'PARSE004' // Duplicate model definition
+  | 'PARSE005' // Unknown field type
+  | 'PARSE006' // Unknown constraint
+  | 'PARSE007' // Invalid pluralization
+  | 'PARSE008' // Invalid time expression
+  | 'PARSE009' // Invalid comparison operator
+  | 'PARSE010' // Model reference not found
+  | 'PARSE011' // Field reference not found
+  | 'PARSE012' // Circular relationship
+  | 'PARSE013' // Invalid query syntax
+  | 'PARSE014' // Invalid mutation syntax
+  | 'PARSE015' // Invalid auth rule
+  | 'PARSE016' // Undefined role
+  | 'PARSE017' // Invalid validation constraint
+  | 'PARSE018' // Unsupported aggregation
+  | 'PARSE019' // Missing file
+  | 'PARSE020'; // File read error
+
+/**
+ * Diagnostic severity
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Machine-applicable fix: replace the text between start and end
+ * (an insertion when start equals end)
+ */
+export interface DiagnosticFix {
+  description: string; // e.g., "Replace with 'User'"
+  replacement: string;
+  start: Position;
+  end: Position;
+}
+
+/**
+ * A problem found in a DSL file
+ * Produced by the tokenizer, every parser and the semantic validators
+ */
+export interface DeclareDiagnostic {
+  code: ParseErrorCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  file?: string; // path of the DSL file
+  start: Position;
+  end: Position;
+  help?: string; // how to resolve the problem
+  fix?: DiagnosticFix;
+}
@@ -4,3 +4,5 @@
 
 export * from './token.js';
 export * from './ast.js';
+export * from './project.js';
+export * from './diagnostic.js';
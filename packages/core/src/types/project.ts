@@ -0,0 +1,79 @@
+/**
+ * Project-level types for DeclareLang
+ * A project is the combination of all nine DSL files in a schema directory
+ */
+
+import {
+  DDLFile,
+  DMLFile,
+  AUTHFile,
+  VALIDATIONFile,
+  APIFile,
+  MONITORFile,
+  LOGFile,
+  SECURITYFile,
+  SEEDFile,
+} from './ast.js';
+
+/**
+ * DSL file kinds (one per file in the schema directory)
+ */
+export type DSLFileKind =
+  | 'ddl'
+  | 'dml'
+  | 'auth'
+  | 'validation'
+  | 'api'
+  | 'monitor'
+  | 'log'
+  | 'security'
+  | 'seed';
+
+/**
+ * Parsed AST for each DSL file kind
+ */
+export interface DSLFileMap {
+  ddl: DDLFile;
+  dml: DMLFile;
+  auth: AUTHFile;
+  validation: VALIDATIONFile;
+  api: APIFile;
+  monitor: MONITORFile;
+  log: LOGFile;
+  security: SECURITYFile;
+  seed: SEEDFile;
+}
+
+/**
+ * Source information for a single DSL file
+ * All AST positions of the matching file are relative to `source`
+ */
+export interface ProjectSource {
+  kind: DSLFileKind;
+  path: string; // e.g., "/app/schema/ddl.dsl"
+  source: string; // file contents ("" when missing)
+  exists: boolean; // false when the file was not found
+}
+
+/**
+ * Combined AST of all DSL files in a project
+ */
+export interface ProjectAST extends DSLFileMap {
+  root: string; // schema directory
+  sources: Record<DSLFileKind, ProjectSource>;
+}
+
+/**
+ * Schema layout (mirrors `schema` in framework.config.ts)
+ */
+export interface SchemaConfig {
+  path?: string; // default: "./schema"
+  files?: string[]; // default: all nine DSL files
+}
+
+/**
+ * Options for loading a project
+ */
+export interface ProjectConfig {
+  schema?: SchemaConfig;
+}
@@ -3,6 +3,10 @@
  * Based on DSL Grammar Specification v0.1.0
  */
 
+import { ParseError } from '../diagnostics/parse-error.js';
+import { DiagnosticDetails } from '../diagnostics/codes.js';
+import { ParseErrorCode } from './diagnostic.js';
+
 export enum TokenType {
   // Literals
   IDENTIFIER = 'IDENTIFIER',
@@ -214,6 +218,16 @@ export interface Position {
   offset: number;
 }
 
+/**
+ * Comment or blank line kept alongside the significant tokens
+ */
+export interface Trivia {
+  type: 'comment' | 'blank_line';
+  text: string; // comment text including "#", empty for blank lines
+  start: Position;
+  end: Position;
+}
+
 /**
  * Token with type, value, and position information
  */
@@ -222,17 +236,21 @@ export interface Token {
   value: string;
   start: Position;
   end: Position;
+  leadingTrivia?: Trivia[]; // comments and blank lines on the lines before the token
+  trailingTrivia?: Trivia[]; // comment after the token on the same line
 }
 
 /**
  * Tokenization error
  */
-export class TokenizerError extends Error {
+export class TokenizerError extends ParseError {
   constructor(
     message: string,
-    public position: Position
+    position: Position,
+    code: ParseErrorCode = 'PARSE001',
+    details: DiagnosticDetails = {}
   ) {
-    super(message);
+    super(message, position, code, details);
     this.name = 'TokenizerError';
   }
 }
@@ -3,6 +3,8 @@
  * Based on DSL Grammar Specification v0.1.0
  */
 
+import { ParseError, ParseErrorRange } from '../diagnostics/parse-error.js';
+
 /**
  * Normalize identifier according to DSL rules:
  * - Spaces → underscores
@@ -46,6 +48,29 @@ export function normalizeIdentifier(identifier: string): string {
   return normalized;
 }
 
+/**
+ * Normalize a name read by a parser, reporting invalid names as parse errors
+ * (PARSE003) over the tokens of the name
+ *
+ * @param name - Raw name from DSL
+ * @param range - Source range of the name
+ * @returns Normalized identifier
+ * @throws ParseError if the name is invalid
+ */
+export function normalizeName(name: string, range: ParseErrorRange): string {
+  try {
+    return normalizeIdentifier(name);
+  } catch (error) {
+    // An empty name ends before it starts: point at where it was expected
+    const { start, end } = range;
+    throw new ParseError(
+      error instanceof Error ? error.message : String(error),
+      { start, end: end.offset < start.offset ? start : end },
+      'PARSE003'
+    );
+  }
+}
+
 /**
  * Parse model name with pluralization
  * Supports:
@@ -118,3 +143,50 @@ export function parseModelName(modelName: string): {
     };
   }
 }
+
+/**
+ * Convert an identifier to snake_case
+ * Used for table and column names:
+ * - "User" → "user"
+ * - "BlogPost" → "blog_post"
+ * - "created at" → "created_at"
+ *
+ * @param identifier - Model or field name
+ * @returns snake_case identifier
+ */
+export function toSnakeCase(identifier: string): string {
+  return identifier
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/[\s-]+/g, '_')
+    .toLowerCase();
+}
+
+/**
+ * Convert an identifier to camelCase
+ * Used for generated TypeScript variables and properties:
+ * - "Users" → "users"
+ * - "BlogPosts" → "blogPosts"
+ * - "created at" → "createdAt"
+ *
+ * @param identifier - Model or field name
+ * @returns camelCase identifier
+ */
+export function toCamelCase(identifier: string): string {
+  return toSnakeCase(identifier).replace(/_+([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Convert an identifier to PascalCase
+ * Used for generated TypeScript types and schemas:
+ * - "user" → "User"
+ * - "blog_post" → "BlogPost"
+ *
+ * @param identifier - Model or field name
+ * @returns PascalCase identifier
+ */
+export function toPascalCase(identifier: string): string {
+  const camel = toCamelCase(identifier);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
@@ -0,0 +1,139 @@
+/**
+ * Source text utilities
+ * Map offsets back to positions and locate names inside AST node ranges
+ */
+
+import { Position } from '../types/token.js';
+import { BaseNode } from '../types/ast.js';
+
+/**
+ * Compute the position of an offset in source text
+ * Lines and columns are 1-based, matching the tokenizer
+ *
+ * @param source - Source text
+ * @param offset - Character offset
+ * @returns Position at the offset
+ */
+export function positionAt(source: string, offset: number): Position {
+  const clamped = Math.max(0, Math.min(offset, source.length));
+  let line = 1;
+  let lineStart = 0;
+
+  for (let i = 0; i < clamped; i++) {
+    if (source.charAt(i) === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+
+  return { line, column: clamped - lineStart + 1, offset: clamped };
+}
+
+/**
+ * Locate a name written in the DSL inside a node's range
+ * Words may be separated by spaces, hyphens or underscores in the source
+ * ("created_at" matches "created at"), so normalized names can be found again
+ *
+ * @param source - Source text the node was parsed from
+ * @param node - Node whose range is searched
+ * @param names - Spellings to look for, in order of preference
+ * @returns Range of the first match, or undefined if no spelling occurs in the node
+ */
+export function findNameInNode(
+  source: string,
+  node: BaseNode,
+  names: string[]
+): BaseNode | undefined {
+  const text = source.slice(node.start.offset, node.end.offset);
+
+  for (const name of names) {
+    const words = name.split(/[\s_-]+/).filter((w) => w.length > 0);
+    if (words.length === 0) continue;
+
+    const pattern = words.map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[\\s_-]+');
+    const match = new RegExp(`(?<![A-Za-z0-9_])${pattern}(?![A-Za-z0-9_])`).exec(text);
+
+    if (match) {
+      const offset = node.start.offset + match.index;
+      return {
+        start: positionAt(source, offset),
+        end: positionAt(source, offset + match[0].length),
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * A change to source text: delete `deleteCount` characters at `offset`,
+ * then insert `insertText` there
+ */
+export interface TextEdit {
+  offset: number;
+  deleteCount: number;
+  insertText: string;
+}
+
+/**
+ * Apply a text edit to source text
+ *
+ * @param source - Source text before the edit
+ * @param edit - Edit to apply (offsets are clamped to the text)
+ * @returns Source text after the edit
+ */
+export function applyTextEdit(source: string, edit: TextEdit): string {
+  const start = Math.max(0, Math.min(edit.offset, source.length));
+  const end = Math.max(start, Math.min(edit.offset + edit.deleteCount, source.length));
+  return source.slice(0, start) + edit.insertText + source.slice(end);
+}
+
+/**
+ * Apply several text edits to source text
+ *
+ * @param source - Source text before the edits
+ * @param edits - Non-overlapping edits, with offsets relative to `source`
+ * @returns Source text after all edits
+ */
+export function applyTextEdits(source: string, edits: TextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.offset - a.offset)
+    .reduce((text, edit) => applyTextEdit(text, edit), source);
+}
+
+/**
+ * Copy a value, moving every position inside it by a number of characters and lines
+ * Used to reuse tokens, nodes and diagnostics that follow an edit; columns are
+ * kept, so the value must start on a line the edit did not touch
+ *
+ * @param value - Token, AST node, diagnostic or array of them
+ * @param offset - Characters to add to each offset
+ * @param lines - Lines to add to each line number
+ * @returns The value itself when nothing moves, otherwise a moved copy
+ */
+export function shiftPositions<T>(value: T, offset: number, lines: number): T {
+  if (offset === 0 && lines === 0) {
+    return value;
+  }
+  return shift(value, offset, lines) as T;
+}
+
+function shift(value: unknown, offset: number, lines: number): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => shift(item, offset, lines));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  if (isPosition(value)) {
+    return { line: value.line + lines, column: value.column, offset: value.offset + offset };
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, shift(item, offset, lines)])
+  );
+}
+
+function isPosition(value: object): value is Position {
+  const keys = Object.keys(value);
+  return keys.length === 3 && 'line' in value && 'column' in value && 'offset' in value;
+}
@@ -0,0 +1,61 @@
+/**
+ * "Did you mean" suggestions for unresolved names
+ */
+
+/**
+ * Levenshtein edit distance between two strings
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns Minimum number of single-character edits
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1;
+      current.push(
+        Math.min(
+          (previous[j] ?? 0) + 1, // deletion
+          (current[j - 1] ?? 0) + 1, // insertion
+          (previous[j - 1] ?? 0) + cost // substitution
+        )
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length] ?? 0;
+}
+
+/**
+ * Find the closest matching name (case-insensitive)
+ * Only names within roughly a third of the input length are suggested
+ *
+ * @param name - Name that could not be resolved
+ * @param candidates - Known names
+ * @returns Closest candidate, or undefined if nothing is close enough
+ */
+export function findClosestMatch(name: string, candidates: Iterable<string>): string | undefined {
+  const target = name.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(target.length / 3));
+
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = levenshtein(target, candidate.toLowerCase());
+    if (distance <= maxDistance && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
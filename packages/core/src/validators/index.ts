@@ -0,0 +1,6 @@
+/**
+ * Semantic validators
+ */
+
+export * from './symbol-table.js';
+export * from './reference-validator.js';
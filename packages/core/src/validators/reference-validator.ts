@@ -0,0 +1,414 @@
+/**
+ * Reference validator for DeclareLang
+ * Semantic pass over a ProjectAST that resolves every model and field
+ * reference in the DSL files against the models defined in ddl.dsl
+ *
+ * Reports:
+ * PARSE010 - Model reference not found
+ * PARSE011 - Field reference not found
+ */
+
+import { BaseNode, Condition, WhereClause } from '../types/ast.js';
+import { DeclareDiagnostic } from '../types/diagnostic.js';
+import { createDiagnostic, replaceWith } from '../diagnostics/codes.js';
+import { DSLFileKind, ProjectAST } from '../types/project.js';
+import { findClosestMatch } from '../utils/suggestion.js';
+import { findNameInNode, positionAt } from '../utils/source.js';
+import { FieldSymbol, ModelSymbol, SymbolTable } from './symbol-table.js';
+
+/**
+ * A reference that resolved to a model
+ */
+export interface ModelSymbolReference extends BaseNode {
+  kind: 'model';
+  file: DSLFileKind;
+  name: string; // as referenced (e.g., "Posts")
+  model: ModelSymbol;
+}
+
+/**
+ * A reference that resolved to a field of a model
+ */
+export interface FieldSymbolReference extends BaseNode {
+  kind: 'field';
+  file: DSLFileKind;
+  name: string; // normalized (e.g., "published_at")
+  model: ModelSymbol;
+  field: FieldSymbol;
+}
+
+export type SymbolReference = ModelSymbolReference | FieldSymbolReference;
+
+/**
+ * Result of the semantic pass
+ */
+export interface SemanticAnalysis {
+  symbols: SymbolTable;
+  references: SymbolReference[];
+  diagnostics: DeclareDiagnostic[];
+}
+
+/**
+ * Resolve all model and field references of a project
+ *
+ * @param project - Project loaded with loadProject/parseProject
+ * @returns Symbol table, resolved references and PARSE010/PARSE011 diagnostics
+ */
+export function analyzeProject(project: ProjectAST): SemanticAnalysis {
+  return new ReferenceValidator(project).validate();
+}
+
+/**
+ * Reference validator
+ */
+class ReferenceValidator {
+  private symbols: SymbolTable;
+  private references: SymbolReference[] = [];
+  private diagnostics: DeclareDiagnostic[] = [];
+
+  constructor(private project: ProjectAST) {
+    this.symbols = new SymbolTable(project.ddl);
+  }
+
+  validate(): SemanticAnalysis {
+    this.validateDDL();
+    this.validateDML();
+    this.validateAUTH();
+    this.validateVALIDATION();
+    this.validateAPI();
+    this.validateMONITOR();
+    this.validateLOG();
+    this.validateSEED();
+
+    return {
+      symbols: this.symbols,
+      references: this.references,
+      diagnostics: this.diagnostics,
+    };
+  }
+
+  /**
+   * ddl.dsl: relationship targets
+   */
+  private validateDDL(): void {
+    for (const model of this.project.ddl.models) {
+      for (const item of model.items) {
+        if ('targetModel' in item) {
+          this.model('ddl', item.targetModel, item);
+        }
+      }
+    }
+  }
+
+  /**
+   * dml.dsl: section models, conditions, sort fields, assignments, aggregations
+   */
+  private validateDML(): void {
+    for (const section of this.project.dml.sections) {
+      const model = this.model('dml', section.modelName, section);
+
+      if ('queries' in section) {
+        for (const query of section.queries) {
+          this.whereClause('dml', model, query.whereClause);
+          if (query.sortClause) {
+            this.field('dml', model, query.sortClause.field, query.sortClause);
+          }
+        }
+      } else if ('mutations' in section) {
+        for (const mutation of section.mutations) {
+          if (mutation.action.type === 'sets') {
+            for (const assignment of mutation.action.assignments) {
+              this.field('dml', model, assignment.field, assignment);
+            }
+          } else {
+            this.field('dml', model, mutation.action.field, mutation);
+          }
+        }
+      } else {
+        for (const computed of section.computed) {
+          const aggregation = computed.aggregation;
+          if (aggregation.type === 'counts' || aggregation.type === 'sums') {
+            const target = this.model('dml', aggregation.targetModel, computed);
+            if (aggregation.type === 'sums') {
+              this.field('dml', target, aggregation.field, computed);
+            }
+            this.whereClause('dml', target, aggregation.whereClause);
+          } else if (aggregation.type === 'returns') {
+            this.condition('dml', model, aggregation.condition);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * auth.dsl: rule models, permission targets and conditions, field rules
+   */
+  private validateAUTH(): void {
+    for (const rules of this.project.auth.modelRules) {
+      const model = this.model('auth', rules.modelName, rules);
+      for (const permission of rules.permissions) {
+        const target = this.model('auth', permission.target.modelName, permission.target);
+        this.whereClause('auth', target ?? model, permission.condition);
+      }
+    }
+
+    for (const rules of this.project.auth.fieldRules) {
+      const model = this.model('auth', rules.modelName, rules);
+      for (const permission of rules.permissions) {
+        this.field('auth', model, permission.fieldName, permission);
+      }
+    }
+  }
+
+  /**
+   * validation.dsl: validated models and fields, conditional constraints
+   */
+  private validateVALIDATION(): void {
+    const file = this.project.validation;
+
+    for (const validation of file.validations) {
+      const model = this.model('validation', validation.modelName, validation);
+      for (const rule of validation.rules) {
+        this.field('validation', model, rule.field, rule, rule.originalField);
+
+        const constraint = rule.constraint;
+        if (constraint.type === 'exist_when' || constraint.type === 'be_empty_when') {
+          this.condition('validation', model, constraint.condition);
+        } else if (constraint.type === 'unique_within') {
+          this.model('validation', constraint.modelName, rule);
+        }
+      }
+    }
+
+    for (const rule of [...file.crossFieldRules, ...file.rateLimitRules]) {
+      this.model('validation', rule.modelName, rule);
+    }
+  }
+
+  /**
+   * api.dsl: rate limit and pagination models, sort fields, query parameters
+   */
+  private validateAPI(): void {
+    const file = this.project.api;
+
+    for (const rule of file.rateLimits) {
+      if (rule.modelName) {
+        this.model('api', rule.modelName, this.sectionHeader('api', rule));
+      }
+    }
+
+    for (const config of file.pagination) {
+      if (!config.modelName) continue;
+      const model = this.model('api', config.modelName, config);
+      if (config.defaultSort) {
+        this.field('api', model, config.defaultSort.field, config);
+      }
+      for (const field of config.allowedSortFields ?? []) {
+        this.field('api', model, field, config);
+      }
+    }
+
+    for (const definition of file.queryParams) {
+      const model = this.model('api', definition.modelName, definition);
+      for (const param of definition.params) {
+        this.field('api', model, param.field, param, param.originalField);
+      }
+    }
+  }
+
+  /**
+   * monitor.dsl: tracked and alerted models
+   */
+  private validateMONITOR(): void {
+    for (const track of this.project.monitor.tracks) {
+      if (track.scope.type === 'model') {
+        this.model('monitor', track.scope.modelName, track);
+      }
+    }
+
+    for (const alert of this.project.monitor.alerts) {
+      if (alert.modelName) {
+        this.model('monitor', alert.modelName, alert);
+      }
+    }
+  }
+
+  /**
+   * log.dsl: logged and audited models
+   */
+  private validateLOG(): void {
+    for (const log of this.project.log.logs) {
+      if (log.scope.modelName) {
+        this.model('log', log.scope.modelName.originalForm, log.scope.modelName);
+      }
+    }
+
+    for (const audit of this.project.log.audits) {
+      this.model('log', audit.modelName.originalForm, audit.modelName);
+    }
+  }
+
+  /**
+   * seed.dsl: seeded models, attribute fields, model references
+   */
+  private validateSEED(): void {
+    for (const section of this.project.seed.sections) {
+      const sectionModel = section.modelName
+        ? this.model('seed', section.modelName, section)
+        : undefined;
+
+      for (const item of section.items) {
+        const model =
+          item.type === 'random' ? this.model('seed', item.modelName, item) : sectionModel;
+
+        for (const attribute of item.attributes) {
+          this.field('seed', model, attribute.field, attribute);
+        }
+        for (const reference of item.references) {
+          this.model('seed', reference.modelName, reference);
+        }
+      }
+    }
+  }
+
+  /**
+   * Resolve fields used in a where clause
+   */
+  private whereClause(
+    file: DSLFileKind,
+    model: ModelSymbol | undefined,
+    whereClause: WhereClause | undefined
+  ): void {
+    for (const condition of whereClause?.conditions ?? []) {
+      this.condition(file, model, condition);
+    }
+  }
+
+  /**
+   * Resolve the field of a condition
+   * Besides fields of the contextual model, conditions may name another model
+   * ("Post has no Comments") or one of its fields ("Post published is true").
+   */
+  private condition(file: DSLFileKind, model: ModelSymbol | undefined, condition: Condition): void {
+    if (!model) return;
+
+    const name = condition.field;
+    if (this.symbols.resolveField(model, name)) {
+      this.field(file, model, name, condition);
+      return;
+    }
+
+    if (this.symbols.resolveModel(name)) {
+      this.model(file, name, condition);
+      return;
+    }
+
+    const separator = name.indexOf('_');
+    if (separator > 0) {
+      const other = this.symbols.resolveModel(name.slice(0, separator));
+      const rest = name.slice(separator + 1);
+      if (other && this.symbols.resolveField(other, rest)) {
+        this.model(file, name.slice(0, separator), condition);
+        this.field(file, other, rest, condition);
+        return;
+      }
+    }
+
+    this.field(file, model, name, condition);
+  }
+
+  /**
+   * Resolve a model reference, reporting PARSE010 if it does not exist
+   */
+  private model(file: DSLFileKind, name: string, node: BaseNode): ModelSymbol | undefined {
+    const range = this.locate(file, node, [name, `${name}s`]);
+    const model = this.symbols.resolveModel(name);
+
+    if (model) {
+      this.references.push({ kind: 'model', file, name, model, ...range });
+      return model;
+    }
+
+    const suggestion = findClosestMatch(name, this.symbols.modelNames());
+    this.diagnostics.push(
+      createDiagnostic(
+        'PARSE010',
+        `Model '${name}' not found at line ${range.start.line}` +
+          (suggestion ? `. Did you mean '${suggestion}'?` : ''),
+        range.start,
+        {
+          end: range.end,
+          file: this.project.sources[file].path,
+          fix: suggestion ? replaceWith(suggestion, range.start, range.end) : undefined,
+        }
+      )
+    );
+    return undefined;
+  }
+
+  /**
+   * Resolve a field reference, reporting PARSE011 if the model has no such field
+   * References to unknown models are skipped (already reported as PARSE010)
+   */
+  private field(
+    file: DSLFileKind,
+    model: ModelSymbol | undefined,
+    name: string,
+    node: BaseNode,
+    originalName?: string
+  ): void {
+    if (!model) return;
+
+    const range = this.locate(file, node, originalName ? [originalName, name] : [name]);
+    const field = this.symbols.resolveField(model, name);
+
+    if (field) {
+      this.references.push({ kind: 'field', file, name, model, field, ...range });
+      return;
+    }
+
+    const modelName = model.definition.name.singular;
+    const suggestion = findClosestMatch(name, this.symbols.fieldNames(model));
+    this.diagnostics.push(
+      createDiagnostic(
+        'PARSE011',
+        `Field '${name}' not found in model '${modelName}' at line ${range.start.line}` +
+          (suggestion ? `. Did you mean '${suggestion}'?` : ''),
+        range.start,
+        {
+          end: range.end,
+          file: this.project.sources[file].path,
+          fix: suggestion ? replaceWith(suggestion, range.start, range.end) : undefined,
+        }
+      )
+    );
+  }
+
+  /**
+   * Narrow a node's range to where the name is written, if it can be found
+   */
+  private locate(file: DSLFileKind, node: BaseNode, names: string[]): BaseNode {
+    const found = findNameInNode(this.project.sources[file].source, node, names);
+    return found ?? { start: node.start, end: node.end };
+  }
+
+  /**
+   * Range of the header line above a list item, for items whose model is only
+   * named in the header (e.g., "Rate limit for Posts:")
+   */
+  private sectionHeader(file: DSLFileKind, item: BaseNode): BaseNode {
+    const source = this.project.sources[file].source;
+    let end = source.lastIndexOf('\n', item.start.offset - 1);
+
+    while (end > 0) {
+      const start = source.lastIndexOf('\n', end - 1) + 1;
+      const line = source.slice(start, end).trim();
+      if (line !== '' && !line.startsWith('-') && !line.startsWith('#')) {
+        return { start: positionAt(source, start), end: positionAt(source, end) };
+      }
+      end = start - 1;
+    }
+    return item;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Symbol table for cross-file reference resolution
+ * Indexes the models and fields defined in ddl.dsl
+ *
+ * Models resolve by singular or plural name ("Post", "Posts", "Categories"),
+ * case-insensitively. Besides the declared fields, every model has implicit
+ * fields that the generators add: `id`, `created_at`, `updated_at` and one
+ * foreign key per `belongs to` relationship (e.g., `user_id`).
+ */
+
+import {
+  DDLFile,
+  FieldConstraint,
+  FieldDefinition,
+  FieldType,
+  ModelDefinition,
+  RelationshipType,
+  isFieldDefinition,
+  isRelationshipDefinition,
+} from '../types/ast.js';
+import { toSnakeCase } from '../utils/identifier.js';
+
+/**
+ * Field known to the symbol table
+ */
+export interface FieldSymbol {
+  definition: FieldDefinition;
+  implicit: boolean; // true for generated fields (id, timestamps, foreign keys)
+}
+
+/**
+ * Model known to the symbol table
+ */
+export interface ModelSymbol {
+  definition: ModelDefinition;
+  fields: Map<string, FieldSymbol>; // keyed by lowercase field name
+}
+
+/**
+ * Foreign key column generated for a `belongs to` relationship
+ *
+ * @param modelName - Singular name of the referenced model (e.g., "User")
+ * @returns Foreign key field name (e.g., "user_id")
+ */
+export function foreignKeyName(modelName: string): string {
+  return `${toSnakeCase(modelName)}_id`;
+}
+
+/**
+ * Symbol table built from a DDL file
+ */
+export class SymbolTable {
+  private symbols: ModelSymbol[] = [];
+  private aliases = new Map<string, ModelSymbol>();
+
+  constructor(ddl: DDLFile) {
+    for (const model of ddl.models) {
+      const symbol: ModelSymbol = { definition: model, fields: new Map() };
+      this.symbols.push(symbol);
+
+      for (const alias of this.modelAliases(model)) {
+        if (!this.aliases.has(alias)) {
+          this.aliases.set(alias, symbol);
+        }
+      }
+
+      for (const item of model.items) {
+        if (isFieldDefinition(item)) {
+          this.addField(symbol, item, false);
+        }
+      }
+    }
+
+    // Implicit fields need every model registered to resolve foreign keys
+    for (const symbol of this.symbols) {
+      this.addImplicitFields(symbol);
+    }
+  }
+
+  /**
+   * All models, in definition order
+   */
+  getModels(): ModelSymbol[] {
+    return this.symbols;
+  }
+
+  /**
+   * Resolve a model reference by singular or plural name
+   */
+  resolveModel(name: string): ModelSymbol | undefined {
+    return this.aliases.get(name.trim().toLowerCase());
+  }
+
+  /**
+   * Resolve a field reference (normalized name) within a model
+   */
+  resolveField(model: ModelSymbol, name: string): FieldSymbol | undefined {
+    return model.fields.get(
+      name
+        .trim()
+        .replace(/[\s-]+/g, '_')
+        .toLowerCase()
+    );
+  }
+
+  /**
+   * Model names that can be suggested for an unresolved reference
+   */
+  modelNames(): string[] {
+    return this.symbols.flatMap((s) => {
+      const { singular, plural } = s.definition.name;
+      return singular === plural ? [singular] : [singular, plural];
+    });
+  }
+
+  /**
+   * Field names of a model that can be suggested for an unresolved reference
+   */
+  fieldNames(model: ModelSymbol): string[] {
+    return [...model.fields.values()].map((f) => f.definition.name);
+  }
+
+  /**
+   * Lowercase names a model can be referenced by
+   * AUTH targets drop a trailing "s" from plurals ("Categories" → "Categorie"),
+   * so that spelling is accepted as well.
+   */
+  private modelAliases(model: ModelDefinition): string[] {
+    const singular = model.name.singular.toLowerCase();
+    const plural = model.name.plural.toLowerCase();
+    const aliases = [singular, plural];
+    if (plural.endsWith('s') && plural.length > 1) {
+      aliases.push(plural.slice(0, -1));
+    }
+    return aliases;
+  }
+
+  private addField(symbol: ModelSymbol, definition: FieldDefinition, implicit: boolean): void {
+    const key = definition.name.toLowerCase();
+    if (!symbol.fields.has(key)) {
+      symbol.fields.set(key, { definition, implicit });
+    }
+  }
+
+  private addImplicitFields(symbol: ModelSymbol): void {
+    const model = symbol.definition;
+    const at = { start: model.name.start, end: model.name.end };
+
+    this.addField(
+      symbol,
+      {
+        name: 'id',
+        originalName: 'id',
+        type: FieldType.NUMBER,
+        constraints: [FieldConstraint.UNIQUE, FieldConstraint.REQUIRED],
+        ...at,
+      },
+      true
+    );
+
+    for (const name of ['created_at', 'updated_at']) {
+      this.addField(
+        symbol,
+        {
+          name,
+          originalName: name.replace('_', ' '),
+          type: FieldType.TIMESTAMP,
+          constraints: [],
+          ...at,
+        },
+        true
+      );
+    }
+
+    for (const item of model.items) {
+      if (isRelationshipDefinition(item) && item.type === RelationshipType.BELONGS_TO) {
+        const target =
+          this.resolveModel(item.targetModel)?.definition.name.singular ?? item.targetModel;
+        const name = foreignKeyName(target);
+        this.addField(
+          symbol,
+          {
+            name,
+            originalName: name.replace(/_/g, ' '),
+            type: FieldType.NUMBER,
+            constraints: [FieldConstraint.INDEXED],
+            start: item.start,
+            end: item.end,
+          },
+          true
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Tests for the diagnostic formatter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatDiagnostic, formatDiagnostics } from '../../src/diagnostics/format.js';
+import { createDiagnostic, replaceWith } from '../../src/diagnostics/codes.js';
+import { Tokenizer } from '../../src/tokenizer/index.js';
+import { DDLParser } from '../../src/parsers/ddl-parser.js';
+
+const SOURCE = `User[s]:
+- has email as unique text and required
+- has name as txt
+`;
+
+const TYPE_ERROR = createDiagnostic(
+  'PARSE005',
+  'Unexpected token in type specification: txt',
+  { line: 3, column: 15, offset: 63 },
+  {
+    end: { line: 3, column: 18, offset: 66 },
+    file: 'schema/ddl.dsl',
+    fix: replaceWith(
+      'text',
+      { line: 3, column: 15, offset: 63 },
+      { line: 3, column: 18, offset: 66 }
+    ),
+  }
+);
+
+describe('formatDiagnostic', () => {
+  it('should render a plain code frame', () => {
+    expect(formatDiagnostic(TYPE_ERROR, SOURCE)).toBe(
+      [
+        'error[PARSE005]: Unexpected token in type specification: txt',
+        ' --> schema/ddl.dsl:3:15',
+        '  |',
+        '3 | - has name as txt',
+        '  |               ^^^',
+        '  |',
+        '  = help: Use valid field type: text, long text, number, decimal, boolean, timestamp, json, uuid',
+        "  = fix: Replace with 'text'",
+      ].join('\n')
+    );
+  });
+
+  it('should render diagnostics thrown by the parsers', () => {
+    let frame = '';
+    try {
+      new DDLParser(new Tokenizer(SOURCE).tokenize()).parse();
+    } catch (error) {
+      frame = formatDiagnostic((error as { diagnostic: never }).diagnostic, SOURCE, {
+        fileName: 'ddl.dsl',
+      });
+    }
+
+    expect(frame).toContain(' --> ddl.dsl:3:15');
+    expect(frame).toContain('3 | - has name as txt\n  |               ^^^');
+  });
+
+  it('should use a single caret for empty spans', () => {
+    const diagnostic = createDiagnostic('PARSE002', "Expected ':'", {
+      line: 1,
+      column: 8,
+      offset: 7,
+    });
+
+    expect(formatDiagnostic(diagnostic, 'User[s]\n')).toContain('1 | User[s]\n  |        ^');
+  });
+
+  it('should underline spans over several lines', () => {
+    const diagnostic = createDiagnostic(
+      'PARSE001',
+      'Broken model',
+      { line: 2, column: 3, offset: 11 },
+      { end: { line: 3, column: 10, offset: 61 } }
+    );
+
+    const frame = formatDiagnostic(diagnostic, SOURCE);
+
+    expect(frame).toContain(
+      [
+        '2 | - has email as unique text and required',
+        `  |   ${'^'.repeat(37)}`,
+        '3 | - has name as txt',
+        '  | ^^^^^^^^^',
+      ].join('\n')
+    );
+  });
+
+  it('should show context lines and align the gutter', () => {
+    const source = Array.from({ length: 10 }, (_, i) => `- line ${i + 1}`).join('\n');
+    const diagnostic = createDiagnostic('PARSE001', 'Unexpected token', {
+      line: 9,
+      column: 3,
+      offset: 0,
+    });
+
+    const frame = formatDiagnostic(diagnostic, source, { contextLines: 1 });
+
+    expect(frame).toContain('  --> <input>:9:3');
+    expect(frame).toContain(' 8 | - line 8\n 9 | - line 9\n   |   ^\n10 | - line 10');
+  });
+
+  it('should color output in ansi mode', () => {
+    const frame = formatDiagnostic(TYPE_ERROR, SOURCE, { format: 'ansi' });
+
+    expect(frame).toContain('\x1b[1m\x1b[31merror[PARSE005]\x1b[0m');
+    const escape = String.fromCharCode(27);
+    expect(frame.split(new RegExp(`${escape}\\[\\d+m`)).join('')).toBe(
+      formatDiagnostic(TYPE_ERROR, SOURCE)
+    );
+  });
+
+  it('should emit JSON with the source lines', () => {
+    const json: unknown = JSON.parse(formatDiagnostic(TYPE_ERROR, SOURCE, { format: 'json' }));
+
+    expect(json).toEqual({
+      ...TYPE_ERROR,
+      lines: [{ number: 3, text: '- has name as txt' }],
+    });
+  });
+});
+
+describe('formatDiagnostics', () => {
+  const other = createDiagnostic(
+    'PARSE010',
+    "Model 'Usr' not found at line 1",
+    { line: 1, column: 12, offset: 11 },
+    { file: 'schema/dml.dsl' }
+  );
+  const sources: Record<string, string> = {
+    'schema/ddl.dsl': SOURCE,
+    'schema/dml.dsl': 'Query for Usr:\n',
+  };
+
+  it('should separate frames with blank lines', () => {
+    const output = formatDiagnostics([TYPE_ERROR, other], (file) => sources[file ?? ''] ?? '');
+
+    expect(output.split('\n\n')).toHaveLength(2);
+    expect(output).toContain('1 | Query for Usr:');
+  });
+
+  it('should emit a JSON array', () => {
+    const json = JSON.parse(
+      formatDiagnostics([TYPE_ERROR, other], (file) => sources[file ?? ''] ?? '', {
+        format: 'json',
+      })
+    ) as { code: string }[];
+
+    expect(json.map((d) => d.code)).toEqual(['PARSE005', 'PARSE010']);
+  });
+});
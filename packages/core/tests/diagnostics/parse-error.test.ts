@@ -0,0 +1,226 @@
+/**
+ * Tests for error-code-aware diagnostics
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Tokenizer } from '../../src/tokenizer/index.js';
+import { DDLParser } from '../../src/parsers/ddl-parser.js';
+import { DMLParser } from '../../src/parsers/dml-parser.js';
+import { AUTHParser } from '../../src/parsers/auth-parser.js';
+import { VALIDATIONParser } from '../../src/parsers/validation-parser.js';
+import { SEEDParser } from '../../src/parsers/seed-parser.js';
+import { ParseError } from '../../src/diagnostics/parse-error.js';
+import { createDiagnostic, PARSE_ERROR_CODES } from '../../src/diagnostics/codes.js';
+import { TokenizerError } from '../../src/types/token.js';
+import { ProjectLoadError } from '../../src/project/loader.js';
+
+function parseError(parse: () => unknown): ParseError {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof ParseError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected a ParseError');
+}
+
+function tokenize(input: string) {
+  return new Tokenizer(input).tokenize();
+}
+
+describe('createDiagnostic', () => {
+  it('should default severity, range and help from the registry', () => {
+    const start = { line: 3, column: 5, offset: 20 };
+
+    expect(createDiagnostic('PARSE004', "Model 'User' already defined at line 1", start)).toEqual({
+      code: 'PARSE004',
+      severity: 'error',
+      message: "Model 'User' already defined at line 1",
+      start,
+      end: start,
+      help: 'Remove duplicate or rename model',
+    });
+  });
+
+  it('should cover PARSE001-PARSE020', () => {
+    expect(Object.keys(PARSE_ERROR_CODES)).toHaveLength(20);
+  });
+});
+
+describe('ParseError', () => {
+  it('should be shared by every parser', () => {
+    const ddl = parseError(() => new DDLParser(tokenize('User[s]:\n- has name as\n')).parse());
+    const seed = parseError(() => new SEEDParser(tokenize('Seed Users\n- a\n')).parse());
+
+    expect(ddl).toBeInstanceOf(ParseError);
+    expect(seed).toBeInstanceOf(ParseError);
+  });
+
+  it('should carry the error code and diagnostic', () => {
+    const error = parseError(() => new DDLParser(tokenize('User[s]:\n- has name as\n')).parse());
+
+    expect(error.code).toBe('PARSE005');
+    expect(error.diagnostic).toMatchObject({
+      code: 'PARSE005',
+      message: 'Expected field type',
+      start: error.position,
+    });
+  });
+
+  it('should suggest the closest field type', () => {
+    const error = parseError(() =>
+      new DDLParser(tokenize('User[s]:\n- has age as nmber\n')).parse()
+    );
+
+    expect(error.code).toBe('PARSE005');
+    expect(error.diagnostic.fix).toEqual({
+      description: "Replace with 'number'",
+      replacement: 'number',
+      start: { line: 2, column: 14, offset: 22 },
+      end: { line: 2, column: 19, offset: 27 },
+    });
+  });
+
+  it('should report unknown constraints as PARSE006', () => {
+    const error = parseError(() =>
+      new DDLParser(tokenize('User[s]:\n- has email as text and uniqe\n')).parse()
+    );
+
+    expect(error.code).toBe('PARSE006');
+    expect(error.diagnostic.fix?.replacement).toBe('unique');
+  });
+
+  it('should suggest inserting a missing "has"', () => {
+    const error = parseError(() => new DDLParser(tokenize('User[s]:\n- email as text\n')).parse());
+
+    expect(error.code).toBe('PARSE002');
+    expect(error.diagnostic.fix).toEqual({
+      description: "Insert 'has'",
+      replacement: 'has ',
+      start: { line: 2, column: 3, offset: 11 },
+      end: { line: 2, column: 3, offset: 11 },
+    });
+  });
+
+  it("should report a missing 'as' after a field name as PARSE002", () => {
+    const error = parseError(() => new DDLParser(tokenize('User[s]:\n- has email\n')).parse());
+
+    expect(error.code).toBe('PARSE002');
+    expect(error.diagnostic).toMatchObject({
+      message: "Expected 'as' after field name",
+      start: { line: 2, column: 12, offset: 20 },
+      end: { line: 3, column: 1, offset: 21 },
+    });
+  });
+
+  it('should report invalid names as PARSE003 spanning the name', () => {
+    const field = parseError(() =>
+      new DDLParser(tokenize('User[s]:\n- has name.first as text\n')).parse()
+    );
+    const role = parseError(() => new AUTHParser(tokenize('Roles:\n- ad@min\n')).parse());
+
+    expect(field.diagnostic).toMatchObject({
+      code: 'PARSE003',
+      message: "Identifier contains invalid characters: 'name . first'",
+      start: { line: 2, column: 7, offset: 15 },
+      end: { line: 2, column: 17, offset: 25 },
+    });
+    expect(role.diagnostic).toMatchObject({
+      code: 'PARSE003',
+      start: { line: 2, column: 3 },
+      end: { line: 2, column: 9 },
+    });
+  });
+
+  it('should report invalid pluralizations as PARSE007', () => {
+    const error = parseError(() =>
+      new DDLParser(tokenize('User[a|b|c]:\n- has name as text\n')).parse()
+    );
+
+    expect(error.diagnostic).toMatchObject({
+      code: 'PARSE007',
+      message: "Invalid pluralization format: 'User[a|b|c]'",
+      start: { line: 1, column: 1, offset: 0 },
+      end: { line: 1, column: 12, offset: 11 },
+    });
+  });
+
+  it('should span the offending token', () => {
+    const error = parseError(() =>
+      new DDLParser(tokenize('User[s]:\n- has age as number text\n')).parse()
+    );
+
+    expect(error.diagnostic).toMatchObject({
+      message: 'Field type already specified',
+      start: { line: 2, column: 21, offset: 29 },
+      end: { line: 2, column: 25, offset: 33 },
+    });
+  });
+
+  it('should span the header of an empty section', () => {
+    const error = parseError(() => new DMLParser(tokenize('Query for Posts:\n\n')).parse());
+
+    expect(error.code).toBe('PARSE013');
+    expect(error.diagnostic.start).toEqual({ line: 1, column: 1, offset: 0 });
+    expect(error.diagnostic.end.offset).toBeGreaterThanOrEqual(16);
+  });
+
+  it('should use section-specific codes', () => {
+    const query = parseError(() =>
+      new DMLParser(tokenize('Query for Posts:\n- published posts where published\n')).parse()
+    );
+    const auth = parseError(() =>
+      new AUTHParser(
+        tokenize('Roles:\n- admin\n\nRules for Posts:\n- admin can fly Posts\n')
+      ).parse()
+    );
+    const validation = parseError(() =>
+      new VALIDATIONParser(
+        tokenize('Validate User:\n- email must be valid banana format\n')
+      ).parse()
+    );
+
+    expect(query.code).toBe('PARSE009');
+    expect(auth.code).toBe('PARSE015');
+    expect(validation.code).toBe('PARSE017');
+  });
+});
+
+describe('TokenizerError', () => {
+  it('should be a ParseError with a diagnostic', () => {
+    let error: unknown;
+    try {
+      new Tokenizer('User[s]:\n- has email @ text\n').tokenize();
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(TokenizerError);
+    expect(error).toBeInstanceOf(ParseError);
+    expect((error as TokenizerError).diagnostic).toMatchObject({
+      code: 'PARSE001',
+      message: "Unexpected character: '@'",
+      start: { line: 2, column: 13, offset: 21 },
+      end: { line: 2, column: 14, offset: 22 },
+    });
+  });
+});
+
+describe('ProjectLoadError', () => {
+  it('should carry the file path in its diagnostic', () => {
+    const error = new ProjectLoadError(
+      'DSL file not found: /schema/ddl.dsl',
+      'PARSE019',
+      '/schema/ddl.dsl'
+    );
+
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error.diagnostic).toMatchObject({
+      code: 'PARSE019',
+      file: '/schema/ddl.dsl',
+      help: 'Create file or check path',
+    });
+  });
+});
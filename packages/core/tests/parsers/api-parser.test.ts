@@ -96,6 +96,20 @@ CORS:
       expect(result.cors!.allowCredentials).toBe(true);
       expect(result.cors!.maxAge).toBe(86400);
     });
+
+    it('should keep origins and header names as written', () => {
+      const input = `
+CORS:
+- allow origins: https://blog.example.com, http://localhost:3000
+- allow headers: Content-Type, X-Requested-With
+`;
+      const result = parseAPI(input);
+      expect(result.cors!.allowOrigins).toEqual([
+        'https://blog.example.com',
+        'http://localhost:3000',
+      ]);
+      expect(result.cors!.allowHeaders).toEqual(['Content-Type', 'X-Requested-With']);
+    });
   });
 
   describe('Pagination', () => {
@@ -197,6 +211,21 @@ Security headers:
       expect(result.securityHeaders![0]!.value).toBe('nosniff');
     });
 
+    it('should keep security header values as written', () => {
+      const input = `
+Security headers:
+- X-XSS-Protection: 1; mode=block
+- Strict-Transport-Security: max-age=31536000; includeSubDomains
+- Content-Security-Policy: default-src 'self'
+`;
+      const result = parseAPI(input);
+      expect(result.securityHeaders!.map((header) => header.value)).toEqual([
+        '1; mode=block',
+        'max-age=31536000; includeSubDomains',
+        "default-src 'self'",
+      ]);
+    });
+
     it('should parse request size limits', () => {
       const input = `
 Request size limits:
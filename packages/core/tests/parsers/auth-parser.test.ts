@@ -11,6 +11,7 @@ import {
   CRUDAction,
   TargetModifier,
   FieldAction,
+  ComparisonOperator,
   type AUTHFile,
 } from '../../src/types/ast.js';
 
@@ -288,6 +289,54 @@ Rules for Post:
       expect(perm.condition).toBeDefined();
       expect(perm.condition?.conditions[0]!.value?.type).toBe('time');
     });
+
+    it('should parse field names starting with is', () => {
+      const input = `
+Roles:
+
+Rules for Comment:
+- anyone can read Comments where is approved is true and Post published is true
+`;
+      const result = parseAUTH(input);
+      const conditions = result.modelRules[0]!.permissions[0]!.condition!.conditions;
+      expect(conditions.map((condition) => condition.field)).toEqual([
+        'is_approved',
+        'Post_published',
+      ]);
+      expect(conditions[0]!.operator).toBe(ComparisonOperator.IS);
+      expect(conditions[0]!.value).toEqual({ type: 'literal', value: true });
+    });
+
+    it('should parse has no as a check for related records', () => {
+      const input = `
+Roles:
+
+Rules for Post:
+- users can delete own Posts where Post has no Comments
+`;
+      const result = parseAUTH(input);
+      const condition = result.modelRules[0]!.permissions[0]!.condition!.conditions[0]!;
+      expect(condition.field).toBe('Post');
+      expect(condition.operator).toBe(ComparisonOperator.IS_EMPTY);
+      expect(condition.value).toEqual({ type: 'reference', field: 'Comments' });
+    });
+
+    it('should parse within as the time a window starts from', () => {
+      const input = `
+Roles:
+
+Rules for Comment:
+- users can edit own Comments where created at is within 5 minutes
+`;
+      const result = parseAUTH(input);
+      const condition = result.modelRules[0]!.permissions[0]!.condition!.conditions[0]!;
+      expect(condition.field).toBe('created_at');
+      expect(condition.operator).toBe(ComparisonOperator.IS_AFTER);
+      expect(condition.value).toMatchObject({
+        type: 'time',
+        expression: { type: 'relative', value: 5, unit: 'minutes' },
+      });
+    });
   });
 
   describe('Model Rules - Multiple Models', () => {
@@ -428,6 +477,23 @@ Field Rules for User:
   });
 
   describe('Field Rules - Field Subjects', () => {
+    it('should parse cannot field rule with role subject', () => {
+      const input = `
+Roles:
+- moderator
+
+Field Rules for User:
+- moderators cannot edit role
+- admins can edit role
+`;
+      const result = parseAUTH(input);
+      const [cannot, can] = result.fieldRules[0]!.permissions;
+      expect(cannot!.subject).toEqual({ type: SubjectType.ROLE, roleName: 'moderator' });
+      expect(cannot!.allowed).toBe(false);
+      expect(cannot!.fieldName).toBe('role');
+      expect(can!.subject).toEqual({ type: SubjectType.ROLE, roleName: 'admin' });
+    });
+
     it('should parse field rule with anyone subject', () => {
       const input = `
 Roles:
@@ -479,6 +545,25 @@ Field Rules for User:
         expect(perm.subject.roleName).toBe('admin');
       }
     });
+
+    it('should parse field rule reserving a field for a mutation', () => {
+      const input = `
+Roles:
+
+Field Rules for Post:
+- users cannot edit view count
+- only increment views mutation can edit view count
+`;
+      const result = parseAUTH(input);
+      const [users, mutation] = result.fieldRules[0]!.permissions;
+      expect(users).not.toHaveProperty('mutation');
+      expect(mutation).toMatchObject({
+        mutation: 'increment_views',
+        action: FieldAction.EDIT,
+        fieldName: 'view_count',
+        allowed: true,
+      });
+    });
   });
 
   describe('Field Rules - Multiple Fields and Models', () => {
@@ -450,12 +450,12 @@ Post:
     });
 
     it('should throw error for field name starting with digit', () => {
-      expect(() => parse('User:\n- has 2fa enabled as boolean')).toThrow();
+      expect(() => parse('User:\n- has 2fa enabled as boolean')).toThrow(ParseError);
     });
 
     it('should throw error for field name exceeding 63 characters', () => {
       const longName = 'a'.repeat(64);
-      expect(() => parse(`User:\n- has ${longName} as text`)).toThrow();
+      expect(() => parse(`User:\n- has ${longName} as text`)).toThrow(ParseError);
     });
   });
 
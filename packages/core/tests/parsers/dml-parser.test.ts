@@ -279,6 +279,55 @@ describe('DML Parser - Query Definitions', () => {
     expect(condition.value).toEqual({ type: 'literal', value: 10 });
   });
 
+  it('should parse the upper bound of is between', () => {
+    const input = `Query for Post:
+- ranged posts where price is between 10 and 20 and published is true
+- priced posts where price is between given min and given max
+`;
+
+    const ast = parse(input);
+    const section = ast.sections[0]! as QuerySection;
+    const [ranged, priced] = section.queries;
+
+    expect(ranged!.whereClause!.conditions).toHaveLength(2);
+    expect(ranged!.whereClause!.conditions[0]).toMatchObject({
+      value: { type: 'literal', value: 10 },
+      upperValue: { type: 'literal', value: 20 },
+    });
+    expect(priced!.whereClause!.conditions[0]).toMatchObject({
+      value: { type: 'reference', field: 'given min' },
+      upperValue: { type: 'reference', field: 'given max' },
+    });
+  });
+
+  it('should parse field names starting with "is"', () => {
+    const input = `Query for Comment:
+- approved comments where is approved is true
+`;
+
+    const ast = parse(input);
+    const section = ast.sections[0]! as QuerySection;
+    const condition = section.queries[0]!.whereClause!.conditions[0]!;
+
+    expect(condition.field).toBe('is_approved');
+    expect(condition.operator).toBe(ComparisonOperator.IS);
+    expect(condition.value).toEqual({ type: 'literal', value: true });
+  });
+
+  it('should parse clauses separated by commas', () => {
+    const input = `Query for Post:
+- recent posts where created at is after 7 days ago, sorted by created at descending, limited to 5
+`;
+
+    const ast = parse(input);
+    const section = ast.sections[0]! as QuerySection;
+    const query = section.queries[0]!;
+
+    expect(query.whereClause!.conditions[0]!.operator).toBe(ComparisonOperator.IS_AFTER);
+    expect(query.sortClause!.field).toBe('created_at');
+    expect(query.limitClause!.count).toBe(5);
+  });
+
   it('should parse query with string literal', () => {
     const input = `Query for Post:
 - draft posts where status equals "draft"
@@ -464,6 +513,18 @@ describe('DML Parser - Mutation Definitions', () => {
       expect(assignment.value).toEqual({ type: 'literal', value: 'draft' });
     }
   });
+
+  it('should parse sections for models named like keywords', () => {
+    const input = `Mutation for Users:
+- activate user sets is active to true
+`;
+
+    const ast = parse(input);
+    const section = ast.sections[0]! as MutationSection;
+
+    expect(section.modelName).toBe('Users');
+    expect(section.mutations[0]!.name).toBe('activate_user');
+  });
 });
 
 describe('DML Parser - Computed Definitions', () => {
@@ -1002,6 +1063,17 @@ describe('DML Parser - Edge Cases', () => {
     }
   });
 
+  it('should handle calculates from a multi-word field', () => {
+    const input = `Computed for Post:
+- reading time calculates from content length
+`;
+
+    const ast = parse(input);
+    const computed = (ast.sections[0]! as ComputedSection).computed[0]!;
+
+    expect(computed.aggregation).toEqual({ type: 'calculates', field: 'content length' });
+  });
+
   it('should handle calculates from field', () => {
     const input = `Computed for Product:
 - discounted price calculates from price
@@ -0,0 +1,197 @@
+/**
+ * Tests for incremental parsing
+ * Updating a document after an edit must give the same result as parsing the
+ * edited text in full, while reusing the sections the edit did not touch
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ParsedDocument, parseDocument, updateDocument } from '../../src/parsers/incremental.js';
+import { TextEdit } from '../../src/utils/source.js';
+import type { DSLFileKind } from '../../src/types/project.js';
+
+function readExample(kind: DSLFileKind): string {
+  return readFileSync(join(__dirname, `../../../../examples/blog/schema/${kind}.dsl`), 'utf-8');
+}
+
+/**
+ * Update a document and compare it with a full parse of the edited text
+ */
+function expectUpdate<K extends DSLFileKind>(
+  document: ParsedDocument<K>,
+  edit: TextEdit
+): ParsedDocument<K> {
+  const updated = updateDocument(document, edit);
+  expect(updated).toEqual(parseDocument(document.kind, updated.text));
+  return updated;
+}
+
+/**
+ * Edit replacing the first occurrence of a text
+ */
+function replace(document: ParsedDocument, text: string, replacement: string): TextEdit {
+  const offset = document.text.indexOf(text);
+  expect(offset).toBeGreaterThanOrEqual(0);
+  return { offset, deleteCount: text.length, insertText: replacement };
+}
+
+describe('Incremental parsing', () => {
+  describe('DDL', () => {
+    const ddl = parseDocument('ddl', readExample('ddl'));
+
+    it('should reuse the models above an edit and move the models below it', () => {
+      const updated = expectUpdate(ddl, replace(ddl, 'has content as', 'has body text as'));
+      const index = ddl.ast.models.findIndex((m) => m.name.singular === 'Post');
+
+      expect(updated.ast.models.slice(0, index)).toEqual(ddl.ast.models.slice(0, index));
+      updated.ast.models.slice(0, index).forEach((model, i) => {
+        expect(model).toBe(ddl.ast.models[i]);
+      });
+      expect(updated.ast.models[index + 1]).not.toBe(ddl.ast.models[index + 1]);
+      expect(updated.ast.models[index + 1]!.start.offset).toBe(
+        ddl.ast.models[index + 1]!.start.offset + 2
+      );
+    });
+
+    it('should split and join models', () => {
+      const split = expectUpdate(ddl, replace(ddl, '- has bio', 'Profile[s]:\n- has bio'));
+      expect(split.ast.models).toHaveLength(ddl.ast.models.length + 1);
+
+      const joined = expectUpdate(split, replace(split, 'Profile[s]:\n', ''));
+      expect(joined.ast.models).toHaveLength(ddl.ast.models.length);
+    });
+
+    it('should add and remove models at the end of the file', () => {
+      const added = expectUpdate(ddl, {
+        offset: ddl.text.length,
+        deleteCount: 0,
+        insertText: '\nSetting[s]:\n- has key as unique text\n',
+      });
+      expect(added.ast.models[added.ast.models.length - 1]!.name.singular).toBe('Setting');
+
+      expectUpdate(added, replace(added, '\nSetting[s]:\n- has key as unique text\n', ''));
+    });
+
+    it('should keep comments added between models', () => {
+      const offset = ddl.text.indexOf('Post[s]:');
+      const updated = expectUpdate(ddl, { offset, deleteCount: 0, insertText: '# Content\n' });
+      const post = updated.ast.models.find((m) => m.name.singular === 'Post');
+
+      expect(post!.leadingTrivia?.map((t) => t.text)).toContain('# Content');
+    });
+
+    it('should report errors in the edited model and keep errors elsewhere', () => {
+      const broken = expectUpdate(
+        ddl,
+        replace(ddl, 'has content as long text', 'has content as lng text')
+      );
+      expect(broken.diagnostics).toHaveLength(1);
+      expect(broken.diagnostics[0]!.code).toBe('PARSE005');
+
+      const moved = expectUpdate(broken, { offset: 0, deleteCount: 0, insertText: '\n\n' });
+      expect(moved.diagnostics[0]!.start.line).toBe(broken.diagnostics[0]!.start.line + 2);
+
+      const fixed = expectUpdate(moved, replace(moved, 'lng', 'long'));
+      expect(fixed.diagnostics).toEqual([]);
+    });
+
+    it('should parse in full when the first line of the file breaks', () => {
+      const updated = expectUpdate(ddl, replace(ddl, 'User[s]:', 'User[s'));
+
+      expect(updated.diagnostics.length).toBeGreaterThan(0);
+    });
+
+    it('should report tokenizer errors and recover from them', () => {
+      const broken = expectUpdate(ddl, { offset: 0, deleteCount: 0, insertText: '"' });
+      expect(broken.tokens).toEqual([]);
+      expect(broken.diagnostics[0]!.message).toBe('Unterminated string');
+
+      const fixed = expectUpdate(broken, { offset: 0, deleteCount: 1, insertText: '' });
+      expect(fixed.ast).toEqual(ddl.ast);
+    });
+  });
+
+  describe('DML', () => {
+    const dml = parseDocument('dml', readExample('dml'));
+
+    it('should re-parse the edited Query, Mutation or Computed section', () => {
+      const updated = expectUpdate(dml, replace(dml, 'view count by 1', 'view count by 2'));
+
+      expect(updated.ast.sections[0]).toBe(dml.ast.sections[0]);
+    });
+
+    it('should move sections into another section type', () => {
+      const joined = expectUpdate(dml, replace(dml, 'Query for Comments:\n', ''));
+      expect(joined.ast.sections).toHaveLength(dml.ast.sections.length - 1);
+
+      const split = expectUpdate(
+        joined,
+        replace(joined, '- admins', 'Query for Admins:\n- admins')
+      );
+      expect(split.ast.sections).toHaveLength(dml.ast.sections.length);
+    });
+  });
+
+  describe('SEED', () => {
+    it('should re-parse the edited seed section', () => {
+      const seed = parseDocument('seed', readExample('seed'));
+      const updated = expectUpdate(seed, {
+        offset: seed.text.length,
+        deleteCount: 0,
+        insertText: '\n# done\n',
+      });
+
+      expect(updated.ast.sections[0]).toBe(seed.ast.sections[0]);
+      expect(updated.ast.trailingTrivia?.map((t) => t.text)).toContain('# done');
+    });
+  });
+
+  describe('other files', () => {
+    const kinds: DSLFileKind[] = ['auth', 'validation', 'api', 'monitor', 'log', 'security'];
+
+    for (const kind of kinds) {
+      it(`should parse ${kind}.dsl in full after an edit`, () => {
+        const document = parseDocument(kind, readExample(kind));
+        const updated = expectUpdate(document, {
+          offset: 0,
+          deleteCount: 0,
+          insertText: '# edited\n',
+        });
+
+        expect(updated.ast.leadingTrivia?.[0]?.text).toBe('# edited');
+      });
+    }
+
+    it('should turn a file emptied by an edit into an empty AST', () => {
+      const document = parseDocument('auth', readExample('auth'));
+      const updated = expectUpdate(document, {
+        offset: 0,
+        deleteCount: document.text.length,
+        insertText: '',
+      });
+
+      expect(updated.ast.roles).toEqual([]);
+      expect(updated.diagnostics).toEqual([]);
+    });
+  });
+
+  it('should give the same result as a full parse for every line edited in turn', () => {
+    for (const kind of ['ddl', 'dml', 'seed'] as const) {
+      const document = parseDocument(kind, readExample(kind));
+      let offset = 0;
+      while (offset < document.text.length) {
+        const end = document.text.indexOf('\n', offset);
+        const lineEnd = end < 0 ? document.text.length : end;
+        expectUpdate(document, { offset, deleteCount: 0, insertText: '\n' });
+        expectUpdate(document, { offset, deleteCount: 0, insertText: '# ' });
+        expectUpdate(document, {
+          offset: Math.max(lineEnd - 1, offset),
+          deleteCount: 1,
+          insertText: '',
+        });
+        offset = lineEnd + 1;
+      }
+    }
+  });
+});
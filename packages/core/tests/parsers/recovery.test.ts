@@ -0,0 +1,228 @@
+/**
+ * Tests for parser error recovery
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Tokenizer } from '../../src/tokenizer/index.js';
+import { DDLParser } from '../../src/parsers/ddl-parser.js';
+import { DMLParser } from '../../src/parsers/dml-parser.js';
+import { APIParser } from '../../src/parsers/api-parser.js';
+import { AUTHParser } from '../../src/parsers/auth-parser.js';
+import { VALIDATIONParser } from '../../src/parsers/validation-parser.js';
+import { DeclareDiagnostic } from '../../src/types/diagnostic.js';
+import { createEmptyFile } from '../../src/parsers/recovery.js';
+
+function tokenize(input: string) {
+  return new Tokenizer(input).tokenize();
+}
+
+function located(diagnostics: DeclareDiagnostic[]) {
+  return diagnostics.map((d) => [d.code, d.start.line, d.start.column, d.end?.column]);
+}
+
+describe('Parser recovery mode', () => {
+  it('should return the same AST as parse() for valid input', () => {
+    const input = `User[s]:
+- has email as unique text and required
+- has many Posts
+`;
+    const result = new DDLParser(tokenize(input)).parseWithDiagnostics();
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.ast).toEqual(new DDLParser(tokenize(input)).parse());
+  });
+
+  it('should report every error in one pass', () => {
+    const input = `User[s]:
+- has email as unique text and required
+- has name as txt
+- has many Posts
+
+Post[s]
+- has title as text
+- has body as long text
+
+Comment[s]:
+- has content as text and required
+- belongs to
+- has rating as number
+`;
+    const result = new DDLParser(tokenize(input)).parseWithDiagnostics();
+
+    expect(result.diagnostics.map((d) => [d.message, d.start.line, d.start.column])).toEqual([
+      ['Unexpected token in type specification: txt', 3, 15],
+      ["Expected ':' after model name", 6, 8],
+      ['Expected model name for relationship', 12, 13],
+    ]);
+  });
+
+  it('should give diagnostics a code, severity and range', () => {
+    const result = new DDLParser(
+      tokenize('User[s]:\n- has name as txt\n- has email as text\n')
+    ).parseWithDiagnostics();
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({
+      code: 'PARSE005',
+      severity: 'error',
+      message: 'Unexpected token in type specification: txt',
+      start: { line: 2, column: 15, offset: 23 },
+      end: { line: 2, column: 18, offset: 26 },
+    });
+  });
+
+  it('should resync at the next list item', () => {
+    const input = `User[s]:
+- has email as unique text and required
+- has name as txt
+- has many Posts
+`;
+    const result = new DDLParser(tokenize(input)).parseWithDiagnostics();
+
+    const items = result.ast.models[0]!.items;
+    expect(items).toHaveLength(2);
+    expect(items[1]!.start.line).toBe(4);
+  });
+
+  it('should skip a broken section up to the next section header', () => {
+    const input = `Post[s]
+- has title as text
+- has body as long text
+
+Comment[s]:
+- has content as text
+`;
+    const result = new DDLParser(tokenize(input)).parseWithDiagnostics();
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.ast.models.map((m) => m.name.singular)).toEqual(['Comment']);
+  });
+
+  it('should keep valid sections of other parsers', () => {
+    const input = `Query for Posts:
+- published posts where published is true
+- broken posts where published is
+- draft posts where published is false
+
+Mutation for Posts:
+- publish post sets published to true
+`;
+    const result = new DMLParser(tokenize(input)).parseWithDiagnostics();
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]!.start.line).toBe(3);
+    expect(result.ast.sections).toHaveLength(2);
+  });
+
+  it('should recover inside sections of other parsers', () => {
+    const input = `Rate limit:
+- many requests per minute per user
+- 10 requests per minute per user
+`;
+    const result = new APIParser(tokenize(input)).parseWithDiagnostics();
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]!.start.line).toBe(2);
+    expect(result.ast.rateLimits).toHaveLength(1);
+  });
+
+  it('should return an empty AST when nothing can be parsed', () => {
+    const result = new DDLParser(tokenize('User[s]:\n- has name as txt\n')).parseWithDiagnostics();
+
+    expect(result.diagnostics.map((d) => d.message)).toEqual([
+      'Unexpected token in type specification: txt',
+      'Model must have at least one field or relationship',
+    ]);
+    expect(result.ast).toEqual(createEmptyFile('ddl'));
+  });
+
+  describe('invalid names', () => {
+    it('should report invalid field names of DDL as PARSE003', () => {
+      const input = `User[s]:
+- has e@mail as text
+- has name.first as text
+- has email as text
+`;
+      const result = new DDLParser(tokenize(input)).parseWithDiagnostics();
+
+      expect(located(result.diagnostics)).toEqual([
+        ['PARSE003', 2, 7, 13],
+        ['PARSE003', 3, 7, 17],
+      ]);
+      expect(result.diagnostics[0]!.message).toBe(
+        "Identifier contains invalid characters: 'e@mail'"
+      );
+      expect(result.ast.models[0]!.items).toHaveLength(1);
+    });
+
+    it('should report invalid field names of DML as PARSE003', () => {
+      const input = `Query for Posts:
+- broken posts where view.count is 0
+- newest posts where published is true sorted by created@at descending
+- published posts where published is true
+
+Mutation for Posts:
+- bump post increases view.count by 1
+- rename post sets tit@le to "x"
+- publish post sets published to true
+`;
+      const result = new DMLParser(tokenize(input)).parseWithDiagnostics();
+
+      expect(located(result.diagnostics).map(([code, line]) => [code, line])).toEqual([
+        ['PARSE003', 2],
+        ['PARSE003', 3],
+        ['PARSE003', 7],
+        ['PARSE003', 8],
+      ]);
+      expect(result.ast.sections).toMatchObject([
+        { queries: [{ name: 'published_posts' }] },
+        { mutations: [{ name: 'publish_post' }] },
+      ]);
+    });
+
+    it('should report invalid role and field names of AUTH as PARSE003', () => {
+      const input = `Roles:
+- ad@min
+- editor
+
+Field Rules for User:
+- editors can edit e@mail
+- ed.itors can edit name
+- only pub@lish mutation can edit published
+- editors can edit bio
+`;
+      const result = new AUTHParser(tokenize(input)).parseWithDiagnostics();
+
+      expect(located(result.diagnostics)).toEqual([
+        ['PARSE003', 2, 3, 9],
+        ['PARSE003', 6, 20, 26],
+        ['PARSE003', 7, 3, 11],
+        ['PARSE003', 8, 8, 16],
+      ]);
+      expect(result.ast.roles.map((role) => role.name)).toEqual(['editor']);
+      expect(result.ast.fieldRules[0]!.permissions).toHaveLength(1);
+    });
+
+    it('should report invalid field names of VALIDATION as PARSE003', () => {
+      const input = `Validate User:
+- e@mail must be valid email format
+- username must be alphanumeric
+`;
+      const result = new VALIDATIONParser(tokenize(input)).parseWithDiagnostics();
+
+      expect(located(result.diagnostics)).toEqual([['PARSE003', 2, 3, 9]]);
+      expect(result.ast.validations[0]!.rules.map((rule) => rule.field)).toEqual(['username']);
+    });
+
+    it('should report invalid parameter names of API as PARSE003', () => {
+      const input = `Query parameters for Posts:
+- user.id as number
+- published as boolean
+`;
+      const result = new APIParser(tokenize(input)).parseWithDiagnostics();
+
+      expect(located(result.diagnostics)).toEqual([['PARSE003', 2, 3, 10]]);
+      expect(result.ast.queryParams[0]!.params.map((param) => param.field)).toEqual(['published']);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for comments and blank lines kept on AST nodes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Tokenizer } from '../../src/tokenizer/index.js';
+import { DDLParser } from '../../src/parsers/ddl-parser.js';
+import { AUTHParser } from '../../src/parsers/auth-parser.js';
+import { APIParser } from '../../src/parsers/api-parser.js';
+import { SECURITYParser } from '../../src/parsers/security-parser.js';
+import type { Trivia } from '../../src/types/token.js';
+
+function tokenize(input: string) {
+  return new Tokenizer(input).tokenize();
+}
+
+function texts(trivia: Trivia[] | undefined): string[] | undefined {
+  return trivia?.map((item) => item.text);
+}
+
+describe('Parser trivia', () => {
+  const ddl = `# Blog schema
+
+# People
+User[s]: # registered accounts
+- has email as unique text # used to log in
+
+# Ownership
+- has many Posts
+
+Post[s]:
+- belongs to User
+
+# end of schema
+`;
+
+  it('should keep comments before the first line on the file', () => {
+    const file = new DDLParser(tokenize(ddl)).parse();
+
+    expect(texts(file.leadingTrivia)).toEqual(['# Blog schema', '', '# People']);
+    expect(file.models[0]!.leadingTrivia).toBeUndefined();
+  });
+
+  it('should keep comments after the last line on the file', () => {
+    const file = new DDLParser(tokenize(ddl)).parse();
+
+    expect(texts(file.trailingTrivia)).toEqual(['', '# end of schema']);
+  });
+
+  it('should keep end-of-line comments on sections and items', () => {
+    const [user] = new DDLParser(tokenize(ddl)).parse().models;
+
+    expect(texts(user!.trailingTrivia)).toEqual(['# registered accounts']);
+    expect(texts(user!.items[0]!.trailingTrivia)).toEqual(['# used to log in']);
+  });
+
+  it('should keep comments and blank lines before items and sections', () => {
+    const [user, post] = new DDLParser(tokenize(ddl)).parse().models;
+
+    expect(texts(user!.items[1]!.leadingTrivia)).toEqual(['', '# Ownership']);
+    expect(texts(post!.leadingTrivia)).toEqual(['']);
+  });
+
+  it('should not add trivia to nodes without comments', () => {
+    const file = new DDLParser(tokenize('User[s]:\n- has email as text\n')).parse();
+
+    expect(file).not.toHaveProperty('leadingTrivia');
+    expect(file.models[0]).not.toHaveProperty('trailingTrivia');
+    expect(file.models[0]!.items[0]).not.toHaveProperty('leadingTrivia');
+  });
+
+  it('should keep trivia in recovery mode', () => {
+    const input = `User[s]:
+- has email as txt
+# display name
+- has name as text # shown on posts
+`;
+    const { ast, diagnostics } = new DDLParser(tokenize(input)).parseWithDiagnostics();
+
+    expect(diagnostics).toHaveLength(1);
+    expect(texts(ast.models[0]!.items[0]!.leadingTrivia)).toEqual(['# display name']);
+    expect(texts(ast.models[0]!.items[0]!.trailingTrivia)).toEqual(['# shown on posts']);
+  });
+
+  it('should move comments of a header without a node onto its first item', () => {
+    const input = `Roles: # everyone who can sign in
+# site owners
+- admin
+- member
+`;
+    const file = new AUTHParser(tokenize(input)).parse();
+
+    expect(texts(file.roles[0]!.leadingTrivia)).toEqual([
+      '# everyone who can sign in',
+      '# site owners',
+    ]);
+    expect(file.roles[1]!.leadingTrivia).toBeUndefined();
+  });
+
+  it('should move header comments of SECURITY sections onto their first rule', () => {
+    const input = `Constraints:
+- all passwords must be hashed with bcrypt
+
+# Never trust input
+Enforce:
+- no raw SQL
+`;
+    const file = new SECURITYParser(tokenize(input)).parse();
+
+    expect(texts(file.enforce[0]!.leadingTrivia)).toEqual(['', '# Never trust input']);
+  });
+
+  it('should keep comments inside sections without item nodes on the section', () => {
+    const input = `CORS: # browser access
+# production only
+- allow origins: https://blog.example.com
+- max age: 3600 # one hour
+`;
+    const file = new APIParser(tokenize(input)).parse();
+
+    expect(texts(file.cors!.leadingTrivia)).toEqual([
+      '# browser access',
+      '# production only',
+      '# one hour',
+    ]);
+    expect(file.cors!.trailingTrivia).toBeUndefined();
+  });
+
+  it('should keep comments of comment-only files', () => {
+    const file = new SECURITYParser(tokenize('# TODO\n\n# security rules\n')).parse();
+
+    expect(texts(file.trailingTrivia)).toEqual(['# TODO', '', '# security rules']);
+  });
+});
@@ -107,6 +107,19 @@ Validate Post:
         expect(constraint.formatType).toBe(FormatType.LOWERCASE_ALPHANUMERIC_AND_DASHES);
       }
     });
+
+    it('should parse format with "if provided" and keep parsing the following rules', () => {
+      const input = `
+Validate User:
+- avatar url must be valid url if provided
+- bio must be at most 500 characters
+`;
+      const result = parseVALIDATION(input);
+      expect(result.validations[0]!.rules.map((rule) => rule.constraint)).toEqual([
+        { type: 'format', formatType: FormatType.VALID_URL, conditional: 'if provided' },
+        { type: 'at_most', value: 500, unit: 'characters', conditional: undefined },
+      ]);
+    });
   });
 
   describe('Length Constraints', () => {
@@ -539,9 +552,24 @@ Rate Limiting Validation:
       expect(result.rateLimitRules[0]!.modelName).toBe('User');
       expect(result.rateLimitRules[0]!.action).toBe('post');
       expect(result.rateLimitRules[0]!.limit).toBe(10);
+      expect(result.rateLimitRules[0]!.targetModel).toBe('Posts');
       expect(result.rateLimitRules[0]!.period).toBe('per second');
     });
 
+    it('should parse rate limits counted in times', () => {
+      const input = `
+Validate User:
+- email must be valid email format
+
+Rate Limiting Validation:
+- User can update password at most 3 times per hour
+`;
+      const result = parseVALIDATION(input);
+      expect(result.rateLimitRules[0]!.action).toBe('update password');
+      expect(result.rateLimitRules[0]!.targetModel).toBeUndefined();
+      expect(result.rateLimitRules[0]!.period).toBe('per hour');
+    });
+
     it('should parse rate limiting with different action', () => {
       const input = `
 Validate User:
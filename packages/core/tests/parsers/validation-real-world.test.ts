@@ -42,6 +42,26 @@ describe('VALIDATIONParser - Real World', () => {
     }
   });
 
+  it('should parse every section of the blog example', () => {
+    const examplePath = join(__dirname, '../../../../examples/blog/schema/validation.dsl');
+    const result = parseVALIDATION(readFileSync(examplePath, 'utf-8'));
+
+    expect(result.validations.map((v) => v.modelName)).toEqual([
+      'User',
+      'Post',
+      'Comment',
+      'Category',
+      'Tag',
+    ]);
+    expect(result.crossFieldRules).toHaveLength(5);
+    expect(result.rateLimitRules.map((r) => [r.action, r.limit, r.period])).toEqual([
+      ['create', 10, 'per day'],
+      ['create', 50, 'per day'],
+      ['update password', 3, 'per hour'],
+    ]);
+    expect(result.businessRules).toHaveLength(4);
+  });
+
   it('should parse "not be in" list constraints', () => {
     const input = `
 Validate User:
@@ -0,0 +1,395 @@
+/**
+ * Tests for the DSL printers
+ * Printed output must parse back to an equivalent AST
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Tokenizer } from '../../src/tokenizer/tokenizer.js';
+import { DDLParser } from '../../src/parsers/ddl-parser.js';
+import { DMLParser } from '../../src/parsers/dml-parser.js';
+import { AUTHParser } from '../../src/parsers/auth-parser.js';
+import { VALIDATIONParser } from '../../src/parsers/validation-parser.js';
+import { APIParser } from '../../src/parsers/api-parser.js';
+import { MONITORParser } from '../../src/parsers/monitor-parser.js';
+import { LOGParser } from '../../src/parsers/log-parser.js';
+import { SECURITYParser } from '../../src/parsers/security-parser.js';
+import { SEEDParser } from '../../src/parsers/seed-parser.js';
+import { printFile } from '../../src/printer/index.js';
+import { createEmptyFile } from '../../src/parsers/recovery.js';
+import type { Token, Trivia } from '../../src/types/token.js';
+import type { DSLFileKind, DSLFileMap } from '../../src/types/project.js';
+
+const PARSERS: { [K in DSLFileKind]: (tokens: Token[]) => DSLFileMap[K] } = {
+  ddl: (tokens) => new DDLParser(tokens).parse(),
+  dml: (tokens) => new DMLParser(tokens).parse(),
+  auth: (tokens) => new AUTHParser(tokens).parse(),
+  validation: (tokens) => new VALIDATIONParser(tokens).parse(),
+  api: (tokens) => new APIParser(tokens).parse(),
+  monitor: (tokens) => new MONITORParser(tokens).parse(),
+  log: (tokens) => new LOGParser(tokens).parse(),
+  security: (tokens) => new SECURITYParser(tokens).parse(),
+  seed: (tokens) => new SEEDParser(tokens).parse(),
+};
+
+function parse<K extends DSLFileKind>(kind: K, source: string): DSLFileMap[K] {
+  const parser: (tokens: Token[]) => DSLFileMap[K] = PARSERS[kind];
+  return parser(new Tokenizer(source).tokenize());
+}
+
+/**
+ * AST without positions (and without unset optional properties)
+ * Trivia is reduced to comment text: printers normalize blank lines
+ */
+function withoutPositions(node: unknown): unknown {
+  if (Array.isArray(node)) {
+    return node.map(withoutPositions);
+  }
+  if (node && typeof node === 'object') {
+    return Object.fromEntries(
+      Object.entries(node)
+        .filter(([key, value]) => key !== 'start' && key !== 'end' && value !== undefined)
+        .map(([key, value]) => [key, isTriviaKey(key) ? comments(value) : withoutPositions(value)])
+        .filter(
+          ([key, value]) => !isTriviaKey(String(key)) || (Array.isArray(value) && value.length > 0)
+        )
+    );
+  }
+  return node;
+}
+
+function isTriviaKey(key: string): boolean {
+  return key === 'leadingTrivia' || key === 'trailingTrivia';
+}
+
+function comments(trivia: unknown): string[] {
+  return (trivia as Trivia[]).filter((item) => item.type === 'comment').map((item) => item.text);
+}
+
+/**
+ * Parse, print and parse again; both ASTs must be equivalent
+ * Returns the printed text
+ */
+function expectRoundTrip(kind: DSLFileKind, source: string): string {
+  const ast = parse(kind, source);
+  const printed = printFile(kind, ast);
+  expect(withoutPositions(parse(kind, printed))).toEqual(withoutPositions(ast));
+  return printed;
+}
+
+function readExample(kind: DSLFileKind): string {
+  return readFileSync(join(__dirname, `../../../../examples/blog/schema/${kind}.dsl`), 'utf-8');
+}
+
+describe('Printer', () => {
+  describe('round-trip of the blog example', () => {
+    const kinds: DSLFileKind[] = ['ddl', 'validation', 'api', 'monitor', 'security'];
+
+    for (const kind of kinds) {
+      it(`should round-trip ${kind}.dsl`, () => {
+        expectRoundTrip(kind, readExample(kind));
+      });
+    }
+
+    it('should be stable when printing printed output', () => {
+      const printed = printFile('ddl', parse('ddl', readExample('ddl')));
+      expect(printFile('ddl', parse('ddl', printed))).toBe(printed);
+    });
+  });
+
+  describe('DDL', () => {
+    it('should print canonical spacing, casing and blank lines between models', () => {
+      const printed = expectRoundTrip(
+        'ddl',
+        `# Users
+User[s]:
+-   has   Email Address as unique   text, required
+
+
+Categor[y|ies] has:
+- has name as required and indexed text
+- many Posts
+`
+      );
+
+      expect(printed).toBe(`# Users
+User[s]:
+- has Email Address as unique text and required
+
+Categor[y|ies]:
+- has name as text and required and indexed
+- has many Posts
+`);
+    });
+
+    it('should print every field type and relationship', () => {
+      const printed = expectRoundTrip(
+        'ddl',
+        `Order[s]:
+- has notes as long text
+- has total as decimal
+- has quantity as number
+- has paid as boolean
+- has paid at as timestamp
+- has metadata as json
+- has reference as indexed uuid
+- belongs to User
+`
+      );
+
+      expect(printed).toContain('- has reference as indexed uuid');
+      expect(printed).toContain('- belongs to User');
+    });
+  });
+
+  describe('DML', () => {
+    it('should round-trip queries, mutations and computed fields', () => {
+      const printed = expectRoundTrip(
+        'dml',
+        `Query for Post:
+- published posts where published is true and title starts with "Intro" sorted by published at descending limited to 10
+- recent posts where created at is after 7 days ago
+- drafts where published at is empty
+
+Mutation for Post:
+- publish post sets published to true and published at to now
+- add view increases view count by 1
+
+Computed for User:
+- post count counts Post where published is true
+- total views sums Post.view count
+- is verified returns email confirmed is true
+- score calculates from karma
+`
+      );
+
+      expect(printed).toContain(
+        '- published posts where published is true and title starts with "Intro" sorted by published_at descending limited to 10'
+      );
+      expect(printed).toContain('- publish post sets published to true and published_at to now');
+      expect(printed).toContain('- total views sums Post.view count');
+    });
+  });
+
+  describe('AUTH', () => {
+    it('should print role subjects and targets in plural form', () => {
+      const printed = expectRoundTrip(
+        'auth',
+        `Roles:
+- admin
+- content editor
+
+Rules for Posts:
+- anyone can read Posts where published is true
+- authenticated users can create Posts
+- users can edit own Posts where published is false
+- admins can delete any Post
+- users can delete own Posts where Post has no Comments
+
+Field Rules for Users:
+- users cannot edit role
+- admins can set role
+- only promote to admin mutation can edit role
+`
+      );
+
+      expect(printed).toContain('- admins can delete any Posts');
+      expect(printed).toContain('where Post has no Comments');
+      expect(printed).toContain('- admins can set role');
+      expect(printed).toContain('- only promote_to_admin mutation can edit role');
+      expect(printed.startsWith('Roles:\n- admin\n- content editor\n\nRules for Posts:\n')).toBe(
+        true
+      );
+    });
+  });
+
+  describe('VALIDATION', () => {
+    it('should quote match patterns and keep conditionals', () => {
+      const printed = expectRoundTrip(
+        'validation',
+        `Validate Post:
+- slug must match "^[a-z0-9-]+$"
+- title must be between 5 and 200 characters
+- excerpt must be at most 300 characters if provided
+- published at must exist when published is true
+
+Rate Limiting Validation:
+- User can post at most 10 Posts per second
+- User can update password at most 3 times per hour
+
+Custom Business Rules:
+- Post cannot be deleted if it has approved Comments
+`
+      );
+
+      expect(printed).toContain('- slug must match "^[a-z0-9-]+$"');
+      expect(printed).toContain('- excerpt must be at most 300 characters if provided');
+      expect(printed).toContain('- User can post at most 10 Posts per second');
+      expect(printed).toContain('- User can update password at most 3 times per hour');
+    });
+  });
+
+  describe('MONITOR', () => {
+    it('should keep monitor values and custom alert units', () => {
+      const printed = expectRoundTrip('monitor', readExample('monitor'));
+
+      expect(printed).toContain('- slow query threshold: 500 milliseconds');
+      expect(printed).toContain('- create rate exceeds 100 per minute');
+      expect(printed).toContain('- failed login attempts exceeds 10 in 5 minutes');
+    });
+  });
+
+  describe('LOG', () => {
+    it('should round-trip log, audit, level and exclude sections', () => {
+      const printed = expectRoundTrip(
+        'log',
+        `Log for all mutations:
+- user id
+- timestamp
+
+Log for Post[s]:
+- update with changed fields only
+- delete with post id and title
+- create with full data
+
+Audit for Posts:
+- who created
+- when published
+- password changes
+
+Log level warning for:
+- slow queries over 500 milliseconds
+
+Exclude from logs:
+- password fields
+`
+      );
+
+      expect(printed).toContain('Log for Post[s]:\n');
+      expect(printed).toContain('Log level warning for:\n- slow queries over 500 milliseconds\n');
+    });
+  });
+
+  describe('SEED', () => {
+    it('should round-trip literal and random seeds', () => {
+      const printed = expectRoundTrip(
+        'seed',
+        `Seed Categories:
+- Technology with slug technology and description "All about tech and innovation"
+
+Seed Posts:
+- "Hello World" with slug hello and views 10 for john@blog.com User in Technology Category
+
+Seed for development:
+- 5 Users with random usernames and emails and role user and is active true
+- 20 Posts with random titles for random active Users with some published true
+- random Tags attached to random Posts
+`
+      );
+
+      expect(printed).toContain(
+        '- Technology with slug technology and description "All about tech and innovation"'
+      );
+      expect(printed).toContain('- random Tags attached to random Posts');
+    });
+  });
+
+  describe('comments', () => {
+    it('should keep comments and collapse blank lines', () => {
+      const printed = expectRoundTrip(
+        'ddl',
+        `# Blog schema
+
+
+User[s]:   # registered accounts
+-  has email as unique text   # used to log in
+
+
+
+# Ownership
+- has many Posts
+Post[s]:
+- belongs to User
+
+
+# end of schema
+
+`
+      );
+
+      expect(printed).toBe(`# Blog schema
+
+User[s]: # registered accounts
+- has email as unique text # used to log in
+
+# Ownership
+- has many Posts
+
+Post[s]:
+- belongs to User
+
+# end of schema
+`);
+    });
+
+    it('should print the same text when formatting formatted output', () => {
+      const sources: [DSLFileKind, string][] = [
+        [
+          'dml',
+          'Query for Post: # public\n# newest first\n- recent posts sorted by created at descending\n',
+        ],
+        ['log', '# audit trail\nAudit for Posts:\n- who created # author\n- when published\n'],
+        [
+          'seed',
+          'Seed Categories:\n# default category\n- Technology with slug technology\n# done\n',
+        ],
+        [
+          'validation',
+          'Validate Post:\n- title must be at least 5 characters\n\n# abuse\nRate Limiting Validation:\n- User can post at most 10 Posts per second\n',
+        ],
+        ['security', '# Rules\nConstraints: # must\n- all passwords must be hashed with bcrypt\n'],
+      ];
+
+      for (const [kind, source] of sources) {
+        const printed = expectRoundTrip(kind, source);
+        expect(printFile(kind, parse(kind, printed))).toBe(printed);
+        expect(printed).toMatch(/# /);
+      }
+    });
+
+    it('should print comments of a header without a node above its first item', () => {
+      const printed = expectRoundTrip('auth', 'Roles: # everyone\n- admin\n- member\n');
+
+      expect(printed).toBe('Roles:\n# everyone\n- admin\n- member\n');
+    });
+
+    it('should print comments inside API config sections above the section', () => {
+      const printed = printFile(
+        'api',
+        parse('api', 'CORS:\n- allow methods: GET, POST\n- max age: 3600 # one hour\n')
+      );
+
+      expect(printed).toBe('# one hour\nCORS:\n- allow methods: GET, POST\n- max age: 3600\n');
+    });
+
+    it('should print comment-only files', () => {
+      expect(printFile('security', parse('security', '\n# TODO\n\n\n# later\n'))).toBe(
+        '# TODO\n\n# later\n'
+      );
+    });
+  });
+
+  describe('printFile', () => {
+    it('should print empty files as empty text', () => {
+      const kinds: DSLFileKind[] = ['ddl', 'dml', 'validation', 'api', 'monitor', 'log', 'seed'];
+      for (const kind of kinds) {
+        expect(printFile(kind, createEmptyFile(kind))).toBe('');
+      }
+    });
+
+    it('should always print the AUTH roles section', () => {
+      expect(printFile('auth', createEmptyFile('auth'))).toBe('Roles:\n');
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Tests for the project loader
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  loadProject,
+  parseProject,
+  parseProjectWithDiagnostics,
+  createEmptyFile,
+  ProjectLoadError,
+  DSL_FILE_KINDS,
+} from '../../src/project/loader.js';
+import { ParseError } from '../../src/diagnostics/parse-error.js';
+import type { DSLFileKind, ProjectSource } from '../../src/types/project.js';
+
+const DDL = `User[s]:
+- has email as unique text and required
+- has many Posts
+
+Post[s]:
+- has title as text and required
+- has published as boolean
+- belongs to User
+`;
+
+const DML = `Query for Posts:
+- published posts where published is true
+`;
+
+const AUTH = `Roles:
+- admin
+
+Rules for Posts:
+- anyone can read Posts where published is true
+`;
+
+function sources(files: Partial<Record<DSLFileKind, string>>) {
+  const result = {} as Record<DSLFileKind, ProjectSource>;
+  for (const kind of DSL_FILE_KINDS) {
+    const source = files[kind];
+    result[kind] = {
+      kind,
+      path: `/schema/${kind}.dsl`,
+      source: source ?? '',
+      exists: source !== undefined,
+    };
+  }
+  return result;
+}
+
+describe('loadProject', () => {
+  let projectDir: string;
+
+  function writeSchema(files: Record<string, string>, schemaPath = 'schema') {
+    const dir = join(projectDir, schemaPath);
+    mkdirSync(dir, { recursive: true });
+    for (const [name, content] of Object.entries(files)) {
+      writeFileSync(join(dir, name), content);
+    }
+  }
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'declarelang-project-'));
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should load and parse DSL files from ./schema', async () => {
+    writeSchema({ 'ddl.dsl': DDL, 'dml.dsl': DML, 'auth.dsl': AUTH });
+
+    const project = await loadProject(projectDir);
+
+    expect(project.root).toBe(join(projectDir, 'schema'));
+    expect(project.ddl.models.map((m) => m.name.singular)).toEqual(['User', 'Post']);
+    expect(project.dml.sections).toHaveLength(1);
+    expect(project.auth.roles[0]!.name).toBe('admin');
+    expect(project.auth.modelRules[0]!.modelName).toBe('Posts');
+  });
+
+  it('should turn missing optional files into empty ASTs', async () => {
+    writeSchema({ 'ddl.dsl': DDL });
+
+    const project = await loadProject(projectDir);
+
+    expect(project.dml).toEqual(createEmptyFile('dml'));
+    expect(project.auth.roles).toEqual([]);
+    expect(project.validation.validations).toEqual([]);
+    expect(project.api.rateLimits).toEqual([]);
+    expect(project.monitor.tracks).toEqual([]);
+    expect(project.log.logs).toEqual([]);
+    expect(project.security.constraints).toEqual([]);
+    expect(project.seed.sections).toEqual([]);
+    expect(project.sources.dml.exists).toBe(false);
+    expect(project.sources.dml.source).toBe('');
+  });
+
+  it('should treat comment-only optional files as empty', async () => {
+    writeSchema({ 'ddl.dsl': DDL, 'dml.dsl': '# TODO: queries\n\n', 'auth.dsl': '' });
+
+    const project = await loadProject(projectDir);
+
+    expect(project.dml.sections).toEqual([]);
+    expect(project.auth.modelRules).toEqual([]);
+    expect(project.sources.dml.exists).toBe(true);
+  });
+
+  it('should keep the source of every file', async () => {
+    writeSchema({ 'ddl.dsl': DDL, 'dml.dsl': DML });
+
+    const project = await loadProject(projectDir);
+
+    expect(project.sources.ddl).toEqual({
+      kind: 'ddl',
+      path: join(projectDir, 'schema', 'ddl.dsl'),
+      source: DDL,
+      exists: true,
+    });
+
+    const query = project.dml.sections[0]!;
+    expect(DML.slice(query.start.offset, query.start.offset + 9)).toBe('Query for');
+  });
+
+  it('should honor schema.path', async () => {
+    writeSchema({ 'ddl.dsl': DDL }, 'dsl/blog');
+
+    const project = await loadProject(projectDir, { schema: { path: './dsl/blog' } });
+
+    expect(project.root).toBe(join(projectDir, 'dsl', 'blog'));
+    expect(project.ddl.models).toHaveLength(2);
+  });
+
+  it('should only load files listed in schema.files', async () => {
+    writeSchema({ 'ddl.dsl': DDL, 'dml.dsl': DML });
+
+    const project = await loadProject(projectDir, { schema: { files: ['ddl.dsl'] } });
+
+    expect(project.dml.sections).toEqual([]);
+    expect(project.sources.dml.exists).toBe(false);
+  });
+
+  it('should raise PARSE019 when ddl.dsl is missing', async () => {
+    writeSchema({ 'dml.dsl': DML });
+
+    const error = await loadProject(projectDir).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ProjectLoadError);
+    expect((error as ProjectLoadError).code).toBe('PARSE019');
+    expect((error as ProjectLoadError).path).toBe(join(projectDir, 'schema', 'ddl.dsl'));
+    expect((error as ProjectLoadError).message).toBe(
+      `DSL file not found: ${join(projectDir, 'schema', 'ddl.dsl')}`
+    );
+  });
+
+  it('should raise PARSE019 when ddl.dsl is not in schema.files', async () => {
+    writeSchema({ 'ddl.dsl': DDL });
+
+    await expect(loadProject(projectDir, { schema: { files: ['dml.dsl'] } })).rejects.toMatchObject(
+      { code: 'PARSE019' }
+    );
+  });
+
+  it('should raise PARSE020 when a file cannot be read', async () => {
+    writeSchema({ 'ddl.dsl': DDL });
+    mkdirSync(join(projectDir, 'schema', 'dml.dsl'));
+
+    await expect(loadProject(projectDir)).rejects.toMatchObject({ code: 'PARSE020' });
+  });
+
+  it('should propagate parse errors', async () => {
+    writeSchema({ 'ddl.dsl': 'User[s]:\n- email as text\n' });
+
+    await expect(loadProject(projectDir)).rejects.toThrow(
+      'Expected field or relationship definition'
+    );
+  });
+
+  it('should name the file of a parse error', async () => {
+    writeSchema({ 'ddl.dsl': DDL, 'log.dsl': 'Log:\n- nonsense\n' });
+
+    const error = await loadProject(projectDir).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ParseError);
+    expect((error as ParseError).diagnostic.file).toBe(join(projectDir, 'schema', 'log.dsl'));
+  });
+});
+
+describe('parseProject', () => {
+  it('should parse in-memory sources', () => {
+    const project = parseProject('/schema', sources({ ddl: DDL, dml: DML }));
+
+    expect(project.root).toBe('/schema');
+    expect(project.ddl.models).toHaveLength(2);
+    expect(project.dml.sections).toHaveLength(1);
+  });
+
+  it('should raise PARSE019 without ddl.dsl', () => {
+    expect(() => parseProject('/schema', sources({ dml: DML }))).toThrow(ProjectLoadError);
+  });
+});
+
+describe('parseProjectWithDiagnostics', () => {
+  it('should collect diagnostics from every file', () => {
+    const result = parseProjectWithDiagnostics(
+      '/schema',
+      sources({
+        ddl: DDL.replace('has published as boolean', 'has published as bool'),
+        dml: `${DML}- draft posts where published is\n`,
+      })
+    );
+
+    expect(result.diagnostics.map((d) => [d.file, d.start.line])).toEqual([
+      ['/schema/ddl.dsl', 7],
+      ['/schema/dml.dsl', 3],
+    ]);
+    expect(result.ast.ddl.models[1]!.items).toHaveLength(2);
+    expect(result.ast.dml.sections).toHaveLength(1);
+  });
+
+  it('should report tokenizer errors and leave the file empty', () => {
+    const result = parseProjectWithDiagnostics('/schema', sources({ ddl: DDL, dml: 'Query @\n' }));
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]!.file).toBe('/schema/dml.dsl');
+    expect(result.ast.dml).toEqual(createEmptyFile('dml'));
+  });
+
+  it('should raise PARSE019 without ddl.dsl', () => {
+    expect(() => parseProjectWithDiagnostics('/schema', sources({ dml: DML }))).toThrow(
+      ProjectLoadError
+    );
+  });
+});
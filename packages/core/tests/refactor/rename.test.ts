@@ -0,0 +1,204 @@
+/**
+ * Tests for semantic rename
+ * Applying the edits of a rename must give a project whose references all
+ * resolve to the renamed model or field
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseProject, DSL_FILE_KINDS } from '../../src/project/loader.js';
+import { analyzeProject } from '../../src/validators/reference-validator.js';
+import { FileEdits, RenameError, renameField, renameModel } from '../../src/refactor/rename.js';
+import { applyTextEdits } from '../../src/utils/source.js';
+import type { DSLFileKind, ProjectAST, ProjectSource } from '../../src/types/project.js';
+
+const FILES: Partial<Record<DSLFileKind, string>> = {
+  ddl: `User[s]:
+- has email as unique text and required
+- has many Posts
+
+Categor[y|ies]:
+- has name as unique text
+- has many Posts
+
+Post[s]:
+- has title as text and required
+- has published at as timestamp
+- belongs to User
+- belongs to Category
+`,
+  dml: `Query for Posts:
+- recent posts where published_at is not empty sorted by published at descending
+- by category where category id equals 1
+
+Computed for Category:
+- post count counts Posts where published at is not empty
+`,
+  auth: `Roles:
+- admin
+
+Rules for Categories:
+- anyone can read Categories
+- admins can delete Categories
+
+Field Rules for Post:
+- admins can edit published-at
+`,
+  api: `Rate limit for Categories:
+- 10 creates per minute per user
+
+Query parameters for Posts:
+- category id as number
+- published at as timestamp
+`,
+  seed: `Seed Categories:
+- "News" with name news
+`,
+};
+
+function project(files: Partial<Record<DSLFileKind, string>> = FILES): ProjectAST {
+  const sources = {} as Record<DSLFileKind, ProjectSource>;
+  for (const kind of DSL_FILE_KINDS) {
+    const source = files[kind];
+    sources[kind] = {
+      kind,
+      path: `/schema/${kind}.dsl`,
+      source: source ?? '',
+      exists: source !== undefined,
+    };
+  }
+  return parseProject('/schema', sources);
+}
+
+/**
+ * Apply the edits of a rename and return the changed files
+ */
+function apply(renamed: FileEdits[]): Partial<Record<DSLFileKind, string>> {
+  const files = { ...FILES };
+  for (const { kind, edits } of renamed) {
+    files[kind] = applyTextEdits(files[kind] ?? '', edits);
+  }
+  return files;
+}
+
+function catchError(rename: () => unknown): RenameError {
+  try {
+    rename();
+  } catch (error) {
+    expect(error).toBeInstanceOf(RenameError);
+    return error as RenameError;
+  }
+  throw new Error('Expected a RenameError');
+}
+
+describe('renameModel', () => {
+  it('should rename singular and plural references in every file', () => {
+    const renamed = renameModel(project(), 'Category', 'Topic[s]');
+    const files = apply(renamed);
+
+    expect(renamed.map((file) => [file.kind, file.path])).toEqual([
+      ['ddl', '/schema/ddl.dsl'],
+      ['dml', '/schema/dml.dsl'],
+      ['auth', '/schema/auth.dsl'],
+      ['api', '/schema/api.dsl'],
+      ['seed', '/schema/seed.dsl'],
+    ]);
+    expect(files.ddl).toContain('Topic[s]:\n- has name');
+    expect(files.ddl).toContain('- belongs to Topic\n');
+    expect(files.dml).toContain('Computed for Topic:');
+    expect(files.auth).toContain('Rules for Topics:\n- anyone can read Topics');
+    expect(files.api).toContain('Rate limit for Topics:');
+    expect(files.seed).toContain('Seed Topics:');
+    expect(analyzeProject(project(files)).diagnostics).toEqual([]);
+  });
+
+  it('should rename the foreign keys generated for the model', () => {
+    const files = apply(renameModel(project(), 'Categories', 'Topic[s]'));
+
+    expect(files.dml).toContain('where topic id equals 1');
+    expect(files.api).toContain('- topic id as number');
+  });
+
+  it('should accept irregular plurals and keep other models untouched', () => {
+    const renamed = renameModel(project(), 'User', 'Person[|People]');
+    const files = apply(renamed);
+
+    expect(files.ddl).toContain('Person[|People]:');
+    expect(files.ddl).toContain('- belongs to Person\n');
+    expect(renamed.map((file) => file.kind)).toEqual(['ddl']);
+  });
+
+  it('should refuse names of other models', () => {
+    const error = catchError(() => renameModel(project(), 'Category', 'Post[s]'));
+
+    expect(error.code).toBe('PARSE004');
+    expect(error.message).toBe("Model 'Post' already exists");
+    expect(error.diagnostic).toMatchObject({ file: '/schema/ddl.dsl', start: { line: 9 } });
+    expect(catchError(() => renameModel(project(), 'Post', 'Us[er|ers]')).code).toBe('PARSE004');
+  });
+
+  it('should refuse a foreign key that collides with a field', () => {
+    const ddl = `${FILES.ddl}- has topic id as number\n`;
+    const error = catchError(() => renameModel(project({ ...FILES, ddl }), 'Category', 'Topic[s]'));
+
+    expect(error.code).toBe('PARSE003');
+    expect(error.message).toBe("Field 'topic_id' already exists in model 'Post'");
+  });
+
+  it('should refuse unknown models and invalid names', () => {
+    expect(catchError(() => renameModel(project(), 'Tag', 'Label[s]')).code).toBe('PARSE010');
+    expect(catchError(() => renameModel(project(), 'Post', 'Blog Post[s]')).code).toBe('PARSE007');
+    expect(catchError(() => renameModel(project(), 'Post', 'Entry[y|ies|s]')).code).toBe(
+      'PARSE007'
+    );
+  });
+});
+
+describe('renameField', () => {
+  it('should rename a field everywhere, keeping each spelling', () => {
+    const files = apply(renameField(project(), 'Post', 'published at', 'released on'));
+
+    expect(files.ddl).toContain('- has released on as timestamp');
+    expect(files.dml).toContain('where released_on is not empty sorted by released on descending');
+    expect(files.dml).toContain('where released on is not empty\n');
+    expect(files.auth).toContain('- admins can edit released-on');
+    expect(files.api).toContain('- released on as timestamp');
+    expect(analyzeProject(project(files)).diagnostics).toEqual([]);
+  });
+
+  it('should rename single-word fields with the spelling given', () => {
+    const files = apply(renameField(project(), 'Categories', 'name', 'label'));
+
+    expect(files.ddl).toContain('- has label as unique text');
+    expect(files.seed).toContain('with label news');
+  });
+
+  it('should allow changing the spelling of the same name', () => {
+    const renamed = renameField(project(), 'Post', 'published_at', 'published-at');
+
+    expect(renamed.map((file) => file.kind)).toEqual(['ddl']);
+  });
+
+  it('should refuse names of other fields', () => {
+    const error = catchError(() => renameField(project(), 'Post', 'title', 'published at'));
+
+    expect(error.code).toBe('PARSE003');
+    expect(error.message).toBe("Field 'published_at' already exists in model 'Post'");
+    expect(error.position.line).toBe(11);
+    expect(catchError(() => renameField(project(), 'Post', 'title', 'created at')).message).toBe(
+      "Field 'created_at' already exists in model 'Post'"
+    );
+  });
+
+  it('should refuse generated fields, unknown fields and invalid names', () => {
+    expect(catchError(() => renameField(project(), 'Post', 'user id', 'author id')).message).toBe(
+      "Field 'user_id' of model 'Post' is generated and cannot be renamed"
+    );
+    expect(catchError(() => renameField(project(), 'Post', 'body', 'text')).code).toBe('PARSE011');
+    expect(catchError(() => renameField(project(), 'Article', 'title', 'name')).code).toBe(
+      'PARSE010'
+    );
+    expect(catchError(() => renameField(project(), 'Post', 'title', '1st title')).code).toBe(
+      'PARSE003'
+    );
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Incremental tokenization tests
+ * Re-tokenizing after an edit must give the same tokens as tokenizing the edited text
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Tokenizer } from '../../src/tokenizer/tokenizer.js';
+import { retokenize } from '../../src/tokenizer/incremental.js';
+import { TextEdit, applyTextEdit } from '../../src/utils/source.js';
+import { TokenType } from '../../src/types/token.js';
+
+const SOURCE = `# Blog schema
+User[s]:
+- has email as unique text # used to log in
+- has name as text
+
+# Posts
+Post[s]:
+- has title as text
+- belongs to User
+`;
+
+function expectSameTokens(text: string, edit: TextEdit, tokens = new Tokenizer(text).tokenize()) {
+  const result = retokenize(text, tokens, edit);
+  const edited = applyTextEdit(text, edit);
+
+  expect(result.text).toBe(edited);
+  expect(result.tokens).toEqual(new Tokenizer(edited).tokenize());
+  return result;
+}
+
+describe('retokenize', () => {
+  it('should re-lex an edited word', () => {
+    expectSameTokens(SOURCE, {
+      offset: SOURCE.indexOf('name'),
+      deleteCount: 4,
+      insertText: 'title',
+    });
+  });
+
+  it('should move the tokens after an edit that adds or removes lines', () => {
+    expectSameTokens(SOURCE, {
+      offset: SOURCE.indexOf('- has name'),
+      deleteCount: 0,
+      insertText: '- has bio as long text\n- has age as number\n',
+    });
+    expectSameTokens(SOURCE, {
+      offset: SOURCE.indexOf('- has name'),
+      deleteCount: '- has name as text\n'.length,
+      insertText: '',
+    });
+  });
+
+  it('should re-lex lines joined by deleting a newline', () => {
+    const offset = SOURCE.indexOf('text\n- has name') + 4;
+    expectSameTokens(SOURCE, { offset, deleteCount: 1, insertText: ' ' });
+  });
+
+  it('should re-lex text typed at the start or the end of a line', () => {
+    expectSameTokens(SOURCE, {
+      offset: SOURCE.indexOf('Post[s]'),
+      deleteCount: 0,
+      insertText: 'x',
+    });
+    expectSameTokens(SOURCE, {
+      offset: SOURCE.indexOf('\n- has title'),
+      deleteCount: 0,
+      insertText: ' ',
+    });
+    expectSameTokens(SOURCE, { offset: SOURCE.length, deleteCount: 0, insertText: '- many Tags' });
+  });
+
+  it('should keep trivia when lines turn into comments', () => {
+    expectSameTokens(SOURCE, {
+      offset: SOURCE.indexOf('- has name'),
+      deleteCount: 0,
+      insertText: '# ',
+    });
+    expectSameTokens(SOURCE, { offset: SOURCE.indexOf('# Posts'), deleteCount: 2, insertText: '' });
+    expectSameTokens(SOURCE, {
+      offset: SOURCE.indexOf('\n# Posts'),
+      deleteCount: 1,
+      insertText: '',
+    });
+  });
+
+  it('should re-lex only the edited lines and reuse the tokens before them', () => {
+    const tokens = new Tokenizer(SOURCE).tokenize();
+    const offset = SOURCE.indexOf('title');
+    const result = expectSameTokens(
+      SOURCE,
+      { offset, deleteCount: 5, insertText: 'headline' },
+      tokens
+    );
+
+    expect(result.start).toBe(SOURCE.indexOf('- has title'));
+    // down to the end of the next line, as the edit adds 3 characters
+    expect(result.end).toBe(SOURCE.length + 3);
+    const reused = tokens.findIndex((t) => t.start.offset >= result.start);
+    for (let i = 0; i < reused; i++) {
+      expect(result.tokens[i]).toBe(tokens[i]);
+    }
+  });
+
+  it('should re-lex a string spanning lines as a whole', () => {
+    const text = '- "one\n- two"\n- three\n';
+    expectSameTokens(text, { offset: text.indexOf('two'), deleteCount: 3, insertText: '2' });
+    expectSameTokens(text, { offset: text.indexOf('three'), deleteCount: 0, insertText: '3 ' });
+  });
+
+  it('should throw when the edited text cannot be tokenized', () => {
+    const tokens = new Tokenizer(SOURCE).tokenize();
+
+    expect(() =>
+      retokenize(SOURCE, tokens, { offset: SOURCE.length, deleteCount: 0, insertText: '"open' })
+    ).toThrow('Unterminated string');
+  });
+
+  it('should tokenize an emptied text', () => {
+    const result = expectSameTokens(SOURCE, {
+      offset: 0,
+      deleteCount: SOURCE.length,
+      insertText: '',
+    });
+
+    expect(result.tokens.map((t) => t.type)).toEqual([TokenType.EOF]);
+  });
+});
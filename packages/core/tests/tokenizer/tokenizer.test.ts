@@ -298,6 +298,64 @@ describe('Tokenizer', () => {
     });
   });
 
+  describe('Trivia', () => {
+    it('should attach an end-of-line comment as trailing trivia', () => {
+      const tokens = new Tokenizer('user email # login\nname').tokenize();
+
+      expect(tokens[1]!.value).toBe('email');
+      expect(tokens[1]!.trailingTrivia).toEqual([
+        {
+          type: 'comment',
+          text: '# login',
+          start: { line: 1, column: 12, offset: 11 },
+          end: { line: 1, column: 19, offset: 18 },
+        },
+      ]);
+      expect(tokens[0]!.trailingTrivia).toBeUndefined();
+    });
+
+    it('should attach comments and blank lines as leading trivia of the next token', () => {
+      const tokens = new Tokenizer('user\n\n# Posts\n\n  post').tokenize();
+      const post = tokens.find((t) => t.value === 'post');
+
+      expect(post!.leadingTrivia?.map((t) => [t.type, t.text])).toEqual([
+        ['blank_line', ''],
+        ['comment', '# Posts'],
+        ['blank_line', ''],
+      ]);
+    });
+
+    it('should attach trivia after the last line to EOF', () => {
+      const tokens = new Tokenizer('user\n# end\n').tokenize();
+
+      expect(tokens[tokens.length - 1]!.leadingTrivia?.map((t) => t.text)).toEqual(['# end']);
+    });
+
+    it('should keep COMMENT tokens in the token stream', () => {
+      const tokens = new Tokenizer('# header\nuser').tokenize();
+
+      expect(tokens.map((t) => t.type)).toEqual([
+        TokenType.COMMENT,
+        TokenType.NEWLINE,
+        TokenType.IDENTIFIER,
+        TokenType.EOF,
+      ]);
+      expect(tokens[2]!.leadingTrivia?.map((t) => t.text)).toEqual(['# header']);
+    });
+
+    it('should not add trivia properties to tokens without trivia', () => {
+      const tokens = new Tokenizer('user\nemail').tokenize();
+
+      expect(tokens.every((t) => !('leadingTrivia' in t) && !('trailingTrivia' in t))).toBe(true);
+    });
+
+    it('should trim trailing whitespace from comment text', () => {
+      const tokens = new Tokenizer('user # note  \r\n').tokenize();
+
+      expect(tokens[0]!.trailingTrivia?.[0]?.text).toBe('# note');
+    });
+  });
+
   describe('Whitespace handling', () => {
     it('should skip spaces and tabs', () => {
       const tokenizer = new Tokenizer('user    \t  post');
@@ -753,6 +811,15 @@ describe('Tokenizer', () => {
         expect.objectContaining({ type: TokenType.IDENTIFIER, value: '%' })
       );
     });
+
+    it('should tokenize asterisk for wildcards', () => {
+      const tokenizer = new Tokenizer('allow origins: *');
+      const tokens = tokenizer.tokenize();
+
+      expect(tokens).toContainEqual(
+        expect.objectContaining({ type: TokenType.IDENTIFIER, value: '*' })
+      );
+    });
   });
 
   describe('Unicode handling', () => {
@@ -3,7 +3,13 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { normalizeIdentifier, parseModelName } from '../../src/utils/identifier.js';
+import {
+  normalizeIdentifier,
+  parseModelName,
+  toCamelCase,
+  toPascalCase,
+  toSnakeCase,
+} from '../../src/utils/identifier.js';
 
 describe('normalizeIdentifier', () => {
   it('should convert spaces to underscores', () => {
@@ -276,3 +282,28 @@ describe('parseModelName', () => {
     });
   });
 });
+
+describe('toSnakeCase', () => {
+  it('should convert model names to snake case', () => {
+    expect(toSnakeCase('User')).toBe('user');
+    expect(toSnakeCase('BlogPost')).toBe('blog_post');
+    expect(toSnakeCase('Blog Post')).toBe('blog_post');
+  });
+});
+
+describe('toCamelCase', () => {
+  it('should convert model and field names to camel case', () => {
+    expect(toCamelCase('Users')).toBe('users');
+    expect(toCamelCase('BlogPosts')).toBe('blogPosts');
+    expect(toCamelCase('created at')).toBe('createdAt');
+    expect(toCamelCase('avatar_url_2')).toBe('avatarUrl2');
+  });
+});
+
+describe('toPascalCase', () => {
+  it('should convert model and field names to pascal case', () => {
+    expect(toPascalCase('user')).toBe('User');
+    expect(toPascalCase('blog_post')).toBe('BlogPost');
+    expect(toPascalCase('Categories')).toBe('Categories');
+  });
+});
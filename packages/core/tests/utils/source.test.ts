@@ -0,0 +1,99 @@
+/**
+ * Tests for source text utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  positionAt,
+  findNameInNode,
+  applyTextEdit,
+  applyTextEdits,
+  shiftPositions,
+} from '../../src/utils/source.js';
+
+const SOURCE = `Post[s]:
+- has created at as timestamp
+- belongs to User
+`;
+
+describe('positionAt', () => {
+  it('should compute 1-based line and column', () => {
+    expect(positionAt(SOURCE, 0)).toEqual({ line: 1, column: 1, offset: 0 });
+    expect(positionAt(SOURCE, 11)).toEqual({ line: 2, column: 3, offset: 11 });
+  });
+
+  it('should clamp out-of-range offsets', () => {
+    expect(positionAt(SOURCE, -5).offset).toBe(0);
+    expect(positionAt(SOURCE, 1000).offset).toBe(SOURCE.length);
+  });
+});
+
+describe('findNameInNode', () => {
+  const node = { start: positionAt(SOURCE, 0), end: positionAt(SOURCE, SOURCE.length) };
+
+  it('should match normalized names written with spaces', () => {
+    const range = findNameInNode(SOURCE, node, ['created_at'])!;
+    expect(SOURCE.slice(range.start.offset, range.end.offset)).toBe('created at');
+    expect(range.start).toEqual({ line: 2, column: 7, offset: 15 });
+  });
+
+  it('should only match whole words', () => {
+    expect(findNameInNode(SOURCE, node, ['Use'])).toBeUndefined();
+    expect(findNameInNode(SOURCE, node, ['Use', 'User'])!.start.line).toBe(3);
+  });
+
+  it('should only search inside the node', () => {
+    const line2 = { start: positionAt(SOURCE, 9), end: positionAt(SOURCE, 39) };
+    expect(findNameInNode(SOURCE, line2, ['User'])).toBeUndefined();
+  });
+});
+
+describe('applyTextEdit', () => {
+  it('should replace, insert and delete text', () => {
+    expect(applyTextEdit(SOURCE, { offset: 0, deleteCount: 4, insertText: 'Article' })).toMatch(
+      /^Article\[s\]:/
+    );
+    expect(applyTextEdit('ab', { offset: 1, deleteCount: 0, insertText: 'x' })).toBe('axb');
+    expect(applyTextEdit('abc', { offset: 1, deleteCount: 1, insertText: '' })).toBe('ac');
+  });
+
+  it('should clamp edits to the text', () => {
+    expect(applyTextEdit('abc', { offset: 10, deleteCount: 5, insertText: 'd' })).toBe('abcd');
+    expect(applyTextEdit('abc', { offset: 2, deleteCount: 10, insertText: '' })).toBe('ab');
+  });
+});
+
+describe('applyTextEdits', () => {
+  it('should apply edits given in any order against the original text', () => {
+    const edits = [
+      { offset: 4, deleteCount: 1, insertText: 'E' },
+      { offset: 0, deleteCount: 1, insertText: 'AA' },
+      { offset: 2, deleteCount: 0, insertText: '-' },
+    ];
+
+    expect(applyTextEdits('abcde', edits)).toBe('AAb-cdE');
+    expect(applyTextEdits('abc', [])).toBe('abc');
+  });
+});
+
+describe('shiftPositions', () => {
+  const node = {
+    name: 'User',
+    start: { line: 3, column: 1, offset: 40 },
+    end: { line: 3, column: 18, offset: 57 },
+    items: [{ start: { line: 3, column: 3, offset: 42 }, end: { line: 3, column: 7, offset: 46 } }],
+  };
+
+  it('should move every position by offset and lines, keeping columns', () => {
+    const moved = shiftPositions(node, 5, 1);
+
+    expect(moved.start).toEqual({ line: 4, column: 1, offset: 45 });
+    expect(moved.items[0]!.end).toEqual({ line: 4, column: 7, offset: 51 });
+    expect(moved.name).toBe('User');
+    expect(node.start.offset).toBe(40);
+  });
+
+  it('should return the value itself when nothing moves', () => {
+    expect(shiftPositions(node, 0, 0)).toBe(node);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Tests for name suggestion utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { levenshtein, findClosestMatch } from '../../src/utils/suggestion.js';
+
+describe('levenshtein', () => {
+  it('should count single-character edits', () => {
+    expect(levenshtein('post', 'post')).toBe(0);
+    expect(levenshtein('post', 'posts')).toBe(1);
+    expect(levenshtein('titel', 'title')).toBe(2);
+    expect(levenshtein('', 'abc')).toBe(3);
+  });
+});
+
+describe('findClosestMatch', () => {
+  it('should return the closest candidate', () => {
+    expect(findClosestMatch('Psot', ['User', 'Post', 'Comment'])).toBe('Post');
+    expect(findClosestMatch('publshed', ['title', 'published'])).toBe('published');
+  });
+
+  it('should ignore case', () => {
+    expect(findClosestMatch('post', ['User', 'Post'])).toBe('Post');
+  });
+
+  it('should return undefined when nothing is close', () => {
+    expect(findClosestMatch('featured_flag', ['title', 'published'])).toBeUndefined();
+    expect(findClosestMatch('x', [])).toBeUndefined();
+  });
+});
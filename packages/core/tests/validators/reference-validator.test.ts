@@ -0,0 +1,273 @@
+/**
+ * Tests for the cross-file reference validator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseProject, DSL_FILE_KINDS } from '../../src/project/loader.js';
+import { analyzeProject } from '../../src/validators/reference-validator.js';
+import type { DSLFileKind, ProjectSource } from '../../src/types/project.js';
+
+const DDL = `User[s]:
+- has email as unique text and required
+- has many Posts
+
+Post[s]:
+- has title as text and required
+- has published as boolean
+- has view count as number
+- belongs to User
+
+Comment[s]:
+- has content as long text
+- belongs to Post
+`;
+
+function analyze(files: Partial<Record<DSLFileKind, string>>) {
+  const sources = {} as Record<DSLFileKind, ProjectSource>;
+  for (const kind of DSL_FILE_KINDS) {
+    const source = kind === 'ddl' ? (files.ddl ?? DDL) : files[kind];
+    sources[kind] = {
+      kind,
+      path: `/schema/${kind}.dsl`,
+      source: source ?? '',
+      exists: source !== undefined,
+    };
+  }
+  return analyzeProject(parseProject('/schema', sources));
+}
+
+describe('analyzeProject', () => {
+  it('should report nothing for a consistent project', () => {
+    const result = analyze({
+      dml: `Query for Posts:
+- published posts where published is true sorted by created at descending
+- my posts where user id matches current user
+
+Mutation for Posts:
+- publish post sets published to true
+- increment views increases view count by 1
+
+Computed for User:
+- post count counts Post where published is true
+`,
+      auth: `Roles:
+- admin
+
+Rules for Posts:
+- anyone can read Posts where published is true
+- users can edit own Posts
+
+Field Rules for Post:
+- admins can edit title
+`,
+      validation: `Validate Post:
+- title must be between 5 and 200 characters
+- view count must exist when published is true
+`,
+      api: `Pagination for Posts:
+- allowed sort fields: created at, title
+
+Query parameters for Posts:
+- published as boolean
+- user id as number
+`,
+      seed: `Seed Posts:
+- "My First Post" with title hello for john@blog.com User
+`,
+    });
+
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('should report PARSE010 for an unknown relationship target', () => {
+    const ddl = DDL.replace('belongs to Post', 'belongs to Psot');
+    const result = analyze({ ddl });
+
+    expect(result.diagnostics).toHaveLength(1);
+    const diagnostic = result.diagnostics[0]!;
+    expect(diagnostic.code).toBe('PARSE010');
+    expect(diagnostic.severity).toBe('error');
+    expect(diagnostic.message).toBe("Model 'Psot' not found at line 13. Did you mean 'Post'?");
+    expect(diagnostic.fix?.replacement).toBe('Post');
+    expect(diagnostic.help).toBe('Check model name spelling or define the model');
+    expect(diagnostic.file).toBe('/schema/ddl.dsl');
+    expect(diagnostic.start).toMatchObject({ line: 13, column: 14 });
+    expect(diagnostic.end).toMatchObject({ line: 13, column: 18 });
+    expect(ddl.slice(diagnostic.start.offset, diagnostic.end.offset)).toBe('Psot');
+  });
+
+  it('should report PARSE011 for an unknown field in a query', () => {
+    const dml = `Query for Posts:
+- featured posts where featured flag is true
+`;
+    const result = analyze({ dml });
+
+    expect(result.diagnostics).toHaveLength(1);
+    const diagnostic = result.diagnostics[0]!;
+    expect(diagnostic.code).toBe('PARSE011');
+    expect(diagnostic.message).toBe("Field 'featured_flag' not found in model 'Post' at line 2");
+    expect(diagnostic.file).toBe('/schema/dml.dsl');
+    expect(dml.slice(diagnostic.start.offset, diagnostic.end.offset)).toBe('featured flag');
+  });
+
+  it('should suggest the closest field name', () => {
+    const result = analyze({
+      auth: `Roles:
+- admin
+
+Field Rules for Post:
+- admins can edit titel
+`,
+    });
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]!.message).toBe(
+      "Field 'titel' not found in model 'Post' at line 5. Did you mean 'title'?"
+    );
+    expect(result.diagnostics[0]!.fix).toMatchObject({
+      description: "Replace with 'title'",
+      replacement: 'title',
+    });
+  });
+
+  it('should report unknown models in every file', () => {
+    const result = analyze({
+      dml: `Query for Articles:
+- all articles where published is true
+`,
+      validation: `Validate Artcle:
+- title must be between 5 and 200 characters
+`,
+      api: `Query parameters for Articles:
+- published as boolean
+`,
+    });
+
+    expect(result.diagnostics.map((d) => [d.code, d.file])).toEqual([
+      ['PARSE010', '/schema/dml.dsl'],
+      ['PARSE010', '/schema/validation.dsl'],
+      ['PARSE010', '/schema/api.dsl'],
+    ]);
+  });
+
+  it('should not report fields of unknown models', () => {
+    const result = analyze({
+      dml: `Mutation for Articles:
+- publish article sets headline to true
+`,
+    });
+
+    expect(result.diagnostics.map((d) => d.code)).toEqual(['PARSE010']);
+  });
+
+  it('should resolve implicit fields', () => {
+    const result = analyze({
+      dml: `Query for Comments:
+- recent comments where created at is after 7 days ago
+- post comments where post id equals 1 sorted by updated at descending
+`,
+    });
+
+    expect(result.diagnostics).toEqual([]);
+    const fields = result.references.filter((r) => r.kind === 'field');
+    expect(fields.map((r) => r.kind === 'field' && [r.name, r.field.implicit])).toEqual([
+      ['created_at', true],
+      ['post_id', true],
+      ['updated_at', true],
+    ]);
+  });
+
+  it('should resolve conditions on other models', () => {
+    const result = analyze({
+      auth: `Roles:
+- admin
+
+Rules for Comments:
+- anyone can read Comments where Post published is true
+`,
+    });
+
+    expect(result.diagnostics).toEqual([]);
+    expect(
+      result.references
+        .filter((r) => r.file === 'auth')
+        .map((r) => [r.kind, r.name, r.model.definition.name.singular])
+    ).toEqual([
+      ['model', 'Comments', 'Comment'],
+      ['model', 'Comment', 'Comment'],
+      ['model', 'Post', 'Post'],
+      ['field', 'published', 'Post'],
+    ]);
+  });
+
+  it('should record resolved references with their positions', () => {
+    const auth = `Roles:
+- admin
+
+Rules for Posts:
+- anyone can read Posts where published is true
+`;
+    const result = analyze({ auth });
+
+    const references = result.references.filter((r) => r.file === 'auth');
+    expect(references.map((r) => auth.slice(r.start.offset, r.end.offset))).toEqual([
+      'Posts',
+      'Posts',
+      'published',
+    ]);
+    expect(references[2]!.kind === 'field' && references[2]!.field.definition.name).toBe(
+      'published'
+    );
+  });
+
+  it('should point rate limit models at their section header', () => {
+    const api = `Rate limit for Posts:
+- 10 creates per minute per user
+# writes
+- 5 updates per minute per user
+
+Rate limit for Artcles:
+- 3 deletes per minute per user
+`;
+    const result = analyze({ api });
+
+    const references = result.references.filter((r) => r.file === 'api');
+    expect(references.map((r) => [api.slice(r.start.offset, r.end.offset), r.start.line])).toEqual([
+      ['Posts', 1],
+      ['Posts', 1],
+    ]);
+    expect(result.diagnostics[0]).toMatchObject({ code: 'PARSE010', start: { line: 6 } });
+    expect(api.slice(result.diagnostics[0]!.start.offset, result.diagnostics[0]!.end.offset)).toBe(
+      'Artcles'
+    );
+  });
+
+  it('should check validation conditions and seed attributes', () => {
+    const result = analyze({
+      validation: `Validate Post:
+- title must be between 5 and 200 characters
+- content must exist when publshed is true
+`,
+      seed: `Seed Posts:
+- "Hello" with slug hello
+`,
+    });
+
+    expect(result.diagnostics.map((d) => d.message)).toEqual([
+      "Field 'content' not found in model 'Post' at line 3",
+      "Field 'publshed' not found in model 'Post' at line 3. Did you mean 'published'?",
+      "Field 'slug' not found in model 'Post' at line 2",
+    ]);
+  });
+
+  it('should expose the symbol table', () => {
+    const result = analyze({});
+
+    expect(result.symbols.getModels().map((m) => m.definition.name.singular)).toEqual([
+      'User',
+      'Post',
+      'Comment',
+    ]);
+    expect(result.references.map((r) => r.name)).toEqual(['Posts', 'User', 'Post']);
+  });
+});
@@ -11,7 +11,7 @@ export default defineConfig({
       fileName: (format) => `index.${format === 'es' ? 'mjs' : 'cjs'}`,
     },
     rollupOptions: {
-      external: ['zod'],
+      external: ['zod', 'fs', 'fs/promises', 'path'],
       output: {
         exports: 'named',
         preserveModules: false,
@@ -0,0 +1,354 @@
+/**
+ * Client generator
+ * Emits a fetch-based TypeScript client for the generated API:
+ * - client/<models>.ts: a client per model, with a method per route the
+ *   server has (routes.ts, dml.ts):
+ *   list / listAll / get / create / update / delete, plus one method per
+ *   query (posts.publishedPosts()) and mutation (posts.publishPost(id))
+ * - client/index.ts: createClient(), grouping the model clients
+ * - client/support.ts: the HTTP layer, ApiError and pagination helpers
+ *
+ * Records are typed with the types inferred from the generated Zod schemas
+ * (middleware/validation.ts), so the client and the server share them.
+ * List methods take the filters of the query parameters of api.dsl and the
+ * sort fields of its pagination; query methods of dml.dsl without a `limited
+ * to` take `page` and `limit` and resolve to a page, like list methods. List
+ * and get methods take the computed
+ * fields of dml.dsl to include (`posts.get(1, { include: ['comment_count'] })`).
+ */
+
+import {
+  FieldType,
+  ModelSymbol,
+  ProjectAST,
+  QueryParamFilterType,
+  SymbolTable,
+  toCamelCase,
+  toPascalCase,
+} from '@declarelang/core';
+import { GeneratedFile } from '../types.js';
+import { columnName, fileName, routePath, tableVariable, typeName } from '../naming.js';
+import { listFilters, listSettings, modelColumns, routeAccess } from '../routes.js';
+import {
+  GivenParameter,
+  actionSegment,
+  modelComputed,
+  modelMutations,
+  modelQueries,
+  mutationAccess,
+  mutationParameters,
+  pagedQuery,
+  queryParameters,
+} from '../dml.js';
+import { generateClientSupport } from './support-generator.js';
+
+/**
+ * TypeScript type of the values of each field type sent by the client
+ */
+const VALUE_TYPES: Record<FieldType, string> = {
+  [FieldType.TEXT]: 'string',
+  [FieldType.LONG_TEXT]: 'string',
+  [FieldType.NUMBER]: 'number',
+  [FieldType.DECIMAL]: 'number',
+  [FieldType.BOOLEAN]: 'boolean',
+  [FieldType.TIMESTAMP]: 'Date | string',
+  [FieldType.JSON]: 'Record<string, unknown>',
+  [FieldType.UUID]: 'string',
+};
+
+/**
+ * Generate the client of a project
+ *
+ * @param project - Combined project AST
+ * @returns client/support.ts, one client per model and client/index.ts
+ */
+export function generateClient(project: ProjectAST): GeneratedFile[] {
+  const symbols = new SymbolTable(project.ddl);
+  const models = symbols.getModels();
+
+  return [
+    generateClientSupport(project.api),
+    ...models.map((model) => ({
+      path: `client/${fileName(model.definition)}.ts`,
+      content: printModelClient(model, symbols, project),
+    })),
+    { path: 'client/index.ts', content: printIndex(models) },
+  ];
+}
+
+/**
+ * Print the client of a model
+ */
+function printModelClient(model: ModelSymbol, symbols: SymbolTable, project: ProjectAST): string {
+  const type = typeName(model.definition);
+  const plural = toPascalCase(model.definition.name.plural);
+  const path = routePath(model.definition);
+  const access = routeAccess(model, symbols, project.auth);
+  const columns = modelColumns(model, symbols);
+  const timestamps = [...columns]
+    .filter(([, fieldType]) => fieldType === FieldType.TIMESTAMP)
+    .map(([column]) => column);
+
+  const types = new Set([`${type}Response`]);
+  const support = new Set(['HttpClient', 'revive']);
+  const declarations: string[] = [];
+  const methods: string[] = [];
+  const record = `${type}Response`;
+  const toRecord = `to${type}`;
+  const computed = modelComputed(model, symbols, project.dml).map((field) => `'${field.name}'`);
+  const include = computed.length > 0 ? `include?: (${computed.join(' | ')})[];` : undefined;
+
+  if (access.has('list')) {
+    const settings = listSettings(model, symbols, project.api);
+    const constant = `${columnName(type).toUpperCase()}_PAGINATION`;
+    support.add('Page');
+    support.add('paginate');
+    declarations.push(
+      [
+        '/**',
+        ` * Pagination of ${path}`,
+        ' */',
+        `export const ${constant} = {`,
+        `  defaultLimit: ${settings.defaultLimit},`,
+        `  maxLimit: ${settings.maxLimit},`,
+        `  sortFields: [${settings.sortFields.map((field) => `'${field}'`).join(', ')}],`,
+        `} as const;`,
+      ].join('\n'),
+      [
+        `export interface List${plural}Query {`,
+        '  page?: number;',
+        `  limit?: number; // at most ${settings.maxLimit}`,
+        `  sort?: (typeof ${constant}.sortFields)[number];`,
+        "  order?: 'asc' | 'desc';",
+        ...printFilters(model, symbols, project, columns).map((line) => `  ${line}`),
+        ...(include ? [`  ${include}`] : []),
+        '}',
+      ].join('\n')
+    );
+    methods.push(
+      [
+        `async list(query: List${plural}Query = {}): Promise<Page<${record}>> {`,
+        `  const { data, pagination } = await http.request('GET', '${path}', { query });`,
+        `  return { items: (data as unknown[]).map(${toRecord}), pagination };`,
+        '},',
+      ].join('\n'),
+      [
+        '/**',
+        ` * Every ${type} matching a query, fetched page by page`,
+        ' */',
+        `listAll(query: Omit<List${plural}Query, 'page'> = {}): AsyncGenerator<${record}, void, undefined> {`,
+        `  return paginate((page) => client.list({ limit: ${constant}.maxLimit, ...query, page }));`,
+        '},',
+      ].join('\n')
+    );
+  }
+
+  if (access.has('get')) {
+    methods.push(
+      [
+        include
+          ? `async get(id: number, query: { ${include} } = {}): Promise<${record}> {`
+          : `async get(id: number): Promise<${record}> {`,
+        `  const { data } = await http.request('GET', \`${path}/\${id}\`${include ? ', { query }' : ''});`,
+        `  return ${toRecord}(data);`,
+        '},',
+      ].join('\n')
+    );
+  }
+
+  if (access.has('create')) {
+    types.add(`Create${type}Input`);
+    methods.push(
+      [
+        `async create(input: Create${type}Input): Promise<${record}> {`,
+        `  const { data } = await http.request('POST', '${path}', { body: input });`,
+        `  return ${toRecord}(data);`,
+        '},',
+      ].join('\n')
+    );
+  }
+
+  if (access.has('update')) {
+    types.add(`Update${type}Input`);
+    methods.push(
+      [
+        `async update(id: number, input: Update${type}Input): Promise<${record}> {`,
+        `  const { data } = await http.request('PATCH', \`${path}/\${id}\`, { body: input });`,
+        `  return ${toRecord}(data);`,
+        '},',
+      ].join('\n')
+    );
+  }
+
+  if (access.has('delete')) {
+    methods.push(
+      [
+        'async delete(id: number): Promise<void> {',
+        `  await http.request('DELETE', \`${path}/\${id}\`);`,
+        '},',
+      ].join('\n')
+    );
+  }
+
+  if (access.has('list')) {
+    for (const query of modelQueries(model, symbols, project.dml)) {
+      const parameters = queryParameters(query, model, symbols);
+      const route = `'${path}/${actionSegment(query.name)}'`;
+      if (pagedQuery(query)) {
+        const fields = [
+          ...parameters.map((parameter) => `${parameter.name}: ${VALUE_TYPES[parameter.type]}`),
+          'page?: number',
+          'limit?: number',
+        ];
+        methods.push(
+          [
+            `/**\n * ${query.originalName}\n */`,
+            `async ${toCamelCase(query.name)}(query: { ${fields.join('; ')} }${parameters.length > 0 ? '' : ' = {}'}): Promise<Page<${record}>> {`,
+            `  const { data, pagination } = await http.request('GET', ${route}, { query });`,
+            `  return { items: (data as unknown[]).map(${toRecord}), pagination };`,
+            '},',
+          ].join('\n')
+        );
+        continue;
+      }
+      const argument = parameters.length > 0 ? `query: ${printParameters(parameters)}` : '';
+      methods.push(
+        [
+          `/**\n * ${query.originalName}\n */`,
+          `async ${toCamelCase(query.name)}(${argument}): Promise<${record}[]> {`,
+          `  const { data } = await http.request('GET', ${route}${argument ? ', { query }' : ''});`,
+          `  return (data as unknown[]).map(${toRecord});`,
+          '},',
+        ].join('\n')
+      );
+    }
+  }
+
+  for (const mutation of modelMutations(model, symbols, project.dml)) {
+    if (mutationAccess(mutation, model, symbols, project.auth, access)) {
+      const parameters = mutationParameters(mutation, model, symbols);
+      const argument = parameters.length > 0 ? `, body: ${printParameters(parameters)}` : '';
+      methods.push(
+        [
+          `/**\n * ${mutation.originalName}\n */`,
+          `async ${toCamelCase(mutation.name)}(id: number${argument}): Promise<${record}> {`,
+          `  const { data } = await http.request('POST', \`${path}/\${id}/${actionSegment(mutation.name)}\`${
+            argument ? ', { body }' : ''
+          });`,
+          `  return ${toRecord}(data);`,
+          '},',
+        ].join('\n')
+      );
+    }
+  }
+
+  return `${[
+    `/**\n * ${type} client\n * Generated by DeclareLang from ddl.dsl, dml.dsl, api.dsl and auth.dsl - do not edit\n */`,
+    [
+      `import type { ${[...types].sort().join(', ')} } from '../middleware/validation.js';`,
+      `import { ${[...support].sort().join(', ')} } from './support.js';`,
+    ].join('\n'),
+    ...declarations,
+    [
+      `const ${toRecord} = (data: unknown): ${record} =>`,
+      `  revive<${record}>(data, [${timestamps.map((column) => `'${column}'`).join(', ')}]);`,
+    ].join('\n'),
+    [
+      '/**',
+      ` * Client of the ${path} routes`,
+      ' */',
+      `export function create${plural}Client(http: HttpClient) {`,
+      '  const client = {',
+      methods.map((method) => indent(method, 4)).join('\n\n'),
+      '  };',
+      '  return client;',
+      '}',
+    ].join('\n'),
+    `export type ${plural}Client = ReturnType<typeof create${plural}Client>;`,
+  ].join('\n\n')}\n`;
+}
+
+/**
+ * Print the filters of a list query type
+ */
+function printFilters(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  project: ProjectAST,
+  columns: Map<string, FieldType>
+): string[] {
+  return listFilters(model, symbols, project.api).flatMap((param) => {
+    const column = columnName(param.field);
+    switch (param.filterType) {
+      case QueryParamFilterType.BOOLEAN:
+        return [`${column}?: boolean;`];
+      case QueryParamFilterType.NUMBER:
+        return [`${column}?: number;`];
+      case QueryParamFilterType.TEXT:
+        return [`${column}?: ${VALUE_TYPES[columns.get(column) ?? FieldType.TEXT]};`];
+      case QueryParamFilterType.DATE_RANGE:
+        return [`${column}_from?: Date | string;`, `${column}_to?: Date | string;`];
+      case QueryParamFilterType.NUMBER_RANGE:
+        return [`${column}_from?: number;`, `${column}_to?: number;`];
+      case QueryParamFilterType.TEXT_CONTAINS:
+      case QueryParamFilterType.TEXT_STARTS_WITH:
+      case QueryParamFilterType.TEXT_ENDS_WITH:
+        return [
+          `${column}?: string; // case-insensitive, ${param.filterType.slice(5).replace(/_/g, ' ')}`,
+        ];
+    }
+  });
+}
+
+function printParameters(parameters: GivenParameter[]): string {
+  return `{ ${parameters.map((parameter) => `${parameter.name}: ${VALUE_TYPES[parameter.type]}`).join('; ')} }`;
+}
+
+/**
+ * Print client/index.ts
+ */
+function printIndex(models: ModelSymbol[]): string {
+  const clients = models.map((model) => ({
+    name: tableVariable(model.definition),
+    type: typeName(model.definition),
+    factory: `create${toPascalCase(model.definition.name.plural)}Client`,
+    file: fileName(model.definition),
+  }));
+
+  return `${[
+    '/**\n * API client\n * Generated by DeclareLang - do not edit\n */',
+    [
+      "import { ClientOptions, HttpClient } from './support.js';",
+      ...clients.map(({ factory, file }) => `import { ${factory} } from './${file}.js';`),
+    ].join('\n'),
+    [
+      "export { ApiError } from './support.js';",
+      "export type { ClientOptions, ErrorBody, Page, Pagination } from './support.js';",
+      ...clients.map(({ file }) => `export * from './${file}.js';`),
+      `export type {\n${clients
+        .flatMap(({ type }) => [`${type}Response`, `Create${type}Input`, `Update${type}Input`])
+        .map((name) => `  ${name},`)
+        .join('\n')}\n} from '../middleware/validation.js';`,
+    ].join('\n'),
+    [
+      '/**',
+      ' * Create a client of the API',
+      " * Usage: const api = createClient({ baseUrl: 'https://api.example.com', token })",
+      ' */',
+      'export function createClient(options: ClientOptions) {',
+      '  const http = new HttpClient(options);',
+      '  return {',
+      ...clients.map(({ name, factory }) => `    ${name}: ${factory}(http),`),
+      '  };',
+      '}',
+    ].join('\n'),
+    'export type Client = ReturnType<typeof createClient>;',
+  ].join('\n\n')}\n`;
+}
+
+function indent(text: string, spaces: number): string {
+  return text
+    .split('\n')
+    .map((line) => (line === '' ? line : `${' '.repeat(spaces)}${line}`))
+    .join('\n');
+}
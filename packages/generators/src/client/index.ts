@@ -0,0 +1,6 @@
+/**
+ * Client generators
+ */
+
+export * from './support-generator.js';
+export * from './client-generator.js';
@@ -0,0 +1,193 @@
+/**
+ * Client support generator
+ * Emits client/support.ts: the HTTP layer of the generated client, which
+ * sends requests with fetch, unwraps the response envelope of api.dsl and
+ * turns error responses into ApiError, plus the pagination helpers. Clients
+ * of a versioned API send the version they were generated for in the version
+ * header, so that they keep getting the responses they were written against.
+ */
+
+import { APIFile } from '@declarelang/core';
+import { GeneratedFile } from '../types.js';
+import { Envelope, resolveEnvelope } from '../envelope.js';
+import { resolveVersions } from '../versions.js';
+
+/**
+ * Generate the support module of the client
+ *
+ * @param api - Parsed API file, if the project has one
+ * @returns client/support.ts
+ */
+export function generateClientSupport(api?: APIFile): GeneratedFile {
+  const envelope = resolveEnvelope(api);
+  const versions = resolveVersions(api);
+  return {
+    path: 'client/support.ts',
+    content: SUPPORT.replace('$ENVELOPE', printEnvelope(envelope))
+      .replace('$ERROR_BODY', printErrorBody(envelope))
+      .replace(
+        '$HEADERS',
+        versions
+          ? `accept: 'application/json', '${versions.header.toLowerCase()}': '${versions.current}'`
+          : "accept: 'application/json'"
+      ),
+  };
+}
+
+function printEnvelope(envelope: Envelope): string {
+  return `const ENVELOPE = { data: '${envelope.data}', meta: '${envelope.meta}' };`;
+}
+
+/**
+ * Print the type of error responses, with the fields of the error envelope
+ */
+function printErrorBody(envelope: Envelope): string {
+  const error = [
+    ...(envelope.errorFields.includes('code') ? ['code: string'] : []),
+    ...(envelope.errorFields.includes('message') ? ['message: string'] : []),
+    ...(envelope.errorFields.includes('details') ? ['details?: unknown'] : []),
+  ];
+  return [
+    '/**',
+    ' * Body of an error response',
+    ' */',
+    'export interface ErrorBody {',
+    ...(envelope.errorStatusCode ? ['  status_code: number;'] : []),
+    `  error: {${error.length > 0 ? ` ${error.join('; ')} ` : ''}};`,
+    ...(envelope.validationFields
+      ? ['  fields?: Record<string, string[]>; // validation messages per field']
+      : []),
+    '}',
+  ].join('\n');
+}
+
+const SUPPORT = `/**
+ * Client support
+ * Generated by DeclareLang from api.dsl - do not edit
+ */
+
+/**
+ * Options of the client
+ */
+export interface ClientOptions {
+  baseUrl: string; // e.g., "https://api.example.com"
+  token?: string | (() => string | undefined | Promise<string | undefined>); // bearer token
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  total_pages: number;
+}
+
+/**
+ * Page of a list
+ */
+export interface Page<T> {
+  items: T[];
+  pagination?: Pagination;
+}
+
+export type QueryValue = string | number | boolean | Date | string[] | undefined;
+
+$ERROR_BODY
+
+/**
+ * Error response of the API
+ */
+export class ApiError extends Error {
+  readonly code: string;
+  readonly details: unknown;
+
+  constructor(
+    readonly status: number,
+    readonly body: Partial<ErrorBody>
+  ) {
+    const error = (body.error ?? {}) as { code?: string; message?: string; details?: unknown };
+    super(error.message ?? \`Request failed with status \${status}\`);
+    this.name = 'ApiError';
+    this.code = error.code ?? 'UNKNOWN';
+    this.details = error.details;
+  }
+}
+
+$ENVELOPE
+
+/**
+ * Sends requests and unwraps the response envelope
+ */
+export class HttpClient {
+  constructor(private readonly options: ClientOptions) {}
+
+  async request(
+    method: string,
+    path: string,
+    { query, body }: { query?: object; body?: unknown } = {}
+  ): Promise<{ data: unknown; pagination?: Pagination }> {
+    const base = this.options.baseUrl.endsWith('/') ? this.options.baseUrl : \`\${this.options.baseUrl}/\`;
+    const url = new URL(path.slice(1), base);
+    for (const [key, value] of Object.entries(query ?? {}) as [string, QueryValue][]) {
+      if (value !== undefined) {
+        url.searchParams.set(
+          key,
+          value instanceof Date
+            ? value.toISOString()
+            : Array.isArray(value)
+              ? value.join(',')
+              : String(value)
+        );
+      }
+    }
+
+    const headers: Record<string, string> = { $HEADERS, ...this.options.headers };
+    const token =
+      typeof this.options.token === 'function' ? await this.options.token() : this.options.token;
+    if (token) headers['authorization'] = \`Bearer \${token}\`;
+    if (body !== undefined) headers['content-type'] = 'application/json';
+
+    const response = await (this.options.fetch ?? fetch)(url, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (response.status === 204) {
+      return { data: undefined };
+    }
+
+    const payload = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+    if (!response.ok) {
+      throw new ApiError(response.status, payload as Partial<ErrorBody>);
+    }
+    const meta = payload[ENVELOPE.meta] as { pagination?: Pagination } | undefined;
+    return { data: payload[ENVELOPE.data], pagination: meta?.pagination };
+  }
+}
+
+/**
+ * Turn the timestamps of a record, sent as strings, back into dates
+ */
+export function revive<T>(record: unknown, timestamps: readonly string[]): T {
+  const revived = { ...(record as Record<string, unknown>) };
+  for (const field of timestamps) {
+    const value = revived[field];
+    if (typeof value === 'string') revived[field] = new Date(value);
+  }
+  return revived as T;
+}
+
+/**
+ * Iterate over the items of every page of a list
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number) => Promise<Page<T>>
+): AsyncGenerator<T, void, undefined> {
+  for (let page = 1; ; page++) {
+    const { items, pagination } = await fetchPage(page);
+    yield* items;
+    if (items.length === 0 || (pagination && page >= pagination.total_pages)) return;
+  }
+}
+`;
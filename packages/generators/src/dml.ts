@@ -0,0 +1,354 @@
+/**
+ * Routes of the queries and mutations of dml.dsl
+ * Each query of a model gets a GET route under the path of the model
+ * (/posts/published-posts), each mutation a POST route on a record
+ * (/posts/:id/publish-post). Values written `given <name>` are supplied by
+ * the caller: as query string parameters of queries and as body fields of
+ * mutations. Values written `current user` need an authenticated user.
+ * Queries without a `limited to` are paged like list routes (`page`,
+ * `limit` and the pagination meta); the others return their rows at once.
+ *
+ * Mutation routes follow the field rules of auth.dsl for the fields they
+ * write: a field reserved for mutations (`only increment views mutation can
+ * edit view count`) is only written by those, and fields some subjects `can
+ * edit` narrow the route down to these subjects.
+ *
+ * Computed fields are read-only values added to the records of a model on
+ * request (see drizzle/query-compiler.ts).
+ */
+
+import {
+  AUTHFile,
+  ComputedDefinition,
+  Condition,
+  ConditionValue,
+  DMLFile,
+  FieldAction,
+  FieldType,
+  ModelSymbol,
+  MutationDefinition,
+  QueryDefinition,
+  SubjectType,
+  SymbolTable,
+  isComputedSection,
+  isMutationSection,
+  isQuerySection,
+} from '@declarelang/core';
+import { columnName } from './naming.js';
+import { RouteAccess, RouteKind, modelColumns } from './routes.js';
+import { foreignKeys } from './model-fields.js';
+
+/**
+ * Value of a query or mutation supplied by the caller (`given <name>`)
+ */
+export interface GivenParameter {
+  name: string; // e.g., "category" for "given category"
+  column: string; // column compared with or assigned to
+  type: FieldType; // field type of the column
+}
+
+/**
+ * Computed field of a model
+ */
+export interface ComputedField {
+  name: string; // e.g., "post_count"
+  type: FieldType; // type of the value
+  definition: ComputedDefinition;
+  relation?: { target: ModelSymbol; foreignKey: string }; // records `counts` and `sums` aggregate
+}
+
+const GIVEN = /^given\s+(.+)$/;
+
+/**
+ * Queries of a model, in file order
+ * Queries filtering or sorting on fields that are not columns of the model
+ * (reported by the reference validator) are left out: dropping one of their
+ * conditions would widen them.
+ */
+export function modelQueries(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  dml: DMLFile | undefined
+): QueryDefinition[] {
+  const columns = modelColumns(model, symbols);
+  return (dml?.sections ?? [])
+    .filter(isQuerySection)
+    .filter((section) => symbols.resolveModel(section.modelName) === model)
+    .flatMap((section) => section.queries)
+    .filter((query) =>
+      [
+        ...(query.whereClause?.conditions ?? []).map((condition) => condition.field),
+        ...(query.sortClause ? [query.sortClause.field] : []),
+      ].every((field) => columns.has(columnName(field)))
+    );
+}
+
+/**
+ * Mutations of a model, in file order
+ * Mutations writing fields that are not columns of the model are left out
+ */
+export function modelMutations(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  dml: DMLFile | undefined
+): MutationDefinition[] {
+  const columns = modelColumns(model, symbols);
+  return (dml?.sections ?? [])
+    .filter(isMutationSection)
+    .filter((section) => symbols.resolveModel(section.modelName) === model)
+    .flatMap((section) => section.mutations)
+    .filter((mutation) => mutatedColumns(mutation).every((column) => columns.has(column)));
+}
+
+/**
+ * Computed fields of a model, in file order
+ *
+ * `counts` and `sums` aggregate the records of a model that belongs to this
+ * one, `returns` evaluates a condition on the record itself. Fields that
+ * cannot be compiled are left out: targets without a foreign key to the
+ * model, conditions or sums on fields that are not columns, conditions on
+ * values the caller would supply, and `calculates` (custom logic).
+ */
+export function modelComputed(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  dml: DMLFile | undefined
+): ComputedField[] {
+  const fields: ComputedField[] = [];
+  const definitions = (dml?.sections ?? [])
+    .filter(isComputedSection)
+    .filter((section) => symbols.resolveModel(section.modelName) === model)
+    .flatMap((section) => section.computed);
+
+  for (const definition of definitions) {
+    const name = columnName(definition.fieldName);
+    const { aggregation } = definition;
+    if (aggregation.type === 'returns') {
+      if (compilable([aggregation.condition], modelColumns(model, symbols))) {
+        fields.push({ name, type: FieldType.BOOLEAN, definition });
+      }
+      continue;
+    }
+    if (aggregation.type === 'calculates') continue;
+
+    const target = symbols.resolveModel(aggregation.targetModel);
+    const foreignKey =
+      target && foreignKeys(target, symbols).find((key) => key.target === model)?.column;
+    if (!target || !foreignKey) continue;
+    const columns = modelColumns(target, symbols);
+    if (!compilable(aggregation.whereClause?.conditions ?? [], columns)) continue;
+
+    let type = FieldType.NUMBER;
+    if (aggregation.type === 'sums') {
+      const summed = columns.get(columnName(aggregation.field));
+      if (summed !== FieldType.NUMBER && summed !== FieldType.DECIMAL) continue;
+      type = summed;
+    }
+    fields.push({ name, type, definition, relation: { target, foreignKey } });
+  }
+  return fields;
+}
+
+/**
+ * Columns a mutation writes
+ */
+export function mutatedColumns(mutation: MutationDefinition): string[] {
+  const { action } = mutation;
+  return action.type === 'sets'
+    ? action.assignments.map((assignment) => columnName(assignment.field))
+    : [columnName(action.field)];
+}
+
+/**
+ * Columns of a model reserved for mutations, with the mutations that may
+ * write each (`only increment views mutation can edit view count`)
+ */
+export function reservedColumns(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  auth: AUTHFile | undefined
+): Map<string, string[]> {
+  const reserved = new Map<string, string[]>();
+  for (const permission of fieldPermissions(model, symbols, auth)) {
+    if (permission.mutation && permission.allowed) {
+      const column = columnName(permission.fieldName);
+      reserved.set(column, [...(reserved.get(column) ?? []), permission.mutation]);
+    }
+  }
+  return reserved;
+}
+
+/**
+ * Who may call the route of a mutation, undefined when it gets no route
+ *
+ * The route starts from the access to the update route of the model. A
+ * mutation writing a field reserved for other mutations gets no route. Any
+ * other field it writes that subjects `can edit` restricts the route to them;
+ * `cannot edit` rules are left to the checks made per request.
+ *
+ * @param access - Access to the routes of the model (see routeAccess)
+ */
+export function mutationAccess(
+  mutation: MutationDefinition,
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  auth: AUTHFile | undefined,
+  access: Map<RouteKind, RouteAccess>
+): RouteAccess | undefined {
+  let route = access.get('update');
+  const reserved = reservedColumns(model, symbols, auth);
+  const permissions = fieldPermissions(model, symbols, auth).filter(
+    (permission) =>
+      !permission.mutation && permission.allowed && permission.action === FieldAction.EDIT
+  );
+
+  for (const column of mutatedColumns(mutation)) {
+    if (!route) return undefined;
+    const mutations = reserved.get(column);
+    if (mutations) {
+      if (!mutations.includes(mutation.name)) return undefined;
+      continue;
+    }
+
+    const subjects = permissions
+      .filter((permission) => columnName(permission.fieldName) === column)
+      .map((permission) => permission.subject);
+    if (subjects.length === 0 || subjects.some((subject) => subject.type === SubjectType.ANYONE)) {
+      continue;
+    }
+    const roles = subjects.map((subject) =>
+      subject.type === SubjectType.ROLE ? subject.roleName : undefined
+    );
+    if (roles.includes(undefined)) {
+      route = { public: false, roles: route.roles };
+      continue;
+    }
+    const granted = [...new Set(roles as string[])];
+    const allowed =
+      route.roles.length === 0 ? granted : granted.filter((role) => route?.roles.includes(role));
+    route = allowed.length > 0 ? { public: false, roles: allowed } : undefined;
+  }
+  return route;
+}
+
+/**
+ * URL segment of a query or mutation (e.g., "published_posts" → "published-posts")
+ */
+export function actionSegment(name: string): string {
+  return columnName(name).replace(/_/g, '-');
+}
+
+/**
+ * Values of a query that the caller supplies, as query string parameters
+ * Conditions on fields that are not columns of the model are skipped
+ */
+export function queryParameters(
+  query: QueryDefinition,
+  model: ModelSymbol,
+  symbols: SymbolTable
+): GivenParameter[] {
+  return givenParameters(
+    (query.whereClause?.conditions ?? []).flatMap((condition): [string, ConditionValue?][] => [
+      [condition.field, condition.value],
+      [condition.field, condition.upperValue],
+    ]),
+    modelColumns(model, symbols)
+  );
+}
+
+/**
+ * Values of a mutation that the caller supplies, as body fields
+ * Assignments to fields that are not columns of the model are skipped
+ */
+export function mutationParameters(
+  mutation: MutationDefinition,
+  model: ModelSymbol,
+  symbols: SymbolTable
+): GivenParameter[] {
+  const { action } = mutation;
+  return action.type === 'sets'
+    ? givenParameters(
+        action.assignments.map((assignment): [string, ConditionValue] => [
+          assignment.field,
+          assignment.value,
+        ]),
+        modelColumns(model, symbols)
+      )
+    : [];
+}
+
+/**
+ * Name of the parameter supplying a value, if the caller supplies it
+ * (e.g., `given category` → "category")
+ */
+export function givenName(value: ConditionValue | undefined): string | undefined {
+  const name = value?.type === 'reference' ? GIVEN.exec(value.field)?.[1] : undefined;
+  return name && columnName(name);
+}
+
+/**
+ * Whether a value is the id of the current user
+ */
+export function isCurrentUser(value: ConditionValue | undefined): boolean {
+  return value?.type === 'reference' && value.field === 'current user';
+}
+
+/**
+ * Whether a query compares a field with the current user, or a mutation
+ * assigns the current user to a field
+ */
+export function usesCurrentUser(definition: QueryDefinition | MutationDefinition): boolean {
+  if ('action' in definition) {
+    return (
+      definition.action.type === 'sets' &&
+      definition.action.assignments.some(({ value }) => isCurrentUser(value))
+    );
+  }
+  return (definition.whereClause?.conditions ?? []).some(({ value }) => isCurrentUser(value));
+}
+
+/**
+ * Whether a query is paged: it has no `limited to` of its own
+ */
+export function pagedQuery(query: QueryDefinition): boolean {
+  return query.limitClause === undefined;
+}
+
+function givenParameters(
+  values: [string, ConditionValue?][],
+  columns: Map<string, FieldType>
+): GivenParameter[] {
+  const parameters: GivenParameter[] = [];
+  for (const [field, value] of values) {
+    const name = givenName(value);
+    const column = columnName(field);
+    const type = columns.get(column);
+    if (name && type && !parameters.some((parameter) => parameter.name === name)) {
+      parameters.push({ name, column, type });
+    }
+  }
+  return parameters;
+}
+
+function compilable(conditions: Condition[], columns: Map<string, FieldType>): boolean {
+  return conditions.every(
+    (condition) =>
+      columns.has(columnName(condition.field)) &&
+      [condition.value, condition.upperValue].every(
+        (value) => !givenName(value) && !isCurrentUser(value)
+      )
+  );
+}
+
+/**
+ * Field rules of auth.dsl for a model, empty when it has none
+ */
+export function fieldPermissions(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  auth: AUTHFile | undefined
+) {
+  return (auth?.fieldRules ?? [])
+    .filter((rules) => symbols.resolveModel(rules.modelName) === model)
+    .flatMap((rules) => rules.permissions);
+}
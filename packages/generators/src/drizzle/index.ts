@@ -0,0 +1,6 @@
+/**
+ * Drizzle ORM generators
+ */
+
+export * from './schema-generator.js';
+export * from './query-compiler.js';
@@ -0,0 +1,626 @@
+/**
+ * Query compiler
+ * Compiles the queries and mutations of dml.dsl into Drizzle query builders,
+ * emitted as one typed repository function each (repositories/<models>.ts):
+ *
+ *   - published posts where published is true sorted by created at descending limited to 20
+ *   →
+ *   export async function publishedPosts(db: Database, allowed?: SQL): Promise<Post[]> {
+ *     return db
+ *       .select()
+ *       .from(posts)
+ *       .where(and(eq(posts.published, true), allowed))
+ *       .orderBy(desc(posts.created_at))
+ *       .limit(20);
+ *   }
+ *
+ * Queries without a `limited to` are paged (see dml.ts pagedQuery): they take
+ * the limit and offset of a page (`paging`) and resolve to its rows along
+ * with the number of matching rows, sorted by id when they have no sort of
+ * their own so that pages do not overlap. The `allowed` argument
+ * restricts the rows further, to those the rules of auth.dsl let the caller
+ * read (queries) or edit (mutations); routes pass the filter of the policy.
+ * Values written `given <name>` and `current user` become fields of a typed
+ * `params` argument. Time expressions are evaluated by the database, with the
+ * interval sent as a parameter (`7 days ago` → now() - $1::interval).
+ *
+ * A mutation is a single UPDATE of the record with the given id, returning
+ * the updated record: its assignments apply together, and `increases` adds to
+ * the stored value (SET view_count = coalesce(view_count, 0) + 1) instead of
+ * writing back a value read earlier. `now` is the time of the database and
+ * `empty` is NULL.
+ *
+ * Computed fields become SQL expressions to add to a select, a correlated
+ * subquery for `counts` and `sums`:
+ *
+ *   - published post count counts Posts where published is true
+ *   →
+ *   published_post_count: sql<number>`(select count(*) from ${posts} where ${and(
+ *     eq(posts.user_id, users.id), eq(posts.published, true))})`.mapWith(Number)
+ *
+ * They are exported per model (usersComputed) for routes to select by name.
+ *
+ * Queries and mutations of a model with a password hash select and return
+ * every column but the hash (usersColumns, see printResponseColumns).
+ */
+
+import {
+  ComparisonOperator,
+  Condition,
+  ConditionValue,
+  DDLFile,
+  DMLFile,
+  FieldType,
+  ModelSymbol,
+  MutationDefinition,
+  QueryDefinition,
+  SortDirection,
+  SymbolTable,
+  toCamelCase,
+} from '@declarelang/core';
+import { GeneratedFile } from '../types.js';
+import { columnName, fileName, tableVariable, typeName } from '../naming.js';
+import { PASSWORD_COLUMN } from '../model-fields.js';
+import { modelColumns, responseColumns } from '../routes.js';
+import {
+  ComputedField,
+  givenName,
+  isCurrentUser,
+  modelComputed,
+  modelMutations,
+  modelQueries,
+  mutationParameters,
+  pagedQuery,
+  queryParameters,
+  usesCurrentUser,
+} from '../dml.js';
+
+/**
+ * Parameter of a repository function holding the id of the current user
+ */
+export const CURRENT_USER_PARAMETER = 'current_user';
+
+/**
+ * TypeScript type of the parameters compared with each field type
+ */
+const PARAMETER_TYPES: Record<FieldType, string> = {
+  [FieldType.TEXT]: 'string',
+  [FieldType.LONG_TEXT]: 'string',
+  [FieldType.NUMBER]: 'number',
+  [FieldType.DECIMAL]: 'number',
+  [FieldType.BOOLEAN]: 'boolean',
+  [FieldType.TIMESTAMP]: 'Date',
+  [FieldType.JSON]: 'unknown',
+  [FieldType.UUID]: 'string',
+};
+
+/**
+ * Drizzle operator of the comparisons taking a single value
+ */
+const OPERATORS: Partial<Record<ComparisonOperator, string>> = {
+  [ComparisonOperator.IS]: 'eq',
+  [ComparisonOperator.EQUALS]: 'eq',
+  [ComparisonOperator.MATCHES]: 'eq',
+  [ComparisonOperator.IS_AFTER]: 'gt',
+  [ComparisonOperator.IS_BEFORE]: 'lt',
+};
+
+/**
+ * LIKE pattern of the text comparisons, around the escaped value
+ */
+const PATTERNS: Partial<Record<ComparisonOperator, [string, string]>> = {
+  [ComparisonOperator.CONTAINS]: ['%', '%'],
+  [ComparisonOperator.STARTS_WITH]: ['', '%'],
+  [ComparisonOperator.ENDS_WITH]: ['%', ''],
+};
+
+/**
+ * Repository function of a query or mutation
+ */
+export interface CompiledQuery {
+  name: string; // function name (e.g., "publishedPosts", "publishPost")
+  parameters: { name: string; type: string }[]; // fields of the params argument
+  code: string; // function declaration
+}
+
+/**
+ * Identifiers a compiled module imports
+ */
+export interface QueryImports {
+  drizzle: Set<string>; // from drizzle-orm
+  support: Set<string>; // from repositories/support.ts
+  tables?: Set<string>; // from schema/drizzle.ts
+}
+
+/**
+ * Generate the repositories of the models with queries, mutations or computed fields
+ *
+ * @param ddl - Parsed DDL file
+ * @param dml - Parsed DML file, if the project has one
+ * @returns repositories/support.ts and one repository per model with DML definitions
+ */
+export function generateRepositories(ddl: DDLFile, dml?: DMLFile): GeneratedFile[] {
+  const symbols = new SymbolTable(ddl);
+  const repositories = symbols
+    .getModels()
+    .filter(
+      (model) =>
+        modelQueries(model, symbols, dml).length > 0 ||
+        modelMutations(model, symbols, dml).length > 0 ||
+        modelComputed(model, symbols, dml).length > 0
+    )
+    .map((model) => ({
+      path: `repositories/${fileName(model.definition)}.ts`,
+      content: printRepository(model, symbols, dml),
+    }));
+
+  return repositories.length > 0
+    ? [{ path: 'repositories/support.ts', content: SUPPORT }, ...repositories]
+    : [];
+}
+
+/**
+ * Compile a query of a model into a repository function
+ *
+ * @param query - Query of the model (see modelQueries)
+ * @param model - Model the query selects
+ * @param symbols - Symbol table of the DDL file
+ * @param imports - Collects the identifiers the function uses
+ */
+export function compileQuery(
+  query: QueryDefinition,
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  imports: QueryImports = { drizzle: new Set(), support: new Set() }
+): CompiledQuery {
+  const table = tableVariable(model.definition);
+  const columns = modelColumns(model, symbols);
+  const parameters = queryParameters(query, model, symbols).map((parameter) => ({
+    name: parameter.name,
+    type: PARAMETER_TYPES[parameter.type],
+  }));
+  if (usesCurrentUser(query)) {
+    parameters.push({ name: CURRENT_USER_PARAMETER, type: 'number' });
+  }
+
+  const conditions = (query.whereClause?.conditions ?? []).map((condition) =>
+    compileCondition(condition, table, columns, imports)
+  );
+  if (conditions.length > 0) {
+    imports.drizzle.add('and');
+  }
+  const where = conditions.length > 0 ? `and(${[...conditions, 'allowed'].join(', ')})` : 'allowed';
+  const paged = pagedQuery(query);
+  const chain = [
+    `.select(${responseColumnsVariable(model, symbols) ?? ''})`,
+    `.from(${table})`,
+    `.where(${paged && conditions.length > 0 ? 'where' : where})`,
+  ];
+  if (query.sortClause) {
+    const { field, direction } = query.sortClause;
+    const order =
+      direction === SortDirection.DESCENDING || direction === SortDirection.DESC ? 'desc' : 'asc';
+    imports.drizzle.add(order);
+    chain.push(`.orderBy(${order}(${table}.${columnName(field)}))`);
+  } else if (paged) {
+    imports.drizzle.add('asc');
+    chain.push(`.orderBy(asc(${table}.id))`);
+  }
+
+  const name = toCamelCase(query.name);
+  const type = typeName(model.definition);
+  const doc = `/**\n * ${query.originalName}\n */`;
+  if (query.limitClause) {
+    chain.push(`.limit(${query.limitClause.count});`);
+    return {
+      name,
+      parameters,
+      code: [
+        doc,
+        `export async function ${name}(db: Database${printParams(parameters)}, allowed?: SQL): Promise<${type}[]> {`,
+        '  return db',
+        ...chain.map((call) => `    ${call}`),
+        '}',
+      ].join('\n'),
+    };
+  }
+
+  imports.drizzle.add('count');
+  imports.support.add('Paged');
+  imports.support.add('Paging');
+  chain.push('.limit(paging.limit)', '.offset(paging.offset),');
+  const counted = `db.select({ total: count() }).from(${table}).where(${conditions.length > 0 ? 'where' : where}),`;
+  return {
+    name,
+    parameters,
+    code: [
+      doc,
+      `export async function ${name}(db: Database${printParams(parameters)}, paging: Paging, allowed?: SQL): Promise<Paged<${type}>> {`,
+      ...(conditions.length > 0 ? [`  const where = ${where};`] : []),
+      '  const [rows, [counted]] = await Promise.all([',
+      '    db',
+      ...chain.map((call) => `      ${call}`),
+      `    ${counted}`,
+      '  ]);',
+      '  return { rows, total: counted?.total ?? 0 };',
+      '}',
+    ].join('\n'),
+  };
+}
+
+/**
+ * Compile a mutation of a model into a repository function
+ * The function resolves to the updated record, or undefined if there is none
+ *
+ * @param mutation - Mutation of the model (see modelMutations)
+ * @param model - Model the mutation updates
+ * @param symbols - Symbol table of the DDL file
+ * @param imports - Collects the identifiers the function uses
+ */
+export function compileMutation(
+  mutation: MutationDefinition,
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  imports: QueryImports = { drizzle: new Set(), support: new Set() }
+): CompiledQuery {
+  const table = tableVariable(model.definition);
+  const columns = modelColumns(model, symbols);
+  const parameters = mutationParameters(mutation, model, symbols).map((parameter) => ({
+    name: parameter.name,
+    type: PARAMETER_TYPES[parameter.type],
+  }));
+  if (usesCurrentUser(mutation)) {
+    parameters.push({ name: CURRENT_USER_PARAMETER, type: 'number' });
+  }
+
+  const { action } = mutation;
+  let assignments: string[];
+  if (action.type === 'sets') {
+    assignments = action.assignments.map((assignment) => {
+      const column = columnName(assignment.field);
+      return `${column}: ${compileValue(assignment.value, columns.get(column), imports)}`;
+    });
+  } else {
+    const column = columnName(action.field);
+    imports.support.add('increment');
+    assignments = [`${column}: increment(${table}.${column}, ${action.amount})`];
+  }
+  imports.drizzle.add('and');
+  imports.drizzle.add('eq');
+
+  const name = toCamelCase(mutation.name);
+  const type = typeName(model.definition);
+  return {
+    name,
+    parameters,
+    code: [
+      `/**\n * ${mutation.originalName}\n */`,
+      `export async function ${name}(db: Database, id: number${printParams(parameters)}, allowed?: SQL): Promise<${type} | undefined> {`,
+      '  const [row] = await db',
+      `    .update(${table})`,
+      `    .set({ ${assignments.join(', ')} })`,
+      `    .where(and(eq(${table}.id, id), allowed))`,
+      `    .returning(${responseColumnsVariable(model, symbols) ?? ''});`,
+      '  return row;',
+      '}',
+    ].join('\n'),
+  };
+}
+
+/**
+ * Variable of the columns selected for clients, for a model with a password
+ * hash (e.g., "usersColumns"), undefined for other models
+ */
+export function responseColumnsVariable(
+  model: ModelSymbol,
+  symbols: SymbolTable
+): string | undefined {
+  return modelColumns(model, symbols).has(PASSWORD_COLUMN)
+    ? `${tableVariable(model.definition)}Columns`
+    : undefined;
+}
+
+/**
+ * Print the declaration of the columns selected for clients, for a model with
+ * a password hash
+ */
+export function printResponseColumns(model: ModelSymbol, symbols: SymbolTable): string[] {
+  const variable = responseColumnsVariable(model, symbols);
+  if (!variable) return [];
+  const table = tableVariable(model.definition);
+  return [
+    [
+      `/**\n * Columns of ${table} sent back to clients: all but the password hash\n */`,
+      `const ${variable} = {`,
+      ...[...responseColumns(model, symbols).keys()].map(
+        (column) => `  ${column}: ${table}.${column},`
+      ),
+      '};',
+    ].join('\n'),
+  ];
+}
+
+/**
+ * Compile a computed field of a model into a SQL expression
+ *
+ * @param field - Computed field of the model (see modelComputed)
+ * @param model - Model the field is computed for
+ * @param symbols - Symbol table of the DDL file
+ * @param imports - Collects the identifiers the expression uses
+ */
+export function compileComputed(
+  field: ComputedField,
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  imports: QueryImports = { drizzle: new Set(), support: new Set() }
+): string {
+  const table = tableVariable(model.definition);
+  const { aggregation } = field.definition;
+  imports.drizzle.add('sql');
+
+  if (aggregation.type === 'returns') {
+    const condition = compileCondition(
+      aggregation.condition,
+      table,
+      modelColumns(model, symbols),
+      imports
+    );
+    return `sql<boolean>\`\${${condition}}\``;
+  }
+  // modelComputed leaves out `calculates` and aggregations without a relation
+  const { relation } = field;
+  if (!relation || aggregation.type === 'calculates') {
+    return 'sql`null`';
+  }
+
+  const target = tableVariable(relation.target.definition);
+  const columns = modelColumns(relation.target, symbols);
+  imports.drizzle.add('eq');
+  imports.tables?.add(target);
+  const conditions = [
+    `eq(${target}.${relation.foreignKey}, ${table}.id)`,
+    ...(aggregation.whereClause?.conditions ?? []).map((condition) =>
+      compileCondition(condition, target, columns, imports)
+    ),
+  ];
+  if (conditions.length > 1) imports.drizzle.add('and');
+  const where = conditions.length > 1 ? `and(${conditions.join(', ')})` : conditions[0];
+  const value =
+    aggregation.type === 'sums'
+      ? `coalesce(sum(\${${target}.${columnName(aggregation.field)}}), 0)`
+      : 'count(*)';
+  return `sql<number>\`(select ${value} from \${${target}} where \${${where}})\`.mapWith(Number)`;
+}
+
+/**
+ * Print the params argument of a repository function
+ */
+function printParams(parameters: CompiledQuery['parameters']): string {
+  return parameters.length > 0
+    ? `, params: { ${parameters.map((parameter) => `${parameter.name}: ${parameter.type}`).join('; ')} }`
+    : '';
+}
+
+/**
+ * Compile a condition into a Drizzle expression
+ */
+function compileCondition(
+  condition: Condition,
+  table: string,
+  columns: Map<string, FieldType>,
+  imports: QueryImports
+): string {
+  const column = columnName(condition.field);
+  const ref = `${table}.${column}`;
+  const type = columns.get(column);
+  const value = (conditionValue: ConditionValue | undefined) =>
+    compileValue(conditionValue, type, imports);
+
+  switch (condition.operator) {
+    case ComparisonOperator.IS_EMPTY:
+      imports.drizzle.add('isNull');
+      return `isNull(${ref})`;
+    case ComparisonOperator.IS_NOT_EMPTY:
+      imports.drizzle.add('isNotNull');
+      return `isNotNull(${ref})`;
+    case ComparisonOperator.IS_BETWEEN:
+      // Without an upper bound, "is between" only has its lower one
+      if (!condition.upperValue) {
+        imports.drizzle.add('gte');
+        return `gte(${ref}, ${value(condition.value)})`;
+      }
+      imports.drizzle.add('between');
+      return `between(${ref}, ${value(condition.value)}, ${value(condition.upperValue)})`;
+    case ComparisonOperator.CONTAINS:
+    case ComparisonOperator.STARTS_WITH:
+    case ComparisonOperator.ENDS_WITH: {
+      const [before, after] = PATTERNS[condition.operator] ?? ['%', '%'];
+      const text =
+        condition.value?.type === 'literal'
+          ? printLiteral(String(condition.value.value))
+          : value(condition.value);
+      imports.drizzle.add('ilike');
+      imports.support.add('escapeLike');
+      return `ilike(${ref}, \`${before}\${escapeLike(${text})}${after}\`)`;
+    }
+    default: {
+      const operator = OPERATORS[condition.operator] ?? 'eq';
+      imports.drizzle.add(operator);
+      return `${operator}(${ref}, ${value(condition.value)})`;
+    }
+  }
+}
+
+/**
+ * Compile a value compared with or assigned to a column
+ * References other than `given <name>`, `current user` and `empty` are
+ * constants (`role is admin`)
+ */
+function compileValue(
+  value: ConditionValue | undefined,
+  type: FieldType | undefined,
+  imports: QueryImports
+): string {
+  if (!value) {
+    return 'null';
+  }
+  switch (value.type) {
+    case 'literal':
+      return type === FieldType.TIMESTAMP && typeof value.value === 'string'
+        ? `new Date(${printLiteral(value.value)})`
+        : printLiteral(value.value);
+    case 'time':
+      if (value.expression.type === 'now') {
+        imports.support.add('now');
+        return 'now()';
+      }
+      imports.support.add('ago');
+      return `ago('${value.expression.value ?? 0} ${value.expression.unit ?? 'days'}')`;
+    case 'reference': {
+      if (isCurrentUser(value)) {
+        return `params.${CURRENT_USER_PARAMETER}`;
+      }
+      if (value.field === 'empty') {
+        return 'null';
+      }
+      const name = givenName(value);
+      return name ? `params.${name}` : printLiteral(value.field);
+    }
+  }
+}
+
+/**
+ * Print a literal value, strings in single quotes
+ */
+function printLiteral(value: string | number | boolean): string {
+  return typeof value === 'string' ? `'${value.replace(/[\\']/g, '\\$&')}'` : String(value);
+}
+
+/**
+ * Print the repository of a model
+ */
+function printRepository(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  dml: DMLFile | undefined
+): string {
+  const type = typeName(model.definition);
+  const table = tableVariable(model.definition);
+  const imports: QueryImports = {
+    drizzle: new Set(),
+    support: new Set(),
+    tables: new Set([table]),
+  };
+  const computed = modelComputed(model, symbols, dml).map(
+    (field) => `  ${field.name}: ${compileComputed(field, model, symbols, imports)},`
+  );
+  const functions = [
+    ...modelQueries(model, symbols, dml).map(
+      (query) => compileQuery(query, model, symbols, imports).code
+    ),
+    ...modelMutations(model, symbols, dml).map(
+      (mutation) => compileMutation(mutation, model, symbols, imports).code
+    ),
+  ];
+  if (functions.length > 0) {
+    imports.support.add('Database');
+  }
+
+  return `${[
+    `/**\n * ${type} repository\n * Generated by DeclareLang from ddl.dsl and dml.dsl - do not edit\n */`,
+    [
+      ...(imports.drizzle.size > 0
+        ? [`import { ${[...imports.drizzle].sort().join(', ')} } from 'drizzle-orm';`]
+        : []),
+      ...(functions.length > 0 ? ["import type { SQL } from 'drizzle-orm';"] : []),
+      `import { ${[...(imports.tables ?? [])].sort().join(', ')} } from '../schema/drizzle.js';`,
+      ...(imports.support.size > 0
+        ? [`import { ${[...imports.support].sort().join(', ')} } from './support.js';`]
+        : []),
+    ].join('\n'),
+    responseColumnsVariable(model, symbols)
+      ? `export type ${type} = Omit<typeof ${table}.$inferSelect, '${PASSWORD_COLUMN}'>;`
+      : `export type ${type} = typeof ${table}.$inferSelect;`,
+    ...(functions.length > 0 ? printResponseColumns(model, symbols) : []),
+    ...(computed.length > 0
+      ? [
+          [
+            `/**\n * Computed fields of ${type}, selected by name (see pickComputed)\n */`,
+            `export const ${table}Computed = {`,
+            ...computed,
+            '};',
+            '',
+            `export type ${type}ComputedField = keyof typeof ${table}Computed;`,
+          ].join('\n'),
+        ]
+      : []),
+    ...functions,
+  ].join('\n\n')}\n`;
+}
+
+const SUPPORT = `/**
+ * Repository support
+ * Generated by DeclareLang - do not edit
+ */
+
+import { sql } from 'drizzle-orm';
+import type { Column, SQL } from 'drizzle-orm';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import type * as schema from '../schema/drizzle.js';
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/**
+ * Page of the rows a query without limit reads
+ */
+export interface Paging {
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Rows of a page, with the number of rows matching the query
+ */
+export interface Paged<T> {
+  rows: T[];
+  total: number;
+}
+
+/**
+ * Escape the wildcards of a LIKE pattern
+ */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\\\%_]/g, (char) => \`\\\\\${char}\`);
+}
+
+/**
+ * Current time of the database
+ */
+export function now(): SQL {
+  return sql\`now()\`;
+}
+
+/**
+ * Time an interval before now (e.g., ago('7 days')), with the interval sent as a parameter
+ */
+export function ago(interval: string): SQL {
+  return sql\`now() - \${interval}::interval\`;
+}
+
+/**
+ * Computed fields requested by name, to spread into a select
+ */
+export function pickComputed<T extends Record<string, SQL>, K extends keyof T>(
+  fields: T,
+  names: K[]
+): Pick<T, K> {
+  return Object.fromEntries(names.map((name) => [name, fields[name]])) as Pick<T, K>;
+}
+
+/**
+ * Add an amount to the stored value of a column, NULL counting as 0
+ */
+export function increment(column: Column, amount: number): SQL {
+  return sql\`coalesce(\${column}, 0) + \${amount}\`;
+}
+`;
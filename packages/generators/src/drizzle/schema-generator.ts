@@ -0,0 +1,330 @@
+/**
+ * Drizzle schema generator
+ * Emits schema/drizzle.ts with the Drizzle pgTable definitions for the models of a DDL file
+ *
+ * Every table gets a serial `id` primary key, one indexed, nullable foreign
+ * key per `belongs to` relationship and `created_at` / `updated_at`
+ * timestamps (see model-fields). Relations are declared with `relations()`
+ * for both `has many` and `belongs to`, so the relational query API can join
+ * in both directions.
+ *
+ * Two models having many of each other without a `belongs to` between them
+ * ("Post has many Tags", "Tag has many Posts") are joined by a junction table
+ * (posts_tags) holding a foreign key to each, and their relations go through
+ * it (`posts.postsTags`, then `postsTags.tag`).
+ */
+
+import {
+  DDLFile,
+  FieldConstraint,
+  FieldDefinition,
+  FieldType,
+  ModelSymbol,
+  RelationshipType,
+  SymbolTable,
+  foreignKeyName,
+  isRelationshipDefinition,
+  toCamelCase,
+} from '@declarelang/core';
+import { GeneratedFile } from '../types.js';
+import { columnName, tableName, tableVariable } from '../naming.js';
+import { declaredFields, foreignKeys } from '../model-fields.js';
+
+/**
+ * Column builder and its arguments for each field type (type-mapping-spec)
+ */
+const COLUMN_TYPES: Record<FieldType, { builder: string; options?: string }> = {
+  [FieldType.TEXT]: { builder: 'varchar', options: '{ length: 255 }' },
+  [FieldType.LONG_TEXT]: { builder: 'text' },
+  [FieldType.NUMBER]: { builder: 'integer' },
+  [FieldType.DECIMAL]: {
+    builder: 'numeric',
+    options: "{ precision: 10, scale: 2, mode: 'number' }",
+  },
+  [FieldType.BOOLEAN]: { builder: 'boolean' },
+  [FieldType.TIMESTAMP]: { builder: 'timestamp', options: '{ withTimezone: true }' },
+  [FieldType.JSON]: { builder: 'jsonb' },
+  [FieldType.UUID]: { builder: 'uuid' },
+};
+
+/**
+ * Generate the Drizzle schema of a DDL file
+ *
+ * @param ddl - Parsed DDL file
+ * @returns schema/drizzle.ts with one table per model, followed by their relations
+ */
+export function generateDrizzleSchema(ddl: DDLFile): GeneratedFile {
+  const symbols = new SymbolTable(ddl);
+  const builders = new Set<string>(['pgTable']);
+  const models = symbols.getModels();
+
+  const junctions = junctionTables(models, symbols);
+  const tables = [
+    ...models.map((model) => printTable(model, symbols, builders)),
+    ...junctions.map((junction) => printJunctionTable(junction, builders)),
+  ];
+  const relations = [
+    ...models.map((model) => printRelations(model, symbols, junctions)),
+    ...junctions.map(printJunctionRelations),
+  ].filter((block): block is string => block !== undefined);
+
+  const imports = [
+    ...(relations.length > 0 ? ["import { relations } from 'drizzle-orm';"] : []),
+    ...(builders.has('AnyPgColumn')
+      ? ["import type { AnyPgColumn } from 'drizzle-orm/pg-core';"]
+      : []),
+    `import { ${[...builders]
+      .filter((name) => name !== 'AnyPgColumn')
+      .sort()
+      .join(', ')} } from 'drizzle-orm/pg-core';`,
+  ];
+
+  const content = [
+    '/**\n * Drizzle schema\n * Generated by DeclareLang from ddl.dsl - do not edit\n */',
+    imports.join('\n'),
+    ...tables,
+    ...relations,
+  ].join('\n\n');
+
+  return { path: 'schema/drizzle.ts', content: `${content}\n` };
+}
+
+/**
+ * Junction table of two models having many of each other
+ */
+interface JunctionTable {
+  table: string; // e.g., "posts_tags"
+  variable: string; // e.g., "postsTags"
+  models: [ModelSymbol, ModelSymbol]; // in declaration order
+}
+
+/**
+ * Junction tables of the many-to-many relationships of the models
+ * Self-references and pairs with a `belongs to` keep their foreign key
+ */
+function junctionTables(models: ModelSymbol[], symbols: SymbolTable): JunctionTable[] {
+  const targets = (model: ModelSymbol, type: RelationshipType): ModelSymbol[] =>
+    model.definition.items.flatMap((item) => {
+      if (!isRelationshipDefinition(item) || item.type !== type) return [];
+      const target = symbols.resolveModel(item.targetModel);
+      return target ? [target] : [];
+    });
+
+  const junctions: JunctionTable[] = [];
+  models.forEach((first, index) => {
+    for (const second of models.slice(index + 1)) {
+      const manyToMany =
+        targets(first, RelationshipType.HAS_MANY).includes(second) &&
+        targets(second, RelationshipType.HAS_MANY).includes(first) &&
+        !targets(first, RelationshipType.BELONGS_TO).includes(second) &&
+        !targets(second, RelationshipType.BELONGS_TO).includes(first);
+      if (!manyToMany) continue;
+
+      const table = `${tableName(first.definition)}_${tableName(second.definition)}`;
+      junctions.push({ table, variable: toCamelCase(table), models: [first, second] });
+    }
+  });
+  return junctions;
+}
+
+/**
+ * Print the pgTable definition of a model
+ */
+function printTable(model: ModelSymbol, symbols: SymbolTable, builders: Set<string>): string {
+  const table = tableName(model.definition);
+  const columns: string[] = [];
+  const indexes: string[] = [];
+  const column = (name: string, definition: string): void => {
+    columns.push(`${name}: ${definition},`);
+  };
+
+  builders.add('serial');
+  column('id', "serial('id').primaryKey()");
+
+  for (const field of declaredFields(model, symbols)) {
+    const name = columnName(field.name);
+    column(name, printColumn(name, field, builders));
+    if (field.constraints.includes(FieldConstraint.INDEXED)) {
+      indexes.push(`index('idx_${table}_${name}').on(table.${name})`);
+    }
+  }
+
+  for (const { column: name, target } of foreignKeys(model, symbols)) {
+    const self = target === model;
+    if (self) builders.add('AnyPgColumn');
+    builders.add('integer');
+    column(
+      name,
+      `integer('${name}').references(()${self ? ': AnyPgColumn' : ''} => ${tableVariable(target.definition)}.id)`
+    );
+    indexes.push(`index('idx_${table}_${name}').on(table.${name})`);
+  }
+
+  builders.add('timestamp');
+  column('created_at', "timestamp('created_at', { withTimezone: true }).defaultNow()");
+  column(
+    'updated_at',
+    "timestamp('updated_at', { withTimezone: true })\n  .defaultNow()\n  .$onUpdate(() => new Date())"
+  );
+
+  const variable = tableVariable(model.definition);
+  if (indexes.length === 0) {
+    return [
+      `export const ${variable} = pgTable('${table}', {`,
+      ...columns.map((line) => indent(line, 1)),
+      '});',
+    ].join('\n');
+  }
+
+  builders.add('index');
+  return [
+    `export const ${variable} = pgTable(`,
+    `  '${table}',`,
+    '  {',
+    ...columns.map((line) => indent(line, 2)),
+    '  },',
+    '  (table) => [',
+    ...indexes.map((line) => indent(`${line},`, 2)),
+    '  ]',
+    ');',
+  ].join('\n');
+}
+
+/**
+ * Print the pgTable definition of a junction table
+ * Its rows go with the records they join
+ */
+function printJunctionTable(junction: JunctionTable, builders: Set<string>): string {
+  builders.add('integer').add('primaryKey').add('index');
+  const keys = junction.models.map((model) => ({
+    name: foreignKeyName(model.definition.name.singular),
+    target: tableVariable(model.definition),
+  }));
+  // The primary key indexes the first key, not the second one alone
+  const second = foreignKeyName(junction.models[1].definition.name.singular);
+  return [
+    `export const ${junction.variable} = pgTable(`,
+    `  '${junction.table}',`,
+    '  {',
+    ...keys.map(({ name, target }) =>
+      indent(
+        `${name}: integer('${name}')\n  .notNull()\n  .references(() => ${target}.id, { onDelete: 'cascade' }),`,
+        2
+      )
+    ),
+    '  },',
+    '  (table) => [',
+    indent(`primaryKey({ columns: [${keys.map(({ name }) => `table.${name}`).join(', ')}] }),`, 2),
+    indent(`index('idx_${junction.table}_${second}').on(table.${second}),`, 2),
+    '  ]',
+    ');',
+  ].join('\n');
+}
+
+/**
+ * Print the column builder chain of a declared field
+ */
+function printColumn(name: string, field: FieldDefinition, builders: Set<string>): string {
+  const { builder, options } = COLUMN_TYPES[field.type];
+  builders.add(builder);
+
+  let definition = `${builder}('${name}'${options ? `, ${options}` : ''})`;
+  if (field.type === FieldType.BOOLEAN) {
+    definition += '.default(false)';
+  }
+  if (field.constraints.includes(FieldConstraint.UNIQUE)) {
+    definition += '.unique()';
+  }
+  if (field.constraints.includes(FieldConstraint.REQUIRED)) {
+    definition += '.notNull()';
+  }
+  return definition;
+}
+
+/**
+ * Print the relations() of a model, or undefined if it has none
+ */
+function printRelations(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  junctions: JunctionTable[]
+): string | undefined {
+  const variable = tableVariable(model.definition);
+  const lines: string[] = [];
+  const helpers = new Set<string>();
+  const names = new Set<string>();
+
+  for (const item of model.definition.items) {
+    if (!isRelationshipDefinition(item)) continue;
+
+    const target = symbols.resolveModel(item.targetModel);
+    if (!target) continue;
+
+    const hasMany = item.type === RelationshipType.HAS_MANY;
+    const junction = hasMany
+      ? junctions.find(({ models }) => models.includes(model) && models.includes(target))
+      : undefined;
+    const { singular, plural } = target.definition.name;
+    const name = junction ? junction.variable : toCamelCase(hasMany ? plural : singular);
+    if (names.has(name)) continue;
+    names.add(name);
+
+    const targetVariable = tableVariable(target.definition);
+    if (junction) {
+      helpers.add('many');
+      lines.push(`${name}: many(${junction.variable}),`);
+    } else if (hasMany) {
+      helpers.add('many');
+      lines.push(`${name}: many(${targetVariable}),`);
+    } else {
+      const key = foreignKeyName(singular);
+      helpers.add('one');
+      lines.push(
+        `${name}: one(${targetVariable}, {`,
+        `  fields: [${variable}.${key}],`,
+        `  references: [${targetVariable}.id],`,
+        '}),'
+      );
+    }
+  }
+
+  if (lines.length === 0) {
+    return undefined;
+  }
+
+  const args = [...helpers].sort().join(', ');
+  return [
+    `export const ${variable}Relations = relations(${variable}, ({ ${args} }) => ({`,
+    ...lines.map((line) => indent(line, 1)),
+    '}));',
+  ].join('\n');
+}
+
+/**
+ * Print the relations() of a junction table, one per joined model
+ */
+function printJunctionRelations(junction: JunctionTable): string {
+  const lines = junction.models.flatMap((model) => {
+    const key = foreignKeyName(model.definition.name.singular);
+    const targetVariable = tableVariable(model.definition);
+    return [
+      `${toCamelCase(model.definition.name.singular)}: one(${targetVariable}, {`,
+      `  fields: [${junction.variable}.${key}],`,
+      `  references: [${targetVariable}.id],`,
+      '}),',
+    ];
+  });
+  return [
+    `export const ${junction.variable}Relations = relations(${junction.variable}, ({ one }) => ({`,
+    ...lines.map((line) => indent(line, 1)),
+    '}));',
+  ].join('\n');
+}
+
+function indent(text: string, depth: number): string {
+  const prefix = '  '.repeat(depth);
+  return text
+    .split('\n')
+    .map((line) => prefix + line)
+    .join('\n');
+}
@@ -0,0 +1,42 @@
+/**
+ * Response envelope of the generated API
+ * Resolved from the "Response envelope", "Success response" and "Error
+ * response" sections of api.dsl. Without them, successes are sent as
+ * `{ data, meta }` and errors as `{ error: { code, message, details }, meta }`
+ * (error-code-registry).
+ */
+
+import type { APIFile } from '@declarelang/core';
+
+/**
+ * Envelope settings resolved from the API file
+ */
+export interface Envelope {
+  data: string;
+  meta: string;
+  statusCode: boolean;
+  metaFields: string[];
+  errorStatusCode: boolean;
+  errorFields: string[];
+  validationFields: boolean; // per-field messages of validation errors in `fields`
+}
+
+const DEFAULT_META_FIELDS = ['request_id', 'timestamp', 'pagination'];
+const DEFAULT_ERROR_FIELDS = ['code', 'message', 'details'];
+
+/**
+ * Resolve the envelope of an API file, falling back to the defaults
+ */
+export function resolveEnvelope(api: APIFile | undefined): Envelope {
+  const success = api?.successResponse;
+  const error = api?.errorResponse;
+  return {
+    data: api?.responseEnvelope?.dataField ?? 'data',
+    meta: api?.responseEnvelope?.metaField ?? 'meta',
+    statusCode: success?.includeStatusCode ?? false,
+    metaFields: success?.includeMeta === false ? [] : (success?.metaFields ?? DEFAULT_META_FIELDS),
+    errorStatusCode: error?.includeStatusCode ?? false,
+    errorFields: error?.errorFields ?? DEFAULT_ERROR_FIELDS,
+    validationFields: error?.includeFields ?? false,
+  };
+}
@@ -0,0 +1,6 @@
+/**
+ * Fastify route generators
+ */
+
+export * from './support-generator.js';
+export * from './routes-generator.js';
@@ -0,0 +1,877 @@
+/**
+ * Fastify route generator
+ * Emits one route plugin per model (api/<models>.ts) with list, get, create,
+ * update and delete routes under the plural path (/posts, /categories),
+ * plus api/routes.ts registering them all and api/support.ts
+ *
+ * Routes work on the generated Drizzle tables (schema/drizzle.ts) and
+ * validate bodies with the generated Zod schemas (middleware/validation.ts).
+ * Which routes exist follows routes.ts; list routes take `page`, `limit`,
+ * `sort` and `order` plus the filters of the query parameters of api.dsl:
+ * - boolean, number, text → `?field=value`
+ * - date range, number range → `?field_from=…&field_to=…`
+ * - text contains / starts with / ends with → `?field=value` (case-insensitive)
+ *
+ * Each query of dml.dsl gets a GET route under the plural path
+ * (/posts/published-posts) calling its repository function (see
+ * drizzle/query-compiler.ts), with its `given` values as query string
+ * parameters; queries without a `limited to` take `page` and `limit` and
+ * answer with the pagination meta, like list routes. Each mutation gets a POST route on the record
+ * (/posts/:id/publish-post) with its `given` values as body fields, granted as
+ * dml.ts mutationAccess decides. The update route rejects fields that AUTH
+ * field rules reserve for mutations (AUTH003).
+ *
+ * Computed fields of dml.dsl are only selected when asked for, by the list
+ * and get routes: `?include=post_count,comment_count`.
+ *
+ * Routes not granted to `anyone` go through the `authenticate` hook of the
+ * plugin options. Queries and mutations on the `current user` also do, and
+ * take the user from the `currentUser` option. Routes only granted to roles
+ * then check the roles the `user` option gives the user (AUTH003).
+ *
+ * The routes of a model with rules or field rules also take the `policy`
+ * option (the PolicyEngine of the runtime): reads, updates, deletes, queries
+ * and mutations only see the records its filter lets the user act on (404
+ * otherwise), creates are checked against the rules (AUTH003) with the owner
+ * (`belongs to User`) set to the current user, creates and updates against
+ * the field rules (AUTH003), and responses leave out the fields the user may
+ * not read.
+ *
+ * Routes never send back the password hash of a model with a password; they
+ * hash the passwords they write with the `hashPassword` option (the
+ * authenticator of the runtime, so with the rounds of security.dsl).
+ *
+ * With an "API versioning" section, api/routes.ts serves the routes under the
+ * prefix of each served version (/v1/posts, /v2/posts) and without prefix for
+ * the version of the version header, or the default version (see
+ * versions.ts); other versions get a 400 (RUNTIME007). Responses carry the
+ * version header with the version they were served as. Frozen versions are
+ * served by the same routes, so the project is first checked against their
+ * snapshots: generation fails with GEN011 when it would break their clients.
+ */
+
+import {
+  APIFile,
+  AUTHFile,
+  DDLFile,
+  DMLFile,
+  FieldType,
+  ModelSymbol,
+  ProjectAST,
+  QueryParamFilterType,
+  SymbolTable,
+  toCamelCase,
+  toPascalCase,
+} from '@declarelang/core';
+import { GeneratedFile } from '../types.js';
+import { columnName, fileName, routePath, tableVariable, typeName } from '../naming.js';
+import { foreignKeys } from '../model-fields.js';
+import {
+  ListSettings,
+  RouteAccess,
+  RouteKind,
+  listFilters,
+  listSettings,
+  modelPermissions,
+  routeAccess,
+} from '../routes.js';
+import {
+  actionSegment,
+  fieldPermissions,
+  modelComputed,
+  modelMutations,
+  modelQueries,
+  mutationAccess,
+  mutationParameters,
+  pagedQuery,
+  queryParameters,
+  reservedColumns,
+  usesCurrentUser,
+} from '../dml.js';
+import {
+  CURRENT_USER_PARAMETER,
+  printResponseColumns,
+  responseColumnsVariable,
+} from '../drizzle/query-compiler.js';
+import { PASSWORD_COLUMN } from '../model-fields.js';
+import { Versions, resolveVersions } from '../versions.js';
+import { VersionSnapshot, assertVersionSnapshots } from '../versioning/snapshot-generator.js';
+import { generateRouteSupport } from './support-generator.js';
+
+/**
+ * Options of the route generator
+ */
+export interface RouteGeneratorOptions {
+  frozen?: FrozenVersions;
+}
+
+/**
+ * Versions frozen in generated/<version>/, still served
+ */
+export interface FrozenVersions {
+  snapshots: VersionSnapshot[]; // see readVersionSnapshot
+  project: ProjectAST; // current version, checked against the snapshots
+}
+
+/**
+ * Generate the route plugins of the models of a DDL file
+ *
+ * @param ddl - Parsed DDL file
+ * @param api - Parsed API file, if the project has one
+ * @param auth - Parsed AUTH file, if the project has one
+ * @param dml - Parsed DML file, if the project has one
+ * @param options - Versions served besides the current one
+ * @returns api/support.ts, one plugin per model and api/routes.ts
+ * @throws VersionSnapshotError when the project breaks the clients of a
+ * frozen version (GEN011)
+ */
+export function generateRoutes(
+  ddl: DDLFile,
+  api?: APIFile,
+  auth?: AUTHFile,
+  dml?: DMLFile,
+  options: RouteGeneratorOptions = {}
+): GeneratedFile[] {
+  const symbols = new SymbolTable(ddl);
+  const models = symbols.getModels();
+  const versions = resolveVersions(
+    api,
+    options.frozen?.snapshots.map((snapshot) => snapshot.version)
+  );
+  if (options.frozen && versions) {
+    const { snapshots, project } = options.frozen;
+    assertVersionSnapshots(
+      snapshots.filter((snapshot) => snapshot.version !== versions.current),
+      project
+    );
+  }
+
+  return [
+    generateRouteSupport(api),
+    ...models.map((model) => ({
+      path: `api/${fileName(model.definition)}.ts`,
+      content: printPlugin(model, symbols, api, auth, dml, routeAccess(model, symbols, auth)),
+    })),
+    {
+      path: 'api/routes.ts',
+      content: printRoutes(models, versions),
+    },
+  ];
+}
+
+/**
+ * Print the route plugin of a model
+ */
+function printPlugin(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  api: APIFile | undefined,
+  auth: AUTHFile | undefined,
+  dml: DMLFile | undefined,
+  access: Map<RouteKind, RouteAccess>
+): string {
+  const type = typeName(model.definition);
+  const table = tableVariable(model.definition);
+  const path = routePath(model.definition);
+  const drizzle = new Set<string>();
+  const support = new Set(['RouteOptions', 'sendData']);
+  const schemas: string[] = [];
+  const body: string[] = [];
+  const queries = access.has('list') ? modelQueries(model, symbols, dml) : [];
+  const mutations = modelMutations(model, symbols, dml).flatMap((mutation) => {
+    const route = mutationAccess(mutation, model, symbols, auth, access);
+    return route ? [{ mutation, route }] : [];
+  });
+  const reserved = [...reservedColumns(model, symbols, auth).keys()];
+  const computed = modelComputed(model, symbols, dml).map((field) => field.name);
+  const includes = computed.length > 0 && (access.has('list') || access.has('get'));
+  const columns = responseColumnsVariable(model, symbols);
+  const hashing = columns !== undefined && (access.has('create') || access.has('update'));
+  const hash = (record: string) =>
+    hashing
+      ? [
+          `  if (${record}.${PASSWORD_COLUMN} !== undefined) ${record}.${PASSWORD_COLUMN} = await hash(${record}.${PASSWORD_COLUMN});`,
+        ]
+      : [];
+  const repository: string[] = [];
+  if (includes && !columns) {
+    drizzle.add('getTableColumns');
+  }
+  if (includes) {
+    repository.push(`${table}Computed`);
+    schemas.push(
+      [
+        `const ${type}Include = z.preprocess(`,
+        "  (value) => (typeof value === 'string' && value !== '' ? value.split(',') : []),",
+        `  z.array(z.enum([${computed.map((name) => `'${name}'`).join(', ')}]))`,
+        ');',
+      ].join('\n')
+    );
+  }
+  // With rules, the `policy` option filters the records each route acts on
+  // and the fields it writes and reads, and the current user owns the
+  // records it creates
+  const guarded =
+    modelPermissions(model, symbols, auth).length > 0 ||
+    fieldPermissions(model, symbols, auth).length > 0;
+  const modelName = model.definition.name.singular;
+  const allowed = (action: string) => `rules.filter(user?.(request), '${action}', '${modelName}')`;
+  const authorize = (action: string, input: string) =>
+    guarded
+      ? [`  rules.authorizeWrite(user?.(request), '${action}', '${modelName}', ${input});`]
+      : [];
+  const redact = (record: string) =>
+    guarded ? `rules.redact(user?.(request), '${modelName}', ${record})` : record;
+  const users = symbols.resolveModel('User');
+  const owner =
+    guarded && model !== users
+      ? foreignKeys(model, symbols).find((key) => key.target === users)?.column
+      : undefined;
+  const needsUser =
+    (owner !== undefined && access.has('create')) ||
+    queries.some(usesCurrentUser) ||
+    mutations.some(({ mutation }) => usesCurrentUser(mutation));
+  const needsAuth =
+    needsUser ||
+    [...access.values(), ...mutations.map(({ route }) => route)].some((route) => !route.public);
+
+  let authenticated = false;
+  const gates = new Map<string, string[]>();
+  const guard = (route: RouteAccess | undefined, user = false) => {
+    if (route?.public !== false && !user) return '';
+    if (!route || route.roles.length === 0) {
+      authenticated = true;
+      return 'authenticated, ';
+    }
+    const gate = `${toCamelCase(route.roles.join(' or '))}Only`;
+    gates.set(gate, route.roles);
+    return `${gate}, `;
+  };
+  const options = (kind: RouteKind) => guard(access.get(kind));
+
+  if (access.has('list')) {
+    const list = printList(
+      model,
+      symbols,
+      api,
+      table,
+      type,
+      includes,
+      columns,
+      guarded ? { filter: allowed('read'), redact } : undefined
+    );
+    list.drizzle.forEach((name) => drizzle.add(name));
+    list.support.forEach((name) => support.add(name));
+    schemas.push(list.query);
+    body.push(
+      [
+        `app.get('${path}', ${options('list')}async (request, reply) => {`,
+        indent(list.handler.join('\n')),
+        '});',
+      ].join('\n')
+    );
+  }
+
+  const byId =
+    mutations.length > 0 ||
+    ['get', 'update', 'delete'].some((kind) => access.has(kind as RouteKind));
+  if (byId) {
+    if (guarded) drizzle.add('and');
+    drizzle.add('eq');
+    support.add('IdParams');
+    support.add('sendNotFound');
+  }
+  const params = [
+    '  const params = IdParams.safeParse(request.params);',
+    `  if (!params.success) return sendNotFound(request, reply, '${type}');`,
+  ];
+  const byIdWhere = (action: string) =>
+    guarded
+      ? `and(eq(${table}.id, params.data.id), ${allowed(action)})`
+      : `eq(${table}.id, params.data.id)`;
+
+  if (access.has('get')) {
+    if (includes) {
+      support.add('sendValidationError');
+      schemas.push(`const Get${type}Query = z.object({ include: ${type}Include });`);
+    }
+    body.push(
+      [
+        `app.get('${path}/:id', ${options('get')}async (request, reply) => {`,
+        ...params,
+        ...(includes
+          ? [
+              `  const query = Get${type}Query.safeParse(request.query);`,
+              '  if (!query.success) return sendValidationError(request, reply, query.error);',
+              '  const { include } = query.data;',
+              '  const [row] = await db',
+              `    .select({ ...${columns ?? `getTableColumns(${table})`}, ...pickComputed(${table}Computed, include) })`,
+              `    .from(${table})`,
+              `    .where(${byIdWhere('read')});`,
+            ]
+          : guarded
+            ? [
+                '  const [row] = await db',
+                `    .select(${columns ?? ''})`,
+                `    .from(${table})`,
+                `    .where(${byIdWhere('read')});`,
+              ]
+            : [
+                `  const [row] = await db.select(${columns ?? ''}).from(${table}).where(${byIdWhere('read')});`,
+              ]),
+        `  if (!row) return sendNotFound(request, reply, '${type}');`,
+        `  return sendData(request, reply, 200, ${redact('row')});`,
+        '});',
+      ].join('\n')
+    );
+  }
+
+  const validation: string[] = [];
+  if (access.has('create')) {
+    validation.push(`Create${type}Schema`);
+    support.add('sendValidationError');
+    if (guarded) support.add('sendDenied');
+    body.push(
+      [
+        `app.post('${path}', ${options('create')}async (request, reply) => {`,
+        `  const input = Create${type}Schema.safeParse(request.body);`,
+        '  if (!input.success) return sendValidationError(request, reply, input.error);',
+        ...(guarded
+          ? [
+              owner
+                ? `  const values = { ...input.data, ${owner}: currentUser?.(request) ?? null };`
+                : hashing
+                  ? '  const values = { ...input.data };'
+                  : '  const values = input.data;',
+              `  if (!rules.can(user?.(request), 'create', '${modelName}', values)) {`,
+              `    return sendDenied(request, reply, 'create', '${modelName}');`,
+              '  }',
+              // Checks the fields the client sent, not the defaults of the schema
+              ...authorize('create', 'request.body as Record<string, unknown>'),
+              ...hash('values'),
+              `  const [row] = await db.insert(${table}).values(values).returning(${columns ?? ''});`,
+            ]
+          : hashing
+            ? [
+                '  const values = { ...input.data };',
+                ...hash('values'),
+                `  const [row] = await db.insert(${table}).values(values).returning(${columns ?? ''});`,
+              ]
+            : [`  const [row] = await db.insert(${table}).values(input.data).returning();`]),
+        `  if (!row) throw new Error('${type} was not written');`,
+        `  return sendData(request, reply, 201, ${redact('row')});`,
+        '});',
+      ].join('\n')
+    );
+  }
+
+  if (access.has('update')) {
+    validation.push(`Update${type}Schema`);
+    support.add('sendValidationError');
+    if (reserved.length > 0) support.add('sendForbidden');
+    body.push(
+      [
+        `app.patch('${path}/:id', ${options('update')}async (request, reply) => {`,
+        ...params,
+        `  const input = Update${type}Schema.safeParse(request.body ?? {});`,
+        '  if (!input.success) return sendValidationError(request, reply, input.error);',
+        ...(reserved.length > 0
+          ? [
+              `  const reserved = [${reserved.map((column) => `'${column}'`).join(', ')}].filter((field) => field in input.data);`,
+              "  if (reserved.length > 0) return sendForbidden(request, reply, 'edit', reserved);",
+            ]
+          : []),
+        ...authorize('edit', 'input.data'),
+        ...(hashing ? ['  const changes = { ...input.data };', ...hash('changes')] : []),
+        '  const [row] = await db',
+        `    .update(${table})`,
+        `    .set(${hashing ? 'changes' : 'input.data'})`,
+        `    .where(${byIdWhere('edit')})`,
+        `    .returning(${columns ?? ''});`,
+        `  if (!row) return sendNotFound(request, reply, '${type}');`,
+        `  return sendData(request, reply, 200, ${redact('row')});`,
+        '});',
+      ].join('\n')
+    );
+  }
+
+  if (access.has('delete')) {
+    body.push(
+      [
+        `app.delete('${path}/:id', ${options('delete')}async (request, reply) => {`,
+        ...params,
+        '  const [row] = await db',
+        `    .delete(${table})`,
+        `    .where(${byIdWhere('delete')})`,
+        `    .returning({ id: ${table}.id });`,
+        `  if (!row) return sendNotFound(request, reply, '${type}');`,
+        '  return reply.status(204).send();',
+        '});',
+      ].join('\n')
+    );
+  }
+
+  for (const query of queries) {
+    const name = toCamelCase(query.name);
+    const parameters = queryParameters(query, model, symbols);
+    const user = usesCurrentUser(query);
+    const schema = `${toPascalCase(query.name)}Query`;
+    repository.push(name);
+
+    const paged = pagedQuery(query);
+    const given = paged ? 'given' : 'query.data';
+    const lines: string[] = [];
+    if (parameters.length > 0 || paged) {
+      support.add('sendValidationError');
+      schemas.push(
+        [
+          `const ${schema} = z.object({`,
+          ...(paged ? printPaging(listSettings(model, symbols, api)) : []).map(
+            (line) => `  ${line}`
+          ),
+          ...parameters.map(({ name, type }) => `  ${name}: ${QUERY_VALUES[type]},`),
+          '});',
+        ].join('\n')
+      );
+      lines.push(
+        `  const query = ${schema}.safeParse(request.query);`,
+        '  if (!query.success) return sendValidationError(request, reply, query.error);',
+        ...(paged
+          ? [`  const { page, limit${parameters.length > 0 ? ', ...given' : ''} } = query.data;`]
+          : [])
+      );
+    }
+    if (user) {
+      support.add('sendUnauthenticated');
+      lines.push(
+        '  const userId = currentUser?.(request);',
+        '  if (userId === undefined) return sendUnauthenticated(request, reply);'
+      );
+    }
+    const args = [
+      'db',
+      ...(parameters.length > 0 && user
+        ? [`{ ...${given}, ${CURRENT_USER_PARAMETER}: userId }`]
+        : parameters.length > 0
+          ? [given]
+          : user
+            ? [`{ ${CURRENT_USER_PARAMETER}: userId }`]
+            : []),
+      ...(paged ? ['{ limit, offset: (page - 1) * limit }'] : []),
+      ...(guarded ? [allowed('read')] : []),
+    ].join(', ');
+    const rows = guarded ? `rows.map((row) => ${redact('row')})` : 'rows';
+    body.push(
+      [
+        `app.get('${path}/${actionSegment(query.name)}', ${guard(access.get('list'), user)}async (request, reply) => {`,
+        ...lines,
+        ...(paged
+          ? [
+              `  const { rows, total } = await ${name}(${args});`,
+              `  return sendData(request, reply, 200, ${rows}, {`,
+              '    page,',
+              '    limit,',
+              '    total,',
+              '    total_pages: Math.ceil(total / limit),',
+              '  });',
+            ]
+          : guarded
+            ? [
+                `  const rows = await ${name}(${args});`,
+                `  return sendData(request, reply, 200, ${rows});`,
+              ]
+            : [`  return sendData(request, reply, 200, await ${name}(${args}));`]),
+        '});',
+      ].join('\n')
+    );
+  }
+
+  for (const { mutation, route } of mutations) {
+    const name = toCamelCase(mutation.name);
+    const parameters = mutationParameters(mutation, model, symbols);
+    const user = usesCurrentUser(mutation);
+    const schema = `${toPascalCase(mutation.name)}Body`;
+    repository.push(name);
+
+    const lines = [...params];
+    if (parameters.length > 0) {
+      support.add('sendValidationError');
+      schemas.push(
+        [
+          `const ${schema} = z.object({`,
+          ...parameters.map(({ name, type }) => `  ${name}: ${BODY_VALUES[type]},`),
+          '});',
+        ].join('\n')
+      );
+      lines.push(
+        `  const input = ${schema}.safeParse(request.body ?? {});`,
+        '  if (!input.success) return sendValidationError(request, reply, input.error);'
+      );
+    }
+    if (user) {
+      support.add('sendUnauthenticated');
+      lines.push(
+        '  const userId = currentUser?.(request);',
+        '  if (userId === undefined) return sendUnauthenticated(request, reply);'
+      );
+    }
+    const args = [
+      'db',
+      'params.data.id',
+      ...(parameters.length > 0 && user
+        ? [`{ ...input.data, ${CURRENT_USER_PARAMETER}: userId }`]
+        : parameters.length > 0
+          ? ['input.data']
+          : user
+            ? [`{ ${CURRENT_USER_PARAMETER}: userId }`]
+            : []),
+      ...(guarded ? [allowed('edit')] : []),
+    ].join(', ');
+    body.push(
+      [
+        `app.post('${path}/:id/${actionSegment(mutation.name)}', ${guard(route, user)}async (request, reply) => {`,
+        ...lines,
+        `  const row = await ${name}(${args});`,
+        `  if (!row) return sendNotFound(request, reply, '${type}');`,
+        `  return sendData(request, reply, 200, ${redact('row')});`,
+        '});',
+      ].join('\n')
+    );
+  }
+
+  if (needsAuth) {
+    support.add('rejectUnauthenticated');
+  }
+  if (gates.size > 0) {
+    support.add('requireRoles');
+  }
+  if (guarded) {
+    support.add('requirePolicy');
+  }
+  if (hashing) {
+    support.add('requirePasswordHash');
+  }
+
+  const imports = [
+    "import type { FastifyPluginAsync } from 'fastify';",
+    ...(drizzle.size > 0
+      ? [`import { ${[...drizzle].sort().join(', ')} } from 'drizzle-orm';`]
+      : []),
+    ...(drizzle.has('and') ? ["import type { SQL } from 'drizzle-orm';"] : []),
+    ...(schemas.length > 0 ? ["import { z } from 'zod';"] : []),
+    `import { ${table} } from '../schema/drizzle.js';`,
+    ...(repository.length > 0
+      ? [
+          `import { ${repository.sort().join(', ')} } from '../repositories/${fileName(model.definition)}.js';`,
+        ]
+      : []),
+    ...(includes ? ["import { pickComputed } from '../repositories/support.js';"] : []),
+    ...(validation.length > 0
+      ? [`import { ${validation.join(', ')} } from '../middleware/validation.js';`]
+      : []),
+    `import { ${[...support].sort().join(', ')} } from './support.js';`,
+  ];
+
+  const plugin = [
+    `export const ${table}Routes: FastifyPluginAsync<RouteOptions> = async (app, { ${['db', ...(needsAuth ? ['authenticate'] : []), ...(needsUser ? ['currentUser'] : []), ...(gates.size > 0 || guarded ? ['user'] : []), ...(guarded ? ['policy'] : []), ...(hashing ? ['hashPassword'] : [])].join(', ')} }) => {`,
+    ...(guarded ? [`  const rules = requirePolicy(policy, '${modelName}');`] : []),
+    ...(hashing ? [`  const hash = requirePasswordHash(hashPassword, '${modelName}');`] : []),
+    ...(needsAuth
+      ? [
+          ...(authenticated
+            ? ['  const authenticated = { preHandler: authenticate ?? rejectUnauthenticated };']
+            : []),
+          ...[...gates].map(
+            ([gate, roles]) =>
+              `  const ${gate} = { preHandler: [authenticate ?? rejectUnauthenticated, requireRoles(user, [${roles.map((role) => `'${role}'`).join(', ')}])] };`
+          ),
+          '',
+        ]
+      : []),
+    body.map((route) => indent(route)).join('\n\n'),
+    '};',
+  ];
+
+  return `${[
+    `/**\n * ${type} routes\n * Generated by DeclareLang from ddl.dsl, api.dsl and auth.dsl - do not edit\n */`,
+    imports.join('\n'),
+    ...(['list', 'get', 'create', 'update'].some((kind) => access.has(kind as RouteKind))
+      ? printResponseColumns(model, symbols)
+      : []),
+    ...schemas,
+    plugin.join('\n'),
+  ].join('\n\n')}\n`;
+}
+
+/**
+ * Zod schema of the query string parameters supplying values of each field type
+ */
+const QUERY_VALUES: Record<FieldType, string> = {
+  [FieldType.TEXT]: 'z.string()',
+  [FieldType.LONG_TEXT]: 'z.string()',
+  [FieldType.NUMBER]: 'z.coerce.number()',
+  [FieldType.DECIMAL]: 'z.coerce.number()',
+  [FieldType.BOOLEAN]: "z.enum(['true', 'false']).transform((value) => value === 'true')",
+  [FieldType.TIMESTAMP]: 'z.coerce.date()',
+  [FieldType.JSON]: 'z.string()',
+  [FieldType.UUID]: 'z.string().uuid()',
+};
+
+/**
+ * Zod schema of the body fields supplying values of each field type
+ */
+const BODY_VALUES: Record<FieldType, string> = {
+  [FieldType.TEXT]: 'z.string()',
+  [FieldType.LONG_TEXT]: 'z.string()',
+  [FieldType.NUMBER]: 'z.number()',
+  [FieldType.DECIMAL]: 'z.number()',
+  [FieldType.BOOLEAN]: 'z.boolean()',
+  [FieldType.TIMESTAMP]: 'z.coerce.date()',
+  [FieldType.JSON]: 'z.unknown()',
+  [FieldType.UUID]: 'z.string().uuid()',
+};
+
+/**
+ * Print the query schema and handler of a list route
+ */
+function printList(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  api: APIFile | undefined,
+  table: string,
+  type: string,
+  includes: boolean,
+  columns: string | undefined,
+  rules: { filter: string; redact: (record: string) => string } | undefined
+): { query: string; handler: string[]; drizzle: string[]; support: string[] } {
+  const settings = listSettings(model, symbols, api);
+
+  const query = [
+    ...printPaging(settings),
+    `sort: z.enum([${settings.sortFields.map((field) => `'${field}'`).join(', ')}]).default('${settings.sort}'),`,
+    `order: z.enum(['asc', 'desc']).default('${settings.order}'),`,
+    ...(includes ? [`include: ${type}Include,`] : []),
+  ];
+  const conditions: string[] = [];
+  const drizzle = new Set(['and', 'asc', 'count', 'desc']);
+  const support: string[] = [];
+
+  for (const param of listFilters(model, symbols, api)) {
+    const column = columnName(param.field);
+    const ref = `${table}.${column}`;
+    const value = `filters.${column}`;
+    const push = (condition: string, name = value) =>
+      conditions.push(`if (${name} !== undefined) conditions.push(${condition});`);
+
+    switch (param.filterType) {
+      case QueryParamFilterType.BOOLEAN:
+        query.push(
+          `${column}: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),`
+        );
+        drizzle.add('eq');
+        push(`eq(${ref}, ${value})`);
+        break;
+      case QueryParamFilterType.NUMBER:
+        query.push(`${column}: z.coerce.number().optional(),`);
+        drizzle.add('eq');
+        push(`eq(${ref}, ${value})`);
+        break;
+      case QueryParamFilterType.TEXT:
+        query.push(`${column}: z.string().optional(),`);
+        drizzle.add('eq');
+        push(`eq(${ref}, ${value})`);
+        break;
+      case QueryParamFilterType.DATE_RANGE:
+      case QueryParamFilterType.NUMBER_RANGE: {
+        const bound =
+          param.filterType === QueryParamFilterType.DATE_RANGE
+            ? 'z.coerce.date().optional()'
+            : 'z.coerce.number().optional()';
+        query.push(`${column}_from: ${bound},`, `${column}_to: ${bound},`);
+        drizzle.add('gte');
+        drizzle.add('lte');
+        push(`gte(${ref}, ${value}_from)`, `${value}_from`);
+        push(`lte(${ref}, ${value}_to)`, `${value}_to`);
+        break;
+      }
+      case QueryParamFilterType.TEXT_CONTAINS:
+      case QueryParamFilterType.TEXT_STARTS_WITH:
+      case QueryParamFilterType.TEXT_ENDS_WITH: {
+        const before = param.filterType === QueryParamFilterType.TEXT_STARTS_WITH ? '' : '%';
+        const after = param.filterType === QueryParamFilterType.TEXT_ENDS_WITH ? '' : '%';
+        query.push(`${column}: z.string().optional(),`);
+        drizzle.add('ilike');
+        support.push('escapeLike');
+        push(`ilike(${ref}, \`${before}\${escapeLike(${value})}${after}\`)`);
+        break;
+      }
+    }
+  }
+
+  support.push('sendValidationError');
+  const filtered = conditions.length > 0 || rules !== undefined;
+  if (!filtered) drizzle.delete('and');
+  const handler = [
+    `const query = List${type}Query.safeParse(request.query);`,
+    'if (!query.success) return sendValidationError(request, reply, query.error);',
+    `const { page, limit, sort, order${includes ? ', include' : ''}${conditions.length > 0 ? ', ...filters' : ''} } = query.data;`,
+    '',
+    ...(filtered
+      ? [
+          rules
+            ? `const conditions: (SQL | undefined)[] = [${rules.filter}];`
+            : 'const conditions: SQL[] = [];',
+          ...conditions,
+          'const where = and(...conditions);',
+          '',
+        ]
+      : []),
+    'const [rows, [counted]] = await Promise.all([',
+    '  db',
+    includes
+      ? `    .select({ ...${columns ?? `getTableColumns(${table})`}, ...pickComputed(${table}Computed, include) })`
+      : `    .select(${columns ?? ''})`,
+    `    .from(${table})`,
+    ...(filtered ? ['    .where(where)'] : []),
+    `    .orderBy(order === 'asc' ? asc(${table}[sort]) : desc(${table}[sort]))`,
+    '    .limit(limit)',
+    '    .offset((page - 1) * limit),',
+    `  db.select({ total: count() }).from(${table})${filtered ? '.where(where)' : ''},`,
+    ']);',
+    'const total = counted?.total ?? 0;',
+    rules
+      ? `return sendData(request, reply, 200, rows.map((row) => ${rules.redact('row')}), {`
+      : 'return sendData(request, reply, 200, rows, {',
+    '  page,',
+    '  limit,',
+    '  total,',
+    '  total_pages: Math.ceil(total / limit),',
+    '});',
+  ];
+
+  return {
+    query: [`const List${type}Query = z.object({`, ...query.map((line) => `  ${line}`), '});'].join(
+      '\n'
+    ),
+    handler,
+    drizzle: [...drizzle],
+    support,
+  };
+}
+
+/**
+ * Print the `page` and `limit` fields of the query schema of a paged route
+ */
+function printPaging({ defaultLimit, maxLimit }: ListSettings): string[] {
+  return [
+    'page: z.coerce.number().int().min(1).default(1),',
+    'limit: z.coerce',
+    '  .number()',
+    '  .int()',
+    '  .min(1)',
+    `  .default(${defaultLimit})`,
+    `  .transform((limit) => Math.min(limit, ${maxLimit})),`,
+  ];
+}
+
+/**
+ * Print api/routes.ts, registering every model plugin
+ */
+function printRoutes(models: ModelSymbol[], versions: Versions | undefined): string {
+  const plugins = models.map((model) => ({
+    name: `${tableVariable(model.definition)}Routes`,
+    file: fileName(model.definition),
+  }));
+  const register = plugins.map(({ name }) => `  await app.register(${name}, options);`);
+
+  const usage = [
+    '/**',
+    ' * Register the routes of every model',
+    ' * Usage: await app.register(apiRoutes, { db, authenticate })',
+  ];
+  const index = versions
+    ? [
+        [
+          '/**',
+          ' * API versions served, the current one last',
+          ' */',
+          `export const API_VERSIONS: readonly string[] = [${versions.served.map((version) => `'${version}'`).join(', ')}];`,
+          `export const DEFAULT_API_VERSION = '${versions.defaultVersion}';`,
+        ].join('\n'),
+        [
+          'const versionRoutes: FastifyPluginAsync<RouteOptions> = async (app, options) => {',
+          ...register,
+          '};',
+        ].join('\n'),
+        [
+          '/**',
+          ' * Pick the version of unprefixed requests from the version header',
+          ' */',
+          'const selectVersion: onRequestAsyncHookHandler = async (request, reply) => {',
+          `  const header = request.headers['${versions.header.toLowerCase()}'];`,
+          "  const version = typeof header === 'string' && header !== '' ? header : DEFAULT_API_VERSION;",
+          '  if (!API_VERSIONS.includes(version)) {',
+          '    return sendError(request, reply, 400, {',
+          "      code: 'RUNTIME007',",
+          '      message: `Unsupported API version: ${version}`,',
+          '      details: { supported: API_VERSIONS },',
+          '    });',
+          '  }',
+          `  void reply.header('${versions.header}', version);`,
+          '};',
+        ].join('\n'),
+        [
+          ...usage,
+          ' *',
+          ` * Routes are served under the prefix of each version (/${versions.current}/…) and`,
+          ` * without prefix for the version of the ${versions.header} header.`,
+          ' */',
+          'export const apiRoutes: FastifyPluginAsync<RouteOptions> = async (app, options) => {',
+          '  app.setErrorHandler(handleError);',
+          '  for (const version of API_VERSIONS) {',
+          '    await app.register(async (scope) => {',
+          "      scope.addHook('onRequest', async (_request, reply) => {",
+          `        void reply.header('${versions.header}', version);`,
+          '      });',
+          '      await scope.register(versionRoutes, options);',
+          '    }, { prefix: `/${version}` });',
+          '  }',
+          '  await app.register(async (scope) => {',
+          "    scope.addHook('onRequest', selectVersion);",
+          '    await scope.register(versionRoutes, options);',
+          '  });',
+          '};',
+        ].join('\n'),
+      ]
+    : [
+        [
+          ...usage,
+          ' */',
+          'export const apiRoutes: FastifyPluginAsync<RouteOptions> = async (app, options) => {',
+          '  app.setErrorHandler(handleError);',
+          ...register,
+          '};',
+        ].join('\n'),
+      ];
+
+  return `${[
+    '/**\n * API routes\n * Generated by DeclareLang - do not edit\n */',
+    [
+      versions
+        ? "import type { FastifyPluginAsync, onRequestAsyncHookHandler } from 'fastify';"
+        : "import type { FastifyPluginAsync } from 'fastify';",
+      ...plugins.map(({ name, file }) => `import { ${name} } from './${file}.js';`),
+      versions
+        ? "import { RouteOptions, handleError, sendError } from './support.js';"
+        : "import { RouteOptions, handleError } from './support.js';",
+    ].join('\n'),
+    ...index,
+  ].join('\n\n')}\n`;
+}
+
+function indent(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line === '' ? line : `  ${line}`))
+    .join('\n');
+}
@@ -0,0 +1,349 @@
+/**
+ * Route support generator
+ * Emits api/support.ts: the options shared by the route plugins, the response
+ * envelope helpers and the error handler
+ *
+ * Responses follow the envelope of api.dsl (see envelope.ts). Validation
+ * failures list their issues in `details` and, when the error response
+ * includes fields, per field in `fields`.
+ */
+
+import { APIFile } from '@declarelang/core';
+import { GeneratedFile } from '../types.js';
+import { Envelope, resolveEnvelope } from '../envelope.js';
+
+/**
+ * Generate the support module of the route plugins
+ *
+ * @param api - Parsed API file, if the project has one
+ * @returns api/support.ts
+ */
+export function generateRouteSupport(api?: APIFile): GeneratedFile {
+  const envelope = resolveEnvelope(api);
+  return { path: 'api/support.ts', content: SUPPORT.replace('$ENVELOPE', printEnvelope(envelope)) };
+}
+
+function printEnvelope(envelope: Envelope): string {
+  const lines = Object.entries(envelope).map(
+    ([key, value]) => `  ${key}: ${JSON.stringify(value).replace(/"/g, "'").replace(/,/g, ', ')},`
+  );
+  return ['const ENVELOPE = {', ...lines, '};'].join('\n');
+}
+
+const SUPPORT = `/**
+ * Route support
+ * Generated by DeclareLang from api.dsl - do not edit
+ */
+
+import type {
+  FastifyError,
+  FastifyReply,
+  FastifyRequest,
+  preHandlerAsyncHookHandler,
+} from 'fastify';
+import type { SQL } from 'drizzle-orm';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { z } from 'zod';
+import type * as schema from '../schema/drizzle.js';
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/**
+ * User a request is made by, with the roles of auth.dsl they have
+ */
+export interface RequestUser {
+  id?: number | string; // undefined for API keys
+  roles: string[];
+}
+
+/**
+ * Rules of auth.dsl, as the policy engine of the runtime evaluates them
+ * (actions: create, read, edit, delete; models by name, e.g. 'Post')
+ */
+export interface Policy {
+  can(
+    user: RequestUser | undefined,
+    action: string,
+    modelName: string,
+    record?: Record<string, unknown>
+  ): boolean;
+  filter(user: RequestUser | undefined, action: string, modelName: string): SQL | undefined;
+  // Throws a 403 (AUTH003) naming the fields of the input the user may not write
+  authorizeWrite(
+    user: RequestUser | undefined,
+    action: string,
+    modelName: string,
+    input: Record<string, unknown>
+  ): unknown;
+  redact<T extends Record<string, unknown>>(
+    user: RequestUser | undefined,
+    modelName: string,
+    record: T
+  ): Partial<T>;
+}
+
+/**
+ * Options of the route plugins
+ */
+export interface RouteOptions {
+  db: Database;
+  authenticate?: preHandlerAsyncHookHandler; // rejects requests without a valid user
+  currentUser?: (request: FastifyRequest) => number | undefined; // id of the authenticated user
+  user?: (request: FastifyRequest) => RequestUser | undefined; // authenticated user and roles
+  policy?: Policy; // required by the routes of models with rules in auth.dsl
+  hashPassword?: (password: string) => Promise<string>; // required by the routes writing passwords
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  total_pages: number;
+}
+
+export interface ApiError {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+$ENVELOPE
+
+export const IdParams = z.object({ id: z.coerce.number().int().positive() });
+
+/**
+ * Escape the wildcards of a LIKE pattern
+ */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\\\%_]/g, (char) => \`\\\\\${char}\`);
+}
+
+function meta(request: FastifyRequest, pagination?: Pagination): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  if (ENVELOPE.metaFields.includes('request_id')) fields['request_id'] = request.id;
+  if (ENVELOPE.metaFields.includes('timestamp')) fields['timestamp'] = new Date().toISOString();
+  if (pagination && ENVELOPE.metaFields.includes('pagination')) fields['pagination'] = pagination;
+  return fields;
+}
+
+/**
+ * Send data wrapped in the success envelope
+ */
+export function sendData(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  statusCode: number,
+  data: unknown,
+  pagination?: Pagination
+): FastifyReply {
+  const body: Record<string, unknown> = {};
+  if (ENVELOPE.statusCode) body['status_code'] = statusCode;
+  body[ENVELOPE.data] = data;
+  const fields = meta(request, pagination);
+  if (Object.keys(fields).length > 0) body[ENVELOPE.meta] = fields;
+  return reply.status(statusCode).send(body);
+}
+
+/**
+ * Send an error wrapped in the error envelope
+ */
+export function sendError(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  statusCode: number,
+  error: ApiError,
+  fields?: Record<string, string[]>
+): FastifyReply {
+  const body: Record<string, unknown> = {};
+  if (ENVELOPE.errorStatusCode) body['status_code'] = statusCode;
+  body['error'] = Object.fromEntries(
+    Object.entries(error).filter(
+      ([key, value]) => value !== undefined && ENVELOPE.errorFields.includes(key)
+    )
+  );
+  if (fields && ENVELOPE.validationFields) body['fields'] = fields;
+  const metaFields = meta(request);
+  if (Object.keys(metaFields).length > 0) body[ENVELOPE.meta] = metaFields;
+  return reply.status(statusCode).send(body);
+}
+
+/**
+ * Send the issues of a failed validation (VAL000)
+ */
+export function sendValidationError(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  error: z.ZodError
+): FastifyReply {
+  const details = error.issues.map((issue) => ({
+    field: issue.path.join('.'),
+    message: issue.message,
+  }));
+  const fields: Record<string, string[]> = {};
+  for (const { field, message } of details) {
+    (fields[field] ??= []).push(message);
+  }
+  return sendError(
+    request,
+    reply,
+    400,
+    { code: 'VAL000', message: 'Validation failed', details },
+    fields
+  );
+}
+
+/**
+ * Send a 404 for a record that does not exist (RUNTIME006)
+ */
+export function sendNotFound(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  model: string
+): FastifyReply {
+  return sendError(request, reply, 404, { code: 'RUNTIME006', message: \`\${model} not found\` });
+}
+
+/**
+ * Send a 401 for a request without a valid user (AUTH001)
+ */
+export function sendUnauthenticated(request: FastifyRequest, reply: FastifyReply): FastifyReply {
+  return sendError(request, reply, 401, { code: 'AUTH001', message: 'Authentication required' });
+}
+
+/**
+ * Send a 403 for a request writing fields it may not (AUTH003)
+ */
+export function sendForbidden(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  action: string,
+  fields: string[]
+): FastifyReply {
+  return sendError(request, reply, 403, {
+    code: 'AUTH003',
+    message: \`Insufficient permissions to \${action} \${fields.join(', ')}\`,
+    details: { fields },
+  });
+}
+
+/**
+ * Send a 403 for a request the rules of auth.dsl deny (AUTH003)
+ */
+export function sendDenied(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  action: string,
+  model: string
+): FastifyReply {
+  return sendError(request, reply, 403, {
+    code: 'AUTH003',
+    message: \`Insufficient permissions to \${action} \${model}\`,
+  });
+}
+
+/**
+ * Hook letting in the users having one of some roles (AUTH003)
+ * Runs after the authenticate hook
+ */
+export function requireRoles(
+  user: RouteOptions['user'],
+  roles: string[]
+): preHandlerAsyncHookHandler {
+  return async (request, reply) => {
+    const granted = user?.(request)?.roles ?? [];
+    if (!roles.some((role) => granted.includes(role))) {
+      return sendError(request, reply, 403, {
+        code: 'AUTH003',
+        message: \`Insufficient permissions: requires role \${roles.join(' or ')}\`,
+      });
+    }
+  };
+}
+
+/**
+ * Policy of the plugin of a model with rules in auth.dsl
+ * @throws Error when the plugin options have none
+ */
+export function requirePolicy(policy: Policy | undefined, model: string): Policy {
+  if (!policy) {
+    throw new Error(\`The \${model} routes need the policy option: auth.dsl has rules for \${model}\`);
+  }
+  return policy;
+}
+
+/**
+ * Password hashing of the plugin of a model with a password
+ * @throws Error when the plugin options have none
+ */
+export function requirePasswordHash(
+  hashPassword: RouteOptions['hashPassword'],
+  model: string
+): (password: string) => Promise<string> {
+  if (!hashPassword) {
+    throw new Error(\`The \${model} routes need the hashPassword option: \${model} has a password\`);
+  }
+  return hashPassword;
+}
+
+/**
+ * Stand-in for the authenticate hook when none is configured
+ */
+export const rejectUnauthenticated: preHandlerAsyncHookHandler = async (request, reply) =>
+  sendUnauthenticated(request, reply);
+
+const CONSTRAINTS: Record<string, string> = {
+  '23505': 'UNIQUE',
+  '23503': 'FOREIGN KEY',
+  '23502': 'NOT NULL',
+  '23514': 'CHECK',
+};
+
+interface DatabaseError {
+  code: string;
+  constraint?: string;
+  column?: string;
+}
+
+function constraintViolation(error: unknown): DatabaseError | undefined {
+  for (let current = error; typeof current === 'object' && current !== null; ) {
+    const { code, cause } = current as { code?: unknown; cause?: unknown };
+    if (typeof code === 'string' && code in CONSTRAINTS) {
+      return current as DatabaseError;
+    }
+    current = cause;
+  }
+  return undefined;
+}
+
+/**
+ * Error handler of the route plugins
+ * Constraint violations become 409 (DB004), naming the constraint but not
+ * the conflicting values, client errors keep their status, anything else is
+ * logged and sent as 500 (RUNTIME003)
+ */
+export function handleError(
+  error: FastifyError,
+  request: FastifyRequest,
+  reply: FastifyReply
+): FastifyReply {
+  const violation = constraintViolation(error);
+  if (violation) {
+    const constraint = CONSTRAINTS[violation.code] ?? 'Database';
+    return sendError(request, reply, 409, {
+      code: 'DB004',
+      message: \`\${constraint} constraint violated: \${violation.constraint ?? 'unknown'}\`,
+      details: { constraint: violation.constraint, column: violation.column },
+    });
+  }
+
+  if (error.statusCode !== undefined && error.statusCode < 500) {
+    return sendError(request, reply, error.statusCode, { code: error.code, message: error.message });
+  }
+
+  request.log.error(error);
+  return sendError(request, reply, 500, {
+    code: 'RUNTIME003',
+    message: 'Route handler error',
+  });
+}
+`;
@@ -0,0 +1,19 @@
+/**
+ * DeclareLang Generators
+ * Generates application code from parsed DSL files
+ */
+
+export * from './types.js';
+export * from './naming.js';
+export * from './model-fields.js';
+export * from './envelope.js';
+export * from './versions.js';
+export * from './routes.js';
+export * from './validation-rules.js';
+export * from './dml.js';
+export * from './drizzle/index.js';
+export * from './zod/index.js';
+export * from './fastify/index.js';
+export * from './openapi/index.js';
+export * from './client/index.js';
+export * from './versioning/index.js';
@@ -0,0 +1,69 @@
+/**
+ * Fields of a model as the generated code sees them
+ * Besides the declared fields, every table has the implicit fields of the
+ * symbol table: a serial `id`, one `<model>_id` foreign key per `belongs to`
+ * relationship and `created_at` / `updated_at` timestamps. Declared fields
+ * with those names are left to the generated columns.
+ *
+ * A `password` field holds the bcrypt hash of the password of the users (see
+ * the authenticator of the runtime): routes write it hashed and never send
+ * it back.
+ */
+
+import {
+  FieldDefinition,
+  ModelSymbol,
+  RelationshipType,
+  SymbolTable,
+  foreignKeyName,
+  isFieldDefinition,
+  isRelationshipDefinition,
+} from '@declarelang/core';
+import { columnName } from './naming.js';
+
+/**
+ * Foreign key generated for a `belongs to` relationship
+ */
+export interface ForeignKey {
+  column: string; // e.g., "user_id"
+  target: ModelSymbol;
+}
+
+const GENERATED_COLUMNS = new Set(['id', 'created_at', 'updated_at']);
+
+/**
+ * Column of the password hash of a model
+ */
+export const PASSWORD_COLUMN = 'password';
+
+/**
+ * Foreign keys of the `belongs to` relationships of a model
+ * Unresolved targets are skipped (reported by the reference validator)
+ */
+export function foreignKeys(model: ModelSymbol, symbols: SymbolTable): ForeignKey[] {
+  const keys: ForeignKey[] = [];
+  for (const item of model.definition.items) {
+    if (!isRelationshipDefinition(item) || item.type !== RelationshipType.BELONGS_TO) continue;
+
+    const target = symbols.resolveModel(item.targetModel);
+    const column = target && foreignKeyName(target.definition.name.singular);
+    if (target && column && !keys.some((key) => key.column === column)) {
+      keys.push({ column, target });
+    }
+  }
+  return keys;
+}
+
+/**
+ * Declared fields of a model that get a column of their own, in order
+ */
+export function declaredFields(model: ModelSymbol, symbols: SymbolTable): FieldDefinition[] {
+  const reserved = new Set([
+    ...GENERATED_COLUMNS,
+    ...foreignKeys(model, symbols).map((key) => key.column),
+  ]);
+  return model.definition.items.filter(
+    (item): item is FieldDefinition =>
+      isFieldDefinition(item) && !reserved.has(columnName(item.name))
+  );
+}
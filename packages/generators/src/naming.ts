@@ -0,0 +1,53 @@
+/**
+ * Naming conventions of generated code
+ * Tables and columns are snake_case (users, blog_posts, created_at), table
+ * variables are camelCase plurals (users, blogPosts), types are PascalCase
+ * singulars (User, BlogPost), URL paths and file names are kebab-case plurals
+ * (/blog-posts, api/blog-posts.ts)
+ */
+
+import type { ModelDefinition } from '@declarelang/core';
+import { toCamelCase, toPascalCase, toSnakeCase } from '@declarelang/core';
+
+/**
+ * SQL table name of a model (e.g., "Categor[y|ies]" → "categories")
+ */
+export function tableName(model: ModelDefinition): string {
+  return toSnakeCase(model.name.plural);
+}
+
+/**
+ * Variable holding the table of a model (e.g., "BlogPost[s]" → "blogPosts")
+ */
+export function tableVariable(model: ModelDefinition): string {
+  return toCamelCase(model.name.plural);
+}
+
+/**
+ * Type name of a model (e.g., "BlogPost[s]" → "BlogPost")
+ */
+export function typeName(model: ModelDefinition): string {
+  return toPascalCase(model.name.singular);
+}
+
+/**
+ * SQL column name of a field (e.g., "published at" → "published_at")
+ */
+export function columnName(fieldName: string): string {
+  return toSnakeCase(fieldName);
+}
+
+/**
+ * URL path of the routes of a model (e.g., "BlogPost[s]" → "/blog-posts")
+ */
+export function routePath(model: ModelDefinition): string {
+  return `/${fileName(model)}`;
+}
+
+/**
+ * File name (without extension) of the modules generated per model
+ * (e.g., "BlogPost[s]" → "blog-posts")
+ */
+export function fileName(model: ModelDefinition): string {
+  return toSnakeCase(model.name.plural).replace(/_/g, '-');
+}
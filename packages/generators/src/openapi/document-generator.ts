@@ -0,0 +1,699 @@
+/**
+ * OpenAPI generator
+ * Emits openapi.json, an OpenAPI 3.1 description of the generated API
+ *
+ * - components.schemas: a response schema per model (Post, without the
+ *   password hash), its create and update inputs (CreatePostInput,
+ *   UpdatePostInput) with the limits of validation.dsl (minLength,
+ *   maxLength, pattern, format), and the envelope schemas (Meta,
+ *   Pagination, Error)
+ * - paths: one operation per generated route (routes.ts, dml.ts), with the
+ *   pagination and query parameters of api.dsl on list routes (pagination
+ *   only on the queries of dml.dsl without a `limited to`), and the
+ *   `include` parameter selecting computed fields on list and get routes
+ * - security: routes not granted to `anyone` in auth.dsl require a bearer
+ *   token; routes only granted to roles list them as the required roles, and
+ *   mutation routes are narrowed by the field rules (see dml.ts mutationAccess)
+ * - rate limits of api.dsl: `x-rate-limits` on the document (global limits)
+ *   and on the operations they apply to (model limits)
+ */
+
+import {
+  APIRateLimitRule,
+  FieldConstraint,
+  FieldDefinition,
+  FieldType,
+  FormatType,
+  ModelSymbol,
+  ProjectAST,
+  QueryParamFilterType,
+  RateLimitAction,
+  SymbolTable,
+  ValidationRule,
+  toCamelCase,
+  toPascalCase,
+} from '@declarelang/core';
+import { GeneratedFile } from '../types.js';
+import { columnName, routePath, typeName } from '../naming.js';
+import { PASSWORD_COLUMN, declaredFields, foreignKeys } from '../model-fields.js';
+import { Envelope, resolveEnvelope } from '../envelope.js';
+import { RouteAccess, RouteKind, listFilters, listSettings, routeAccess } from '../routes.js';
+import { fieldLimits, rulesByModel, rulesOf } from '../validation-rules.js';
+import {
+  ComputedField,
+  GivenParameter,
+  actionSegment,
+  modelComputed,
+  modelMutations,
+  modelQueries,
+  mutationAccess,
+  mutationParameters,
+  pagedQuery,
+  queryParameters,
+  reservedColumns,
+  usesCurrentUser,
+} from '../dml.js';
+
+/**
+ * JSON Schema (OpenAPI 3.1 dialect)
+ */
+type Schema = Record<string, unknown>;
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query';
+  required?: boolean;
+  description?: string;
+  style?: 'form'; // with explode: false, arrays are comma-separated
+  explode?: boolean;
+  schema: Schema;
+}
+
+interface Operation {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  parameters?: Parameter[];
+  requestBody?: { required: boolean; content: { 'application/json': { schema: Schema } } };
+  responses: Record<string, unknown>;
+  security?: Record<string, string[]>[];
+  'x-rate-limits'?: RateLimit[];
+}
+
+/**
+ * Rate limit as listed in `x-rate-limits`
+ */
+interface RateLimit {
+  action: RateLimitAction;
+  limit: number;
+  per: string; // minute, hour, day
+  scope: string; // user, ip_address, api_key
+}
+
+/**
+ * Options of the generated document
+ */
+export interface OpenAPIOptions {
+  title?: string; // default: "API"
+  version?: string; // default: the default API version, or "1.0.0"
+}
+
+const TYPES: Record<FieldType, Schema> = {
+  [FieldType.TEXT]: { type: 'string' },
+  [FieldType.LONG_TEXT]: { type: 'string' },
+  [FieldType.NUMBER]: { type: 'integer' },
+  [FieldType.DECIMAL]: { type: 'number' },
+  [FieldType.BOOLEAN]: { type: 'boolean' },
+  [FieldType.TIMESTAMP]: { type: 'string', format: 'date-time' },
+  [FieldType.JSON]: { type: 'object' },
+  [FieldType.UUID]: { type: 'string', format: 'uuid' },
+};
+
+const FORMATS: Record<FormatType, Schema> = {
+  [FormatType.VALID_EMAIL_FORMAT]: { format: 'email' },
+  [FormatType.VALID_URL]: { format: 'uri' },
+  [FormatType.ALPHANUMERIC]: { pattern: '^[A-Za-z0-9-]+$' },
+  [FormatType.LOWERCASE_ALPHANUMERIC_AND_DASHES]: { pattern: '^[a-z0-9-]+$' },
+};
+
+/**
+ * Rate limit actions of the routes they apply to; `requests` applies to all
+ */
+const RATE_LIMIT_ROUTES: Partial<Record<RateLimitAction, RouteKind[]>> = {
+  [RateLimitAction.READS]: ['list', 'get'],
+  [RateLimitAction.CREATES]: ['create'],
+  [RateLimitAction.UPDATES]: ['update'],
+  [RateLimitAction.DELETES]: ['delete'],
+};
+
+const ID_PARAMETER: Parameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'integer', minimum: 1 },
+};
+
+/**
+ * Generate the OpenAPI document of a project
+ *
+ * @param project - Combined project AST
+ * @param options - Title and version of the document
+ * @returns openapi.json
+ */
+export function generateOpenAPI(project: ProjectAST, options: OpenAPIOptions = {}): GeneratedFile {
+  const symbols = new SymbolTable(project.ddl);
+  const envelope = resolveEnvelope(project.api);
+  const rules = rulesByModel(symbols, project.validation);
+  const globalLimits = project.api.rateLimits.filter((rule) => !rule.modelName).map(rateLimit);
+
+  const schemas: Record<string, Schema> = {};
+  const paths: Record<string, Record<string, Operation>> = {};
+  for (const model of symbols.getModels()) {
+    Object.assign(
+      schemas,
+      modelSchemas(
+        model,
+        symbols,
+        rules.get(model) ?? [],
+        modelComputed(model, symbols, project.dml)
+      )
+    );
+
+    const context: OperationContext = {
+      model,
+      symbols,
+      project,
+      envelope,
+      access: routeAccess(model, symbols, project.auth),
+      limits: project.api.rateLimits.filter(
+        (rule) => rule.modelName && symbols.resolveModel(rule.modelName) === model
+      ),
+      throttled: globalLimits.length > 0,
+    };
+    for (const [path, operations] of modelPaths(context)) {
+      paths[path] = { ...paths[path], ...operations };
+    }
+  }
+  Object.assign(schemas, envelopeSchemas(envelope));
+
+  const secured = Object.values(paths).some((operations) =>
+    Object.values(operations).some((operation) => operation.security)
+  );
+  const document = {
+    openapi: '3.1.0',
+    info: {
+      title: options.title ?? 'API',
+      version: options.version ?? project.api.versioning?.defaultVersion ?? '1.0.0',
+    },
+    ...(globalLimits.length > 0 ? { 'x-rate-limits': globalLimits } : {}),
+    tags: symbols.getModels().map((model) => ({ name: typeName(model.definition) })),
+    paths,
+    components: {
+      schemas,
+      responses: errorResponses(),
+      ...(secured
+        ? {
+            securitySchemes: {
+              bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+            },
+          }
+        : {}),
+    },
+  };
+
+  return { path: 'openapi.json', content: `${JSON.stringify(document, null, 2)}\n` };
+}
+
+/**
+ * Response and input schemas of a model
+ */
+function modelSchemas(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  rules: ValidationRule[],
+  computed: ComputedField[]
+): Record<string, Schema> {
+  const type = typeName(model.definition);
+  const fields = declaredFields(model, symbols);
+  const keys = foreignKeys(model, symbols);
+  const returned = fields.filter((field) => columnName(field.name) !== PASSWORD_COLUMN);
+  const required = [
+    'id',
+    ...returned.map((field) => columnName(field.name)),
+    ...keys.map((key) => key.column),
+    'created_at',
+    'updated_at',
+  ];
+
+  const response: Record<string, Schema> = {
+    id: { type: 'integer' },
+    ...Object.fromEntries(
+      returned.map((field) => [
+        columnName(field.name),
+        field.constraints.includes(FieldConstraint.REQUIRED)
+          ? TYPES[field.type]
+          : nullable(TYPES[field.type]),
+      ])
+    ),
+    ...Object.fromEntries(keys.map((key) => [key.column, { type: ['integer', 'null'] }])),
+    created_at: TYPES[FieldType.TIMESTAMP],
+    updated_at: TYPES[FieldType.TIMESTAMP],
+    // Computed fields are only present when the request includes them
+    ...Object.fromEntries(
+      computed.map((field) => [
+        field.name,
+        {
+          ...(field.type === FieldType.BOOLEAN ? nullable(TYPES[field.type]) : TYPES[field.type]),
+          readOnly: true,
+        },
+      ])
+    ),
+  };
+
+  const input: Record<string, Schema> = {
+    ...Object.fromEntries(
+      fields.map((field) => [columnName(field.name), inputSchema(field, rulesOf(field, rules))])
+    ),
+    ...Object.fromEntries(keys.map((key) => [key.column, { type: 'integer' }])),
+  };
+  const requiredInput = fields
+    .filter(
+      (field) =>
+        field.type !== FieldType.BOOLEAN && !fieldLimits(field, rulesOf(field, rules)).optional
+    )
+    .map((field) => columnName(field.name));
+
+  return {
+    [type]: { type: 'object', properties: response, required },
+    [`Create${type}Input`]: {
+      type: 'object',
+      properties: input,
+      ...(requiredInput.length > 0 ? { required: requiredInput } : {}),
+    },
+    [`Update${type}Input`]: { type: 'object', properties: input },
+  };
+}
+
+/**
+ * Input schema of a field, with the limits of its validation rules
+ */
+function inputSchema(field: FieldDefinition, rules: ValidationRule[]): Schema {
+  const limits = fieldLimits(field, rules);
+  const patterns = [
+    ...limits.formats.flatMap((format) => {
+      const pattern = FORMATS[format]['pattern'];
+      return typeof pattern === 'string' ? [pattern] : [];
+    }),
+    ...limits.patterns,
+  ];
+  const formats = limits.formats.flatMap((format) => {
+    const name = FORMATS[format]['format'];
+    return typeof name === 'string' ? [name] : [];
+  });
+
+  return {
+    ...TYPES[field.type],
+    ...(formats[0] ? { format: formats[0] } : {}),
+    ...(limits.minLength !== undefined ? { minLength: limits.minLength } : {}),
+    ...(limits.maxLength !== undefined ? { maxLength: limits.maxLength } : {}),
+    ...(patterns.length === 1 ? { pattern: patterns[0] } : {}),
+    ...(patterns.length > 1 ? { allOf: patterns.map((pattern) => ({ pattern })) } : {}),
+    ...(field.type === FieldType.BOOLEAN ? { default: false } : {}),
+  };
+}
+
+/**
+ * What the operations of a model depend on
+ */
+interface OperationContext {
+  model: ModelSymbol;
+  symbols: SymbolTable;
+  project: ProjectAST;
+  envelope: Envelope;
+  access: Map<RouteKind, RouteAccess>;
+  limits: APIRateLimitRule[]; // rate limits of the model
+  throttled: boolean; // global rate limits apply
+}
+
+/**
+ * Operations of the routes of a model, by path
+ */
+function modelPaths(context: OperationContext): Map<string, Record<string, Operation>> {
+  const { model, symbols, project, envelope, access } = context;
+  const type = typeName(model.definition);
+  const plural = model.definition.name.plural;
+  const path = routePath(model.definition);
+  const ref = { $ref: `#/components/schemas/${type}` };
+  const paths = new Map<string, Record<string, Operation>>();
+  // Secured and rate-limited operations also respond with 401 and 429
+  const add = (route: string, method: string, operation: Operation) => {
+    const responses = {
+      ...operation.responses,
+      ...(operation.security ? { '401': { $ref: '#/components/responses/Unauthorized' } } : {}),
+      ...(context.throttled || operation['x-rate-limits']
+        ? { '429': { $ref: '#/components/responses/TooManyRequests' } }
+        : {}),
+    };
+    paths.set(route, { ...paths.get(route), [method]: { ...operation, responses } });
+  };
+
+  if (access.has('list')) {
+    add(path, 'get', {
+      ...operation(context, 'list', `list${toPascalCase(plural)}`, `List ${plural}`),
+      parameters: listParameters(context),
+      responses: {
+        '200': success(envelope, 'Paginated list', { type: 'array', items: ref }),
+        '400': { $ref: '#/components/responses/ValidationError' },
+      },
+    });
+  }
+  if (access.has('create')) {
+    add(path, 'post', {
+      ...operation(context, 'create', `create${type}`, `Create a ${type}`),
+      requestBody: body({ $ref: `#/components/schemas/Create${type}Input` }),
+      responses: {
+        '201': success(envelope, `Created ${type}`, ref),
+        '400': { $ref: '#/components/responses/ValidationError' },
+        '409': { $ref: '#/components/responses/Conflict' },
+      },
+    });
+  }
+  if (access.has('get')) {
+    const include = includeParameter(context);
+    add(`${path}/{id}`, 'get', {
+      ...operation(context, 'get', `get${type}`, `Get a ${type}`),
+      parameters: [ID_PARAMETER, ...include],
+      responses: {
+        '200': success(envelope, type, ref),
+        ...(include.length > 0
+          ? { '400': { $ref: '#/components/responses/ValidationError' } }
+          : {}),
+        '404': { $ref: '#/components/responses/NotFound' },
+      },
+    });
+  }
+  const reserved = reservedColumns(model, symbols, project.auth);
+  if (access.has('update')) {
+    add(`${path}/{id}`, 'patch', {
+      ...operation(context, 'update', `update${type}`, `Update a ${type}`),
+      parameters: [ID_PARAMETER],
+      requestBody: body({ $ref: `#/components/schemas/Update${type}Input` }),
+      responses: {
+        '200': success(envelope, `Updated ${type}`, ref),
+        '400': { $ref: '#/components/responses/ValidationError' },
+        ...(reserved.size > 0 ? { '403': { $ref: '#/components/responses/Forbidden' } } : {}),
+        '404': { $ref: '#/components/responses/NotFound' },
+        '409': { $ref: '#/components/responses/Conflict' },
+      },
+    });
+  }
+  if (access.has('delete')) {
+    add(`${path}/{id}`, 'delete', {
+      ...operation(context, 'delete', `delete${type}`, `Delete a ${type}`),
+      parameters: [ID_PARAMETER],
+      responses: {
+        '204': { description: `${type} deleted` },
+        '404': { $ref: '#/components/responses/NotFound' },
+      },
+    });
+  }
+
+  if (access.has('list')) {
+    for (const query of modelQueries(model, symbols, project.dml)) {
+      const parameters: Parameter[] = [
+        ...(pagedQuery(query) ? pagingParameters(context) : []),
+        ...queryParameters(query, model, symbols).map((parameter) => ({
+          name: parameter.name,
+          in: 'query' as const,
+          required: true,
+          schema: TYPES[parameter.type],
+        })),
+      ];
+      add(`${path}/${actionSegment(query.name)}`, 'get', {
+        ...operation(context, 'list', toCamelCase(query.name), query.originalName, {
+          currentUser: usesCurrentUser(query),
+        }),
+        ...(parameters.length > 0 ? { parameters } : {}),
+        responses: {
+          '200': success(envelope, query.originalName, { type: 'array', items: ref }),
+          ...(parameters.length > 0
+            ? { '400': { $ref: '#/components/responses/ValidationError' } }
+            : {}),
+        },
+      });
+    }
+  }
+
+  for (const mutation of modelMutations(model, symbols, project.dml)) {
+    const route = mutationAccess(mutation, model, symbols, project.auth, access);
+    if (route) {
+      const parameters = mutationParameters(mutation, model, symbols);
+      add(`${path}/{id}/${actionSegment(mutation.name)}`, 'post', {
+        ...operation(context, 'update', toCamelCase(mutation.name), mutation.originalName, {
+          currentUser: usesCurrentUser(mutation),
+          route,
+        }),
+        parameters: [ID_PARAMETER],
+        ...(parameters.length > 0 ? { requestBody: body(givenSchema(parameters)) } : {}),
+        responses: {
+          '200': success(envelope, `Updated ${type}`, ref),
+          ...(parameters.length > 0
+            ? { '400': { $ref: '#/components/responses/ValidationError' } }
+            : {}),
+          '404': { $ref: '#/components/responses/NotFound' },
+        },
+      });
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Common part of an operation: identity, security and rate limits
+ */
+function operation(
+  context: OperationContext,
+  kind: RouteKind,
+  operationId: string,
+  summary: string,
+  { currentUser = false, route }: { currentUser?: boolean; route?: RouteAccess } = {}
+): Pick<Operation, 'operationId' | 'summary' | 'tags' | 'security' | 'x-rate-limits'> {
+  const access = route ?? context.access.get(kind);
+  const limits = context.limits
+    .filter(
+      (rule) =>
+        rule.action === RateLimitAction.REQUESTS ||
+        RATE_LIMIT_ROUTES[rule.action]?.includes(kind) === true
+    )
+    .map(rateLimit);
+
+  return {
+    operationId,
+    summary,
+    tags: [typeName(context.model.definition)],
+    ...(access?.public === false || currentUser
+      ? { security: [{ bearerAuth: access?.roles ?? [] }] }
+      : {}),
+    ...(limits.length > 0 ? { 'x-rate-limits': limits } : {}),
+  };
+}
+
+/**
+ * Parameter selecting the computed fields of a model, if it has any
+ */
+function includeParameter({ model, symbols, project }: OperationContext): Parameter[] {
+  const computed = modelComputed(model, symbols, project.dml);
+  return computed.length > 0
+    ? [
+        {
+          name: 'include',
+          in: 'query',
+          description: 'Computed fields to add, comma-separated',
+          style: 'form',
+          explode: false,
+          schema: { type: 'array', items: { enum: computed.map((field) => field.name) } },
+        },
+      ]
+    : [];
+}
+
+/**
+ * Parameters of a paged route: page and limit
+ */
+function pagingParameters({ model, symbols, project }: OperationContext): Parameter[] {
+  const settings = listSettings(model, symbols, project.api);
+  return [
+    { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1, default: 1 } },
+    {
+      name: 'limit',
+      in: 'query',
+      description: `Values above ${settings.maxLimit} are reduced to ${settings.maxLimit}`,
+      schema: { type: 'integer', minimum: 1, default: settings.defaultLimit },
+    },
+  ];
+}
+
+/**
+ * Parameters of a list route: pagination, sorting and filters
+ */
+function listParameters(context: OperationContext): Parameter[] {
+  const { model, symbols, project } = context;
+  const settings = listSettings(model, symbols, project.api);
+  const parameters: Parameter[] = [
+    ...pagingParameters(context),
+    { name: 'sort', in: 'query', schema: { enum: settings.sortFields, default: settings.sort } },
+    { name: 'order', in: 'query', schema: { enum: ['asc', 'desc'], default: settings.order } },
+  ];
+
+  for (const param of listFilters(model, symbols, project.api)) {
+    const column = columnName(param.field);
+    switch (param.filterType) {
+      case QueryParamFilterType.BOOLEAN:
+        parameters.push({ name: column, in: 'query', schema: { type: 'boolean' } });
+        break;
+      case QueryParamFilterType.NUMBER:
+        parameters.push({ name: column, in: 'query', schema: { type: 'number' } });
+        break;
+      case QueryParamFilterType.TEXT:
+        parameters.push({ name: column, in: 'query', schema: { type: 'string' } });
+        break;
+      case QueryParamFilterType.DATE_RANGE:
+      case QueryParamFilterType.NUMBER_RANGE: {
+        const schema =
+          param.filterType === QueryParamFilterType.DATE_RANGE
+            ? TYPES[FieldType.TIMESTAMP]
+            : { type: 'number' };
+        parameters.push(
+          { name: `${column}_from`, in: 'query', description: 'Inclusive lower bound', schema },
+          { name: `${column}_to`, in: 'query', description: 'Inclusive upper bound', schema }
+        );
+        break;
+      }
+      case QueryParamFilterType.TEXT_CONTAINS:
+      case QueryParamFilterType.TEXT_STARTS_WITH:
+      case QueryParamFilterType.TEXT_ENDS_WITH:
+        parameters.push({
+          name: column,
+          in: 'query',
+          description: `Case-insensitive, ${param.filterType.replace('text_', '').replace(/_/g, ' ')}`,
+          schema: { type: 'string' },
+        });
+        break;
+    }
+  }
+  return [...parameters, ...includeParameter(context)];
+}
+
+/**
+ * Body schema of the values a mutation takes from the caller
+ */
+function givenSchema(parameters: GivenParameter[]): Schema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      parameters.map((parameter) => [parameter.name, TYPES[parameter.type]])
+    ),
+    required: parameters.map((parameter) => parameter.name),
+  };
+}
+
+/**
+ * Success response with the data wrapped in the envelope
+ */
+function success(envelope: Envelope, description: string, data: Schema): unknown {
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            ...(envelope.statusCode ? { status_code: { type: 'integer' } } : {}),
+            [envelope.data]: data,
+            ...(envelope.metaFields.length > 0
+              ? { [envelope.meta]: { $ref: '#/components/schemas/Meta' } }
+              : {}),
+          },
+          required: [envelope.data],
+        },
+      },
+    },
+  };
+}
+
+function body(schema: Schema): NonNullable<Operation['requestBody']> {
+  return { required: true, content: { 'application/json': { schema } } };
+}
+
+/**
+ * Schemas of the envelope: Meta, Pagination and Error
+ */
+function envelopeSchemas(envelope: Envelope): Record<string, Schema> {
+  const META: Record<string, Schema> = {
+    request_id: { type: 'string' },
+    timestamp: TYPES[FieldType.TIMESTAMP],
+    pagination: { $ref: '#/components/schemas/Pagination' },
+  };
+  const ERROR: Record<string, Schema> = {
+    code: { type: 'string', examples: ['VAL000'] },
+    message: { type: 'string' },
+    details: {},
+  };
+  const errorFields = envelope.errorFields.filter((field) => field in ERROR);
+
+  return {
+    ...(envelope.metaFields.length > 0
+      ? {
+          Meta: {
+            type: 'object',
+            properties: Object.fromEntries(
+              envelope.metaFields
+                .filter((field) => field in META)
+                .map((field) => [field, META[field]])
+            ),
+          },
+        }
+      : {}),
+    Pagination: {
+      type: 'object',
+      properties: {
+        page: { type: 'integer' },
+        limit: { type: 'integer' },
+        total: { type: 'integer' },
+        total_pages: { type: 'integer' },
+      },
+      required: ['page', 'limit', 'total', 'total_pages'],
+    },
+    Error: {
+      type: 'object',
+      properties: {
+        ...(envelope.errorStatusCode ? { status_code: { type: 'integer' } } : {}),
+        error: {
+          type: 'object',
+          properties: Object.fromEntries(errorFields.map((field) => [field, ERROR[field]])),
+          required: errorFields.filter((field) => field !== 'details'),
+        },
+        ...(envelope.validationFields
+          ? {
+              fields: {
+                type: 'object',
+                description: 'Validation messages per field',
+                additionalProperties: { type: 'array', items: { type: 'string' } },
+              },
+            }
+          : {}),
+        ...(envelope.metaFields.length > 0
+          ? { [envelope.meta]: { $ref: '#/components/schemas/Meta' } }
+          : {}),
+      },
+      required: ['error'],
+    },
+  };
+}
+
+/**
+ * Error responses shared by the operations (error-code-registry)
+ */
+function errorResponses(): Record<string, unknown> {
+  const error = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+  });
+  return {
+    ValidationError: error('Validation failed (VAL000)'),
+    Unauthorized: error('Authentication required (AUTH001)'),
+    Forbidden: error('Insufficient permissions (AUTH003)'),
+    NotFound: error('Record not found (RUNTIME006)'),
+    Conflict: error('Constraint violated (DB004)'),
+    TooManyRequests: error('Rate limit exceeded (VAL010)'),
+  };
+}
+
+function rateLimit(rule: APIRateLimitRule): RateLimit {
+  return { action: rule.action, limit: rule.count, per: rule.timeUnit, scope: rule.scope };
+}
+
+function nullable(schema: Schema): Schema {
+  return { ...schema, type: [schema['type'], 'null'] };
+}
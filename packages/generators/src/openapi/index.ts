@@ -0,0 +1,5 @@
+/**
+ * OpenAPI generators
+ */
+
+export * from './document-generator.js';
@@ -0,0 +1,195 @@
+/**
+ * Routes generated per model
+ * Every model gets list, get, create, update and delete routes under its
+ * plural path, unless auth.dsl has rules for it: then only the actions the
+ * rules grant get a route, public when granted to `anyone` and behind
+ * authentication otherwise.
+ *
+ * List routes are paginated with the pagination of api.dsl (model-specific,
+ * falling back to the global one, then to the defaults below) and filtered by
+ * its query parameters.
+ */
+
+import {
+  APIFile,
+  AUTHFile,
+  CRUDAction,
+  FieldType,
+  ModelSymbol,
+  QueryParam,
+  PermissionRule,
+  SortDirection,
+  SubjectType,
+  SymbolTable,
+} from '@declarelang/core';
+import { columnName } from './naming.js';
+import { PASSWORD_COLUMN, declaredFields, foreignKeys } from './model-fields.js';
+
+/**
+ * Route of a model
+ */
+export type RouteKind = 'list' | 'get' | 'create' | 'update' | 'delete';
+
+/**
+ * Who may call a route
+ */
+export interface RouteAccess {
+  public: boolean; // granted to anyone
+  roles: string[]; // when only granted to roles, the roles that may call it
+}
+
+export const ROUTE_KINDS: readonly RouteKind[] = ['list', 'get', 'create', 'update', 'delete'];
+
+const ROUTE_ACTIONS: Record<RouteKind, CRUDAction[]> = {
+  list: [CRUDAction.READ],
+  get: [CRUDAction.READ],
+  create: [CRUDAction.CREATE],
+  update: [CRUDAction.EDIT, CRUDAction.UPDATE],
+  delete: [CRUDAction.DELETE],
+};
+
+/**
+ * Pagination of the list route of a model
+ */
+export interface ListSettings {
+  defaultLimit: number;
+  maxLimit: number;
+  sort: string; // default sort column
+  order: 'asc' | 'desc'; // default sort order
+  sortFields: string[]; // columns the list can be sorted by, default first
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const DEFAULT_SORT = 'created_at';
+
+/**
+ * Rules of auth.dsl for a model, empty when it has none
+ *
+ * @param model - Model the rules are for
+ * @param symbols - Symbol table of the DDL file
+ * @param auth - Parsed AUTH file, if the project has one
+ */
+export function modelPermissions(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  auth: AUTHFile | undefined
+): PermissionRule[] {
+  return (auth?.modelRules ?? [])
+    .filter((rules) => symbols.resolveModel(rules.modelName) === model)
+    .flatMap((rules) => rules.permissions);
+}
+
+/**
+ * Access to each route of a model; routes missing from the map are not generated
+ *
+ * @param model - Model the routes belong to
+ * @param symbols - Symbol table of the DDL file
+ * @param auth - Parsed AUTH file, if the project has one
+ */
+export function routeAccess(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  auth: AUTHFile | undefined
+): Map<RouteKind, RouteAccess> {
+  const permissions = modelPermissions(model, symbols, auth);
+  if (permissions.length === 0) {
+    return new Map(ROUTE_KINDS.map((kind) => [kind, { public: true, roles: [] }]));
+  }
+
+  const access = new Map<RouteKind, RouteAccess>();
+  for (const kind of ROUTE_KINDS) {
+    const subjects = permissions
+      .filter((permission) => ROUTE_ACTIONS[kind].includes(permission.action))
+      .map((permission) => permission.subject);
+    if (subjects.length === 0) continue;
+
+    const roles = subjects.map((subject) =>
+      subject.type === SubjectType.ROLE ? subject.roleName : undefined
+    );
+    access.set(kind, {
+      public: subjects.some((subject) => subject.type === SubjectType.ANYONE),
+      roles: roles.includes(undefined) ? [] : [...new Set(roles as string[])],
+    });
+  }
+  return access;
+}
+
+/**
+ * Columns of the table of a model with their field types, in table order
+ */
+export function modelColumns(model: ModelSymbol, symbols: SymbolTable): Map<string, FieldType> {
+  return new Map<string, FieldType>([
+    ['id', FieldType.NUMBER],
+    ...declaredFields(model, symbols).map((field): [string, FieldType] => [
+      columnName(field.name),
+      field.type,
+    ]),
+    ...foreignKeys(model, symbols).map((key): [string, FieldType] => [
+      key.column,
+      FieldType.NUMBER,
+    ]),
+    ['created_at', FieldType.TIMESTAMP],
+    ['updated_at', FieldType.TIMESTAMP],
+  ]);
+}
+
+/**
+ * Columns of the table of a model sent back to clients, in table order: all
+ * but the password hash
+ */
+export function responseColumns(model: ModelSymbol, symbols: SymbolTable): Map<string, FieldType> {
+  const columns = modelColumns(model, symbols);
+  columns.delete(PASSWORD_COLUMN);
+  return columns;
+}
+
+/**
+ * Pagination of the list route of a model
+ * Sort fields that are not columns sent back to clients are dropped
+ */
+export function listSettings(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  api: APIFile | undefined
+): ListSettings {
+  const configs = api?.pagination ?? [];
+  const own = configs.find(
+    (config) => config.modelName && symbols.resolveModel(config.modelName) === model
+  );
+  const global = configs.find((config) => !config.modelName);
+  const columns = responseColumns(model, symbols);
+
+  const defaultSort = own?.defaultSort ?? global?.defaultSort;
+  const sort = columnName(defaultSort?.field ?? DEFAULT_SORT);
+  const allowed = own?.allowedSortFields ?? global?.allowedSortFields ?? [...columns.keys()];
+  const sortFields = [...new Set([sort, ...allowed.map(columnName)])].filter((column) =>
+    columns.has(column)
+  );
+
+  const direction = defaultSort?.direction ?? SortDirection.DESCENDING;
+  return {
+    defaultLimit: own?.defaultLimit ?? global?.defaultLimit ?? DEFAULT_LIMIT,
+    maxLimit: own?.maxLimit ?? global?.maxLimit ?? MAX_LIMIT,
+    sort: sortFields[0] ?? 'id',
+    order:
+      direction === SortDirection.ASCENDING || direction === SortDirection.ASC ? 'asc' : 'desc',
+    sortFields: sortFields.length > 0 ? sortFields : ['id'],
+  };
+}
+
+/**
+ * Query parameter filters of the list route of a model
+ * Filters on fields that are not columns sent back to clients are skipped
+ */
+export function listFilters(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  api: APIFile | undefined
+): QueryParam[] {
+  const columns = responseColumns(model, symbols);
+  return (api?.queryParams ?? [])
+    .filter((definition) => symbols.resolveModel(definition.modelName) === model)
+    .flatMap((definition) => definition.params)
+    .filter((param) => columns.has(columnName(param.field)));
+}
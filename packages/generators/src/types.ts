@@ -0,0 +1,11 @@
+/**
+ * Shared types for DeclareLang generators
+ */
+
+/**
+ * A file produced by a generator
+ */
+export interface GeneratedFile {
+  path: string; // relative to the output directory (e.g., "schema/drizzle.ts")
+  content: string;
+}
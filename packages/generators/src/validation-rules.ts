@@ -0,0 +1,104 @@
+/**
+ * Validation rules of the fields of a model
+ * Collects the rules of validation.dsl that apply to each field and reduces
+ * the ones that constrain single values (lengths, formats, patterns) to
+ * limits shared by the Zod and OpenAPI generators
+ */
+
+import {
+  FieldConstraint,
+  FieldDefinition,
+  FieldType,
+  FormatType,
+  ModelSymbol,
+  SymbolTable,
+  VALIDATIONFile,
+  ValidationRule,
+} from '@declarelang/core';
+import { columnName } from './naming.js';
+
+/**
+ * Limits on the input value of a field
+ */
+export interface FieldLimits {
+  minLength?: number;
+  maxLength?: number;
+  formats: FormatType[];
+  patterns: string[]; // regular expressions of `match "<pattern>"`
+  optional: boolean; // not required, or only validated "if provided"
+}
+
+export const TEXT_MAX_LENGTH = 255; // VARCHAR(255)
+
+/**
+ * Validation rules grouped by the model they apply to
+ * Rules of unknown models are skipped (reported by the reference validator)
+ */
+export function rulesByModel(
+  symbols: SymbolTable,
+  validation: VALIDATIONFile | undefined
+): Map<ModelSymbol, ValidationRule[]> {
+  const rules = new Map<ModelSymbol, ValidationRule[]>();
+  for (const definition of validation?.validations ?? []) {
+    const model = symbols.resolveModel(definition.modelName);
+    if (model) {
+      rules.set(model, [...(rules.get(model) ?? []), ...definition.rules]);
+    }
+  }
+  return rules;
+}
+
+/**
+ * Rules of a model that apply to a field
+ */
+export function rulesOf(field: FieldDefinition, rules: ValidationRule[]): ValidationRule[] {
+  return rules.filter((rule) => columnName(rule.field) === columnName(field.name));
+}
+
+/**
+ * Limits on the input value of a field
+ * Lengths and patterns only apply to text fields; when several rules set a
+ * bound, the strictest one wins
+ *
+ * @param field - Field definition
+ * @param rules - Rules that apply to the field
+ */
+export function fieldLimits(field: FieldDefinition, rules: ValidationRule[]): FieldLimits {
+  const isString = field.type === FieldType.TEXT || field.type === FieldType.LONG_TEXT;
+  const minimums: number[] = [];
+  const maximums = field.type === FieldType.TEXT ? [TEXT_MAX_LENGTH] : [];
+  const formats: FormatType[] = [];
+  const patterns: string[] = [];
+
+  for (const { constraint } of rules) {
+    switch (constraint.type) {
+      case 'between':
+        minimums.push(constraint.min);
+        maximums.push(constraint.max);
+        break;
+      case 'at_least':
+        minimums.push(constraint.value);
+        break;
+      case 'at_most':
+        maximums.push(constraint.value);
+        break;
+      case 'format':
+        formats.push(constraint.formatType);
+        break;
+      case 'match':
+        patterns.push(constraint.pattern);
+        break;
+    }
+  }
+
+  const ifProvided = rules.some(
+    ({ constraint }) => 'conditional' in constraint && constraint.conditional === 'if provided'
+  );
+  return {
+    minLength: isString && minimums.length > 0 ? Math.max(...minimums) : undefined,
+    maxLength: isString && maximums.length > 0 ? Math.min(...maximums) : undefined,
+    formats: isString ? [...new Set(formats)] : [],
+    patterns: isString ? [...new Set(patterns)] : [],
+    optional: !field.constraints.includes(FieldConstraint.REQUIRED) || ifProvided,
+  };
+}
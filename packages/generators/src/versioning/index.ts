@@ -0,0 +1,5 @@
+/**
+ * API version snapshots
+ */
+
+export * from './snapshot-generator.js';
@@ -0,0 +1,197 @@
+/**
+ * Version snapshot generator
+ * Freezes the current version of the API in generated/<version>/: its DDL
+ * (ddl.dsl, as written) and its response shapes (openapi.json, see
+ * openapi/document-generator.ts). Once the version format of api.dsl moves
+ * on (v1 → v2), routes keep serving the frozen versions (see versions.ts),
+ * and checkVersionSnapshot reports the changes of the schema that would
+ * break their clients (GEN011, the route generator refuses to generate them):
+ * - a route removed
+ * - a response field removed (with the new fields of the same type, when
+ *   the field looks renamed) or of another type, or that may now be null
+ * - a create input field that is now required
+ */
+
+import { ProjectAST, printDDL } from '@declarelang/core';
+import { GeneratedFile } from '../types.js';
+import { generateOpenAPI } from '../openapi/document-generator.js';
+import { resolveVersions } from '../versions.js';
+
+/**
+ * JSON Schema of an OpenAPI document
+ */
+type Schema = Record<string, unknown>;
+
+/**
+ * Parts of an OpenAPI document the compatibility check reads
+ */
+export interface OpenAPIDocument {
+  paths?: Record<string, Record<string, unknown>>;
+  components?: { schemas?: Record<string, Schema> };
+}
+
+/**
+ * Frozen version, as read back from generated/<version>/
+ */
+export interface VersionSnapshot {
+  version: string; // e.g., "v1"
+  openapi: OpenAPIDocument; // contents of openapi.json
+}
+
+/**
+ * Change of the schema breaking the clients of a frozen version
+ */
+export interface BreakingChange {
+  code: 'GEN011';
+  version: string;
+  location: string; // route ("DELETE /posts/{id}") or field ("Post.title")
+  message: string;
+}
+
+/**
+ * Frozen versions a project breaks the clients of (GEN011)
+ */
+export class VersionSnapshotError extends Error {
+  readonly code = 'GEN011';
+
+  constructor(public changes: BreakingChange[]) {
+    super(
+      [
+        'Breaking changes for the clients of frozen API versions:',
+        ...changes.map(({ version, location, message }) => `- ${version} ${location}: ${message}`),
+      ].join('\n')
+    );
+    this.name = 'VersionSnapshotError';
+  }
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'patch'];
+
+/**
+ * Generate the snapshot of the current version of a project
+ *
+ * @param project - Combined project AST
+ * @returns <version>/ddl.dsl and <version>/openapi.json
+ */
+export function generateVersionSnapshot(project: ProjectAST): GeneratedFile[] {
+  const version = resolveVersions(project.api)?.current ?? 'v1';
+  const ddl = project.sources.ddl.exists ? project.sources.ddl.source : printDDL(project.ddl);
+  const openapi = generateOpenAPI(project, { version });
+  return [
+    { path: `${version}/ddl.dsl`, content: ddl },
+    { path: `${version}/${openapi.path}`, content: openapi.content },
+  ];
+}
+
+/**
+ * Read back a frozen version from generated/<version>/
+ *
+ * @param version - Frozen version (e.g., "v1")
+ * @param openapi - Contents of generated/<version>/openapi.json
+ * @returns The snapshot of the version
+ */
+export function readVersionSnapshot(version: string, openapi: string): VersionSnapshot {
+  return { version, openapi: JSON.parse(openapi) as OpenAPIDocument };
+}
+
+/**
+ * Check a project against the versions it still serves
+ *
+ * @param snapshots - Frozen versions
+ * @param project - Combined project AST of the current version
+ * @throws VersionSnapshotError when the project breaks the clients of one
+ */
+export function assertVersionSnapshots(snapshots: VersionSnapshot[], project: ProjectAST): void {
+  const changes = snapshots.flatMap((snapshot) => checkVersionSnapshot(snapshot, project));
+  if (changes.length > 0) {
+    throw new VersionSnapshotError(changes);
+  }
+}
+
+/**
+ * Changes of a project breaking the clients of a frozen version
+ *
+ * @param snapshot - Frozen version
+ * @param project - Combined project AST of the current version
+ * @returns The breaking changes, in document order
+ */
+export function checkVersionSnapshot(
+  snapshot: VersionSnapshot,
+  project: ProjectAST
+): BreakingChange[] {
+  const current = JSON.parse(generateOpenAPI(project).content) as OpenAPIDocument;
+  const changes: BreakingChange[] = [];
+  const report = (location: string, message: string) =>
+    changes.push({ code: 'GEN011', version: snapshot.version, location, message });
+
+  for (const [path, operations] of Object.entries(snapshot.openapi.paths ?? {})) {
+    for (const method of Object.keys(operations).filter((key) => HTTP_METHODS.includes(key))) {
+      if (!current.paths?.[path]?.[method]) {
+        report(`${method.toUpperCase()} ${path}`, 'route was removed');
+      }
+    }
+  }
+
+  const schemas = current.components?.schemas ?? {};
+  for (const [name, previous] of Object.entries(snapshot.openapi.components?.schemas ?? {})) {
+    // Update inputs only have optional fields; fields removed from inputs are
+    // dropped from the bodies of old clients
+    if (name.startsWith('Update') && name.endsWith('Input')) continue;
+    const schema = schemas[name];
+    if (!schema) {
+      if (!name.endsWith('Input')) report(name, 'response schema was removed');
+      continue;
+    }
+    if (name.endsWith('Input')) {
+      const required = new Set(requiredOf(previous));
+      for (const field of requiredOf(schema).filter((field) => !required.has(field))) {
+        report(`${name}.${field}`, 'field is now required');
+      }
+      continue;
+    }
+
+    const properties = propertiesOf(schema);
+    const previousProperties = propertiesOf(previous);
+    const added = Object.entries(properties).filter(([field]) => !(field in previousProperties));
+    for (const [field, before] of Object.entries(previousProperties)) {
+      const after = properties[field];
+      if (!after) {
+        const renamed = added
+          .filter(([, other]) => typeOf(other) === typeOf(before))
+          .map(([other]) => other);
+        report(
+          `${name}.${field}`,
+          renamed.length > 0
+            ? `field was removed (renamed to ${renamed.join(' or ')}?)`
+            : 'field was removed'
+        );
+      } else if (typeOf(after) !== typeOf(before)) {
+        report(`${name}.${field}`, `type changed from ${typeOf(before)} to ${typeOf(after)}`);
+      } else if (nullable(after) && !nullable(before)) {
+        report(`${name}.${field}`, 'field may now be null');
+      }
+    }
+  }
+  return changes;
+}
+
+function propertiesOf(schema: Schema): Record<string, Schema> {
+  return (schema['properties'] as Record<string, Schema> | undefined) ?? {};
+}
+
+function requiredOf(schema: Schema): string[] {
+  return (schema['required'] as string[] | undefined) ?? [];
+}
+
+/**
+ * Type of a property, without null (e.g., "string", "string (date-time)")
+ */
+function typeOf(schema: Schema): string {
+  const type = [schema['type']].flat().filter((value) => value !== 'null');
+  const format = typeof schema['format'] === 'string' ? ` (${schema['format']})` : '';
+  return `${type.join(' | ')}${format}`;
+}
+
+function nullable(schema: Schema): boolean {
+  return [schema['type']].flat().includes('null');
+}
@@ -0,0 +1,46 @@
+/**
+ * API versions of the generated API
+ * Resolved from the "API versioning" section of api.dsl: the version format
+ * names the version being generated (v2), and clients pick a version with
+ * the URL prefix (/v2/posts) or the version header (X-API-Version: v2) of
+ * unprefixed paths, which falls back to the default version. Versions frozen
+ * in generated/<version>/ (see versioning/snapshot-generator.ts) stay served
+ * by the same routes, as long as the current schema is compatible with them.
+ * Without the section, routes are not versioned.
+ */
+
+import type { APIFile } from '@declarelang/core';
+
+/**
+ * Versioning settings resolved from the API file
+ */
+export interface Versions {
+  current: string; // version being generated (e.g., "v2")
+  served: string[]; // frozen versions, then the current one
+  header: string; // e.g., "X-API-Version"
+  defaultVersion: string; // version of requests without prefix nor header
+}
+
+const DEFAULT_VERSION = 'v1';
+const DEFAULT_HEADER = 'X-API-Version';
+
+/**
+ * Resolve the versions of an API file, undefined when it does not version
+ * its routes
+ *
+ * @param frozen - Versions frozen in generated/<version>/
+ */
+export function resolveVersions(
+  api: APIFile | undefined,
+  frozen: string[] = []
+): Versions | undefined {
+  const versioning = api?.versioning;
+  if (!versioning) return undefined;
+  const current = versioning.versionFormat ?? versioning.defaultVersion ?? DEFAULT_VERSION;
+  return {
+    current,
+    served: [...frozen.filter((version) => version !== current), current],
+    header: versioning.header ?? DEFAULT_HEADER,
+    defaultVersion: versioning.defaultVersion ?? current,
+  };
+}
@@ -0,0 +1,5 @@
+/**
+ * Zod schema generators
+ */
+
+export * from './schema-generator.js';
@@ -0,0 +1,271 @@
+/**
+ * Zod schema generator
+ * Emits middleware/validation.ts with Create, Update and Response schemas per model
+ *
+ * Base types come from the DDL field definitions (type-mapping-spec); the
+ * rules of validation.dsl are layered on top:
+ * - `between` / `at least` / `at most` characters → .min() / .max()
+ * - `valid email format` / `valid url` → .email() / .url()
+ * - alphanumeric formats and `match "<pattern>"` → .regex()
+ * - `if provided` → the field is optional
+ * - `exist when` / `be empty when` → .superRefine() checks
+ *
+ * Rules that need the database or word lists (unique within, in list,
+ * contain) are not expressed in the schemas. Update schemas make every field
+ * optional; Response schemas describe rows as stored, with the generated id,
+ * foreign keys and timestamps, plus the computed fields of dml.dsl as
+ * optional fields (they are only selected on request), but without the
+ * password hash.
+ */
+
+import {
+  ComparisonOperator,
+  Condition,
+  DDLFile,
+  DMLFile,
+  FieldConstraint,
+  FieldDefinition,
+  FieldType,
+  FormatType,
+  ModelSymbol,
+  SymbolTable,
+  VALIDATIONFile,
+  ValidationRule,
+} from '@declarelang/core';
+import { GeneratedFile } from '../types.js';
+import { columnName, typeName } from '../naming.js';
+import { PASSWORD_COLUMN, declaredFields, foreignKeys } from '../model-fields.js';
+import { fieldLimits, rulesByModel, rulesOf } from '../validation-rules.js';
+import { ComputedField, modelComputed } from '../dml.js';
+
+/**
+ * Zod type of each field type (type-mapping-spec)
+ * Timestamps are coerced on input, as JSON bodies carry them as strings
+ */
+const INPUT_TYPES: Record<FieldType, string> = {
+  [FieldType.TEXT]: 'z.string()',
+  [FieldType.LONG_TEXT]: 'z.string()',
+  [FieldType.NUMBER]: 'z.number().int()',
+  [FieldType.DECIMAL]: 'z.number()',
+  [FieldType.BOOLEAN]: 'z.boolean()',
+  [FieldType.TIMESTAMP]: 'z.coerce.date()',
+  [FieldType.JSON]: 'z.record(z.unknown())',
+  [FieldType.UUID]: 'z.string().uuid()',
+};
+
+const RESPONSE_TYPES: Record<FieldType, string> = {
+  ...INPUT_TYPES,
+  [FieldType.TIMESTAMP]: 'z.date()',
+};
+
+const FORMATS: Record<FormatType, string> = {
+  [FormatType.VALID_EMAIL_FORMAT]: '.email()',
+  [FormatType.VALID_URL]: '.url()',
+  [FormatType.ALPHANUMERIC]: '.regex(/^[A-Za-z0-9-]+$/)', // "alphanumeric and dashes only" included
+  [FormatType.LOWERCASE_ALPHANUMERIC_AND_DASHES]: '.regex(/^[a-z0-9-]+$/)',
+};
+
+/**
+ * Generate the Zod schemas of the models of a DDL file
+ *
+ * @param ddl - Parsed DDL file
+ * @param validation - Parsed VALIDATION file, if the project has one
+ * @param dml - Parsed DML file, if the project has one
+ * @returns middleware/validation.ts with CreateXSchema, UpdateXSchema and XResponseSchema per model
+ */
+export function generateZodSchemas(
+  ddl: DDLFile,
+  validation?: VALIDATIONFile,
+  dml?: DMLFile
+): GeneratedFile {
+  const symbols = new SymbolTable(ddl);
+  const rules = rulesByModel(symbols, validation);
+  const models = symbols
+    .getModels()
+    .map((model) =>
+      printModel(model, symbols, rules.get(model) ?? [], modelComputed(model, symbols, dml))
+    );
+
+  const content = [
+    '/**\n * Zod schemas\n * Generated by DeclareLang from ddl.dsl, dml.dsl and validation.dsl - do not edit\n */',
+    "import { z } from 'zod';",
+    ...(models.some((model) => model.includes('isEmpty('))
+      ? [
+          "const isEmpty = (value: unknown): boolean =>\n  value === undefined || value === null || value === '';",
+        ]
+      : []),
+    ...models,
+  ].join('\n\n');
+
+  return { path: 'middleware/validation.ts', content: `${content}\n` };
+}
+
+/**
+ * Print the schemas and inferred types of a model
+ */
+function printModel(
+  model: ModelSymbol,
+  symbols: SymbolTable,
+  rules: ValidationRule[],
+  computed: ComputedField[]
+): string {
+  const type = typeName(model.definition);
+  const fields = declaredFields(model, symbols);
+  const keys = foreignKeys(model, symbols);
+  const columns = new Set(fields.map((field) => columnName(field.name)));
+
+  const input = [
+    ...fields.map(
+      (field) => `${columnName(field.name)}: ${printInput(field, rulesOf(field, rules))},`
+    ),
+    ...keys.map((key) => `${key.column}: z.number().int().optional(),`),
+  ];
+  const response = [
+    'id: z.number().int(),',
+    ...fields
+      .filter((field) => columnName(field.name) !== PASSWORD_COLUMN)
+      .map((field) => `${columnName(field.name)}: ${printResponse(field)},`),
+    ...keys.map((key) => `${key.column}: z.number().int().nullable(),`),
+    'created_at: z.date(),',
+    'updated_at: z.date(),',
+    ...computed.map((field) => `${field.name}: ${printComputed(field)},`),
+  ];
+
+  const checks = rules
+    .map((rule) => printCheck(rule, columns))
+    .filter((check): check is string => check !== undefined);
+
+  const blocks: string[] = [];
+  if (checks.length === 0) {
+    blocks.push(
+      `export const Create${type}Schema = ${printObject(input)};`,
+      `export const Update${type}Schema = Create${type}Schema.partial();`
+    );
+  } else {
+    blocks.push(
+      `const ${type}Fields = ${printObject(input)};`,
+      [
+        `function refine${type}(data: Partial<z.infer<typeof ${type}Fields>>, ctx: z.RefinementCtx): void {`,
+        ...checks.map((check) => indent(check)),
+        '}',
+      ].join('\n'),
+      `export const Create${type}Schema = ${type}Fields.superRefine(refine${type});`,
+      `export const Update${type}Schema = ${type}Fields.partial().superRefine(refine${type});`
+    );
+  }
+  blocks.push(
+    `export const ${type}ResponseSchema = ${printObject(response)};`,
+    [
+      `export type Create${type}Input = z.infer<typeof Create${type}Schema>;`,
+      `export type Update${type}Input = z.infer<typeof Update${type}Schema>;`,
+      `export type ${type}Response = z.infer<typeof ${type}ResponseSchema>;`,
+    ].join('\n')
+  );
+  return blocks.join('\n\n');
+}
+
+/**
+ * Print the input type of a field, with its validation rules layered on top
+ */
+function printInput(field: FieldDefinition, rules: ValidationRule[]): string {
+  const limits = fieldLimits(field, rules);
+  let schema = INPUT_TYPES[field.type];
+  schema += limits.formats.map((format) => FORMATS[format]).join('');
+  schema += limits.patterns.map((pattern) => `.regex(${String(new RegExp(pattern))})`).join('');
+  if (limits.minLength !== undefined) schema += `.min(${limits.minLength})`;
+  if (limits.maxLength !== undefined) schema += `.max(${limits.maxLength})`;
+
+  // Booleans default to false, which makes them optional already
+  if (field.type === FieldType.BOOLEAN) {
+    return `${schema}.default(false)`;
+  }
+  return limits.optional ? `${schema}.optional()` : schema;
+}
+
+/**
+ * Print the type of a field in a stored row
+ */
+function printResponse(field: FieldDefinition): string {
+  const schema = RESPONSE_TYPES[field.type];
+  return field.constraints.includes(FieldConstraint.REQUIRED) ? schema : `${schema}.nullable()`;
+}
+
+/**
+ * Print the type of a computed field, present when the request includes it
+ * Conditions on nullable columns (`returns`) may evaluate to null
+ */
+function printComputed(field: ComputedField): string {
+  return field.type === FieldType.BOOLEAN
+    ? 'z.boolean().nullable().optional()'
+    : 'z.number().optional()';
+}
+
+/**
+ * Print the superRefine check of an `exist when` / `be empty when` rule
+ * Conditions on fields outside the input, or with operators that have no
+ * runtime equivalent here, are skipped
+ */
+function printCheck(rule: ValidationRule, columns: Set<string>): string | undefined {
+  const { constraint } = rule;
+  if (constraint.type !== 'exist_when' && constraint.type !== 'be_empty_when') {
+    return undefined;
+  }
+
+  const field = columnName(rule.field);
+  const condition = printCondition(constraint.condition, columns);
+  if (!columns.has(field) || !condition) {
+    return undefined;
+  }
+
+  const exists = constraint.type === 'exist_when';
+  const message = `${rule.originalField} must ${exists ? 'exist' : 'be empty'} when ${condition.text}`;
+  return [
+    `if (${condition.code} && ${exists ? '' : '!'}isEmpty(data.${field})) {`,
+    '  ctx.addIssue({',
+    '    code: z.ZodIssueCode.custom,',
+    `    path: ['${field}'],`,
+    `    message: ${JSON.stringify(message)},`,
+    '  });',
+    '}',
+  ].join('\n');
+}
+
+function printCondition(
+  condition: Condition,
+  columns: Set<string>
+): { code: string; text: string } | undefined {
+  const field = columnName(condition.field);
+  if (!columns.has(field)) {
+    return undefined;
+  }
+
+  const written = field.replace(/_/g, ' ');
+  const { operator, value } = condition;
+  switch (operator) {
+    case ComparisonOperator.IS_EMPTY:
+      return { code: `isEmpty(data.${field})`, text: `${written} is empty` };
+    case ComparisonOperator.IS_NOT_EMPTY:
+      return { code: `!isEmpty(data.${field})`, text: `${written} is not empty` };
+    case ComparisonOperator.IS:
+    case ComparisonOperator.EQUALS:
+      return value?.type === 'literal'
+        ? {
+            code: `data.${field} === ${JSON.stringify(value.value)}`,
+            text: `${written} ${operator} ${String(value.value)}`,
+          }
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function printObject(lines: string[]): string {
+  return ['z.object({', ...lines.map((line) => indent(line)), '})'].join('\n');
+}
+
+function indent(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => `  ${line}`)
+    .join('\n');
+}
@@ -0,0 +1,303 @@
+/**
+ * Tests for the client generator
+ * The generated client is also run against the generated routes, served by
+ * Fastify on an in-memory PGlite database
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { join } from 'path';
+import { DSL_FILE_KINDS, parseProject } from '@declarelang/core';
+import type { DSLFileKind, ProjectAST, ProjectSource } from '@declarelang/core';
+import { PolicyEngine } from '@declarelang/runtime';
+import Fastify from 'fastify';
+import type { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { generateDrizzleSchema } from '../../src/drizzle/schema-generator.js';
+import { generateZodSchemas } from '../../src/zod/schema-generator.js';
+import { generateRoutes } from '../../src/fastify/routes-generator.js';
+import { generateClient } from '../../src/client/client-generator.js';
+import { removeOutput, writeOutput } from '../output.js';
+
+const FILES: Partial<Record<DSLFileKind, string>> = {
+  ddl: `Post[s]:
+- has title as text and required
+- has views as number
+- has published as boolean
+- has published at as timestamp
+- has many Comments
+
+Comment[s]:
+- has content as text and required
+- belongs to Post
+`,
+  dml: `Query for Posts:
+- published posts where published is true
+- latest posts sorted by created at descending, limited to 5
+
+Mutation for Posts:
+- publish post sets published to true and published at to now
+- rename post sets title to given title
+`,
+  auth: `Roles:
+- admin
+
+Rules for Comments:
+- anyone can read Comments
+`,
+  validation: `Validate Post:
+- title must be between 3 and 100 characters
+`,
+  api: `Success response:
+- data
+- meta with pagination
+
+Error response:
+- error with code and message
+- fields with validation errors if applicable
+
+Pagination for Posts:
+- default limit: 2
+- max limit: 2
+- allowed sort fields: title, views
+
+Query parameters for Posts:
+- published as boolean
+- views as number range
+- title as text contains
+`,
+};
+
+const SQL = `
+CREATE TABLE posts (
+  id serial PRIMARY KEY,
+  title varchar(255) NOT NULL,
+  views integer,
+  published boolean NOT NULL DEFAULT false,
+  published_at timestamp,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+CREATE TABLE comments (
+  id serial PRIMARY KEY,
+  content varchar(255) NOT NULL,
+  post_id integer REFERENCES posts(id),
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+`;
+
+function project(files: Partial<Record<DSLFileKind, string>> = FILES): ProjectAST {
+  const sources = {} as Record<DSLFileKind, ProjectSource>;
+  for (const kind of DSL_FILE_KINDS) {
+    const source = files[kind];
+    sources[kind] = {
+      kind,
+      path: `/schema/${kind}.dsl`,
+      source: source ?? '',
+      exists: source !== undefined,
+    };
+  }
+  return parseProject('/schema', sources);
+}
+
+describe('generateClient', () => {
+  const ast = project();
+  const files = generateClient(ast);
+  const file = (path: string) => files.find((generated) => generated.path === path)!.content;
+
+  it('should emit a client per model, the index and the support module', () => {
+    expect(files.map((generated) => generated.path)).toEqual([
+      'client/support.ts',
+      'client/posts.ts',
+      'client/comments.ts',
+      'client/index.ts',
+    ]);
+    expect(file('client/index.ts')).toContain(`  return {
+    posts: createPostsClient(http),
+    comments: createCommentsClient(http),
+  };`);
+    expect(file('client/index.ts')).toContain("from '../middleware/validation.js';");
+  });
+
+  it('should type records with the generated model types', () => {
+    const posts = file('client/posts.ts');
+
+    expect(posts).toContain(
+      "import type { CreatePostInput, PostResponse, UpdatePostInput } from '../middleware/validation.js';"
+    );
+    expect(posts).toContain('async create(input: CreatePostInput): Promise<PostResponse> {');
+    expect(posts).toContain(
+      "revive<PostResponse>(data, ['published_at', 'created_at', 'updated_at']);"
+    );
+  });
+
+  it('should type list filters and pagination from the API file', () => {
+    const posts = file('client/posts.ts');
+
+    expect(posts).toContain(`export const POST_PAGINATION = {
+  defaultLimit: 2,
+  maxLimit: 2,
+  sortFields: ['created_at', 'title', 'views'],
+} as const;`);
+    expect(posts).toContain(`export interface ListPostsQuery {
+  page?: number;
+  limit?: number; // at most 2
+  sort?: (typeof POST_PAGINATION.sortFields)[number];
+  order?: 'asc' | 'desc';
+  published?: boolean;
+  views_from?: number;
+  views_to?: number;
+  title?: string; // case-insensitive, contains
+}`);
+  });
+
+  it('should emit methods for DML queries and mutations', () => {
+    const posts = file('client/posts.ts');
+
+    expect(posts).toContain(
+      'async publishedPosts(query: { page?: number; limit?: number } = {}): Promise<Page<PostResponse>> {'
+    );
+    expect(posts).toContain("http.request('GET', '/posts/published-posts', { query })");
+    expect(posts).toContain('async latestPosts(): Promise<PostResponse[]> {');
+    expect(posts).toContain("http.request('GET', '/posts/latest-posts')");
+    expect(posts).toContain('async publishPost(id: number): Promise<PostResponse> {');
+    expect(posts).toContain(
+      'async renamePost(id: number, body: { title: string }): Promise<PostResponse> {'
+    );
+  });
+
+  it('should only emit methods for the routes granted by AUTH rules', () => {
+    const comments = file('client/comments.ts');
+
+    expect(comments).toContain('async list(');
+    expect(comments).toContain('async get(');
+    expect(comments).not.toContain('async create(');
+    expect(comments).not.toContain('CreateCommentInput');
+  });
+
+  it('should type error bodies with the fields of the error response', () => {
+    expect(file('client/support.ts')).toContain(`export interface ErrorBody {
+  error: { code: string; message: string };
+  fields?: Record<string, string[]>; // validation messages per field
+}`);
+  });
+
+  it('should send the API version it was generated for', () => {
+    expect(file('client/support.ts')).toContain("{ accept: 'application/json', ...this.options");
+
+    const versioned = generateClient(
+      project({ ...FILES, api: `${FILES.api}\nAPI versioning:\n- version format: v2\n` })
+    );
+    expect(versioned[0]!.content).toContain(
+      "{ accept: 'application/json', 'x-api-version': 'v2', ...this.options.headers }"
+    );
+  });
+
+  describe('against the generated server', () => {
+    interface PostRecord {
+      id: number;
+      title: string;
+      published: boolean;
+      published_at: Date | null;
+      created_at: Date;
+    }
+    interface PostsClient {
+      list(query?: object): Promise<{ items: PostRecord[]; pagination?: { total: number } }>;
+      listAll(query?: object): AsyncGenerator<PostRecord>;
+      get(id: number): Promise<PostRecord>;
+      create(input: object): Promise<PostRecord>;
+      update(id: number, input: object): Promise<PostRecord>;
+      delete(id: number): Promise<void>;
+    }
+
+    let dir: string;
+    let pglite: PGlite;
+    let app: FastifyInstance;
+    let posts: PostsClient;
+    let ApiError: new (...args: unknown[]) => Error;
+
+    beforeAll(async () => {
+      dir = writeOutput([
+        generateDrizzleSchema(ast.ddl),
+        generateZodSchemas(ast.ddl, ast.validation),
+        ...generateRoutes(ast.ddl, ast.api, ast.auth),
+        ...files,
+      ]);
+      const schema = (await import(join(dir, 'schema/drizzle.ts'))) as Record<string, unknown>;
+      const { apiRoutes } = (await import(join(dir, 'api/routes.ts'))) as {
+        apiRoutes: FastifyPluginAsync<{ db: unknown; policy: unknown }>;
+      };
+      const client = (await import(join(dir, 'client/index.ts'))) as {
+        createClient: (options: { baseUrl: string }) => { posts: PostsClient };
+        ApiError: new (...args: unknown[]) => Error;
+      };
+
+      pglite = new PGlite();
+      await pglite.exec(SQL);
+      app = Fastify();
+      await app.register(apiRoutes, {
+        db: drizzle(pglite, { schema }),
+        policy: new PolicyEngine(ast, schema),
+      });
+      const address = await app.listen({ port: 0, host: '127.0.0.1' });
+
+      posts = client.createClient({ baseUrl: address }).posts;
+      ApiError = client.ApiError;
+    });
+
+    afterAll(async () => {
+      await app.close();
+      await pglite.close();
+      removeOutput(dir);
+    });
+
+    it('should create, read, update and delete records', async () => {
+      const created = await posts.create({ title: 'Hello world', published_at: new Date(0) });
+      expect(created).toMatchObject({ title: 'Hello world', published: false });
+      expect(created.created_at).toBeInstanceOf(Date);
+      expect(created.published_at).toEqual(new Date(0));
+
+      const updated = await posts.update(created.id, { title: 'Hello again' });
+      expect(updated.title).toBe('Hello again');
+      expect((await posts.get(created.id)).title).toBe('Hello again');
+
+      await posts.delete(created.id);
+      await expect(posts.get(created.id)).rejects.toMatchObject({
+        status: 404,
+        code: 'RUNTIME006',
+        message: 'Post not found',
+      });
+    });
+
+    it('should throw ApiError with the validation messages per field', async () => {
+      const error = (await posts.create({ title: 'Hi' }).catch((e: unknown) => e)) as {
+        body: unknown;
+      };
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error).toMatchObject({ status: 400, code: 'VAL000' });
+      expect(error.body).toMatchObject({ fields: { title: [expect.any(String) as unknown] } });
+    });
+
+    it('should send filters and walk through every page', async () => {
+      for (const [title, views] of [
+        ['First', 1],
+        ['Second', 2],
+        ['Third', 3],
+      ] as const) {
+        await posts.create({ title, views, published: views !== 2 });
+      }
+
+      const page = await posts.list({ published: true, views_from: 2 });
+      expect(page.items.map((post) => post.title)).toEqual(['Third']);
+      expect(page.pagination).toMatchObject({ total: 1 });
+
+      const titles: string[] = [];
+      for await (const post of posts.listAll({ sort: 'views', order: 'asc' })) {
+        titles.push(post.title);
+      }
+      expect(titles).toEqual(['First', 'Second', 'Third']);
+    });
+  });
+});
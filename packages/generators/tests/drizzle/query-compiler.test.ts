@@ -0,0 +1,577 @@
+/**
+ * Tests for the DML query compiler
+ * The generated repository functions are also run against an in-memory PGlite
+ * database, directly and through the generated routes
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { join } from 'path';
+import { AUTHParser, DDLParser, DMLParser, SymbolTable, Tokenizer } from '@declarelang/core';
+import type { AUTHFile, DDLFile, DMLFile } from '@declarelang/core';
+import Fastify from 'fastify';
+import type { FastifyInstance, FastifyPluginAsync, FastifyRequest } from 'fastify';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { PolicyEngine } from '@declarelang/runtime';
+import { generateDrizzleSchema } from '../../src/drizzle/schema-generator.js';
+import {
+  compileComputed,
+  compileMutation,
+  compileQuery,
+  generateRepositories,
+} from '../../src/drizzle/query-compiler.js';
+import { generateZodSchemas } from '../../src/zod/schema-generator.js';
+import { generateRoutes } from '../../src/fastify/routes-generator.js';
+import { modelComputed, modelMutations, modelQueries } from '../../src/dml.js';
+import { removeOutput, writeOutput } from '../output.js';
+
+const DDL = `User[s]:
+- has email as unique text and required
+- has role as text
+- has many Posts
+
+Post[s]:
+- has title as text and required
+- has subtitle as text
+- has views as number
+- has published as boolean
+- has published at as timestamp
+- belongs to User
+- has many Tags
+
+Tag[s]:
+- has name as text and required
+`;
+
+const DML = `Query for Posts:
+- published posts where published is true sorted by views descending
+- recent posts where created at is after 7 days ago, sorted by created at descending, limited to 2
+- my posts where user id matches current user
+- posts by author where user id matches given author and published is true
+- hello posts where title starts with "Hello"
+- search posts where title contains given term
+- untitled posts where subtitle is empty
+- ranged posts where views is between given min and given max
+- old posts where created at is before now
+- tagged posts where tag id matches given tag
+
+Mutation for Posts:
+- publish post sets published to true and published at to now
+- unpublish post sets published to false and published at to empty
+- increment views increases views by 1
+- reset views sets views to 0
+- feature post sets subtitle to given url
+- claim post sets user id to current user
+
+Mutation for Users:
+- promote to admin sets role to "admin"
+
+Computed for User:
+- post count counts Posts
+- published post count counts Posts where published is true
+- total views sums Posts.views
+- own post count counts Posts where user id matches current user
+
+Computed for Post:
+- is published returns published is true
+- tag count counts Tags
+- reading time calculates from subtitle
+`;
+
+const AUTH = `Roles:
+- editor
+- admin
+
+Field Rules for Users:
+- admins can edit role
+
+Field Rules for Posts:
+- only increment views mutation can edit views
+- editors can edit subtitle
+`;
+
+const SQL = `
+CREATE TABLE users (
+  id serial PRIMARY KEY,
+  email varchar(255) NOT NULL UNIQUE,
+  role varchar(255),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+CREATE TABLE posts (
+  id serial PRIMARY KEY,
+  title varchar(255) NOT NULL,
+  subtitle varchar(255),
+  views integer,
+  published boolean DEFAULT false,
+  published_at timestamptz,
+  user_id integer REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+CREATE TABLE tags (
+  id serial PRIMARY KEY,
+  name varchar(255) NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+INSERT INTO users (email) VALUES ('ada@example.com'), ('bob@example.com');
+INSERT INTO posts (title, subtitle, views, published, user_id, created_at) VALUES
+  ('Hello world', 'First', 10, true, 1, now() - interval '1 day'),
+  ('Hello again', NULL, 30, false, 1, now() - interval '2 days'),
+  ('100% draft', NULL, 20, true, 2, now() - interval '3 days'),
+  ('Archived', 'Old', 5, true, 2, now() - interval '30 days');
+`;
+
+function parseDDL(source: string): DDLFile {
+  return new DDLParser(new Tokenizer(source).tokenize()).parse();
+}
+
+function parseDML(source: string): DMLFile {
+  return new DMLParser(new Tokenizer(source).tokenize()).parse();
+}
+
+function parseAUTH(source: string): AUTHFile {
+  return new AUTHParser(new Tokenizer(source).tokenize()).parse();
+}
+
+describe('compileQuery', () => {
+  const ddl = parseDDL(DDL);
+  const dml = parseDML(DML);
+  const symbols = new SymbolTable(ddl);
+  const post = symbols.resolveModel('Post')!;
+  const compiled = new Map(
+    modelQueries(post, symbols, dml).map((query) => {
+      const result = compileQuery(query, post, symbols);
+      return [result.name, result];
+    })
+  );
+  const code = (name: string) => compiled.get(name)!.code;
+
+  it('should compile conditions, sort and limit into a query builder chain', () => {
+    expect(code('publishedPosts')).toBe(`/**
+ * published posts
+ */
+export async function publishedPosts(db: Database, paging: Paging, allowed?: SQL): Promise<Paged<Post>> {
+  const where = and(eq(posts.published, true), allowed);
+  const [rows, [counted]] = await Promise.all([
+    db
+      .select()
+      .from(posts)
+      .where(where)
+      .orderBy(desc(posts.views))
+      .limit(paging.limit)
+      .offset(paging.offset),
+    db.select({ total: count() }).from(posts).where(where),
+  ]);
+  return { rows, total: counted?.total ?? 0 };
+}`);
+    expect(code('recentPosts'))
+      .toContain(`    .where(and(gt(posts.created_at, ago('7 days')), allowed))
+    .orderBy(desc(posts.created_at))
+    .limit(2);`);
+  });
+
+  it('should map every comparison operator to a Drizzle expression', () => {
+    expect(code('helloPosts')).toContain("(ilike(posts.title, `${escapeLike('Hello')}%`), ");
+    expect(code('searchPosts')).toContain(
+      'const where = and(ilike(posts.title, `%${escapeLike(params.term)}%`), allowed);'
+    );
+    expect(code('untitledPosts')).toContain('const where = and(isNull(posts.subtitle), allowed);');
+    expect(code('rangedPosts')).toContain(
+      'const where = and(between(posts.views, params.min, params.max), allowed);'
+    );
+    expect(code('oldPosts')).toContain('const where = and(lt(posts.created_at, now()), allowed);');
+    expect(code('postsByAuthor')).toContain(
+      'const where = and(eq(posts.user_id, params.author), eq(posts.published, true), allowed);'
+    );
+  });
+
+  it('should page queries without limit and count their rows', () => {
+    expect(code('untitledPosts')).toContain(`      .orderBy(asc(posts.id))
+      .limit(paging.limit)
+      .offset(paging.offset),
+    db.select({ total: count() }).from(posts).where(where),`);
+    expect(code('recentPosts')).toContain(
+      'export async function recentPosts(db: Database, allowed?: SQL): Promise<Post[]> {'
+    );
+    expect(code('recentPosts')).not.toContain('paging');
+  });
+
+  it('should turn given values and the current user into typed parameters', () => {
+    expect(compiled.get('postsByAuthor')!.parameters).toEqual([{ name: 'author', type: 'number' }]);
+    expect(compiled.get('searchPosts')!.parameters).toEqual([{ name: 'term', type: 'string' }]);
+    expect(code('myPosts')).toContain(
+      'export async function myPosts(db: Database, params: { current_user: number }, paging: Paging, allowed?: SQL): Promise<Paged<Post>> {'
+    );
+    expect(code('myPosts')).toContain(
+      'const where = and(eq(posts.user_id, params.current_user), allowed);'
+    );
+  });
+
+  it('should leave out queries on fields that are not columns of the model', () => {
+    expect(compiled.has('taggedPosts')).toBe(false);
+  });
+
+  it('should only emit repositories for models with DML definitions', () => {
+    expect(generateRepositories(ddl, dml).map((file) => file.path)).toEqual([
+      'repositories/support.ts',
+      'repositories/users.ts',
+      'repositories/posts.ts',
+    ]);
+    expect(generateRepositories(ddl)).toEqual([]);
+  });
+
+  describe('generated repositories', () => {
+    type Row = { title: string };
+    type Paging = { limit: number; offset: number };
+    type Query = (db: unknown, ...args: unknown[]) => Promise<Row[] | { rows: Row[] }>;
+
+    let dir: string;
+    let pglite: PGlite;
+    let db: unknown;
+    let repository: Record<string, Query>;
+    let app: FastifyInstance;
+
+    // Queries without a limit are paged, recent posts is limited to 2
+    const titles = async (name: string, params?: Record<string, unknown>, paging?: Paging) => {
+      const args = params ? [params] : [];
+      const result =
+        name === 'recentPosts'
+          ? await repository[name]!(db, ...args)
+          : await repository[name]!(db, ...args, paging ?? { limit: 50, offset: 0 });
+      return (Array.isArray(result) ? result : result.rows).map((row) => row.title);
+    };
+
+    beforeAll(async () => {
+      dir = writeOutput([
+        generateDrizzleSchema(ddl),
+        generateZodSchemas(ddl),
+        ...generateRepositories(ddl, dml),
+        ...generateRoutes(ddl, undefined, undefined, dml),
+      ]);
+      const schema = (await import(join(dir, 'schema/drizzle.ts'))) as Record<string, unknown>;
+      repository = (await import(join(dir, 'repositories/posts.ts'))) as Record<string, Query>;
+      const { apiRoutes } = (await import(join(dir, 'api/routes.ts'))) as {
+        apiRoutes: FastifyPluginAsync<{
+          db: unknown;
+          authenticate: () => Promise<void>;
+          currentUser: (request: FastifyRequest) => number | undefined;
+        }>;
+      };
+
+      pglite = new PGlite();
+      await pglite.exec(SQL);
+      db = drizzle(pglite, { schema });
+
+      app = Fastify();
+      await app.register(apiRoutes, {
+        db,
+        authenticate: () => Promise.resolve(),
+        currentUser: (request) => Number(request.headers['x-user-id']) || undefined,
+      });
+      await app.ready();
+    });
+
+    afterAll(async () => {
+      await app.close();
+      await pglite.close();
+      removeOutput(dir);
+    });
+
+    it('should filter, sort and limit rows', async () => {
+      expect(await titles('publishedPosts')).toEqual(['100% draft', 'Hello world', 'Archived']);
+      expect(await titles('recentPosts')).toEqual(['Hello world', 'Hello again']);
+      expect(await titles('oldPosts')).toHaveLength(4);
+      expect(await titles('untitledPosts')).toEqual(['Hello again', '100% draft']);
+    });
+
+    it('should page rows and count every match', async () => {
+      expect(await titles('publishedPosts', undefined, { limit: 2, offset: 1 })).toEqual([
+        'Hello world',
+        'Archived',
+      ]);
+      expect(await repository['oldPosts']!(db, { limit: 1, offset: 0 })).toMatchObject({
+        total: 4,
+      });
+    });
+
+    it('should bind parameters and escape LIKE wildcards', async () => {
+      expect(await titles('postsByAuthor', { author: 2 })).toEqual(['100% draft', 'Archived']);
+      expect(await titles('rangedPosts', { min: 10, max: 20 })).toEqual([
+        'Hello world',
+        '100% draft',
+      ]);
+      expect(await titles('helloPosts')).toEqual(['Hello world', 'Hello again']);
+      expect(await titles('searchPosts', { term: '0%' })).toEqual(['100% draft']);
+      expect(await titles('searchPosts', { term: '_' })).toEqual([]);
+    });
+
+    it('should expose queries as GET routes', async () => {
+      const published = await app.inject({ method: 'GET', url: '/posts/published-posts' });
+      expect(published.statusCode).toBe(200);
+      expect(published.json<{ data: Row[] }>().data).toHaveLength(3);
+
+      const byAuthor = await app.inject({ method: 'GET', url: '/posts/posts-by-author?author=1' });
+      expect(byAuthor.json<{ data: Row[] }>().data.map((row) => row.title)).toEqual([
+        'Hello world',
+      ]);
+
+      const paged = await app.inject({
+        method: 'GET',
+        url: '/posts/published-posts?limit=1&page=2',
+      });
+      expect(paged.json()).toMatchObject({
+        data: [{ title: 'Hello world' }],
+        meta: { pagination: { page: 2, limit: 1, total: 3, total_pages: 3 } },
+      });
+
+      const invalid = await app.inject({ method: 'GET', url: '/posts/posts-by-author' });
+      expect(invalid.statusCode).toBe(400);
+      expect(invalid.json()).toMatchObject({ error: { code: 'VAL000' } });
+    });
+
+    it('should add the computed fields a request includes', async () => {
+      const users = await app.inject({
+        method: 'GET',
+        url: '/users?include=post_count,published_post_count,total_views',
+      });
+      expect(users.statusCode).toBe(200);
+      const counts = users
+        .json<{ data: { email: string }[] }>()
+        .data.sort((a, b) => a.email.localeCompare(b.email));
+      expect(counts).toMatchObject([
+        { email: 'ada@example.com', post_count: 2, published_post_count: 1, total_views: 40 },
+        { email: 'bob@example.com', post_count: 2, published_post_count: 2, total_views: 25 },
+      ]);
+
+      const post = await app.inject({ method: 'GET', url: '/posts/2?include=is_published' });
+      expect(post.json()).toMatchObject({ data: { title: 'Hello again', is_published: false } });
+
+      const plain = await app.inject({ method: 'GET', url: '/users/1' });
+      expect(plain.json<{ data: object }>().data).not.toHaveProperty('post_count');
+
+      const unknown = await app.inject({ method: 'GET', url: '/posts/1?include=tag_count' });
+      expect(unknown.statusCode).toBe(400);
+      expect(unknown.json()).toMatchObject({ error: { code: 'VAL000' } });
+    });
+
+    it('should take the current user from the currentUser option', async () => {
+      // The authenticate hook lets every request through, currentUser decides
+      const anonymous = await app.inject({ method: 'GET', url: '/posts/my-posts' });
+      expect(anonymous.statusCode).toBe(401);
+      expect(anonymous.json()).toMatchObject({ error: { code: 'AUTH001' } });
+
+      const mine = await app.inject({
+        method: 'GET',
+        url: '/posts/my-posts',
+        headers: { 'x-user-id': '2' },
+      });
+      expect(mine.json<{ data: Row[] }>().data.map((row) => row.title)).toEqual([
+        '100% draft',
+        'Archived',
+      ]);
+    });
+  });
+});
+
+describe('compileComputed', () => {
+  const ddl = parseDDL(DDL);
+  const dml = parseDML(DML);
+  const symbols = new SymbolTable(ddl);
+  const user = symbols.resolveModel('User')!;
+  const post = symbols.resolveModel('Post')!;
+  const compiled = (model: typeof user) =>
+    new Map(
+      modelComputed(model, symbols, dml).map((field) => [
+        field.name,
+        compileComputed(field, model, symbols),
+      ])
+    );
+
+  it('should compile counts and sums into correlated subqueries', () => {
+    const fields = compiled(user);
+    expect(fields.get('post_count')).toBe(
+      'sql<number>`(select count(*) from ${posts} where ${eq(posts.user_id, users.id)})`.mapWith(Number)'
+    );
+    expect(fields.get('published_post_count')).toContain(
+      'where ${and(eq(posts.user_id, users.id), eq(posts.published, true))}'
+    );
+    expect(fields.get('total_views')).toContain(
+      '(select coalesce(sum(${posts.views}), 0) from ${posts} where'
+    );
+  });
+
+  it('should compile returns into a condition on the record', () => {
+    expect(compiled(post).get('is_published')).toBe('sql<boolean>`${eq(posts.published, true)}`');
+  });
+
+  it('should leave out fields that cannot be compiled', () => {
+    // current user needs a request, Tags has no foreign key to Post, calculates is custom logic
+    expect([...compiled(user).keys()]).toEqual([
+      'post_count',
+      'published_post_count',
+      'total_views',
+    ]);
+    expect([...compiled(post).keys()]).toEqual(['is_published']);
+  });
+});
+
+describe('compileMutation', () => {
+  const ddl = parseDDL(DDL);
+  const dml = parseDML(DML);
+  const auth = parseAUTH(AUTH);
+  const symbols = new SymbolTable(ddl);
+  const post = symbols.resolveModel('Post')!;
+  const compiled = new Map(
+    modelMutations(post, symbols, dml).map((mutation) => {
+      const result = compileMutation(mutation, post, symbols);
+      return [result.name, result];
+    })
+  );
+  const code = (name: string) => compiled.get(name)!.code;
+
+  it('should compile assignments into a single update of the record', () => {
+    expect(code('publishPost')).toBe(`/**
+ * publish post
+ */
+export async function publishPost(db: Database, id: number, allowed?: SQL): Promise<Post | undefined> {
+  const [row] = await db
+    .update(posts)
+    .set({ published: true, published_at: now() })
+    .where(and(eq(posts.id, id), allowed))
+    .returning();
+  return row;
+}`);
+    expect(code('unpublishPost')).toContain('.set({ published: false, published_at: null })');
+  });
+
+  it('should add to the stored value for increases', () => {
+    expect(code('incrementViews')).toContain('.set({ views: increment(posts.views, 1) })');
+  });
+
+  it('should turn given values and the current user into typed parameters', () => {
+    expect(compiled.get('featurePost')!.parameters).toEqual([{ name: 'url', type: 'string' }]);
+    expect(code('featurePost')).toContain('.set({ subtitle: params.url })');
+    expect(code('claimPost')).toContain(
+      'export async function claimPost(db: Database, id: number, params: { current_user: number }, allowed?: SQL): Promise<Post | undefined> {'
+    );
+  });
+
+  describe('generated routes', () => {
+    type Row = { views: number | null; published: boolean; published_at: string | null };
+
+    let dir: string;
+    let pglite: PGlite;
+    let app: FastifyInstance;
+    let plugin: string;
+
+    const post = (url: string, payload?: Record<string, unknown>, headers = {}) =>
+      app.inject({ method: 'POST', url, payload, headers });
+
+    beforeAll(async () => {
+      const routes = generateRoutes(ddl, undefined, auth, dml);
+      plugin = routes.find((file) => file.path === 'api/posts.ts')!.content;
+      dir = writeOutput([
+        generateDrizzleSchema(ddl),
+        generateZodSchemas(ddl),
+        ...generateRepositories(ddl, dml),
+        ...routes,
+      ]);
+      const schema = (await import(join(dir, 'schema/drizzle.ts'))) as Record<string, unknown>;
+      const { apiRoutes } = (await import(join(dir, 'api/routes.ts'))) as {
+        apiRoutes: FastifyPluginAsync<{
+          db: unknown;
+          authenticate: () => Promise<void>;
+          currentUser: (request: FastifyRequest) => number | undefined;
+          user: (request: FastifyRequest) => { roles: string[] };
+          policy: unknown;
+        }>;
+      };
+
+      pglite = new PGlite();
+      await pglite.exec(SQL);
+
+      app = Fastify();
+      await app.register(apiRoutes, {
+        db: drizzle(pglite, { schema }),
+        authenticate: () => Promise.resolve(),
+        currentUser: (request) => Number(request.headers['x-user-id']) || undefined,
+        user: (request) => ({ roles: String(request.headers['x-roles'] ?? '').split(',') }),
+        policy: new PolicyEngine({ ddl, auth }, schema),
+      });
+      await app.ready();
+    });
+
+    afterAll(async () => {
+      await app.close();
+      await pglite.close();
+      removeOutput(dir);
+    });
+
+    it('should apply every assignment of a mutation', async () => {
+      const published = await post('/posts/2/publish-post');
+      expect(published.statusCode).toBe(200);
+      expect(published.json<{ data: Row }>().data).toMatchObject({ published: true });
+      expect(published.json<{ data: Row }>().data.published_at).not.toBeNull();
+
+      const unpublished = await post('/posts/2/unpublish-post');
+      expect(unpublished.json<{ data: Row }>().data).toMatchObject({
+        published: false,
+        published_at: null,
+      });
+
+      const missing = await post('/posts/99/publish-post');
+      expect(missing.statusCode).toBe(404);
+    });
+
+    it('should increase the stored value atomically', async () => {
+      await Promise.all(Array.from({ length: 5 }, () => post('/posts/1/increment-views')));
+      const viewed = await post('/posts/1/increment-views');
+      expect(viewed.json<{ data: Row }>().data.views).toBe(16);
+    });
+
+    it('should validate the body and take the current user', async () => {
+      const editor = { 'x-roles': 'editor' };
+      const invalid = await post('/posts/1/feature-post', { url: 42 }, editor);
+      expect(invalid.statusCode).toBe(400);
+      const featured = await post('/posts/1/feature-post', { url: 'https://example.com' }, editor);
+      expect(featured.json()).toMatchObject({ data: { subtitle: 'https://example.com' } });
+
+      expect((await post('/posts/3/claim-post')).statusCode).toBe(401);
+      const claimed = await post('/posts/3/claim-post', undefined, { 'x-user-id': '1' });
+      expect(claimed.json()).toMatchObject({ data: { user_id: 1 } });
+    });
+
+    it('should check the routes against the field rules', async () => {
+      // views is reserved for increment views, subtitle is granted to editors
+      expect((await post('/posts/1/reset-views')).statusCode).toBe(404);
+      expect(plugin).toContain("app.post('/posts/:id/feature-post', editorOnly, ");
+      expect(plugin).toContain("app.post('/posts/:id/publish-post', async ");
+      expect((await post('/posts/1/feature-post', { url: 'https://example.com' })).statusCode).toBe(
+        403
+      );
+
+      const patched = await app.inject({
+        method: 'PATCH',
+        url: '/posts/1',
+        payload: { title: 'Renamed', views: 0 },
+      });
+      expect(patched.statusCode).toBe(403);
+      expect(patched.json()).toMatchObject({
+        error: { code: 'AUTH003', details: { fields: ['views'] } },
+      });
+    });
+
+    it('should only let the roles granted the mutated fields run a mutation', async () => {
+      // role is granted to admins
+      const editor = await post('/users/1/promote-to-admin', undefined, { 'x-roles': 'editor' });
+      expect(editor.statusCode).toBe(403);
+      expect(editor.json()).toMatchObject({ error: { code: 'AUTH003' } });
+
+      const admin = await post('/users/1/promote-to-admin', undefined, { 'x-roles': 'admin' });
+      expect(admin.statusCode).toBe(200);
+      expect(admin.json()).toMatchObject({ data: { id: 1, role: 'admin' } });
+    });
+  });
+});
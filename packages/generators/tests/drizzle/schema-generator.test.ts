@@ -0,0 +1,200 @@
+/**
+ * Tests for the Drizzle schema generator
+ * The generated schema is also loaded and inspected with Drizzle itself
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { DDLParser, Tokenizer } from '@declarelang/core';
+import type { DDLFile } from '@declarelang/core';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { getTableConfig } from 'drizzle-orm/pg-core';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import { generateDrizzleSchema } from '../../src/drizzle/schema-generator.js';
+import { removeOutput, writeOutput } from '../output.js';
+
+const DDL = `User[s]:
+- has email as unique text and required
+- has bio as long text
+- has is active as boolean
+- has many Posts
+
+Categor[y|ies]:
+- has name as unique text
+- has many Posts
+
+Post[s]:
+- has title as text and required
+- has body as long text
+- has price as decimal
+- has published at as timestamp and indexed
+- has metadata as json
+- has external id as uuid
+- belongs to User
+- belongs to Category
+- has many Comments
+
+Comment[s]:
+- has content as text and required
+- belongs to Post
+- belongs to Comment
+`;
+
+function parse(input: string): DDLFile {
+  return new DDLParser(new Tokenizer(input).tokenize()).parse();
+}
+
+describe('generateDrizzleSchema', () => {
+  const schema = generateDrizzleSchema(parse(DDL));
+
+  it('should emit schema/drizzle.ts with only the builders it uses', () => {
+    expect(schema.path).toBe('schema/drizzle.ts');
+    expect(schema.content).toContain("import { relations } from 'drizzle-orm';");
+    expect(schema.content).toContain("import type { AnyPgColumn } from 'drizzle-orm/pg-core';");
+    expect(schema.content).toContain(
+      'import { boolean, index, integer, jsonb, numeric, pgTable, serial, text, timestamp, uuid, varchar } from'
+    );
+  });
+
+  it('should map field types and constraints to columns', () => {
+    const { content } = schema;
+
+    expect(content).toContain("email: varchar('email', { length: 255 }).unique().notNull(),");
+    expect(content).toContain("bio: text('bio'),");
+    expect(content).toContain("is_active: boolean('is_active').default(false),");
+    expect(content).toContain(
+      "price: numeric('price', { precision: 10, scale: 2, mode: 'number' }),"
+    );
+    expect(content).toContain("published_at: timestamp('published_at', { withTimezone: true }),");
+    expect(content).toContain("metadata: jsonb('metadata'),");
+    expect(content).toContain("external_id: uuid('external_id'),");
+    expect(content).toContain("index('idx_posts_published_at').on(table.published_at),");
+  });
+
+  it('should add primary keys, timestamps and indexed foreign keys', () => {
+    const { content } = schema;
+
+    expect(content).toContain(`export const users = pgTable('users', {
+  id: serial('id').primaryKey(),`);
+    expect(content)
+      .toContain(`  created_at: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updated_at: timestamp('updated_at', { withTimezone: true })
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});`);
+    expect(content).toContain("user_id: integer('user_id').references(() => users.id),");
+    expect(content).toContain(
+      "comment_id: integer('comment_id').references((): AnyPgColumn => comments.id),"
+    );
+    expect(content).toContain("index('idx_posts_category_id').on(table.category_id),");
+  });
+
+  it('should declare relations in both directions', () => {
+    expect(schema.content)
+      .toContain(`export const postsRelations = relations(posts, ({ many, one }) => ({
+  user: one(users, {
+    fields: [posts.user_id],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [posts.category_id],
+    references: [categories.id],
+  }),
+  comments: many(comments),
+}));`);
+    expect(schema.content).toContain(
+      'export const usersRelations = relations(users, ({ many }) => ({\n  posts: many(posts),\n}));'
+    );
+  });
+
+  it('should leave declared id and timestamp fields to the generated columns', () => {
+    const { content } = generateDrizzleSchema(
+      parse('Tag[s]:\n- has id as uuid\n- has created at as timestamp\n- has label as text\n')
+    );
+
+    expect(content).toContain("id: serial('id').primaryKey(),");
+    expect(content).not.toContain("uuid('id')");
+    expect(content.match(/created_at:/g)).toHaveLength(1);
+    expect(content).not.toContain('relations');
+    expect(content).not.toContain('index');
+  });
+
+  it('should join models having many of each other with a junction table', async () => {
+    const junction = generateDrizzleSchema(
+      parse(
+        'Post[s]:\n- has title as text\n- has many Tags\n\nTag[s]:\n- has name as text\n- has many Posts\n'
+      )
+    );
+
+    expect(junction.content).toContain(`export const postsTags = pgTable(
+  'posts_tags',
+  {
+    post_id: integer('post_id')
+      .notNull()
+      .references(() => posts.id, { onDelete: 'cascade' }),
+    tag_id: integer('tag_id')
+      .notNull()
+      .references(() => tags.id, { onDelete: 'cascade' }),
+  },
+  (table) => [
+    primaryKey({ columns: [table.post_id, table.tag_id] }),
+    index('idx_posts_tags_tag_id').on(table.tag_id),
+  ]
+);`);
+    expect(junction.content).toContain('postsTags: many(postsTags),');
+    expect(junction.content).not.toContain('many(tags)');
+
+    const dir = writeOutput([junction]);
+    const pglite = new PGlite();
+    try {
+      const module = (await import(join(dir, junction.path))) as Record<string, unknown>;
+      const db = drizzle(pglite, { schema: module }) as unknown as {
+        query: Record<string, { findMany(config: object): { toSQL(): { sql: string } } }>;
+      };
+      const { sql } = db.query['posts']!.findMany({
+        with: { postsTags: { with: { tag: true } } },
+      }).toSQL();
+      expect(sql).toContain('"posts_tags"');
+    } finally {
+      await pglite.close();
+      removeOutput(dir);
+    }
+  });
+
+  it('should produce a schema Drizzle can load', async () => {
+    const dir = writeOutput([schema]);
+    try {
+      const module = (await import(join(dir, schema.path))) as Record<string, PgTable>;
+
+      const posts = getTableConfig(module['posts']!);
+      expect(posts.name).toBe('posts');
+      expect(posts.columns.map((column) => [column.name, column.getSQLType()])).toEqual([
+        ['id', 'serial'],
+        ['title', 'varchar(255)'],
+        ['body', 'text'],
+        ['price', 'numeric(10, 2)'],
+        ['published_at', 'timestamp with time zone'],
+        ['metadata', 'jsonb'],
+        ['external_id', 'uuid'],
+        ['user_id', 'integer'],
+        ['category_id', 'integer'],
+        ['created_at', 'timestamp with time zone'],
+        ['updated_at', 'timestamp with time zone'],
+      ]);
+      expect(posts.columns.find((column) => column.name === 'title')?.notNull).toBe(true);
+      expect(posts.foreignKeys.map((key) => key.reference().foreignTable)).toEqual([
+        module['users'],
+        module['categories'],
+      ]);
+      expect(posts.indexes.map((index) => index.config.name)).toEqual([
+        'idx_posts_published_at',
+        'idx_posts_user_id',
+        'idx_posts_category_id',
+      ]);
+      expect(module['commentsRelations']).toBeDefined();
+    } finally {
+      removeOutput(dir);
+    }
+  });
+});
@@ -0,0 +1,827 @@
+/**
+ * Tests for the Fastify route generator
+ * The generated routes are also registered on a Fastify instance and run
+ * against an in-memory PGlite database
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  APIParser,
+  AUTHParser,
+  DDLParser,
+  DMLParser,
+  DSL_FILE_KINDS,
+  SECURITYParser,
+  Tokenizer,
+  parseProject,
+} from '@declarelang/core';
+import type {
+  APIFile,
+  AUTHFile,
+  DDLFile,
+  DMLFile,
+  DSLFileKind,
+  ProjectAST,
+  ProjectSource,
+} from '@declarelang/core';
+import { Authenticator, PolicyEngine } from '@declarelang/runtime';
+import Fastify from 'fastify';
+import type {
+  FastifyInstance,
+  FastifyPluginAsync,
+  FastifyRequest,
+  preHandlerAsyncHookHandler,
+} from 'fastify';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { generateDrizzleSchema } from '../../src/drizzle/schema-generator.js';
+import { generateRepositories } from '../../src/drizzle/query-compiler.js';
+import { generateZodSchemas } from '../../src/zod/schema-generator.js';
+import { generateRoutes } from '../../src/fastify/routes-generator.js';
+import {
+  VersionSnapshotError,
+  generateVersionSnapshot,
+  readVersionSnapshot,
+} from '../../src/versioning/snapshot-generator.js';
+import { removeOutput, typeCheckOutput, writeOutput } from '../output.js';
+
+const DDL = `User[s]:
+- has email as unique text and required
+- has many Posts
+
+Post[s]:
+- has title as text and required
+- has views as number
+- has published as boolean
+- belongs to User
+
+Tag[s]:
+- has name as text and required
+`;
+
+const API = `Success response:
+- status code
+- data
+- meta with request id and pagination
+
+Error response:
+- error with code, message, and details
+- fields with validation errors if applicable
+
+Pagination:
+- default limit: 20
+- max limit: 50
+- default sort: created at descending
+
+Pagination for Posts:
+- default limit: 2
+- allowed sort fields: title, views
+
+Query parameters for Posts:
+- published as boolean
+- views as number range
+- title as text contains
+`;
+
+const AUTH = `Roles:
+- admin
+
+Rules for Posts:
+- anyone can read Posts
+- authenticated users can create Posts
+- users can edit own Posts
+- users can delete own Posts
+
+Rules for Tags:
+- anyone can read Tags
+`;
+
+const SQL = `
+CREATE TABLE users (
+  id serial PRIMARY KEY,
+  email varchar(255) NOT NULL UNIQUE,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+CREATE TABLE posts (
+  id serial PRIMARY KEY,
+  title varchar(255) NOT NULL,
+  views integer,
+  published boolean NOT NULL DEFAULT false,
+  user_id integer REFERENCES users(id),
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+CREATE TABLE tags (
+  id serial PRIMARY KEY,
+  name varchar(255) NOT NULL,
+  created_at timestamp NOT NULL DEFAULT now(),
+  updated_at timestamp NOT NULL DEFAULT now()
+);
+`;
+
+/**
+ * Stand-in for an authenticator: the user comes from headers, with id 1 by default
+ */
+function headerUser(request: FastifyRequest): { id: number; roles: string[] } | undefined {
+  const roles = request.headers['x-roles'];
+  const id = Number(request.headers['x-user-id'] ?? 1);
+  return typeof roles === 'string' ? { id, roles: roles.split(',') } : undefined;
+}
+
+const headerAuthenticate: preHandlerAsyncHookHandler = async (request, reply) => {
+  if (!headerUser(request)) await reply.status(401).send();
+};
+
+function parseDDL(input: string): DDLFile {
+  return new DDLParser(new Tokenizer(input).tokenize()).parse();
+}
+
+function parseAPI(input: string): APIFile {
+  return new APIParser(new Tokenizer(input).tokenize()).parse();
+}
+
+function parseAUTH(input: string): AUTHFile {
+  return new AUTHParser(new Tokenizer(input).tokenize()).parse();
+}
+
+function parseDML(input: string): DMLFile {
+  return new DMLParser(new Tokenizer(input).tokenize()).parse();
+}
+
+function project(files: Partial<Record<DSLFileKind, string>>): ProjectAST {
+  const sources = {} as Record<DSLFileKind, ProjectSource>;
+  for (const kind of DSL_FILE_KINDS) {
+    const source = files[kind];
+    sources[kind] = {
+      kind,
+      path: `/schema/${kind}.dsl`,
+      source: source ?? '',
+      exists: source !== undefined,
+    };
+  }
+  return parseProject('/schema', sources);
+}
+
+describe('generateRoutes', () => {
+  const ddl = parseDDL(DDL);
+  const files = generateRoutes(ddl, parseAPI(API), parseAUTH(AUTH));
+  const file = (path: string) => files.find((generated) => generated.path === path)!.content;
+
+  it('should emit a plugin per model, the route index and the support module', () => {
+    expect(files.map((generated) => generated.path)).toEqual([
+      'api/support.ts',
+      'api/users.ts',
+      'api/posts.ts',
+      'api/tags.ts',
+      'api/routes.ts',
+    ]);
+    expect(file('api/routes.ts')).toContain("import { postsRoutes } from './posts.js';");
+    expect(file('api/routes.ts')).toContain('  await app.register(postsRoutes, options);');
+    expect(file('api/posts.ts')).toContain(
+      'export const postsRoutes: FastifyPluginAsync<RouteOptions> = async (app, { db, authenticate, currentUser, user, policy }) => {'
+    );
+    expect(file('api/posts.ts')).toContain("  const rules = requirePolicy(policy, 'Post');");
+  });
+
+  it('should only generate the routes granted by AUTH rules', () => {
+    const tags = file('api/tags.ts');
+    expect(tags).toContain("app.get('/tags', async (request, reply) => {");
+    expect(tags).toContain("app.get('/tags/:id', async (request, reply) => {");
+    expect(tags).not.toContain('app.post(');
+    expect(tags).not.toContain('app.delete(');
+    expect(tags).not.toContain('authenticate');
+
+    const posts = file('api/posts.ts');
+    expect(posts).toContain("app.get('/posts', async (request, reply) => {");
+    expect(posts).toContain("app.post('/posts', authenticated, async (request, reply) => {");
+    expect(posts).toContain("app.patch('/posts/:id', authenticated, async (request, reply) => {");
+
+    // Without rules for the model, every route is generated and public
+    expect(file('api/users.ts')).toContain("app.delete('/users/:id', async (request, reply) => {");
+  });
+
+  it('should honor pagination settings and query parameter filters', () => {
+    const posts = file('api/posts.ts');
+    expect(posts).toContain('    .default(2)\n    .transform((limit) => Math.min(limit, 50)),');
+    expect(posts).toContain(
+      "sort: z.enum(['created_at', 'title', 'views']).default('created_at'),"
+    );
+    expect(posts).toContain("order: z.enum(['asc', 'desc']).default('desc'),");
+    expect(posts).toContain(
+      'if (filters.views_from !== undefined) conditions.push(gte(posts.views, filters.views_from));'
+    );
+    expect(posts).toContain(
+      'conditions.push(ilike(posts.title, `%${escapeLike(filters.title)}%`));'
+    );
+    expect(file('api/users.ts')).not.toContain('conditions');
+  });
+
+  it('should print the response envelope of the API file', () => {
+    expect(file('api/support.ts')).toContain(`const ENVELOPE = {
+  data: 'data',
+  meta: 'meta',
+  statusCode: true,
+  metaFields: ['request_id', 'pagination'],
+  errorStatusCode: false,
+  errorFields: ['code', 'message', 'details'],
+  validationFields: true,
+};`);
+  });
+
+  it('should emit code that type-checks under the compiler options of the repository', () => {
+    const schema = fileURLToPath(new URL('../../../../examples/blog/schema', import.meta.url));
+    const kinds: DSLFileKind[] = ['ddl', 'dml', 'api', 'auth', 'validation'];
+    const blog = project(
+      Object.fromEntries(
+        kinds.map((kind) => [kind, readFileSync(join(schema, `${kind}.dsl`), 'utf8')])
+      )
+    );
+    const dir = writeOutput([
+      generateDrizzleSchema(blog.ddl),
+      generateZodSchemas(blog.ddl, blog.validation, blog.dml),
+      ...generateRepositories(blog.ddl, blog.dml),
+      ...generateRoutes(blog.ddl, blog.api, blog.auth, blog.dml),
+    ]);
+    try {
+      expect(typeCheckOutput(dir)).toEqual([]);
+    } finally {
+      removeOutput(dir);
+    }
+  }, 60_000);
+
+  describe('generated routes', () => {
+    let dir: string;
+    let pglite: PGlite;
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+      dir = writeOutput([generateDrizzleSchema(ddl), generateZodSchemas(ddl), ...files]);
+      const schema = (await import(join(dir, 'schema/drizzle.ts'))) as Record<string, unknown>;
+      const { apiRoutes } = (await import(join(dir, 'api/routes.ts'))) as {
+        apiRoutes: FastifyPluginAsync<{ db: unknown; policy: unknown }>;
+      };
+
+      pglite = new PGlite();
+      await pglite.exec(SQL);
+      app = Fastify();
+      await app.register(apiRoutes, {
+        db: drizzle(pglite, { schema }),
+        policy: new PolicyEngine({ ddl, auth: parseAUTH(AUTH) }, schema),
+      });
+      await app.ready();
+    });
+
+    afterAll(async () => {
+      await app.close();
+      await pglite.close();
+      removeOutput(dir);
+    });
+
+    it('should reject unauthenticated writes when no authenticate hook is given', async () => {
+      const response = await app.inject({ method: 'POST', url: '/posts', payload: {} });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toMatchObject({ error: { code: 'AUTH001' } });
+    });
+
+    it('should create, read, update, list and delete records', async () => {
+      const created = await app.inject({
+        method: 'POST',
+        url: '/users',
+        payload: { email: 'ada@example.com' },
+      });
+      expect(created.statusCode).toBe(201);
+      const user = created.json<{ status_code: number; data: { id: number; email: string } }>();
+      expect(user).toMatchObject({ status_code: 201, data: { email: 'ada@example.com' } });
+
+      const fetched = await app.inject({ method: 'GET', url: `/users/${user.data.id}` });
+      expect(fetched.json()).toMatchObject({ data: { id: user.data.id } });
+
+      const updated = await app.inject({
+        method: 'PATCH',
+        url: `/users/${user.data.id}`,
+        payload: { email: 'ada@lovelace.dev' },
+      });
+      expect(updated.json()).toMatchObject({ data: { email: 'ada@lovelace.dev' } });
+
+      const listed = await app.inject({ method: 'GET', url: '/users' });
+      expect(listed.json()).toMatchObject({
+        data: [{ email: 'ada@lovelace.dev' }],
+        meta: { pagination: { page: 1, limit: 20, total: 1, total_pages: 1 } },
+      });
+
+      const deleted = await app.inject({ method: 'DELETE', url: `/users/${user.data.id}` });
+      expect(deleted.statusCode).toBe(204);
+      const missing = await app.inject({ method: 'DELETE', url: `/users/${user.data.id}` });
+      expect(missing.statusCode).toBe(404);
+      expect(missing.json()).toMatchObject({
+        error: { code: 'RUNTIME006', message: 'User not found' },
+      });
+    });
+
+    it('should paginate, sort and filter lists', async () => {
+      await pglite.exec(`INSERT INTO posts (title, views, published) VALUES
+        ('Hello world', 10, true),
+        ('Second post', 20, false),
+        ('100% organic', 30, true)`);
+
+      const page = await app.inject({ method: 'GET', url: '/posts?sort=views&order=asc&page=2' });
+      expect(page.json()).toMatchObject({
+        data: [{ title: '100% organic' }],
+        meta: { pagination: { page: 2, limit: 2, total: 3, total_pages: 2 } },
+      });
+
+      const published = await app.inject({
+        method: 'GET',
+        url: '/posts?published=true&views_to=20',
+      });
+      expect(published.json<{ data: { title: string }[] }>().data.map((p) => p.title)).toEqual([
+        'Hello world',
+      ]);
+
+      const contains = await app.inject({ method: 'GET', url: '/posts?title=100%25' });
+      expect(contains.json<{ data: { title: string }[] }>().data.map((p) => p.title)).toEqual([
+        '100% organic',
+      ]);
+
+      const invalid = await app.inject({ method: 'GET', url: '/posts?sort=published' });
+      expect(invalid.statusCode).toBe(400);
+      expect(invalid.json()).toMatchObject({ error: { code: 'VAL000' } });
+    });
+
+    it('should report validation errors and constraint violations', async () => {
+      const invalid = await app.inject({ method: 'POST', url: '/users', payload: {} });
+      expect(invalid.statusCode).toBe(400);
+      expect(invalid.json()).toMatchObject({
+        error: { code: 'VAL000', details: [{ field: 'email' }] },
+        fields: { email: ['Required'] },
+      });
+
+      await app.inject({ method: 'POST', url: '/users', payload: { email: 'grace@example.com' } });
+      const duplicate = await app.inject({
+        method: 'POST',
+        url: '/users',
+        payload: { email: 'grace@example.com' },
+      });
+      expect(duplicate.statusCode).toBe(409);
+      expect(duplicate.json()).toMatchObject({
+        error: { code: 'DB004', details: { constraint: 'users_email_key' } },
+      });
+      expect(duplicate.body).not.toContain('grace@example.com');
+    });
+  });
+
+  describe('role-gated routes', () => {
+    const auth = parseAUTH(`Roles:
+- admin
+- editor
+
+Rules for Tags:
+- anyone can read Tags
+- admins can create Tags
+- admins can delete Tags
+- editors can delete Tags
+`);
+    const gated = generateRoutes(ddl, undefined, auth);
+    let dir: string;
+    let pglite: PGlite;
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+      dir = writeOutput([generateDrizzleSchema(ddl), generateZodSchemas(ddl), ...gated]);
+      const schema = (await import(join(dir, 'schema/drizzle.ts'))) as Record<string, unknown>;
+      const { apiRoutes } = (await import(join(dir, 'api/routes.ts'))) as {
+        apiRoutes: FastifyPluginAsync<Record<string, unknown>>;
+      };
+
+      pglite = new PGlite();
+      await pglite.exec(SQL);
+      app = Fastify();
+      await app.register(apiRoutes, {
+        db: drizzle(pglite, { schema }),
+        authenticate: headerAuthenticate,
+        user: headerUser,
+        policy: new PolicyEngine({ ddl, auth }, schema),
+      });
+      await app.ready();
+    });
+
+    afterAll(async () => {
+      await app.close();
+      await pglite.close();
+      removeOutput(dir);
+    });
+
+    it('should gate the routes only granted to roles', () => {
+      const tags = gated.find((generated) => generated.path === 'api/tags.ts')!.content;
+      expect(tags).toContain(
+        "  const adminOnly = { preHandler: [authenticate ?? rejectUnauthenticated, requireRoles(user, ['admin'])] };"
+      );
+      expect(tags).toContain("app.post('/tags', adminOnly, async (request, reply) => {");
+      expect(tags).toContain(
+        "app.delete('/tags/:id', adminOrEditorOnly, async (request, reply) => {"
+      );
+      expect(tags).not.toContain('const authenticated');
+    });
+
+    it('should only let users having one of the roles in', async () => {
+      const payload = { name: 'news' };
+      const anonymous = await app.inject({ method: 'POST', url: '/tags', payload });
+      expect(anonymous.statusCode).toBe(401);
+
+      const user = await app.inject({
+        method: 'POST',
+        url: '/tags',
+        payload,
+        headers: { 'x-roles': 'user' },
+      });
+      expect(user.statusCode).toBe(403);
+      expect(user.json()).toMatchObject({
+        error: { code: 'AUTH003', message: 'Insufficient permissions: requires role admin' },
+      });
+
+      const admin = await app.inject({
+        method: 'POST',
+        url: '/tags',
+        payload,
+        headers: { 'x-roles': 'user,admin' },
+      });
+      expect(admin.statusCode).toBe(201);
+
+      const { data } = admin.json<{ data: { id: number } }>();
+      const deleted = await app.inject({
+        method: 'DELETE',
+        url: `/tags/${data.id}`,
+        headers: { 'x-roles': 'editor' },
+      });
+      expect(deleted.statusCode).toBe(204);
+    });
+  });
+
+  describe('rule-filtered routes', () => {
+    const auth = parseAUTH(`Roles:
+- admin
+
+Rules for Posts:
+- anyone can read Posts where published is true
+- users can read own Posts
+- authenticated users can create Posts
+- users can edit own Posts where published is false
+- users can delete own Posts
+
+Field Rules for Posts:
+- users cannot edit views
+- admins can edit views
+- admins can read views
+`);
+    const dml = parseDML('Query for Posts:\n- recent posts sorted by created at descending\n');
+    const filtered = generateRoutes(ddl, undefined, auth, dml);
+    let dir: string;
+    let pglite: PGlite;
+    let app: FastifyInstance;
+    let routes: FastifyPluginAsync<Record<string, unknown>>;
+
+    const as = (id: number) => ({ 'x-roles': '', 'x-user-id': String(id) });
+    const titles = (response: { json(): unknown }) =>
+      (response.json() as { data: { title: string }[] }).data.map((post) => post.title).sort();
+
+    beforeAll(async () => {
+      dir = writeOutput([
+        generateDrizzleSchema(ddl),
+        generateZodSchemas(ddl),
+        ...generateRepositories(ddl, dml),
+        ...filtered,
+      ]);
+      const schema = (await import(join(dir, 'schema/drizzle.ts'))) as Record<string, unknown>;
+      ({ apiRoutes: routes } = (await import(join(dir, 'api/routes.ts'))) as {
+        apiRoutes: FastifyPluginAsync<Record<string, unknown>>;
+      });
+
+      pglite = new PGlite();
+      await pglite.exec(SQL);
+      await pglite.exec(`INSERT INTO users (email) VALUES ('ada@example.com'), ('bob@example.com');
+        INSERT INTO posts (title, published, user_id) VALUES
+          ('Public', true, 1), ('Draft of Ada', false, 1), ('Draft of Bob', false, 2)`);
+      app = Fastify();
+      await app.register(routes, {
+        db: drizzle(pglite, { schema }),
+        authenticate: headerAuthenticate,
+        currentUser: (request: FastifyRequest) => headerUser(request)?.id,
+        user: headerUser,
+        policy: new PolicyEngine({ ddl, auth }, schema),
+      });
+      await app.ready();
+    });
+
+    afterAll(async () => {
+      await app.close();
+      await pglite.close();
+      removeOutput(dir);
+    });
+
+    it('should require the policy option', async () => {
+      const bare = Fastify();
+      await expect(bare.register(routes, { db: {} }).ready()).rejects.toThrow(
+        'The Post routes need the policy option: auth.dsl has rules for Post'
+      );
+    });
+
+    it('should only list and query the records the user may read', async () => {
+      expect(titles(await app.inject({ method: 'GET', url: '/posts' }))).toEqual(['Public']);
+      expect(titles(await app.inject({ method: 'GET', url: '/posts/recent-posts' }))).toEqual([
+        'Public',
+      ]);
+      const ada = await app.inject({ method: 'GET', url: '/posts', headers: as(1) });
+      expect(titles(ada)).toEqual(['Draft of Ada', 'Public']);
+      expect(ada.json()).toMatchObject({ meta: { pagination: { total: 2 } } });
+    });
+
+    it('should not find the records the user may not act on', async () => {
+      expect((await app.inject({ method: 'GET', url: '/posts/2' })).statusCode).toBe(404);
+      const own = await app.inject({ method: 'GET', url: '/posts/2', headers: as(1) });
+      expect(own.json()).toMatchObject({ data: { title: 'Draft of Ada' } });
+
+      const edit = (id: number, user: number) =>
+        app.inject({
+          method: 'PATCH',
+          url: `/posts/${id}`,
+          payload: { title: 'Mine' },
+          headers: as(user),
+        });
+      expect((await edit(3, 1)).statusCode).toBe(404);
+      expect((await edit(1, 1)).statusCode).toBe(404); // published
+      expect((await edit(2, 1)).json()).toMatchObject({ data: { title: 'Mine' } });
+
+      const deleted = await app.inject({ method: 'DELETE', url: '/posts/3', headers: as(1) });
+      expect(deleted.statusCode).toBe(404);
+      const rows = await pglite.query('SELECT id FROM posts WHERE id = 3');
+      expect(rows.rows).toHaveLength(1);
+    });
+
+    it('should check the fields written and read against the field rules', async () => {
+      const edit = (headers: Record<string, string>) =>
+        app.inject({ method: 'PATCH', url: '/posts/2', payload: { views: 5 }, headers });
+      const user = await edit(as(1));
+      expect(user.statusCode).toBe(403);
+      expect(user.json()).toMatchObject({
+        error: { code: 'AUTH003', message: 'Insufficient permissions to edit views' },
+      });
+
+      const admin = await edit({ ...as(1), 'x-roles': 'admin' });
+      expect(admin.json()).toMatchObject({ data: { views: 5 } });
+
+      const listed = await app.inject({ method: 'GET', url: '/posts', headers: as(1) });
+      for (const post of listed.json<{ data: object[] }>().data) {
+        expect(post).not.toHaveProperty('views');
+      }
+    });
+
+    it('should create records owned by the current user', async () => {
+      const created = await app.inject({
+        method: 'POST',
+        url: '/posts',
+        payload: { title: 'Forged', user_id: 2 },
+        headers: as(1),
+      });
+      expect(created.statusCode).toBe(201);
+      expect(created.json()).toMatchObject({ data: { title: 'Forged', user_id: 1 } });
+    });
+  });
+
+  describe('routes of users with a password', () => {
+    const users = parseDDL(`User[s]:
+- has email as unique text and required
+- has password as text and required
+- has role as text
+- has is active as boolean
+`);
+    const auth = parseAUTH(`Roles:
+- admin
+
+Rules for Users:
+- anyone can create Users
+- anyone can read Users
+- users can edit own User
+
+Field Rules for Users:
+- admins can edit role
+- admins can edit is active
+`);
+    const dml = parseDML('Query for Users:\n- active users where is active is false\n');
+    const security = new SECURITYParser(
+      new Tokenizer('Constraints:\n- all password fields must have minimum 4 rounds\n').tokenize()
+    ).parse();
+    let dir: string;
+    let pglite: PGlite;
+    let app: FastifyInstance;
+    let routes: FastifyPluginAsync<Record<string, unknown>>;
+    let policy: PolicyEngine;
+
+    const stored = async () =>
+      (await pglite.query<{ password: string }>('SELECT password FROM users WHERE id = 1')).rows[0]!
+        .password;
+
+    beforeAll(async () => {
+      dir = writeOutput([
+        generateDrizzleSchema(users),
+        generateZodSchemas(users),
+        ...generateRepositories(users, dml),
+        ...generateRoutes(users, undefined, auth, dml),
+      ]);
+      const schema = (await import(join(dir, 'schema/drizzle.ts'))) as Record<string, unknown>;
+      ({ apiRoutes: routes } = (await import(join(dir, 'api/routes.ts'))) as {
+        apiRoutes: FastifyPluginAsync<Record<string, unknown>>;
+      });
+
+      pglite = new PGlite();
+      await pglite.exec(`CREATE TABLE users (
+        id serial PRIMARY KEY,
+        email varchar(255) NOT NULL UNIQUE,
+        password varchar(255) NOT NULL,
+        role varchar(255),
+        is_active boolean NOT NULL DEFAULT false,
+        created_at timestamp NOT NULL DEFAULT now(),
+        updated_at timestamp NOT NULL DEFAULT now()
+      )`);
+      const authenticator = new Authenticator({ ddl: users, auth, security }, schema, {
+        db: drizzle(pglite),
+        secret: 'a-secret-of-at-least-thirty-two-bytes',
+      });
+      policy = new PolicyEngine({ ddl: users, auth }, schema);
+      app = Fastify();
+      await app.register(routes, {
+        db: drizzle(pglite, { schema }),
+        authenticate: headerAuthenticate,
+        currentUser: (request: FastifyRequest) => headerUser(request)?.id,
+        user: headerUser,
+        policy,
+        hashPassword: authenticator.hashPassword,
+      });
+      await app.ready();
+    });
+
+    afterAll(async () => {
+      await app.close();
+      await pglite.close();
+      removeOutput(dir);
+    });
+
+    it('should require the hashPassword option', async () => {
+      const bare = Fastify();
+      await expect(bare.register(routes, { db: {}, policy }).ready()).rejects.toThrow(
+        'The User routes need the hashPassword option: User has a password'
+      );
+    });
+
+    it('should store created users with a bcrypt hash of their password', async () => {
+      const created = await app.inject({
+        method: 'POST',
+        url: '/users',
+        payload: { email: 'ada@example.com', password: 'correct horse' },
+      });
+
+      expect(created.statusCode).toBe(201);
+      expect(created.json<{ data: object }>().data).not.toHaveProperty('password');
+      expect(await stored()).toMatch(/^\$2b\$04\$/);
+    });
+
+    it('should not let anyone pick the role nor the activation of a user', async () => {
+      for (const payload of [{ role: 'admin' }, { is_active: true }]) {
+        const created = await app.inject({
+          method: 'POST',
+          url: '/users',
+          payload: { email: 'eve@example.com', password: 'battery staple', ...payload },
+        });
+        expect(created.statusCode).toBe(403);
+        expect(created.json()).toMatchObject({ error: { code: 'AUTH003' } });
+      }
+    });
+
+    it('should never send back nor sort by the password hash', async () => {
+      for (const url of ['/users', '/users/1', '/users/active-users']) {
+        const response = await app.inject({ method: 'GET', url });
+        expect(response.statusCode).toBe(200);
+        expect(response.body).not.toContain('password');
+        expect(response.body).toContain('ada@example.com');
+      }
+      const sorted = await app.inject({ method: 'GET', url: '/users?sort=password' });
+      expect(sorted.statusCode).toBe(400);
+    });
+
+    it('should hash the passwords of updates', async () => {
+      const before = await stored();
+      const updated = await app.inject({
+        method: 'PATCH',
+        url: '/users/1',
+        payload: { password: 'tr0ub4dor' },
+        headers: { 'x-roles': '', 'x-user-id': '1' },
+      });
+
+      expect(updated.statusCode).toBe(200);
+      expect(updated.json<{ data: object }>().data).not.toHaveProperty('password');
+      expect(await stored()).not.toBe(before);
+      expect(await stored()).toMatch(/^\$2b\$04\$/);
+    });
+  });
+
+  describe('versioned routes', () => {
+    const versioning = (version: string) => `${API}
+API versioning:
+- version format: ${version}
+- header: X-API-Version
+- default version: v2
+`;
+    const v1 = generateVersionSnapshot(project({ ddl: DDL, api: versioning('v1'), auth: AUTH }));
+    const snapshots = [
+      readVersionSnapshot(
+        'v1',
+        v1.find((generated) => generated.path === 'v1/openapi.json')!.content
+      ),
+    ];
+    const v2 = (source: string) => {
+      const current = project({ ddl: source, api: versioning('v2'), auth: AUTH });
+      return generateRoutes(current.ddl, current.api, current.auth, undefined, {
+        frozen: { snapshots, project: current },
+      });
+    };
+    const versioned = v2(DDL);
+    let dir: string;
+    let pglite: PGlite;
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+      dir = writeOutput([generateDrizzleSchema(ddl), generateZodSchemas(ddl), ...versioned]);
+      const schema = (await import(join(dir, 'schema/drizzle.ts'))) as Record<string, unknown>;
+      const { apiRoutes } = (await import(join(dir, 'api/routes.ts'))) as {
+        apiRoutes: FastifyPluginAsync<{ db: unknown; policy: unknown }>;
+      };
+
+      pglite = new PGlite();
+      await pglite.exec(SQL);
+      app = Fastify();
+      await app.register(apiRoutes, {
+        db: drizzle(pglite, { schema }),
+        policy: new PolicyEngine({ ddl, auth: parseAUTH(AUTH) }, schema),
+      });
+      await app.ready();
+    });
+
+    afterAll(async () => {
+      await app.close();
+      await pglite.close();
+      removeOutput(dir);
+    });
+
+    it('should list the served versions, the current one last', () => {
+      const routes = versioned.find((generated) => generated.path === 'api/routes.ts')!.content;
+      expect(routes).toContain("export const API_VERSIONS: readonly string[] = ['v1', 'v2'];");
+      expect(routes).toContain("export const DEFAULT_API_VERSION = 'v2';");
+    });
+
+    it('should refuse to break the clients of a frozen version (GEN011)', () => {
+      const renamed = DDL.replace('has title as text', 'has headline as text');
+
+      expect(() => v2(renamed)).toThrow(VersionSnapshotError);
+      expect(() => v2(renamed)).toThrow(
+        '- v1 Post.title: field was removed (renamed to headline?)'
+      );
+      expect(() => v2(`${DDL}\nLabel[s]:\n- has name as text\n`)).not.toThrow();
+    });
+
+    it('should serve each version under its prefix', async () => {
+      for (const version of ['v1', 'v2']) {
+        const response = await app.inject({ method: 'GET', url: `/${version}/tags` });
+        expect(response.statusCode).toBe(200);
+        expect(response.headers['x-api-version']).toBe(version);
+      }
+      expect((await app.inject({ method: 'GET', url: '/v3/tags' })).statusCode).toBe(404);
+    });
+
+    it('should pick the version of unprefixed paths from the header', async () => {
+      const defaulted = await app.inject({ method: 'GET', url: '/tags' });
+      expect(defaulted.statusCode).toBe(200);
+      expect(defaulted.headers['x-api-version']).toBe('v2');
+
+      const pinned = await app.inject({
+        method: 'GET',
+        url: '/tags',
+        headers: { 'x-api-version': 'v1' },
+      });
+      expect(pinned.headers['x-api-version']).toBe('v1');
+
+      const unsupported = await app.inject({
+        method: 'GET',
+        url: '/tags',
+        headers: { 'x-api-version': 'v3' },
+      });
+      expect(unsupported.statusCode).toBe(400);
+      expect(unsupported.json()).toMatchObject({
+        error: { code: 'RUNTIME007', message: 'Unsupported API version: v3' },
+      });
+    });
+  });
+});
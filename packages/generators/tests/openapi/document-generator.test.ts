@@ -0,0 +1,303 @@
+/**
+ * Tests for the OpenAPI generator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DSL_FILE_KINDS, parseProject } from '@declarelang/core';
+import type { DSLFileKind, ProjectAST, ProjectSource } from '@declarelang/core';
+import { generateOpenAPI } from '../../src/openapi/document-generator.js';
+
+const FILES: Partial<Record<DSLFileKind, string>> = {
+  ddl: `User[s]:
+- has email as unique text and required
+- has many Posts
+
+Post[s]:
+- has title as text and required
+- has slug as text
+- has views as number
+- has published as boolean
+- has published at as timestamp
+- belongs to User
+`,
+  dml: `Query for Posts:
+- published posts where published is true
+- user posts where user id matches current user
+- posts by author where user id matches given author
+
+Mutation for Posts:
+- publish post sets published to true and published at to now
+- rename post sets title to given title
+
+Computed for Post:
+- is published returns published is true
+`,
+  auth: `Roles:
+- admin
+
+Rules for Posts:
+- anyone can read Posts
+- users can create Posts
+- admins can edit any Post
+
+Field Rules for Posts:
+- only publish post mutation can edit published
+`,
+  validation: `Validate User:
+- email must be valid email format
+
+Validate Post:
+- title must be between 5 and 120 characters
+- slug must be lowercase alphanumeric and dashes only
+`,
+  api: `Rate limit:
+- 100 requests per minute per user
+
+Rate limit for Posts:
+- 10 creates per minute per user
+
+Success response:
+- data
+- meta with request id and pagination
+
+Error response:
+- status code
+- error with code, message, and details
+
+Pagination for Posts:
+- default limit: 10
+- max limit: 50
+- allowed sort fields: title
+
+Query parameters for Posts:
+- published as boolean
+- published at as date range
+- title as text contains
+
+API versioning:
+- default version: v2
+`,
+};
+
+function project(files: Partial<Record<DSLFileKind, string>> = FILES): ProjectAST {
+  const sources = {} as Record<DSLFileKind, ProjectSource>;
+  for (const kind of DSL_FILE_KINDS) {
+    const source = files[kind];
+    sources[kind] = {
+      kind,
+      path: `/schema/${kind}.dsl`,
+      source: source ?? '',
+      exists: source !== undefined,
+    };
+  }
+  return parseProject('/schema', sources);
+}
+
+type Document = {
+  info: { title: string; version: string };
+  'x-rate-limits'?: unknown[];
+  paths: Record<string, Record<string, Record<string, unknown>>>;
+  components: Record<string, Record<string, Record<string, unknown>>>;
+};
+
+function generate(files?: Partial<Record<DSLFileKind, string>>): Document {
+  const { path, content } = generateOpenAPI(project(files), { title: 'Blog' });
+  expect(path).toBe('openapi.json');
+  return JSON.parse(content) as Document;
+}
+
+describe('generateOpenAPI', () => {
+  const document = generate();
+  const { paths, components } = document;
+
+  it('should describe the document and its global rate limits', () => {
+    expect(document).toMatchObject({ openapi: '3.1.0', info: { title: 'Blog', version: 'v2' } });
+    expect(document['x-rate-limits']).toEqual([
+      { action: 'requests', limit: 100, per: 'minute', scope: 'user' },
+    ]);
+  });
+
+  it('should emit response and input schemas per model with validation limits', () => {
+    expect(components['schemas']!['Post']).toMatchObject({
+      properties: {
+        id: { type: 'integer' },
+        title: { type: 'string' },
+        slug: { type: ['string', 'null'] },
+        user_id: { type: ['integer', 'null'] },
+        created_at: { type: 'string', format: 'date-time' },
+      },
+    });
+    expect(components['schemas']!['CreatePostInput']).toEqual({
+      type: 'object',
+      properties: {
+        title: { type: 'string', minLength: 5, maxLength: 120 },
+        slug: { type: 'string', maxLength: 255, pattern: '^[a-z0-9-]+$' },
+        views: { type: 'integer' },
+        published: { type: 'boolean', default: false },
+        published_at: { type: 'string', format: 'date-time' },
+        user_id: { type: 'integer' },
+      },
+      required: ['title'],
+    });
+    expect(components['schemas']!['CreateUserInput']!['properties']).toEqual({
+      email: { type: 'string', format: 'email', maxLength: 255 },
+    });
+    expect(components['schemas']!['UpdatePostInput']).not.toHaveProperty('required');
+  });
+
+  it('should emit one operation per granted CRUD route', () => {
+    expect(Object.keys(paths['/posts']!)).toEqual(['get', 'post']);
+    expect(Object.keys(paths['/posts/{id}']!)).toEqual(['get', 'patch']);
+    expect(Object.keys(paths['/users/{id}']!)).toEqual(['get', 'patch', 'delete']);
+    expect(paths['/posts/{id}']!['patch']).toMatchObject({
+      operationId: 'updatePost',
+      parameters: [{ name: 'id', in: 'path', required: true }],
+      requestBody: {
+        content: {
+          'application/json': { schema: { $ref: '#/components/schemas/UpdatePostInput' } },
+        },
+      },
+    });
+  });
+
+  it('should list pagination and filter parameters on list routes', () => {
+    const parameters = paths['/posts']!['get']!['parameters'] as {
+      name: string;
+      schema: unknown;
+    }[];
+
+    expect(parameters.map((parameter) => parameter.name)).toEqual([
+      'page',
+      'limit',
+      'sort',
+      'order',
+      'published',
+      'published_at_from',
+      'published_at_to',
+      'title',
+      'include',
+    ]);
+    expect(parameters[1]!.schema).toEqual({ type: 'integer', minimum: 1, default: 10 });
+    expect(parameters[2]!.schema).toEqual({ enum: ['created_at', 'title'], default: 'created_at' });
+  });
+
+  it('should describe computed fields as read-only fields selected by include', () => {
+    expect(components['schemas']!['Post']!['properties']).toMatchObject({
+      is_published: { type: ['boolean', 'null'], readOnly: true },
+    });
+    expect(components['schemas']!['Post']!['required']).not.toContain('is_published');
+    expect(paths['/posts/{id}']!['get']!['parameters']).toContainEqual({
+      name: 'include',
+      in: 'query',
+      description: 'Computed fields to add, comma-separated',
+      style: 'form',
+      explode: false,
+      schema: { type: 'array', items: { enum: ['is_published'] } },
+    });
+  });
+
+  it('should require a bearer token on routes not granted to anyone', () => {
+    expect(paths['/posts']!['get']).not.toHaveProperty('security');
+    expect(paths['/posts']!['post']).toMatchObject({
+      security: [{ bearerAuth: [] }],
+      responses: { '401': { $ref: '#/components/responses/Unauthorized' } },
+    });
+    expect(paths['/posts/{id}']!['patch']!['security']).toEqual([{ bearerAuth: ['admin'] }]);
+    expect(components['securitySchemes']).toEqual({
+      bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+    });
+  });
+
+  it('should emit operations for DML queries and mutations', () => {
+    expect(paths['/posts/published-posts']!['get']).toMatchObject({
+      operationId: 'publishedPosts',
+      summary: 'published posts',
+    });
+    expect(paths['/posts/user-posts']!['get']!['security']).toEqual([{ bearerAuth: [] }]);
+    expect(paths['/posts/posts-by-author']!['get']!['parameters']).toEqual([
+      { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1, default: 1 } },
+      {
+        name: 'limit',
+        in: 'query',
+        description: 'Values above 50 are reduced to 50',
+        schema: { type: 'integer', minimum: 1, default: 10 },
+      },
+      { name: 'author', in: 'query', required: true, schema: { type: 'integer' } },
+    ]);
+
+    expect(paths['/posts/{id}/publish-post']!['post']).not.toHaveProperty('requestBody');
+    expect(paths['/posts/{id}/publish-post']!['post']!['security']).toEqual([
+      { bearerAuth: ['admin'] },
+    ]);
+    // published is reserved for the publish post mutation
+    expect(paths['/posts/{id}']!['patch']!['responses']).toHaveProperty('403');
+    expect(paths['/posts/{id}/rename-post']!['post']).toMatchObject({
+      operationId: 'renamePost',
+      requestBody: {
+        content: {
+          'application/json': {
+            schema: { properties: { title: { type: 'string' } }, required: ['title'] },
+          },
+        },
+      },
+    });
+  });
+
+  it('should wrap responses in the envelope of the API file', () => {
+    expect(paths['/posts']!['get']!['responses']).toMatchObject({
+      '200': {
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                data: { type: 'array', items: { $ref: '#/components/schemas/Post' } },
+                meta: { $ref: '#/components/schemas/Meta' },
+              },
+            },
+          },
+        },
+      },
+    });
+    expect(components['schemas']!['Meta']!['properties']).toEqual({
+      request_id: { type: 'string' },
+      pagination: { $ref: '#/components/schemas/Pagination' },
+    });
+    expect(components['schemas']!['Error']!['properties']).toMatchObject({
+      status_code: { type: 'integer' },
+      error: { required: ['code', 'message'] },
+    });
+  });
+
+  it('should attach model rate limits to the operations they apply to', () => {
+    expect(paths['/posts']!['post']!['x-rate-limits']).toEqual([
+      { action: 'creates', limit: 10, per: 'minute', scope: 'user' },
+    ]);
+    expect(paths['/posts']!['get']).not.toHaveProperty('x-rate-limits');
+    expect(paths['/posts']!['get']!['responses']).toHaveProperty('429');
+  });
+
+  it('should leave the password hash out of responses and list parameters', () => {
+    const ddl = FILES.ddl!.replace(
+      '- has many Posts',
+      '- has password as text and required\n- has many Posts'
+    );
+    const { paths, components } = generate({ ddl });
+    const sort = (paths['/users']!['get']!['parameters'] as { name: string; schema: object }[])[2];
+
+    expect(components['schemas']!['User']!['properties']).not.toHaveProperty('password');
+    expect(components['schemas']!['User']!['required']).not.toContain('password');
+    expect(components['schemas']!['CreateUserInput']!['properties']).toHaveProperty('password');
+    expect(sort).toMatchObject({
+      name: 'sort',
+      schema: { enum: ['created_at', 'id', 'email', 'updated_at'] },
+    });
+  });
+
+  it('should document every route as public without AUTH and API files', () => {
+    const { paths, components } = generate({ ddl: FILES.ddl });
+
+    expect(Object.keys(paths['/posts/{id}']!)).toEqual(['get', 'patch', 'delete']);
+    expect(paths['/posts']!['post']!['responses']).not.toHaveProperty('429');
+    expect(components).not.toHaveProperty('securitySchemes');
+  });
+});
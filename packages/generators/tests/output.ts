@@ -0,0 +1,59 @@
+/**
+ * Temporary output directories for generated code in tests
+ * Directories are created inside the package, so that the generated imports
+ * of drizzle-orm, zod and fastify resolve to its dependencies
+ */
+
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+import type { GeneratedFile } from '../src/types.js';
+
+/**
+ * Write generated files to a new temporary directory
+ *
+ * @returns Path of the directory
+ */
+export function writeOutput(files: GeneratedFile[]): string {
+  const dir = mkdtempSync(join(fileURLToPath(new URL('.', import.meta.url)), 'generated-'));
+  for (const file of files) {
+    mkdirSync(dirname(join(dir, file.path)), { recursive: true });
+    writeFileSync(join(dir, file.path), file.content);
+  }
+  return dir;
+}
+
+export function removeOutput(dir: string): void {
+  rmSync(dir, { recursive: true, force: true });
+}
+
+/**
+ * Type-check the generated files of a directory under the compiler options of the repository
+ *
+ * @returns The errors, one line each
+ */
+export function typeCheckOutput(dir: string): string[] {
+  const root = fileURLToPath(new URL('../../..', import.meta.url));
+  const { config } = ts.readConfigFile(join(root, 'tsconfig.json'), (path) =>
+    ts.sys.readFile(path)
+  ) as { config: unknown };
+  const { options } = ts.parseJsonConfigFileContent(config, ts.sys, root);
+  const files = readdirSync(dir, { recursive: true, encoding: 'utf8' })
+    .filter((path) => path.endsWith('.ts'))
+    .map((path) => join(dir, path));
+  const program = ts.createProgram(files, {
+    ...options,
+    composite: false,
+    incremental: false,
+    declaration: false,
+    declarationMap: false,
+    noEmit: true,
+  });
+  return ts.getPreEmitDiagnostics(program).map((diagnostic) => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ');
+    if (!diagnostic.file || diagnostic.start === undefined) return message;
+    const { line } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    return `${diagnostic.file.fileName.slice(dir.length + 1)}:${line + 1} ${message}`;
+  });
+}
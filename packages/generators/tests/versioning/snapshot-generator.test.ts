@@ -0,0 +1,110 @@
+/**
+ * Tests for the version snapshot generator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DSL_FILE_KINDS, parseProject } from '@declarelang/core';
+import type { DSLFileKind, ProjectAST, ProjectSource } from '@declarelang/core';
+import {
+  checkVersionSnapshot,
+  generateVersionSnapshot,
+  type OpenAPIDocument,
+} from '../../src/versioning/snapshot-generator.js';
+
+const DDL = `User[s]:
+- has email as unique text and required
+- has many Posts
+
+Post[s]:
+- has title as text and required
+- has views as number
+- belongs to User
+`;
+
+const API = `API versioning:
+- version format: v1
+- header: X-API-Version
+- default version: v1
+`;
+
+function project(files: Partial<Record<DSLFileKind, string>>): ProjectAST {
+  const sources = {} as Record<DSLFileKind, ProjectSource>;
+  for (const kind of DSL_FILE_KINDS) {
+    const source = files[kind];
+    sources[kind] = {
+      kind,
+      path: `/schema/${kind}.dsl`,
+      source: source ?? '',
+      exists: source !== undefined,
+    };
+  }
+  return parseProject('/schema', sources);
+}
+
+/**
+ * Snapshot of the v1 project, as read back from generated/v1/
+ */
+function snapshot() {
+  const files = generateVersionSnapshot(project({ ddl: DDL, api: API }));
+  const openapi = files.find((file) => file.path === 'v1/openapi.json')!;
+  return { version: 'v1', openapi: JSON.parse(openapi.content) as OpenAPIDocument };
+}
+
+describe('generateVersionSnapshot', () => {
+  it('should freeze the DDL as written and the response shapes', () => {
+    const files = generateVersionSnapshot(project({ ddl: DDL, api: API }));
+
+    expect(files.map((file) => file.path)).toEqual(['v1/ddl.dsl', 'v1/openapi.json']);
+    expect(files[0]!.content).toBe(DDL);
+    const openapi = JSON.parse(files[1]!.content) as {
+      info: { version: string };
+      components: { schemas: Record<string, unknown> };
+    };
+    expect(openapi.info.version).toBe('v1');
+    expect(openapi.components.schemas).toHaveProperty('Post');
+  });
+});
+
+describe('checkVersionSnapshot', () => {
+  const v2 = (ddl: string) => project({ ddl, api: API.replace('format: v1', 'format: v2') });
+
+  it('should accept additions', () => {
+    const ddl = DDL.replace('- belongs to User', '- has summary as text\n- belongs to User');
+    expect(checkVersionSnapshot(snapshot(), v2(ddl))).toEqual([]);
+  });
+
+  it('should report renamed fields', () => {
+    const ddl = DDL.replace('has title as', 'has headline as');
+    expect(checkVersionSnapshot(snapshot(), v2(ddl))).toContainEqual({
+      code: 'GEN011',
+      version: 'v1',
+      location: 'Post.title',
+      message: 'field was removed (renamed to headline?)',
+    });
+  });
+
+  it('should report fields changing type or becoming nullable', () => {
+    const ddl = DDL.replace('has views as number', 'has views as text').replace(
+      'has title as text and required',
+      'has title as text'
+    );
+    expect(
+      checkVersionSnapshot(snapshot(), v2(ddl)).map(({ location, message }) => [location, message])
+    ).toEqual([
+      ['Post.title', 'field may now be null'],
+      ['Post.views', 'type changed from integer to string'],
+    ]);
+  });
+
+  it('should report removed routes and newly required inputs', () => {
+    const ddl = `User[s]:
+- has email as unique text and required
+- has name as text and required
+`;
+    const locations = checkVersionSnapshot(snapshot(), v2(ddl)).map((change) => change.location);
+    expect(locations).toContain('GET /posts');
+    expect(locations).toContain('DELETE /posts/{id}');
+    expect(locations).toContain('Post');
+    expect(locations).toContain('CreateUserInput.name');
+  });
+});
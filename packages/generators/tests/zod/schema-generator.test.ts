@@ -0,0 +1,191 @@
+/**
+ * Tests for the Zod schema generator
+ * The generated schemas are also loaded and run against sample payloads
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { DDLParser, DMLParser, Tokenizer, VALIDATIONParser } from '@declarelang/core';
+import type { DDLFile, DMLFile, VALIDATIONFile } from '@declarelang/core';
+import type { ZodType } from 'zod';
+import { generateZodSchemas } from '../../src/zod/schema-generator.js';
+import { removeOutput, writeOutput } from '../output.js';
+
+const DDL = `User[s]:
+- has email as unique text and required
+- has username as text and required
+- has nickname as text and required
+- has website as text
+- has bio as long text
+- has is active as boolean
+- has many Posts
+
+Post[s]:
+- has title as text and required
+- has code as text
+- has views as number
+- has published as boolean
+- has published at as timestamp
+- has archived at as timestamp
+- belongs to User
+`;
+
+const VALIDATION = `Validate User:
+- email must be valid email format
+- username must be alphanumeric and dashes only
+- username must be between 3 and 30 characters
+- nickname must be at least 2 characters if provided
+- website must be valid url if provided
+- bio must be at most 500 characters
+
+Validate Post:
+- title must be between 5 and 300 characters
+- code must match "^[A-Z]{3}$"
+- published at must exist when published is true
+- archived at must be empty when published is false
+`;
+
+function parseDDL(input: string): DDLFile {
+  return new DDLParser(new Tokenizer(input).tokenize()).parse();
+}
+
+function parseValidation(input: string): VALIDATIONFile {
+  return new VALIDATIONParser(new Tokenizer(input).tokenize()).parse();
+}
+
+function parseDML(input: string): DMLFile {
+  return new DMLParser(new Tokenizer(input).tokenize()).parse();
+}
+
+describe('generateZodSchemas', () => {
+  const schemas = generateZodSchemas(parseDDL(DDL), parseValidation(VALIDATION));
+
+  it('should map field types and layer validation rules on top', () => {
+    const { content } = schemas;
+
+    expect(schemas.path).toBe('middleware/validation.ts');
+    expect(content).toContain("import { z } from 'zod';");
+    expect(content).toContain('email: z.string().email().max(255),');
+    expect(content).toContain('username: z.string().regex(/^[A-Za-z0-9-]+$/).min(3).max(30),');
+    expect(content).toContain('website: z.string().url().max(255).optional(),');
+    expect(content).toContain('bio: z.string().max(500).optional(),');
+    expect(content).toContain('is_active: z.boolean().default(false),');
+    expect(content).toContain('title: z.string().min(5).max(255),');
+    expect(content).toContain('code: z.string().regex(/^[A-Z]{3}$/).max(255).optional(),');
+    expect(content).toContain('views: z.number().int().optional(),');
+    expect(content).toContain('published_at: z.coerce.date().optional(),');
+    expect(content).toContain('user_id: z.number().int().optional(),');
+  });
+
+  it('should make fields validated "if provided" optional', () => {
+    expect(schemas.content).toContain('nickname: z.string().min(2).max(255).optional(),');
+  });
+
+  it('should emit Create, Update and Response schemas with inferred types', () => {
+    const { content } = schemas;
+
+    expect(content).toContain('export const CreateUserSchema = z.object({');
+    expect(content).toContain('export const UpdateUserSchema = CreateUserSchema.partial();');
+    expect(content).toContain(`export const PostResponseSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  code: z.string().nullable(),`);
+    expect(content).toContain('  user_id: z.number().int().nullable(),\n  created_at: z.date(),');
+    expect(content).toContain('export type UpdatePostInput = z.infer<typeof UpdatePostSchema>;');
+  });
+
+  it('should turn exist when and be empty when into superRefine checks', () => {
+    const { content } = schemas;
+
+    expect(content).toContain('const isEmpty = (value: unknown): boolean =>');
+    expect(content).toContain(
+      'export const CreatePostSchema = PostFields.superRefine(refinePost);'
+    );
+    expect(content).toContain(
+      'export const UpdatePostSchema = PostFields.partial().superRefine(refinePost);'
+    );
+    expect(content).toContain(`  if (data.published === true && isEmpty(data.published_at)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['published_at'],
+      message: "published at must exist when published is true",
+    });
+  }`);
+    expect(content).toContain('if (data.published === false && !isEmpty(data.archived_at)) {');
+  });
+
+  it('should generate plain schemas without a VALIDATION file', () => {
+    const { content } = generateZodSchemas(parseDDL(DDL));
+
+    expect(content).toContain('email: z.string().max(255),');
+    expect(content).toContain('export const UpdatePostSchema = CreatePostSchema.partial();');
+    expect(content).not.toContain('isEmpty');
+  });
+
+  it('should add computed fields to Response schemas as optional fields', () => {
+    const dml = parseDML(`Computed for User:
+- post count counts Posts
+- is listed returns is active is true
+`);
+    const { content } = generateZodSchemas(parseDDL(DDL), undefined, dml);
+
+    expect(content).toContain(`  updated_at: z.date(),
+  post_count: z.number().optional(),
+  is_listed: z.boolean().nullable().optional(),
+});`);
+    expect(content).not.toContain('post_count: z.number().int()');
+  });
+
+  it('should leave the password hash out of Response schemas', () => {
+    const { content } = generateZodSchemas(
+      parseDDL('User[s]:\n- has email as text and required\n- has password as text and required\n')
+    );
+
+    expect(content).toContain(`export const CreateUserSchema = z.object({
+  email: z.string().max(255),
+  password: z.string().max(255),
+});`);
+    expect(content).toContain(`export const UserResponseSchema = z.object({
+  id: z.number().int(),
+  email: z.string(),
+  created_at: z.date(),`);
+  });
+
+  it('should produce schemas that validate payloads', async () => {
+    const dir = writeOutput([schemas]);
+    try {
+      const module = (await import(join(dir, schemas.path))) as Record<string, ZodType<unknown>>;
+      const createUser = module['CreateUserSchema']!;
+      const createPost = module['CreatePostSchema']!;
+      const updatePost = module['UpdatePostSchema']!;
+
+      const user = createUser.parse({ email: 'ada@example.com', username: 'ada-l' });
+      expect(user).toEqual({ email: 'ada@example.com', username: 'ada-l', is_active: false });
+      expect(createUser.safeParse({ email: 'ada', username: 'ada-l' }).success).toBe(false);
+      expect(createUser.safeParse({ email: 'a@b.co', username: 'a!' }).success).toBe(false);
+
+      const post = createPost.parse({ title: 'Hello world', published_at: '2026-01-01T00:00:00Z' });
+      expect(post).toMatchObject({
+        published: false,
+        published_at: new Date('2026-01-01T00:00:00Z'),
+      });
+
+      const published = createPost.safeParse({ title: 'Hello world', published: true });
+      expect(published.success).toBe(false);
+      expect(published.error?.issues).toEqual([
+        expect.objectContaining({
+          path: ['published_at'],
+          message: 'published at must exist when published is true',
+        }),
+      ]);
+      expect(createPost.safeParse({ title: 'Hello world', code: 'abc' }).success).toBe(false);
+
+      expect(updatePost.parse({})).toEqual({});
+      expect(
+        updatePost.safeParse({ published: false, archived_at: '2026-01-01T00:00:00Z' }).success
+      ).toBe(false);
+    } finally {
+      removeOutput(dir);
+    }
+  });
+});
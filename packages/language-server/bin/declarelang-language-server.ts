@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+/**
+ * DeclareLang language server over stdio
+ * Editors start it as `declarelang-language-server --stdio`
+ */
+
+import { ProposedFeatures, createConnection } from 'vscode-languageserver/node.js';
+import { startServer } from '../src/server.js';
+
+startServer(createConnection(ProposedFeatures.all, process.stdin, process.stdout));
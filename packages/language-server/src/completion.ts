@@ -0,0 +1,43 @@
+/**
+ * Completion for the DeclareLang language server
+ * Offers the DSL keywords known to the tokenizer, the model names (singular
+ * and plural) and the field names defined in ddl.dsl
+ */
+
+import { KEYWORDS } from '@declarelang/core';
+import { CompletionItemKind } from 'vscode-languageserver/node.js';
+import type { CompletionItem } from 'vscode-languageserver/node.js';
+import type { SchemaSnapshot } from './workspace.js';
+
+/**
+ * Completion items for a schema
+ * Fields defined by several models are offered once, listing every model
+ */
+export function completionItems(snapshot: SchemaSnapshot): CompletionItem[] {
+  const items: CompletionItem[] = Object.keys(KEYWORDS).map((keyword) => ({
+    label: keyword,
+    kind: CompletionItemKind.Keyword,
+  }));
+
+  const models = snapshot.analysis?.symbols.getModels() ?? [];
+  const fields = new Map<string, string[]>();
+
+  for (const model of models) {
+    const { singular, plural } = model.definition.name;
+    for (const label of singular === plural ? [singular] : [singular, plural]) {
+      items.push({ label, kind: CompletionItemKind.Class, detail: `model ${singular}` });
+    }
+
+    for (const field of model.fields.values()) {
+      const { originalName, type } = field.definition;
+      const details = fields.get(originalName) ?? [];
+      details.push(`${singular}.${field.definition.name}: ${type}`);
+      fields.set(originalName, details);
+    }
+  }
+
+  for (const [label, details] of fields) {
+    items.push({ label, kind: CompletionItemKind.Field, detail: details.join(', ') });
+  }
+  return items;
+}
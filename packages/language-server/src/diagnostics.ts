@@ -0,0 +1,51 @@
+/**
+ * Diagnostics for the DeclareLang language server
+ * Combines the parse diagnostics of a document (tokenizer and parser errors)
+ * with the semantic diagnostics of its schema (unresolved model and field
+ * references) and converts them to LSP diagnostics
+ */
+
+import type { DeclareDiagnostic, DiagnosticSeverity } from '@declarelang/core';
+import type { Diagnostic } from 'vscode-languageserver/node.js';
+import { toRange } from './positions.js';
+import type { SchemaSnapshot } from './workspace.js';
+import { dslFileKind } from './workspace.js';
+
+/**
+ * Source reported with every diagnostic
+ */
+export const DIAGNOSTIC_SOURCE = 'declarelang';
+
+const SEVERITIES: Record<DiagnosticSeverity, Diagnostic['severity']> = {
+  error: 1,
+  warning: 2,
+  info: 3,
+};
+
+/**
+ * Diagnostics of one DSL file of a schema
+ *
+ * @param snapshot - Schema the file belongs to
+ * @param path - Path of the file
+ * @returns LSP diagnostics, parse diagnostics first
+ */
+export function documentDiagnostics(snapshot: SchemaSnapshot, path: string): Diagnostic[] {
+  const kind = dslFileKind(path);
+  if (!kind) return [];
+
+  const semantic = (snapshot.analysis?.diagnostics ?? []).filter((d) => d.file === path);
+  return [...snapshot.documents[kind].diagnostics, ...semantic].map(toLspDiagnostic);
+}
+
+/**
+ * LSP diagnostic of a DeclareLang diagnostic
+ */
+export function toLspDiagnostic(diagnostic: DeclareDiagnostic): Diagnostic {
+  return {
+    range: toRange(diagnostic),
+    severity: SEVERITIES[diagnostic.severity],
+    code: diagnostic.code,
+    source: DIAGNOSTIC_SOURCE,
+    message: diagnostic.help ? `${diagnostic.message}\n${diagnostic.help}` : diagnostic.message,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Hover content for the DeclareLang language server
+ * Fields show their type and constraints, models list their fields
+ *
+ * Output (markdown):
+ * **Post.published_at**: `timestamp`
+ *
+ * Constraints: `indexed`, `required`
+ */
+
+import type { FieldSymbol, ModelSymbol } from '@declarelang/core';
+import type { SchemaSymbol } from './navigation.js';
+
+/**
+ * Markdown describing a model or field
+ */
+export function hoverContent(symbol: SchemaSymbol): string {
+  return symbol.kind === 'model'
+    ? describeModel(symbol.model)
+    : describeField(symbol.model, symbol.field);
+}
+
+function describeField(model: ModelSymbol, field: FieldSymbol): string {
+  const { name, type, constraints } = field.definition;
+  const lines = [`**${model.definition.name.singular}.${name}**: \`${type}\``];
+
+  if (constraints.length > 0) {
+    lines.push(`Constraints: ${constraints.map((c) => `\`${c}\``).join(', ')}`);
+  }
+  if (field.implicit) {
+    lines.push('Generated field');
+  }
+  return lines.join('\n\n');
+}
+
+function describeModel(model: ModelSymbol): string {
+  const { singular, plural } = model.definition.name;
+  const fields = [...model.fields.values()].map(
+    (field) =>
+      `- \`${field.definition.name}\`: \`${field.definition.type}\`` +
+      (field.implicit ? ' (generated)' : '')
+  );
+
+  return [`**${singular}** (${plural})`, fields.join('\n')].join('\n\n');
+}
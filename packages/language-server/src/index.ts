@@ -0,0 +1,12 @@
+/**
+ * DeclareLang Language Server Package
+ * Language Server Protocol support for .dsl files
+ */
+
+export * from './workspace.js';
+export * from './positions.js';
+export * from './diagnostics.js';
+export * from './navigation.js';
+export * from './hover.js';
+export * from './completion.js';
+export * from './server.js';
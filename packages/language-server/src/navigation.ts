@@ -0,0 +1,146 @@
+/**
+ * Symbol navigation for the DeclareLang language server
+ * Finds the model or field under the cursor, where it is defined in ddl.dsl
+ * and where it is referenced across the DSL files of the schema
+ *
+ * Symbols are the references resolved by the semantic pass (analyzeProject)
+ * plus the declarations in ddl.dsl: model headers ("Post[s]:") and field
+ * definitions ("- has title as text").
+ */
+
+import { findNameInNode } from '@declarelang/core';
+import type { BaseNode, FieldSymbol, ModelSymbol } from '@declarelang/core';
+import { containsOffset } from './positions.js';
+import type { SchemaSnapshot } from './workspace.js';
+import { dslFileKind } from './workspace.js';
+
+/**
+ * Model or field found in a DSL file
+ */
+export type SchemaSymbol =
+  | { kind: 'model'; model: ModelSymbol }
+  | { kind: 'field'; model: ModelSymbol; field: FieldSymbol };
+
+/**
+ * Range in a DSL file of the schema
+ */
+export interface SymbolLocation extends BaseNode {
+  path: string;
+}
+
+/**
+ * Symbol at an offset of a DSL file
+ * The innermost reference wins, so that a field inside a condition is found
+ * rather than the model the condition belongs to
+ *
+ * @param snapshot - Schema the file belongs to
+ * @param path - Path of the file
+ * @param offset - Character offset in the file
+ * @returns Symbol, or undefined if there is none at the offset
+ */
+export function symbolAt(
+  snapshot: SchemaSnapshot,
+  path: string,
+  offset: number
+): SchemaSymbol | undefined {
+  const kind = dslFileKind(path);
+  const analysis = snapshot.analysis;
+  if (!kind || !analysis) return undefined;
+
+  let found: (SchemaSymbol & BaseNode) | undefined;
+  for (const reference of analysis.references) {
+    if (reference.file !== kind || !containsOffset(reference, offset)) continue;
+    if (!found || length(reference) < length(found)) {
+      found = reference;
+    }
+  }
+  if (found) {
+    return toSymbol(found);
+  }
+
+  if (kind !== 'ddl') return undefined;
+
+  for (const model of analysis.symbols.getModels()) {
+    if (containsOffset(model.definition.name, offset)) {
+      return { kind: 'model', model };
+    }
+    for (const field of model.fields.values()) {
+      if (field.implicit) continue;
+      const name = fieldName(snapshot, field);
+      if (name && containsOffset(name, offset)) {
+        return { kind: 'field', model, field };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Where a symbol is defined in ddl.dsl
+ * Implicit fields (id, timestamps, foreign keys) point at the model name or
+ * at the `belongs to` relationship that generates them
+ */
+export function findDefinition(snapshot: SchemaSnapshot, symbol: SchemaSymbol): SymbolLocation {
+  const path = snapshot.project.sources.ddl.path;
+
+  if (symbol.kind === 'model') {
+    const { start, end } = symbol.model.definition.name;
+    return { path, start, end };
+  }
+
+  const { start, end } = fieldName(snapshot, symbol.field) ?? symbol.field.definition;
+  return { path, start, end };
+}
+
+/**
+ * Where a symbol is referenced across the DSL files of the schema
+ *
+ * @param snapshot - Schema to search
+ * @param symbol - Model or field
+ * @param includeDeclaration - Whether to include the definition in ddl.dsl
+ * @returns Locations in file order (ddl, dml, auth, ...), then source order
+ */
+export function findReferences(
+  snapshot: SchemaSnapshot,
+  symbol: SchemaSymbol,
+  includeDeclaration: boolean
+): SymbolLocation[] {
+  const locations: SymbolLocation[] = [];
+  if (includeDeclaration) {
+    locations.push(findDefinition(snapshot, symbol));
+  }
+
+  for (const reference of snapshot.analysis?.references ?? []) {
+    if (isSameSymbol(reference, symbol)) {
+      const path = snapshot.project.sources[reference.file].path;
+      locations.push({ path, start: reference.start, end: reference.end });
+    }
+  }
+  return locations;
+}
+
+function toSymbol(symbol: SchemaSymbol): SchemaSymbol {
+  return symbol.kind === 'model'
+    ? { kind: 'model', model: symbol.model }
+    : { kind: 'field', model: symbol.model, field: symbol.field };
+}
+
+function isSameSymbol(a: SchemaSymbol, b: SchemaSymbol): boolean {
+  if (a.kind === 'field' && b.kind === 'field') {
+    return a.field === b.field;
+  }
+  return a.kind === b.kind && a.model === b.model;
+}
+
+/**
+ * Range of a declared field's name in ddl.dsl
+ */
+function fieldName(snapshot: SchemaSnapshot, field: FieldSymbol): BaseNode | undefined {
+  const { definition } = field;
+  if (field.implicit) return undefined;
+  return findNameInNode(snapshot.project.sources.ddl.source, definition, [definition.originalName]);
+}
+
+function length(node: BaseNode): number {
+  return node.end.offset - node.start.offset;
+}
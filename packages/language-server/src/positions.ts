@@ -0,0 +1,53 @@
+/**
+ * Position conversion between DeclareLang and the Language Server Protocol
+ * DeclareLang positions are 1-based (line, column); LSP positions are 0-based
+ * (line, character). Both count columns in UTF-16 code units.
+ */
+
+import type { BaseNode, Position } from '@declarelang/core';
+import type { Position as LspPosition, Range } from 'vscode-languageserver/node.js';
+
+/**
+ * LSP position of a DeclareLang position
+ */
+export function toLspPosition(position: Position): LspPosition {
+  return { line: Math.max(position.line - 1, 0), character: Math.max(position.column - 1, 0) };
+}
+
+/**
+ * LSP range of a node
+ */
+export function toRange(node: BaseNode): Range {
+  return { start: toLspPosition(node.start), end: toLspPosition(node.end) };
+}
+
+/**
+ * Offset of an LSP position in source text
+ * Positions past the end of a line or of the text are clamped
+ *
+ * @param source - Source text
+ * @param position - 0-based LSP position
+ * @returns Character offset
+ */
+export function offsetAt(source: string, position: LspPosition): number {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const newline = source.indexOf('\n', offset);
+    if (newline < 0) {
+      return source.length;
+    }
+    offset = newline + 1;
+  }
+
+  const lineEnd = source.indexOf('\n', offset);
+  const end = lineEnd < 0 ? source.length : lineEnd;
+  return Math.min(offset + Math.max(position.character, 0), end);
+}
+
+/**
+ * Whether an offset lies inside a node (both ends included, so that the
+ * cursor right after a name still points at it)
+ */
+export function containsOffset(node: BaseNode, offset: number): boolean {
+  return node.start.offset <= offset && offset <= node.end.offset;
+}
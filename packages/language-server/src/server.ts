@@ -0,0 +1,175 @@
+/**
+ * DeclareLang language server
+ * Serves the .dsl files of a schema directory over the Language Server
+ * Protocol: live diagnostics, hover, go-to-definition, find-references and
+ * completion
+ *
+ * Documents are synced incrementally. Every change re-publishes the
+ * diagnostics of all open documents of the same schema, as an edit in one file
+ * can resolve or break references in the others.
+ */
+
+import { fileURLToPath, pathToFileURL } from 'url';
+import { TextDocumentSyncKind } from 'vscode-languageserver/node.js';
+import type {
+  Connection,
+  Location,
+  TextDocumentPositionParams,
+} from 'vscode-languageserver/node.js';
+import { completionItems } from './completion.js';
+import { documentDiagnostics } from './diagnostics.js';
+import { hoverContent } from './hover.js';
+import {
+  SchemaSymbol,
+  SymbolLocation,
+  findDefinition,
+  findReferences,
+  symbolAt,
+} from './navigation.js';
+import { offsetAt, toRange } from './positions.js';
+import { SchemaSnapshot, SchemaWorkspace, dslFileKind } from './workspace.js';
+
+/**
+ * Register the language features on a connection and start listening
+ *
+ * @param connection - Connection to the client (e.g., over stdio)
+ * @param workspace - Workspace holding the open documents
+ * @returns The workspace
+ */
+export function startServer(
+  connection: Connection,
+  workspace: SchemaWorkspace = new SchemaWorkspace()
+): SchemaWorkspace {
+  /**
+   * Publish the diagnostics of every open document in the schema of a path
+   * Skipped when a newer edit has replaced the snapshot in the meantime
+   */
+  const publishDiagnostics = async (path: string): Promise<void> => {
+    const pending = workspace.getSnapshot(path);
+    if (!pending) return;
+
+    const snapshot = await pending;
+    if (workspace.getSnapshot(path) !== pending) return;
+
+    for (const open of workspace.openPaths(snapshot.root)) {
+      await connection.sendDiagnostics({
+        uri: toUri(open),
+        diagnostics: documentDiagnostics(snapshot, open),
+      });
+    }
+  };
+
+  const publish = (path: string): void => {
+    publishDiagnostics(path).catch((error: unknown) => {
+      connection.console.error(`Failed to publish diagnostics: ${String(error)}`);
+    });
+  };
+
+  /**
+   * Snapshot and symbol at a cursor position
+   */
+  const lookup = async (
+    params: TextDocumentPositionParams
+  ): Promise<{ snapshot: SchemaSnapshot; symbol: SchemaSymbol } | undefined> => {
+    const path = toPath(params.textDocument.uri);
+    const kind = path && dslFileKind(path);
+    const pending = path && workspace.getSnapshot(path);
+    if (!path || !kind || !pending) return undefined;
+
+    const snapshot = await pending;
+    const offset = offsetAt(snapshot.documents[kind].text, params.position);
+    const symbol = symbolAt(snapshot, path, offset);
+    return symbol && { snapshot, symbol };
+  };
+
+  connection.onInitialize(() => ({
+    capabilities: {
+      textDocumentSync: TextDocumentSyncKind.Incremental,
+      hoverProvider: true,
+      definitionProvider: true,
+      referencesProvider: true,
+      completionProvider: {},
+    },
+    serverInfo: { name: 'declarelang-language-server' },
+  }));
+
+  connection.onDidOpenTextDocument(({ textDocument }) => {
+    const path = toPath(textDocument.uri);
+    if (!path || !dslFileKind(path)) return;
+
+    workspace.openDocument(path, textDocument.text);
+    publish(path);
+  });
+
+  connection.onDidChangeTextDocument(({ textDocument, contentChanges }) => {
+    const path = toPath(textDocument.uri);
+    if (!path) return;
+
+    for (const change of contentChanges) {
+      const document = workspace.getDocument(path);
+      if (!document) return;
+
+      if ('range' in change) {
+        const offset = offsetAt(document.text, change.range.start);
+        const end = offsetAt(document.text, change.range.end);
+        workspace.changeDocument(path, {
+          offset,
+          deleteCount: end - offset,
+          insertText: change.text,
+        });
+      } else {
+        workspace.changeDocument(path, change.text);
+      }
+    }
+    publish(path);
+  });
+
+  connection.onDidCloseTextDocument(({ textDocument }) => {
+    const path = toPath(textDocument.uri);
+    if (!path || !workspace.getDocument(path)) return;
+
+    workspace.closeDocument(path);
+    void connection.sendDiagnostics({ uri: textDocument.uri, diagnostics: [] });
+    publish(path);
+  });
+
+  connection.onHover(async (params) => {
+    const found = await lookup(params);
+    return found ? { contents: { kind: 'markdown', value: hoverContent(found.symbol) } } : null;
+  });
+
+  connection.onDefinition(async (params) => {
+    const found = await lookup(params);
+    return found ? toLocation(findDefinition(found.snapshot, found.symbol)) : null;
+  });
+
+  connection.onReferences(async (params) => {
+    const found = await lookup(params);
+    if (!found) return null;
+
+    return findReferences(found.snapshot, found.symbol, params.context.includeDeclaration).map(
+      toLocation
+    );
+  });
+
+  connection.onCompletion(async ({ textDocument }) => {
+    const path = toPath(textDocument.uri);
+    const pending = path && workspace.getSnapshot(path);
+    return pending ? completionItems(await pending) : [];
+  });
+
+  connection.listen();
+  return workspace;
+}
+
+function toPath(uri: string): string | undefined {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+}
+
+function toUri(path: string): string {
+  return pathToFileURL(path).href;
+}
+
+function toLocation(location: SymbolLocation): Location {
+  return { uri: toUri(location.path), range: toRange(location) };
+}
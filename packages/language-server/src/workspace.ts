@@ -0,0 +1,221 @@
+/**
+ * Schema workspace for the DeclareLang language server
+ * Tracks the open .dsl documents and combines them with the other DSL files of
+ * their schema directory into a snapshot: parsed documents, ProjectAST and the
+ * semantic analysis that resolves model and field references across files
+ *
+ * Open documents are parsed incrementally on every edit; files that are not
+ * open are read from disk when a snapshot is built. The text of a document
+ * follows every edit even when parsing it fails: the failure becomes a
+ * diagnostic, and later edits of the editor still apply to the right text. A schema directory is the
+ * directory of a document; its files are named after their kind (ddl.dsl,
+ * dml.dsl, ...).
+ */
+
+import { readFile } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import {
+  DSL_FILE_KINDS,
+  analyzeProject,
+  applyTextEdit,
+  createDiagnostic,
+  createEmptyFile,
+  parseDocument,
+  updateDocument,
+} from '@declarelang/core';
+import type {
+  DSLFileKind,
+  ParsedDocument,
+  ProjectAST,
+  ProjectSource,
+  SemanticAnalysis,
+  TextEdit,
+} from '@declarelang/core';
+
+/**
+ * Parsed documents of every file kind
+ */
+export type SchemaDocuments = { [K in DSLFileKind]: ParsedDocument<K> };
+
+/**
+ * State of one schema directory
+ */
+export interface SchemaSnapshot {
+  root: string; // schema directory
+  documents: SchemaDocuments;
+  project: ProjectAST;
+  analysis: SemanticAnalysis | undefined; // undefined when ddl.dsl does not exist
+}
+
+/**
+ * Reads a DSL file; resolves to undefined when the file does not exist
+ */
+export type SourceReader = (path: string) => Promise<string | undefined>;
+
+/**
+ * File kind of a DSL file path, from its name (e.g., "/app/schema/dml.dsl" → "dml")
+ */
+export function dslFileKind(path: string): DSLFileKind | undefined {
+  const name = basename(path).toLowerCase();
+  return DSL_FILE_KINDS.find((kind) => name === `${kind}.dsl`);
+}
+
+/**
+ * Workspace of open DSL documents
+ */
+export class SchemaWorkspace {
+  private documents = new Map<string, ParsedDocument>();
+  private snapshots = new Map<string, Promise<SchemaSnapshot>>();
+
+  constructor(private readSource: SourceReader = readSourceFile) {}
+
+  /**
+   * Start tracking a document opened in the editor
+   */
+  openDocument(path: string, text: string): void {
+    const kind = dslFileKind(path);
+    if (!kind) return;
+
+    this.documents.set(path, parseSafely(kind, text));
+    this.invalidate(path);
+  }
+
+  /**
+   * Apply an edit to an open document, or replace its whole text
+   */
+  changeDocument(path: string, change: TextEdit | string): void {
+    const document = this.documents.get(path);
+    if (!document) return;
+
+    let updated: ParsedDocument | undefined;
+    if (typeof change !== 'string') {
+      try {
+        updated = updateDocument(document, change);
+      } catch {
+        // Parsed in full below
+      }
+    }
+    const text = typeof change === 'string' ? change : applyTextEdit(document.text, change);
+    this.documents.set(path, updated ?? parseSafely(document.kind, text));
+    this.invalidate(path);
+  }
+
+  /**
+   * Stop tracking a document; it is read from disk from now on
+   */
+  closeDocument(path: string): void {
+    if (this.documents.delete(path)) {
+      this.invalidate(path);
+    }
+  }
+
+  /**
+   * Open document of a path
+   */
+  getDocument(path: string): ParsedDocument | undefined {
+    return this.documents.get(path);
+  }
+
+  /**
+   * Paths of the open documents, optionally only those of one schema directory
+   */
+  openPaths(root?: string): string[] {
+    const paths = [...this.documents.keys()];
+    return root === undefined ? paths : paths.filter((path) => dirname(path) === root);
+  }
+
+  /**
+   * Snapshot of the schema a DSL file belongs to
+   *
+   * @param path - Path of any DSL file of the schema
+   * @returns Snapshot, or undefined if the path is not a DSL file
+   */
+  getSnapshot(path: string): Promise<SchemaSnapshot> | undefined {
+    if (!dslFileKind(path)) return undefined;
+
+    const root = dirname(path);
+    let snapshot = this.snapshots.get(root);
+    if (!snapshot) {
+      snapshot = this.buildSnapshot(root);
+      this.snapshots.set(root, snapshot);
+    }
+    return snapshot;
+  }
+
+  private invalidate(path: string): void {
+    this.snapshots.delete(dirname(path));
+  }
+
+  private async buildSnapshot(root: string): Promise<SchemaSnapshot> {
+    const documents = {} as Record<DSLFileKind, ParsedDocument>;
+    const sources = {} as Record<DSLFileKind, ProjectSource>;
+
+    for (const kind of DSL_FILE_KINDS) {
+      const path = join(root, `${kind}.dsl`);
+      const open = this.documents.get(path);
+      const text = open ? open.text : await this.readSource(path);
+
+      documents[kind] =
+        open ??
+        (text === undefined
+          ? { kind, text: '', tokens: [], ast: createEmptyFile(kind), diagnostics: [] }
+          : parseSafely(kind, text));
+      sources[kind] = { kind, path, source: text ?? '', exists: text !== undefined };
+    }
+
+    const parsed = documents as SchemaDocuments;
+    const project: ProjectAST = {
+      root,
+      ddl: parsed.ddl.ast,
+      dml: parsed.dml.ast,
+      auth: parsed.auth.ast,
+      validation: parsed.validation.ast,
+      api: parsed.api.ast,
+      monitor: parsed.monitor.ast,
+      log: parsed.log.ast,
+      security: parsed.security.ast,
+      seed: parsed.seed.ast,
+      sources,
+    };
+
+    return {
+      root,
+      documents: parsed,
+      project,
+      analysis: sources.ddl.exists ? analyzeProject(project) : undefined,
+    };
+  }
+}
+
+/**
+ * Parse a document in full, keeping its text when the parser fails
+ */
+function parseSafely(kind: DSLFileKind, text: string): ParsedDocument {
+  try {
+    return parseDocument(kind, text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const start = { line: 1, column: 1, offset: 0 };
+    return {
+      kind,
+      text,
+      tokens: [],
+      ast: createEmptyFile(kind),
+      diagnostics: [createDiagnostic('PARSE001', `Could not parse ${kind}.dsl: ${message}`, start)],
+    };
+  }
+}
+
+/**
+ * Read a DSL file from disk, treating "not found" as a missing file
+ */
+async function readSourceFile(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Tests for the language server over a stream connection
+ * A headless client talks JSON-RPC to the server the way an editor does over stdio
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+import { pathToFileURL } from 'url';
+import {
+  CompletionRequest,
+  DefinitionRequest,
+  DidChangeTextDocumentNotification,
+  DidCloseTextDocumentNotification,
+  DidOpenTextDocumentNotification,
+  HoverRequest,
+  InitializeRequest,
+  PublishDiagnosticsNotification,
+  ReferencesRequest,
+  StreamMessageReader,
+  StreamMessageWriter,
+  TextDocumentSyncKind,
+  createConnection,
+  createProtocolConnection,
+} from 'vscode-languageserver/node.js';
+import type { Diagnostic, ProtocolConnection } from 'vscode-languageserver/node.js';
+import { startServer } from '../src/server.js';
+
+const DDL = `User[s]:
+- has email as unique text and required
+- has many Posts
+
+Post[s]:
+- has title as text and required
+- has published at as timestamp
+- belongs to User
+`;
+
+const AUTH = `Roles:
+- admin
+
+Rules for Posts:
+- anyone can read Posts where published at is not empty
+`;
+
+describe('language server', () => {
+  let dir: string;
+  let client: ProtocolConnection;
+  let dispose: () => void;
+  let waiting: { uri: string; resolve: (diagnostics: Diagnostic[]) => void }[];
+
+  const uri = (kind: string) => pathToFileURL(join(dir, `${kind}.dsl`)).href;
+
+  /**
+   * Resolves with the next diagnostics published for a document
+   */
+  const nextDiagnostics = (documentUri: string) =>
+    new Promise<Diagnostic[]>((resolve) => waiting.push({ uri: documentUri, resolve }));
+
+  const open = async (kind: string, text: string) => {
+    const diagnostics = nextDiagnostics(uri(kind));
+    await client.sendNotification(DidOpenTextDocumentNotification.type, {
+      textDocument: { uri: uri(kind), languageId: 'declarelang', version: 1, text },
+    });
+    return diagnostics;
+  };
+
+  const at = (kind: string, line: number, character: number) => ({
+    textDocument: { uri: uri(kind) },
+    position: { line, character },
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'declarelang-lsp-'));
+    writeFileSync(join(dir, 'ddl.dsl'), DDL);
+    writeFileSync(join(dir, 'auth.dsl'), AUTH);
+
+    const toServer = new PassThrough();
+    const toClient = new PassThrough();
+    const server = createConnection(
+      new StreamMessageReader(toServer),
+      new StreamMessageWriter(toClient)
+    );
+    startServer(server);
+
+    client = createProtocolConnection(
+      new StreamMessageReader(toClient),
+      new StreamMessageWriter(toServer)
+    );
+    waiting = [];
+    client.onNotification(PublishDiagnosticsNotification.type, (params) => {
+      const index = waiting.findIndex((waiter) => waiter.uri === params.uri);
+      if (index >= 0) {
+        waiting.splice(index, 1)[0]!.resolve(params.diagnostics);
+      }
+    });
+    client.listen();
+
+    dispose = () => {
+      client.dispose();
+      server.dispose();
+      toServer.destroy();
+      toClient.destroy();
+    };
+  });
+
+  afterEach(() => {
+    dispose();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should announce its capabilities', async () => {
+    const result = await client.sendRequest(InitializeRequest.type, {
+      processId: null,
+      rootUri: pathToFileURL(dir).href,
+      capabilities: {},
+    });
+
+    expect(result.capabilities).toMatchObject({
+      textDocumentSync: TextDocumentSyncKind.Incremental,
+      hoverProvider: true,
+      definitionProvider: true,
+      referencesProvider: true,
+    });
+  });
+
+  it('should publish diagnostics as documents are edited', async () => {
+    expect(await open('auth', AUTH)).toEqual([]);
+
+    const diagnostics = nextDiagnostics(uri('auth'));
+    await client.sendNotification(DidChangeTextDocumentNotification.type, {
+      textDocument: { uri: uri('auth'), version: 2 },
+      contentChanges: [
+        {
+          range: { start: { line: 4, character: 30 }, end: { line: 4, character: 39 } },
+          text: 'publishd',
+        },
+      ],
+    });
+
+    expect(await diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'PARSE011',
+        severity: 1,
+        source: 'declarelang',
+        range: { start: { line: 4, character: 30 }, end: { line: 4, character: 41 } },
+      }),
+    ]);
+  });
+
+  it('should re-check open documents when another file of the schema changes', async () => {
+    await open('auth', AUTH);
+    await open('ddl', DDL);
+
+    const auth = nextDiagnostics(uri('auth'));
+    await client.sendNotification(DidChangeTextDocumentNotification.type, {
+      textDocument: { uri: uri('ddl'), version: 2 },
+      contentChanges: [{ text: DDL.replace('published at', 'released at') }],
+    });
+    expect((await auth).map((d) => d.code)).toEqual(['PARSE011']);
+
+    const cleared = nextDiagnostics(uri('ddl'));
+    const rechecked = nextDiagnostics(uri('auth'));
+    await client.sendNotification(DidCloseTextDocumentNotification.type, {
+      textDocument: { uri: uri('ddl') },
+    });
+    expect(await cleared).toEqual([]);
+    expect(await rechecked).toEqual([]);
+  });
+
+  it('should answer hover, definition, references and completion requests', async () => {
+    await open('auth', AUTH);
+
+    const hover = await client.sendRequest(HoverRequest.type, at('auth', 4, 33));
+    expect(hover?.contents).toEqual({
+      kind: 'markdown',
+      value: '**Post.published_at**: `timestamp`',
+    });
+
+    const definition = await client.sendRequest(DefinitionRequest.type, at('auth', 3, 11));
+    expect(definition).toEqual({
+      uri: uri('ddl'),
+      range: { start: { line: 4, character: 0 }, end: { line: 4, character: 7 } },
+    });
+
+    const references = await client.sendRequest(ReferencesRequest.type, {
+      ...at('ddl', 6, 8),
+      context: { includeDeclaration: true },
+    });
+    expect(references?.map((r) => [r.uri, r.range.start.line])).toEqual([
+      [uri('ddl'), 6],
+      [uri('auth'), 4],
+    ]);
+
+    const completion = await client.sendRequest(CompletionRequest.type, at('auth', 5, 0));
+    const labels = (Array.isArray(completion) ? completion : (completion?.items ?? [])).map(
+      (item) => item.label
+    );
+    expect(labels).toEqual(expect.arrayContaining(['where', 'User', 'Posts', 'published at']));
+
+    expect(await client.sendRequest(HoverRequest.type, at('auth', 0, 1))).toBeNull();
+  });
+});
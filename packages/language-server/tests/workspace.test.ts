@@ -0,0 +1,255 @@
+/**
+ * Tests for the schema workspace and the language features built on it
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { join } from 'path';
+import { parseDocument, updateDocument } from '@declarelang/core';
+import { CompletionItemKind } from 'vscode-languageserver/node.js';
+import { SchemaWorkspace, dslFileKind } from '../src/workspace.js';
+import { documentDiagnostics } from '../src/diagnostics.js';
+import { findDefinition, findReferences, symbolAt } from '../src/navigation.js';
+import { hoverContent } from '../src/hover.js';
+import { completionItems } from '../src/completion.js';
+
+vi.mock('@declarelang/core', async (importOriginal) => {
+  const core = await importOriginal<typeof import('@declarelang/core')>();
+  return {
+    ...core,
+    parseDocument: vi.fn(core.parseDocument),
+    updateDocument: vi.fn(core.updateDocument),
+  };
+});
+
+const ROOT = join('/app', 'schema');
+
+const DDL = `User[s]:
+- has email as unique text and required
+- has many Posts
+
+Post[s]:
+- has title as text and required
+- has published at as timestamp
+- belongs to User
+`;
+
+const DML = `Query for Posts:
+- recent posts where published at is not empty
+`;
+
+const AUTH = `Roles:
+- admin
+
+Rules for Posts:
+- anyone can read Posts where published at is not empty
+`;
+
+const path = (kind: string) => join(ROOT, `${kind}.dsl`);
+
+/**
+ * Workspace reading closed files from an in-memory schema
+ */
+function createWorkspace(files: Record<string, string> = { ddl: DDL, dml: DML, auth: AUTH }) {
+  return new SchemaWorkspace((file) =>
+    Promise.resolve(Object.entries(files).find(([kind]) => path(kind) === file)?.[1])
+  );
+}
+
+async function snapshotOf(workspace: SchemaWorkspace, file: string) {
+  const snapshot = await workspace.getSnapshot(file);
+  expect(snapshot).toBeDefined();
+  return snapshot!;
+}
+
+describe('SchemaWorkspace', () => {
+  it('should recognize DSL files by name', () => {
+    expect(dslFileKind('/app/schema/ddl.dsl')).toBe('ddl');
+    expect(dslFileKind('/app/schema/Validation.dsl')).toBe('validation');
+    expect(dslFileKind('/app/schema/models.dsl')).toBeUndefined();
+    expect(createWorkspace().getSnapshot('/app/schema/readme.md')).toBeUndefined();
+  });
+
+  it('should combine open documents with the files on disk', async () => {
+    const workspace = createWorkspace();
+    workspace.openDocument(path('dml'), DML.replace('recent', 'latest'));
+
+    const snapshot = await snapshotOf(workspace, path('dml'));
+    expect(snapshot.root).toBe(ROOT);
+    expect(snapshot.documents.dml.text).toContain('latest posts');
+    expect(snapshot.project.ddl.models).toHaveLength(2);
+    expect(snapshot.project.sources.validation.exists).toBe(false);
+    expect(snapshot.analysis?.diagnostics).toEqual([]);
+  });
+
+  it('should apply edits to open documents and rebuild the snapshot', async () => {
+    const workspace = createWorkspace();
+    workspace.openDocument(path('dml'), DML);
+    const before = await snapshotOf(workspace, path('dml'));
+
+    const offset = DML.indexOf('published at');
+    workspace.changeDocument(path('dml'), { offset, deleteCount: 12, insertText: 'title' });
+    const after = await snapshotOf(workspace, path('dml'));
+
+    expect(after).not.toBe(before);
+    expect(after.documents.dml.text).toContain('where title is not empty');
+    expect(workspace.getSnapshot(path('dml'))).toBe(workspace.getSnapshot(path('auth')));
+  });
+
+  it('should keep the text of a document in sync when parsing an edit fails', () => {
+    const workspace = createWorkspace();
+    workspace.openDocument(path('dml'), DML);
+    const fail = () => {
+      throw new Error('parser bug');
+    };
+
+    // The incremental parse fails: the document is parsed in full
+    vi.mocked(updateDocument).mockImplementationOnce(fail);
+    workspace.changeDocument(path('dml'), { offset: 0, deleteCount: 5, insertText: 'Query' });
+    expect(workspace.getDocument(path('dml'))!.diagnostics).toEqual([]);
+
+    // Both fail: the edit is still applied, the failure becomes a diagnostic
+    vi.mocked(updateDocument).mockImplementationOnce(fail);
+    vi.mocked(parseDocument).mockImplementationOnce(fail);
+    const offset = DML.indexOf('published at');
+    workspace.changeDocument(path('dml'), { offset, deleteCount: 12, insertText: 'title' });
+    expect(workspace.getDocument(path('dml'))).toMatchObject({
+      text: DML.replace('published at', 'title'),
+      diagnostics: [{ code: 'PARSE001', message: 'Could not parse dml.dsl: parser bug' }],
+    });
+
+    // A later edit applies to the edited text
+    const end = DML.replace('published at', 'title').indexOf(' is not empty');
+    workspace.changeDocument(path('dml'), { offset: end, deleteCount: 0, insertText: ' at' });
+    const document = workspace.getDocument(path('dml'))!;
+    expect(document.text).toContain('where title at is not empty');
+    expect(document.diagnostics).toEqual([]);
+    expect(document).toEqual(parseDocument('dml', document.text));
+  });
+
+  it('should read a document from disk again once it is closed', async () => {
+    const workspace = createWorkspace();
+    workspace.openDocument(path('ddl'), '');
+    expect((await snapshotOf(workspace, path('ddl'))).project.ddl.models).toEqual([]);
+
+    workspace.closeDocument(path('ddl'));
+    expect(workspace.openPaths()).toEqual([]);
+    expect((await snapshotOf(workspace, path('ddl'))).project.ddl.models).toHaveLength(2);
+  });
+
+  it('should skip the semantic pass without ddl.dsl', async () => {
+    const snapshot = await snapshotOf(createWorkspace({ dml: DML }), path('dml'));
+
+    expect(snapshot.analysis).toBeUndefined();
+    expect(symbolAt(snapshot, path('dml'), DML.indexOf('Posts'))).toBeUndefined();
+  });
+});
+
+describe('documentDiagnostics', () => {
+  it('should report parse and reference errors of a document', async () => {
+    const workspace = createWorkspace();
+    workspace.openDocument(path('dml'), `${DML}- drafts where publishd is empty\n`);
+    workspace.openDocument(path('ddl'), DDL.replace('as timestamp', 'as timestmp'));
+
+    const snapshot = await snapshotOf(workspace, path('dml'));
+    const dml = documentDiagnostics(snapshot, path('dml'));
+    const ddl = documentDiagnostics(snapshot, path('ddl'));
+
+    expect(ddl[0]).toMatchObject({ code: 'PARSE005', severity: 1, source: 'declarelang' });
+    expect(ddl[0]!.range.start.line).toBe(6);
+    expect(dml.map((d) => d.code)).toContain('PARSE011');
+    // The broken field definition is dropped, so auth.dsl cannot resolve it either
+    expect(documentDiagnostics(snapshot, path('auth'))[0]).toMatchObject({
+      code: 'PARSE011',
+      range: { start: { line: 4, character: 30 } },
+    });
+  });
+});
+
+describe('navigation', () => {
+  it('should go from a relationship or a rules header to the model', async () => {
+    const snapshot = await snapshotOf(createWorkspace(), path('auth'));
+
+    const rules = symbolAt(snapshot, path('auth'), AUTH.indexOf('Posts:') + 2);
+    expect(rules).toMatchObject({ kind: 'model' });
+    expect(findDefinition(snapshot, rules!)).toMatchObject({
+      path: path('ddl'),
+      start: { line: 5, column: 1 },
+    });
+
+    const target = symbolAt(snapshot, path('ddl'), DDL.indexOf('to User') + 4);
+    expect(findDefinition(snapshot, target!).start.line).toBe(1);
+  });
+
+  it('should find the innermost symbol and the field definition', async () => {
+    const snapshot = await snapshotOf(createWorkspace(), path('dml'));
+    const symbol = symbolAt(snapshot, path('dml'), DML.indexOf('published'));
+
+    expect(symbol).toMatchObject({ kind: 'field' });
+    expect(findDefinition(snapshot, symbol!)).toMatchObject({
+      path: path('ddl'),
+      start: { line: 7, column: 7 },
+      end: { line: 7, column: 19 },
+    });
+    expect(symbolAt(snapshot, path('dml'), DML.indexOf('recent'))).toBeUndefined();
+  });
+
+  it('should find the references of a field across files', async () => {
+    const snapshot = await snapshotOf(createWorkspace(), path('ddl'));
+    const symbol = symbolAt(snapshot, path('ddl'), DDL.indexOf('published at'));
+    const references = findReferences(snapshot, symbol!, true);
+
+    expect(references.map((r) => [r.path, r.start.line])).toEqual([
+      [path('ddl'), 7],
+      [path('dml'), 2],
+      [path('auth'), 5],
+    ]);
+    expect(findReferences(snapshot, symbol!, false)).toHaveLength(2);
+  });
+
+  it('should point implicit fields at the model that generates them', async () => {
+    const workspace = createWorkspace();
+    workspace.openDocument(path('dml'), 'Query for Posts:\n- mine where user id is 1\n');
+    const snapshot = await snapshotOf(workspace, path('dml'));
+    const symbol = symbolAt(snapshot, path('dml'), snapshot.documents.dml.text.indexOf('user id'));
+
+    expect(findDefinition(snapshot, symbol!).start.line).toBe(8);
+  });
+});
+
+describe('hover', () => {
+  it('should show the type and constraints of a field', async () => {
+    const snapshot = await snapshotOf(createWorkspace(), path('ddl'));
+    const email = symbolAt(snapshot, path('ddl'), DDL.indexOf('email'));
+
+    expect(hoverContent(email!)).toBe(
+      '**User.email**: `text`\n\nConstraints: `unique`, `required`'
+    );
+  });
+
+  it('should list the fields of a model', async () => {
+    const snapshot = await snapshotOf(createWorkspace(), path('ddl'));
+    const content = hoverContent(symbolAt(snapshot, path('ddl'), DDL.indexOf('Post[s]'))!);
+
+    expect(content).toContain('**Post** (Posts)');
+    expect(content).toContain('- `published_at`: `timestamp`');
+    expect(content).toContain('- `user_id`: `number` (generated)');
+  });
+});
+
+describe('completion', () => {
+  it('should offer keywords, models and fields', async () => {
+    const items = completionItems(await snapshotOf(createWorkspace(), path('dml')));
+    const find = (label: string) => items.find((item) => item.label === label);
+
+    expect(find('where')?.kind).toBe(CompletionItemKind.Keyword);
+    expect(find('Post')?.kind).toBe(CompletionItemKind.Class);
+    expect(find('Posts')?.kind).toBe(CompletionItemKind.Class);
+    expect(find('published at')).toMatchObject({
+      kind: CompletionItemKind.Field,
+      detail: 'Post.published_at: timestamp',
+    });
+    expect(find('created at')?.detail).toBe(
+      'User.created_at: timestamp, Post.created_at: timestamp'
+    );
+  });
+});
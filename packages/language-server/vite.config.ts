@@ -0,0 +1,34 @@
+import { defineConfig } from 'vite';
+import { resolve } from 'path';
+import dts from 'vite-plugin-dts';
+
+export default defineConfig({
+  build: {
+    lib: {
+      entry: {
+        index: resolve(__dirname, 'src/index.ts'),
+        server: resolve(__dirname, 'bin/declarelang-language-server.ts'),
+      },
+      formats: ['es', 'cjs'],
+      fileName: (format, entryName) => `${entryName}.${format === 'es' ? 'mjs' : 'cjs'}`,
+    },
+    rollupOptions: {
+      external: ['@declarelang/core', /^vscode-languageserver/, 'fs', 'fs/promises', 'path', 'url'],
+      output: {
+        exports: 'named',
+        preserveModules: false,
+      },
+    },
+    sourcemap: true,
+    minify: false,
+    target: 'node20',
+  },
+  plugins: [
+    dts({
+      include: ['src/**/*.ts'],
+      exclude: ['src/**/*.test.ts', 'src/**/*.spec.ts', 'bin/**/*.ts'],
+      rollupTypes: true,
+      insertTypesEntry: true,
+    }),
+  ],
+});
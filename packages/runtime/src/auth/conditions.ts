@@ -0,0 +1,379 @@
+/**
+ * Conditions of auth.dsl rules
+ * Compiles the where clause of a rule twice: into a SQL expression for the
+ * row filters of list routes, and into a test of a single record. Both give
+ * the same answer for a record read from the database.
+ *
+ * A condition compares a column of the model (`published is true`), a column
+ * of a model it belongs to (`Post published is true`, through its foreign
+ * key), or checks the records of a model that belongs to it (`Post has no
+ * Comments`). Comparisons follow the queries of dml.dsl: `is`, `equals` and
+ * `matches` are equalities and text comparisons are case-insensitive.
+ */
+
+import {
+  ComparisonOperator,
+  Condition,
+  ConditionValue,
+  ModelSymbol,
+  RelationshipType,
+  SymbolTable,
+  TimeExpression,
+  foreignKeyName,
+  isRelationshipDefinition,
+  toCamelCase,
+  toSnakeCase,
+} from '@declarelang/core';
+import {
+  Column,
+  SQL,
+  Table,
+  and,
+  between,
+  eq,
+  gt,
+  gte,
+  ilike,
+  isNotNull,
+  isNull,
+  lt,
+  not,
+  sql,
+} from 'drizzle-orm';
+import type { PolicyRecord, PolicyUser } from './types.js';
+
+/**
+ * Column of a table, with the property of the records holding its values
+ */
+export interface TableColumn {
+  key: string;
+  column: Column;
+}
+
+/**
+ * Table of a model, with its columns keyed by SQL name
+ */
+export interface ModelTable {
+  model: ModelSymbol;
+  table: Table;
+  columns: Map<string, TableColumn>;
+}
+
+/**
+ * Condition compiled for the database and for single records
+ */
+export interface CompiledCondition {
+  where(user: PolicyUser | undefined): SQL;
+  test(record: PolicyRecord, user: PolicyUser | undefined): boolean;
+}
+
+/**
+ * Models and tables conditions may refer to
+ */
+export interface ConditionContext {
+  symbols: SymbolTable;
+  table(model: ModelSymbol): ModelTable | undefined;
+}
+
+/**
+ * Value of a condition unknown when evaluated (`current user` without one)
+ */
+const UNKNOWN = Symbol('unknown');
+
+type Value = (user: PolicyUser | undefined) => unknown;
+
+const PATTERNS: Partial<Record<ComparisonOperator, [string, string]>> = {
+  [ComparisonOperator.CONTAINS]: ['%', '%'],
+  [ComparisonOperator.STARTS_WITH]: ['', '%'],
+  [ComparisonOperator.ENDS_WITH]: ['%', ''],
+};
+
+const MILLISECONDS: Record<string, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 604_800_000,
+};
+
+/**
+ * Compile a condition on the records of a model
+ *
+ * @returns The compiled condition, or undefined when it refers to fields or
+ * values the engine cannot evaluate (a rule with such a condition grants nothing)
+ */
+export function compileCondition(
+  condition: Condition,
+  target: ModelTable,
+  context: ConditionContext
+): CompiledCondition | undefined {
+  const field = toSnakeCase(condition.field);
+  const column = target.columns.get(field);
+  if (column) {
+    return compileComparison(condition, column.key, column.column);
+  }
+
+  const children = compileChildren(condition, target, context);
+  if (children) {
+    return children;
+  }
+
+  for (const parent of parentModels(target.model, context.symbols)) {
+    const prefix = `${toSnakeCase(parent.definition.name.singular)}_`;
+    const parentTable = context.table(parent);
+    const foreignKey = target.columns.get(foreignKeyName(parent.definition.name.singular));
+    const id = parentTable?.columns.get('id');
+    if (!field.startsWith(prefix) || !parentTable || !foreignKey || !id) continue;
+
+    const inner = compileCondition(
+      { ...condition, field: field.slice(prefix.length) },
+      parentTable,
+      context
+    );
+    if (!inner) return undefined;
+    const relation = toCamelCase(parent.definition.name.singular);
+    return {
+      where: (user) =>
+        sql`exists (select 1 from ${parentTable.table} where ${and(
+          eq(id.column, foreignKey.column),
+          inner.where(user)
+        )})`,
+      // Records carry the record they belong to when loaded with it (`with: { post: true }`)
+      test: (record, user) => {
+        const related = record[relation];
+        return isRecord(related) && inner.test(related, user);
+      },
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Compile a comparison of a column with a value
+ */
+function compileComparison(
+  condition: Condition,
+  key: string,
+  column: Column
+): CompiledCondition | undefined {
+  const timestamp = column.dataType === 'date';
+  const value = compileValue(condition.value, timestamp);
+  const upper = compileValue(condition.upperValue, timestamp);
+  if (!value || !upper) return undefined;
+
+  const compare = (
+    where: (resolved: unknown) => SQL,
+    test: (field: unknown, resolved: unknown) => boolean,
+    resolve: Value = value
+  ): CompiledCondition => ({
+    where: (user) => {
+      const resolved = resolve(user);
+      return resolved === UNKNOWN ? sql`false` : where(resolved);
+    },
+    test: (record, user) => {
+      const resolved = resolve(user);
+      return resolved !== UNKNOWN && test(record[key], resolved);
+    },
+  });
+
+  switch (condition.operator) {
+    case ComparisonOperator.IS_EMPTY:
+      return compare(
+        () => isNull(column),
+        (field) => field === null || field === undefined
+      );
+    case ComparisonOperator.IS_NOT_EMPTY:
+      return compare(
+        () => isNotNull(column),
+        (field) => field !== null && field !== undefined
+      );
+    case ComparisonOperator.IS_AFTER:
+      return compare(
+        (resolved) => gt(column, resolved),
+        (field, resolved) => (order(field, resolved) ?? 0) > 0
+      );
+    case ComparisonOperator.IS_BEFORE:
+      return compare(
+        (resolved) => lt(column, resolved),
+        (field, resolved) => (order(field, resolved) ?? 0) < 0
+      );
+    case ComparisonOperator.IS_BETWEEN: {
+      // Without an upper bound, "is between" only has its lower one
+      if (!condition.upperValue) {
+        return compare(
+          (resolved) => gte(column, resolved),
+          (field, resolved) => (order(field, resolved) ?? -1) >= 0
+        );
+      }
+      const bounds: Value = (user) => {
+        const [lower, higher] = [value(user), upper(user)];
+        return lower === UNKNOWN || higher === UNKNOWN ? UNKNOWN : [lower, higher];
+      };
+      return compare(
+        (resolved) => {
+          const [lower, higher] = resolved as [unknown, unknown];
+          return between(column, lower, higher);
+        },
+        (field, resolved) => {
+          const [lower, higher] = resolved as [unknown, unknown];
+          return (order(field, lower) ?? -1) >= 0 && (order(field, higher) ?? 1) <= 0;
+        },
+        bounds
+      );
+    }
+    case ComparisonOperator.CONTAINS:
+    case ComparisonOperator.STARTS_WITH:
+    case ComparisonOperator.ENDS_WITH: {
+      const [before, after] = PATTERNS[condition.operator] ?? ['%', '%'];
+      return compare(
+        (resolved) => ilike(column, `${before}${escapeLike(String(resolved))}${after}`),
+        (field, resolved) => {
+          if (typeof field !== 'string') return false;
+          const [text, part] = [field.toLowerCase(), String(resolved).toLowerCase()];
+          if (condition.operator === ComparisonOperator.STARTS_WITH) return text.startsWith(part);
+          if (condition.operator === ComparisonOperator.ENDS_WITH) return text.endsWith(part);
+          return text.includes(part);
+        }
+      );
+    }
+    default:
+      return compare(
+        (resolved) => (resolved === null ? isNull(column) : eq(column, resolved)),
+        (field, resolved) =>
+          resolved === null ? field === null || field === undefined : order(field, resolved) === 0
+      );
+  }
+}
+
+/**
+ * Compile a check of the records of a model belonging to the target
+ * (`Post has no Comments`, `Post has Comments`)
+ */
+function compileChildren(
+  condition: Condition,
+  target: ModelTable,
+  context: ConditionContext
+): CompiledCondition | undefined {
+  const { symbols } = context;
+  const { value } = condition;
+  if (symbols.resolveModel(condition.field) !== target.model || value?.type !== 'reference') {
+    return undefined;
+  }
+  const child = symbols.resolveModel(value.field);
+  const childTable = child && context.table(child);
+  const foreignKey = childTable?.columns.get(foreignKeyName(target.model.definition.name.singular));
+  const id = target.columns.get('id');
+  if (!child || !childTable || !foreignKey || !id) return undefined;
+
+  const empty = condition.operator === ComparisonOperator.IS_EMPTY;
+  if (!empty && condition.operator !== ComparisonOperator.CONTAINS) return undefined;
+
+  const exists = sql`exists (select 1 from ${childTable.table} where ${eq(foreignKey.column, id.column)})`;
+  const relation = toCamelCase(child.definition.name.plural);
+  return {
+    where: () => (empty ? not(exists) : exists),
+    // Records carry the records belonging to them when loaded with them (`with: { comments: true }`)
+    test: (record) => {
+      const related = record[relation];
+      return Array.isArray(related) && (related.length === 0) === empty;
+    },
+  };
+}
+
+/**
+ * Compile a value compared with a column
+ * References other than `current user` and `empty` are constants (`role is
+ * admin`); values the caller would supply (`given <name>`) are not known to rules.
+ */
+function compileValue(value: ConditionValue | undefined, timestamp: boolean): Value | undefined {
+  if (!value) {
+    return () => null;
+  }
+  switch (value.type) {
+    case 'literal': {
+      const literal =
+        timestamp && typeof value.value === 'string' ? new Date(value.value) : value.value;
+      return () => literal;
+    }
+    case 'time': {
+      const { expression } = value;
+      return () => timeValue(expression);
+    }
+    case 'reference':
+      if (value.field === 'current user') {
+        return (user) => user?.id ?? UNKNOWN;
+      }
+      if (value.field === 'empty') {
+        return () => null;
+      }
+      if (/^given\s/.test(value.field)) {
+        return undefined;
+      }
+      return () => value.field;
+  }
+}
+
+/**
+ * Time of a time expression, when evaluated (`5 minutes ago`, `now`)
+ */
+function timeValue(expression: TimeExpression): Date {
+  const date = new Date();
+  if (expression.type === 'now') {
+    return date;
+  }
+  const amount = expression.value ?? 0;
+  const unit = (expression.unit ?? 'days').replace(/s$/, '');
+  if (unit === 'month') {
+    date.setMonth(date.getMonth() - amount);
+  } else if (unit === 'year') {
+    date.setFullYear(date.getFullYear() - amount);
+  } else {
+    date.setTime(date.getTime() - amount * (MILLISECONDS[unit] ?? 0));
+  }
+  return date;
+}
+
+/**
+ * Order of a field value relative to a value, undefined when they do not
+ * compare (a missing field compares with nothing, as NULL in SQL)
+ */
+function order(field: unknown, value: unknown): number | undefined {
+  if (field === null || field === undefined || value === null || value === undefined) {
+    return undefined;
+  }
+  if (field instanceof Date || value instanceof Date) {
+    const [a, b] = [toTime(field), toTime(value)];
+    return Number.isNaN(a) || Number.isNaN(b) ? undefined : Math.sign(a - b);
+  }
+  if (typeof field === 'number' && typeof value !== 'number') {
+    return order(field, Number(value));
+  }
+  if (field === value) return 0;
+  if (typeof field === 'number' && typeof value === 'number') return field < value ? -1 : 1;
+  if (typeof field === 'string' && typeof value === 'string') return field < value ? -1 : 1;
+  return typeof field === 'boolean' && typeof value === 'boolean'
+    ? Number(field) - Number(value)
+    : undefined;
+}
+
+function toTime(value: unknown): number {
+  return value instanceof Date ? value.getTime() : new Date(String(value)).getTime();
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+function isRecord(value: unknown): value is PolicyRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Models a model belongs to
+ */
+function parentModels(model: ModelSymbol, symbols: SymbolTable): ModelSymbol[] {
+  return model.definition.items
+    .filter(isRelationshipDefinition)
+    .filter((item) => item.type === RelationshipType.BELONGS_TO)
+    .map((item) => symbols.resolveModel(item.targetModel))
+    .filter((parent): parent is ModelSymbol => parent !== undefined);
+}
@@ -0,0 +1,21 @@
+/**
+ * Authorization errors
+ * Carry the error code of the error registry and the HTTP status Fastify
+ * answers with when a handler throws them.
+ */
+
+/**
+ * Fields a user may not act on (AUTH003)
+ */
+export class ForbiddenFieldsError extends Error {
+  readonly code = 'AUTH003';
+  readonly statusCode = 403;
+
+  constructor(
+    public action: string,
+    public fields: string[]
+  ) {
+    super(`Insufficient permissions to ${action} ${fields.join(', ')}`);
+    this.name = 'ForbiddenFieldsError';
+  }
+}
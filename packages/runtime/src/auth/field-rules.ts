@@ -0,0 +1,91 @@
+/**
+ * Field rules of auth.dsl (`Field Rules for Users:`)
+ * Decide which fields of a model a user may write and read. `set` rules
+ * cover the fields of created records, `edit` rules the fields of updated
+ * records (and of created records, for fields without `set` rules), `read`
+ * rules the fields of the records returned.
+ *
+ * Precedence, for a field and an action:
+ * 1. A field without rules is open to everyone.
+ * 2. A field reserved for mutations (`only increment views mutation can edit
+ *    view count`) is only written by these mutations; other rules are ignored.
+ * 3. Among the rules covering the user, those of the most specific subject
+ *    decide: a role (`admins`), then signed-in users (`users`, `authenticated
+ *    users`), then `anyone`. So `admins can edit role` lets admins edit the
+ *    role even though `users cannot edit role`.
+ * 4. Between rules of the same subject, `cannot` wins over `can`.
+ * 5. When no rule covers the user, the field is denied if some subject `can`
+ *    act on it (only the subjects granted may), and allowed otherwise.
+ */
+
+import { FieldAction, FieldPermission } from '@declarelang/core';
+import { SUBJECT_SPECIFICITY, matchesSubject } from './subjects.js';
+import type { PolicyUser } from './types.js';
+
+/**
+ * Field rules of a model, by action and record property
+ */
+export type FieldRuleMap = Map<FieldAction, Map<string, FieldPermission[]>>;
+
+/**
+ * Index the field rules of a model
+ *
+ * @param permissions - Field permissions of the model
+ * @param key - Property of the records holding a field
+ */
+export function indexFieldRules(
+  permissions: FieldPermission[],
+  key: (fieldName: string) => string
+): FieldRuleMap {
+  const rules: FieldRuleMap = new Map();
+  for (const permission of permissions) {
+    const fields = rules.get(permission.action) ?? new Map<string, FieldPermission[]>();
+    const field = key(permission.fieldName);
+    fields.set(field, [...(fields.get(field) ?? []), permission]);
+    rules.set(permission.action, fields);
+  }
+  return rules;
+}
+
+/**
+ * Rules of a field for an action; writes of created records fall back to the
+ * `edit` rules of fields without `set` rules
+ */
+export function fieldRules(
+  rules: FieldRuleMap,
+  action: FieldAction,
+  field: string
+): FieldPermission[] {
+  const found = rules.get(action)?.get(field);
+  if (action === FieldAction.SET && !found) {
+    return rules.get(FieldAction.EDIT)?.get(field) ?? [];
+  }
+  return found ?? [];
+}
+
+/**
+ * Whether the rules of a field let a user act on it
+ *
+ * @param mutation - Normalized name of the mutation writing the field, if any
+ */
+export function fieldAllowed(
+  rules: FieldPermission[],
+  user: PolicyUser | undefined,
+  mutation?: string
+): boolean {
+  if (rules.length === 0) return true;
+
+  const reserved = rules.filter((rule) => rule.mutation !== undefined && rule.allowed);
+  if (reserved.length > 0) {
+    return reserved.some((rule) => rule.mutation === mutation);
+  }
+
+  const covering = rules.filter((rule) => matchesSubject(rule.subject, user));
+  if (covering.length === 0) {
+    return !rules.some((rule) => rule.allowed);
+  }
+  const specificity = Math.max(...covering.map((rule) => SUBJECT_SPECIFICITY[rule.subject.type]));
+  return covering
+    .filter((rule) => SUBJECT_SPECIFICITY[rule.subject.type] === specificity)
+    .every((rule) => rule.allowed);
+}
@@ -0,0 +1,7 @@
+/**
+ * Authorization runtime
+ */
+
+export * from './types.js';
+export * from './errors.js';
+export { PolicyEngine } from './policy-engine.js';
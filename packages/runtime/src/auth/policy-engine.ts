@@ -0,0 +1,324 @@
+/**
+ * Policy engine
+ * Evaluates the rules of auth.dsl (`Rules for Posts:`) for a user, either
+ * against a single record (can) or as a SQL filter on the rows of a table
+ * (filter), so list routes only read the rows a user may see:
+ *
+ *   anyone can read Posts where published is true
+ *     → select ... from posts where posts.published = true
+ *
+ * A rule grants an action to its subject: `anyone`, `authenticated users` and
+ * `users` (any signed-in user) or a role (`admins` → role "admin"). `edit` and
+ * `update` are the same action. The target restricts the records:
+ * `own Posts` to the records whose owner is the user (the foreign key of
+ * `belongs to User`, or the id for the users themselves); `any Post` and a
+ * plain `Posts` to every record. The where clause further restricts them (see
+ * conditions.ts); a rule the engine cannot evaluate grants nothing. API keys
+ * act by their role: `own` rules grant them nothing.
+ *
+ * As for routes, a model without rules is open to every action.
+ *
+ * Field rules (`Field Rules for Users:`) restrict the fields a user writes
+ * (authorizeWrite) and reads (redact); see field-rules.ts for their precedence.
+ */
+
+import {
+  AUTHFile,
+  CRUDAction,
+  DDLFile,
+  FieldAction,
+  FieldPermission,
+  ModelSymbol,
+  PermissionRule,
+  PermissionSubject,
+  RelationshipType,
+  SymbolTable,
+  TargetModifier,
+  foreignKeyName,
+  isRelationshipDefinition,
+  toSnakeCase,
+} from '@declarelang/core';
+import {
+  Column,
+  SQL,
+  Table,
+  and,
+  eq,
+  getTableColumns,
+  getTableName,
+  is,
+  or,
+  sql,
+} from 'drizzle-orm';
+import { CompiledCondition, ModelTable, TableColumn, compileCondition } from './conditions.js';
+import { FieldRuleMap, fieldAllowed, fieldRules, indexFieldRules } from './field-rules.js';
+import { ForbiddenFieldsError } from './errors.js';
+import { matchesSubject } from './subjects.js';
+import type { PolicyRecord, PolicyUser, WriteOptions } from './types.js';
+
+/**
+ * Rule compiled for a model
+ */
+interface CompiledRule {
+  subject: PermissionSubject;
+  actions: CRUDAction[];
+  owner?: TableColumn; // column compared with the user for `own` targets
+  conditions?: CompiledCondition[]; // undefined when a condition cannot be evaluated
+}
+
+const SYNONYMS: Partial<Record<CRUDAction, CRUDAction[]>> = {
+  [CRUDAction.EDIT]: [CRUDAction.EDIT, CRUDAction.UPDATE],
+  [CRUDAction.UPDATE]: [CRUDAction.EDIT, CRUDAction.UPDATE],
+};
+
+/**
+ * Policy engine of a project
+ */
+export class PolicyEngine {
+  private symbols: SymbolTable;
+  private tables = new Map<ModelSymbol, ModelTable>();
+  private rules = new Map<ModelSymbol, CompiledRule[]>();
+  private fields = new Map<ModelSymbol, FieldRuleMap>();
+
+  /**
+   * @param project - Parsed DDL and AUTH files
+   * @param schema - Drizzle tables of the models (the exports of schema/drizzle.ts)
+   */
+  constructor(project: { ddl: DDLFile; auth?: AUTHFile }, schema: Record<string, unknown>) {
+    this.symbols = new SymbolTable(project.ddl);
+
+    const tables = new Map<string, Table>();
+    for (const value of Object.values(schema)) {
+      if (is(value, Table)) tables.set(getTableName(value), value);
+    }
+    for (const model of this.symbols.getModels()) {
+      const table = tables.get(toSnakeCase(model.definition.name.plural));
+      if (!table) continue;
+      const columns = new Map<string, TableColumn>();
+      for (const [key, column] of Object.entries<Column>(getTableColumns(table))) {
+        columns.set(column.name, { key, column });
+      }
+      this.tables.set(model, { model, table, columns });
+    }
+
+    for (const section of project.auth?.modelRules ?? []) {
+      const model = this.symbols.resolveModel(section.modelName);
+      if (!model) continue;
+      const compiled = section.permissions.map((rule) => this.compileRule(rule, model));
+      this.rules.set(model, [...(this.rules.get(model) ?? []), ...compiled]);
+    }
+
+    const permissions = new Map<ModelSymbol, FieldPermission[]>();
+    for (const section of project.auth?.fieldRules ?? []) {
+      const model = this.symbols.resolveModel(section.modelName);
+      if (model)
+        permissions.set(model, [...(permissions.get(model) ?? []), ...section.permissions]);
+    }
+    for (const [model, list] of permissions) {
+      const columns = this.tables.get(model)?.columns;
+      this.fields.set(
+        model,
+        indexFieldRules(list, (fieldName) => {
+          const column = toSnakeCase(fieldName);
+          return columns?.get(column)?.key ?? column;
+        })
+      );
+    }
+  }
+
+  /**
+   * Whether a user may perform an action
+   *
+   * @param user - Signed-in user, undefined for anonymous requests
+   * @param action - Action of the rules (edit and update are the same)
+   * @param modelName - Model name, singular or plural (e.g., "Post")
+   * @param record - Record acted on (the input of create). Without it, whether
+   *   some rule may grant the action, for checks made before loading records
+   */
+  can(
+    user: PolicyUser | undefined,
+    action: CRUDAction,
+    modelName: string,
+    record?: PolicyRecord
+  ): boolean {
+    const rules = this.modelRules(modelName);
+    if (!rules) return true;
+    return this.granting(rules, user, action).some(
+      (rule) =>
+        !record ||
+        ((!rule.owner || (user?.id !== undefined && sameId(record[rule.owner.key], user.id))) &&
+          (rule.conditions ?? []).every((condition) => condition.test(record, user)))
+    );
+  }
+
+  /**
+   * Filter of the rows of a model a user may perform an action on
+   *
+   * @returns A condition for the where clause of the query (`sql\`false\`` when
+   *   no row qualifies), undefined when every row qualifies
+   */
+  filter(user: PolicyUser | undefined, action: CRUDAction, modelName: string): SQL | undefined {
+    const rules = this.modelRules(modelName);
+    if (!rules) return undefined;
+
+    const filters: SQL[] = [];
+    for (const rule of this.granting(rules, user, action)) {
+      const parts = [
+        ...(rule.owner && user?.id !== undefined ? [eq(rule.owner.column, user.id)] : []),
+        ...(rule.conditions ?? []).map((condition) => condition.where(user)),
+      ];
+      const filter = and(...parts);
+      if (!filter) return undefined;
+      filters.push(filter);
+    }
+    return filters.length > 0 ? or(...filters) : sql`false`;
+  }
+
+  /**
+   * Fields of a record a user may not act on
+   *
+   * @param action - set (fields of created records), edit (of updated records) or read
+   * @param fields - Properties of the record (e.g., "role", "is_active")
+   * @param mutation - Normalized name of the mutation writing the fields, if any
+   */
+  forbiddenFields(
+    user: PolicyUser | undefined,
+    action: FieldAction,
+    modelName: string,
+    fields: string[],
+    mutation?: string
+  ): string[] {
+    const rules = this.fields.get(this.model(modelName));
+    if (!rules) return [];
+    return fields.filter(
+      (field) => !fieldAllowed(fieldRules(rules, action, field), user, mutation)
+    );
+  }
+
+  /**
+   * Check the input of a create or update against the field rules
+   *
+   * @returns The input, without the forbidden fields when stripping them
+   * @throws ForbiddenFieldsError (AUTH003) naming the forbidden fields, unless stripping them
+   */
+  authorizeWrite<T extends PolicyRecord>(
+    user: PolicyUser | undefined,
+    action: CRUDAction.CREATE | CRUDAction.EDIT | CRUDAction.UPDATE,
+    modelName: string,
+    input: T,
+    options: WriteOptions = {}
+  ): Partial<T> {
+    const fieldAction = action === CRUDAction.CREATE ? FieldAction.SET : FieldAction.EDIT;
+    const written = Object.keys(input).filter((field) => input[field] !== undefined);
+    const forbidden = this.forbiddenFields(user, fieldAction, modelName, written, options.mutation);
+    if (forbidden.length === 0) return input;
+    if (!options.strip) {
+      throw new ForbiddenFieldsError(fieldAction, forbidden);
+    }
+    return omit(input, forbidden);
+  }
+
+  /**
+   * Remove the fields a user may not read from a record
+   */
+  redact<T extends PolicyRecord>(
+    user: PolicyUser | undefined,
+    modelName: string,
+    record: T
+  ): Partial<T> {
+    const forbidden = this.forbiddenFields(user, FieldAction.READ, modelName, Object.keys(record));
+    return forbidden.length > 0 ? omit(record, forbidden) : record;
+  }
+
+  private model(modelName: string): ModelSymbol {
+    const model = this.symbols.resolveModel(modelName);
+    if (!model) {
+      throw new Error(`Unknown model: ${modelName}`);
+    }
+    return model;
+  }
+
+  /**
+   * Compiled rules of a model, undefined when it has none
+   */
+  private modelRules(modelName: string): CompiledRule[] | undefined {
+    return this.rules.get(this.model(modelName));
+  }
+
+  /**
+   * Rules granting an action to a user, leaving out those that grant nothing
+   */
+  private granting(
+    rules: CompiledRule[],
+    user: PolicyUser | undefined,
+    action: CRUDAction
+  ): CompiledRule[] {
+    return rules.filter(
+      (rule) =>
+        rule.actions.includes(action) &&
+        rule.conditions !== undefined &&
+        matchesSubject(rule.subject, user) &&
+        (!rule.owner || user?.id !== undefined)
+    );
+  }
+
+  private compileRule(rule: PermissionRule, model: ModelSymbol): CompiledRule {
+    const compiled: CompiledRule = {
+      subject: rule.subject,
+      actions: SYNONYMS[rule.action] ?? [rule.action],
+    };
+    const table = this.tables.get(model);
+    if (!table) return compiled;
+
+    if (rule.target.modifier === TargetModifier.OWN) {
+      const owner = this.ownerColumn(table);
+      // Without an owner, `own` matches no record
+      if (!owner) return compiled;
+      compiled.owner = owner;
+    }
+
+    const conditions: CompiledCondition[] = [];
+    for (const condition of rule.condition?.conditions ?? []) {
+      const result = compileCondition(condition, table, {
+        symbols: this.symbols,
+        table: (target) => this.tables.get(target),
+      });
+      if (!result) return compiled;
+      conditions.push(result);
+    }
+    compiled.conditions = conditions;
+    return compiled;
+  }
+
+  /**
+   * Column holding the owner of the records of a model: the foreign key of
+   * its `belongs to User` relationship, or the id of the users themselves
+   */
+  private ownerColumn(table: ModelTable): TableColumn | undefined {
+    const users = this.symbols.resolveModel('User');
+    if (!users) return undefined;
+    if (table.model === users) {
+      return table.columns.get('id');
+    }
+    const ownedBy = table.model.definition.items.some(
+      (item) =>
+        isRelationshipDefinition(item) &&
+        item.type === RelationshipType.BELONGS_TO &&
+        this.symbols.resolveModel(item.targetModel) === users
+    );
+    return ownedBy ? table.columns.get(foreignKeyName(users.definition.name.singular)) : undefined;
+  }
+}
+
+function omit<T extends PolicyRecord>(record: T, fields: string[]): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(record).filter(([field]) => !fields.includes(field))
+  ) as Partial<T>;
+}
+
+/**
+ * Whether two ids are the same (ids from tokens may be strings)
+ */
+function sameId(value: unknown, id: number | string): boolean {
+  return (typeof value === 'number' || typeof value === 'string') && String(value) === String(id);
+}
@@ -0,0 +1,33 @@
+/**
+ * Subjects of auth.dsl rules
+ * `anyone` covers every request, `authenticated users` and `users` every
+ * signed-in user, and a role (`admins`) the users having it.
+ */
+
+import { PermissionSubject, SubjectType } from '@declarelang/core';
+import type { PolicyUser } from './types.js';
+
+/**
+ * Precedence of the subjects of field rules, the most specific highest
+ */
+export const SUBJECT_SPECIFICITY: Record<SubjectType, number> = {
+  [SubjectType.ANYONE]: 0,
+  [SubjectType.AUTHENTICATED_USERS]: 1,
+  [SubjectType.USERS]: 1,
+  [SubjectType.ROLE]: 2,
+};
+
+/**
+ * Whether a rule subject covers a user (undefined for anonymous requests)
+ */
+export function matchesSubject(subject: PermissionSubject, user: PolicyUser | undefined): boolean {
+  switch (subject.type) {
+    case SubjectType.ANYONE:
+      return true;
+    case SubjectType.AUTHENTICATED_USERS:
+    case SubjectType.USERS:
+      return user !== undefined;
+    case SubjectType.ROLE:
+      return user?.roles.includes(subject.roleName) ?? false;
+  }
+}
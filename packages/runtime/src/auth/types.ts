@@ -0,0 +1,27 @@
+/**
+ * Types of the authorization runtime
+ */
+
+/**
+ * User a request is made by: a signed-in user, or an API key, which acts by
+ * its role only and owns no record
+ */
+export interface PolicyUser {
+  id?: number | string; // id of the record of the user in the users table, undefined for API keys
+  roles: string[]; // role names declared in auth.dsl (e.g., "admin")
+}
+
+/**
+ * Record a rule is checked against: a row of the table of the model, keyed by
+ * the properties of the Drizzle table, optionally with related records
+ * (`{ id: 1, user_id: 2, post: { published: true }, comments: [] }`)
+ */
+export type PolicyRecord = Record<string, unknown>;
+
+/**
+ * Options of the field checks of a write
+ */
+export interface WriteOptions {
+  strip?: boolean; // drop forbidden fields instead of rejecting the write
+  mutation?: string; // normalized name of the mutation writing the fields
+}
@@ -0,0 +1,266 @@
+/**
+ * API keys
+ * Credentials of service-to-service callers (batch jobs, integrations),
+ * sent as `Authorization: ApiKey <key>`. A key acts with a role of auth.dsl
+ * under the same rules as the users having it, but as no user: rules on
+ * `own` records grant it nothing, and routes writing the current user reject
+ * it (see auth/policy-engine.ts).
+ *
+ * Keys are kept in the `_api_keys` table: only the SHA-256 of a key, which
+ * is shown once on creation, along with its first characters (`prefix`), to
+ * tell the keys apart in listings and rate limits, and when it was last used
+ * (to the minute), a table of the runtime (see ../index.ts).
+ *
+ * Admins manage the keys with the routes of `routes`, behind the
+ * authenticate hook of an authenticator:
+ *
+ *   const apiKeys = new ApiKeys(project, { db });
+ *   const authenticator = new Authenticator(project, schema, { db, secret, apiKeys });
+ *   await app.register(apiKeys.routes, { prefix: '/admin/api-keys', authenticator });
+ *
+ * - POST / `{ name, role }` → 201 with the key
+ * - GET / → the keys, revoked ones included
+ * - DELETE /:id → 204, revoking the key
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { APIFile, AUTHFile } from '@declarelang/core';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import { pgTable, serial, text, timestamp } from 'drizzle-orm/pg-core';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import type { PolicyUser } from '../auth/types.js';
+import { ConfigError } from '../bootstrap/errors.js';
+import { sendError } from '../http/errors.js';
+import { sendData } from '../http/responses.js';
+import type { Authenticator } from './authenticator.js';
+import { hashSecret } from './secrets.js';
+
+/**
+ * Table of the API keys
+ */
+export const apiKeysTable = pgTable('_api_keys', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  prefix: text('prefix').notNull(),
+  key_hash: text('key_hash').notNull().unique(),
+  role: text('role').notNull(),
+  created_at: timestamp('created_at', { withTimezone: true }).notNull(),
+  last_used_at: timestamp('last_used_at', { withTimezone: true }),
+  revoked_at: timestamp('revoked_at', { withTimezone: true }),
+});
+
+type ApiKeyRow = typeof apiKeysTable.$inferSelect;
+
+/**
+ * API key as listed by the admin routes
+ */
+export interface ApiKey {
+  id: number;
+  name: string; // e.g., "nightly export"
+  prefix: string; // first characters of the key (e.g., "dlk_3f9a1c0b")
+  role: string;
+  created_at: string; // ISO 8601
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+/**
+ * Options of the API keys
+ */
+export interface ApiKeysOptions {
+  db: PgDatabase<PgQueryResultHKT>;
+  adminRole?: string; // role of the users managing the keys, "admin" by default
+  now?: () => number; // clock, in milliseconds since the epoch
+}
+
+/**
+ * Options of the admin routes
+ */
+export interface ApiKeyRouteOptions {
+  authenticator: Authenticator; // authenticates the admins
+}
+
+const KEY_PREFIX = 'dlk_';
+const PREFIX_LENGTH = KEY_PREFIX.length + 8;
+const LAST_USED_RESOLUTION_MS = 60_000;
+const API_KEY = /^ApiKey\s+(\S+)$/i;
+
+/**
+ * API keys of a project
+ */
+export class ApiKeys {
+  private api: APIFile | undefined;
+  private db: PgDatabase<PgQueryResultHKT>;
+  private roles: string[];
+  private adminRole: string;
+  private now: () => number;
+
+  /**
+   * @param project - Parsed AUTH and API files of the project
+   * @throws ConfigError when auth.dsl does not declare the admin role
+   */
+  constructor(project: { auth?: AUTHFile; api?: APIFile }, options: ApiKeysOptions) {
+    this.api = project.api;
+    this.db = options.db;
+    this.roles = project.auth?.roles.map((role) => role.name) ?? [];
+    this.adminRole = options.adminRole ?? 'admin';
+    this.now = options.now ?? Date.now;
+    if (!this.roles.includes(this.adminRole)) {
+      throw new ConfigError('CONFIG003', `role ${this.adminRole} in auth.dsl, to manage API keys`);
+    }
+  }
+
+  /**
+   * Create a key
+   *
+   * @returns The key, only known to its caller from then on, and its listing
+   */
+  async create(name: string, role: string): Promise<{ key: string; apiKey: ApiKey }> {
+    const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const [row] = await this.db
+      .insert(apiKeysTable)
+      .values({
+        name,
+        prefix: key.slice(0, PREFIX_LENGTH),
+        key_hash: hashSecret(key),
+        role,
+        created_at: new Date(this.now()),
+      })
+      .returning();
+    if (!row) throw new Error(`API key ${name} was not written`);
+    return { key, apiKey: toApiKey(row) };
+  }
+
+  /**
+   * Keys in creation order, revoked ones included
+   */
+  async list(): Promise<ApiKey[]> {
+    const rows = await this.db.select().from(apiKeysTable).orderBy(asc(apiKeysTable.id));
+    return rows.map(toApiKey);
+  }
+
+  /**
+   * Revoke a key
+   *
+   * @returns The revoked key, undefined when there is no such key in use
+   */
+  async revoke(id: number): Promise<ApiKey | undefined> {
+    const [row] = await this.db
+      .update(apiKeysTable)
+      .set({ revoked_at: new Date(this.now()) })
+      .where(and(eq(apiKeysTable.id, id), isNull(apiKeysTable.revoked_at)))
+      .returning();
+    return row ? toApiKey(row) : undefined;
+  }
+
+  /**
+   * Caller of a key, undefined when the key is unknown or revoked
+   */
+  async verify(key: string): Promise<PolicyUser | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(apiKeysTable)
+      .where(and(eq(apiKeysTable.key_hash, hashSecret(key)), isNull(apiKeysTable.revoked_at)));
+    if (!row) return undefined;
+
+    const now = this.now();
+    if (!row.last_used_at || now - row.last_used_at.getTime() >= LAST_USED_RESOLUTION_MS) {
+      await this.db
+        .update(apiKeysTable)
+        .set({ last_used_at: new Date(now) })
+        .where(eq(apiKeysTable.id, row.id));
+    }
+    // Keys of roles since removed from auth.dsl keep no role
+    return { roles: this.roles.includes(row.role) ? [row.role] : [] };
+  }
+
+  /**
+   * Key of a request, from its Authorization header
+   */
+  keyOf(request: FastifyRequest): string | undefined {
+    return API_KEY.exec(request.headers.authorization ?? '')?.[1];
+  }
+
+  /**
+   * Prefix of the key of a request, to count its requests against the
+   * `per api key` rate limits (see rate-limit/hook.ts)
+   */
+  prefixOf = (request: FastifyRequest): string | undefined =>
+    this.keyOf(request)?.slice(0, PREFIX_LENGTH);
+
+  /**
+   * Plugin of the admin routes
+   */
+  routes: FastifyPluginAsync<ApiKeyRouteOptions> = (app, { authenticator }) => {
+    const admin = {
+      preHandler: [
+        authenticator.authenticate,
+        async (request: FastifyRequest, reply: FastifyReply) => {
+          const user = authenticator.user(request);
+          // API keys do not manage keys, whatever their role
+          if (user?.id === undefined || !user.roles.includes(this.adminRole)) {
+            return sendError(this.api, request, reply, 403, {
+              code: 'AUTH003',
+              message: 'Insufficient permissions to manage API keys',
+            });
+          }
+        },
+      ],
+    };
+
+    app.post('/', admin, async (request, reply) => {
+      const { name, role } = (request.body ?? {}) as Record<string, unknown>;
+      if (typeof name !== 'string' || name.trim() === '') {
+        return sendError(this.api, request, reply, 400, {
+          code: 'VAL001',
+          message: 'name is required',
+        });
+      }
+      if (typeof role !== 'string' || role === '') {
+        return sendError(this.api, request, reply, 400, {
+          code: 'VAL001',
+          message: 'role is required',
+        });
+      }
+      if (!this.roles.includes(role)) {
+        return sendError(this.api, request, reply, 400, {
+          code: 'VAL002',
+          message: 'role must be valid role',
+          details: { roles: this.roles },
+        });
+      }
+      const { key, apiKey } = await this.create(name.trim(), role);
+      return sendData(this.api, request, reply, 201, { ...apiKey, key });
+    });
+
+    app.get('/', admin, async (request, reply) =>
+      sendData(this.api, request, reply, 200, await this.list())
+    );
+
+    app.delete<{ Params: { id: string } }>('/:id', admin, async (request, reply) => {
+      const id = Number(request.params.id);
+      const revoked = Number.isSafeInteger(id) ? await this.revoke(id) : undefined;
+      if (!revoked) {
+        return sendError(this.api, request, reply, 404, {
+          code: 'RUNTIME006',
+          message: 'API key not found',
+        });
+      }
+      return reply.status(204).send();
+    });
+    return Promise.resolve();
+  };
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    role: row.role,
+    created_at: row.created_at.toISOString(),
+    last_used_at: row.last_used_at?.toISOString() ?? null,
+    revoked_at: row.revoked_at?.toISOString() ?? null,
+  };
+}
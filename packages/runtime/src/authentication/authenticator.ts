@@ -0,0 +1,515 @@
+/**
+ * Authenticator
+ * Signs users up and in against the table of the model with `email` and
+ * `password` fields (see config.ts), and authenticates the requests of the
+ * generated routes with the access tokens it issues:
+ *
+ *   const authenticator = new Authenticator(project, schema, { db, secret });
+ *   await app.register(authenticator.routes, { prefix: '/auth' });
+ *   await app.register(apiRoutes, {
+ *     db,
+ *     authenticate: authenticator.authenticate,
+ *     currentUser: authenticator.currentUser,
+ *     user: authenticator.user,
+ *     policy: new PolicyEngine(project, schema),
+ *     hashPassword: authenticator.hashPassword,
+ *   });
+ *
+ * Routes:
+ * - POST /signup `{ email, password, ...fields }` → 201 with tokens
+ * - POST /login `{ email, password }` → tokens
+ * - POST /refresh `{ refresh_token }` → new tokens
+ * - POST /logout `{ refresh_token }` → 204
+ *
+ * Passwords are hashed with bcrypt. Access tokens are JWTs signed with
+ * HS256, whose claims carry the id of the user (`sub`) and its roles of
+ * auth.dsl (`roles`), sent as `Authorization: Bearer <token>`; with the
+ * apiKeys option, the authenticate hook also accepts the API keys of
+ * service callers (`Authorization: ApiKey <key>`, see api-keys.ts). Refresh
+ * tokens are random strings, stored hashed, and used once: a refresh
+ * replaces the token with a new one of the same family, and a token used
+ * again (a stolen token replayed after its owner refreshed) revokes its
+ * family, signing out every client of the login it came from.
+ *
+ * Signup writes the user as an anonymous request would: it only takes the
+ * fields the field rules of auth.dsl let `anyone` set, of the types whose
+ * JSON values it checks (text, numbers, booleans); other fields of the body
+ * are ignored. Emails and unique fields already taken fail with VAL007 (409).
+ *
+ * Requests without credentials fail with AUTH001 (as do wrong passwords),
+ * requests with an invalid, expired or revoked token with AUTH002, both 401.
+ * The signup and login routes count against the `signups` and `logins`
+ * rate limits of api.dsl (see rate-limit/hook.ts).
+ */
+
+import { randomBytes, randomUUID } from 'node:crypto';
+import {
+  APIFile,
+  AUTHFile,
+  DDLFile,
+  FieldAction,
+  FieldConstraint,
+  FieldType,
+  RateLimitAction,
+  SECURITYFile,
+  SymbolTable,
+  toSnakeCase,
+} from '@declarelang/core';
+import { Column, Table, eq, getTableColumns, getTableName, is } from 'drizzle-orm';
+import type { PgDatabase, PgQueryResultHKT, PgTable } from 'drizzle-orm/pg-core';
+import type {
+  FastifyPluginAsync,
+  FastifyReply,
+  FastifyRequest,
+  preHandlerAsyncHookHandler,
+} from 'fastify';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import { fieldAllowed, fieldRules, indexFieldRules } from '../auth/field-rules.js';
+import type { PolicyUser } from '../auth/types.js';
+import { ConfigError } from '../bootstrap/errors.js';
+import { ApiError, sendError } from '../http/errors.js';
+import { sendData } from '../http/responses.js';
+import { AuthConfigOptions, resolveAuthConfig } from './config.js';
+import type { ApiKeys } from './api-keys.js';
+import { MemoryRefreshTokenStore } from './memory-store.js';
+import { hashSecret } from './secrets.js';
+import type { AccessTokenClaims, AuthConfig, AuthTokens, RefreshTokenStore } from './types.js';
+
+/**
+ * Options of an authenticator
+ */
+export interface AuthenticatorOptions extends AuthConfigOptions {
+  db: PgDatabase<PgQueryResultHKT>;
+  secret: string; // key of the token signatures, at least 32 bytes
+  store?: RefreshTokenStore; // default: in memory
+  apiKeys?: ApiKeys; // API keys the authenticate hook accepts
+  now?: () => number; // clock, in milliseconds since the epoch
+}
+
+/**
+ * User row, keyed by the properties of the Drizzle table
+ */
+type UserRow = Record<string, unknown>;
+
+/**
+ * Outcome of the authentication of a request
+ */
+type Authentication = { user: PolicyUser } | { error: ApiError };
+
+const MIN_SECRET_BYTES = 32;
+const MAX_PASSWORD_BYTES = 72; // bcrypt ignores the bytes past the 72nd
+const EMAIL_FORMAT = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const BEARER = /^Bearer\s+(\S+)$/i;
+
+const NOT_AUTHENTICATED: ApiError = { code: 'AUTH001', message: 'Authentication required' };
+const INVALID_CREDENTIALS: ApiError = { code: 'AUTH001', message: 'Invalid email or password' };
+const INVALID_TOKEN: ApiError = {
+  code: 'AUTH002',
+  message: 'Invalid or expired authentication token',
+};
+const REFRESH_TOKEN_REQUIRED: ApiError = { code: 'VAL001', message: 'refresh_token is required' };
+
+/**
+ * JSON types of the field types signup accepts values of
+ */
+const JSON_TYPES: Partial<Record<FieldType, string>> = {
+  [FieldType.TEXT]: 'string',
+  [FieldType.LONG_TEXT]: 'string',
+  [FieldType.UUID]: 'string',
+  [FieldType.NUMBER]: 'number',
+  [FieldType.DECIMAL]: 'number',
+  [FieldType.BOOLEAN]: 'boolean',
+};
+
+/**
+ * Authentication of a project
+ */
+export class Authenticator {
+  readonly config: AuthConfig;
+  private api: APIFile | undefined;
+  private db: PgDatabase<PgQueryResultHKT>;
+  private secret: string;
+  private store: RefreshTokenStore;
+  private apiKeys: ApiKeys | undefined;
+  private now: () => number;
+  private table: PgTable;
+  private columns = new Map<string, { key: string; column: Column }>(); // by column name
+  private signupFields: { name: string; type: string; required: boolean; unique: boolean }[];
+  private authentications = new WeakMap<FastifyRequest, Authentication>();
+  private dummyHash: Promise<string> | undefined;
+
+  /**
+   * @param project - Parsed DSL files of the project
+   * @param schema - Drizzle tables of the models (the exports of schema/drizzle.ts)
+   * @throws ConfigError when the settings cannot be honored (see config.ts),
+   *   the secret is too short or the users table is missing from the schema
+   */
+  constructor(
+    project: { ddl: DDLFile; auth?: AUTHFile; security?: SECURITYFile; api?: APIFile },
+    schema: Record<string, unknown>,
+    options: AuthenticatorOptions
+  ) {
+    this.config = resolveAuthConfig(project, options);
+    if (Buffer.byteLength(options.secret) < MIN_SECRET_BYTES) {
+      throw new ConfigError('CONFIG002', `the secret must be at least ${MIN_SECRET_BYTES} bytes`);
+    }
+    this.api = project.api;
+    this.db = options.db;
+    this.secret = options.secret;
+    this.store = options.store ?? new MemoryRefreshTokenStore();
+    this.apiKeys = options.apiKeys;
+    this.now = options.now ?? Date.now;
+
+    const symbols = new SymbolTable(project.ddl);
+    const model = symbols.resolveModel(this.config.modelName);
+    const tableName = toSnakeCase(model?.definition.name.plural ?? '');
+    const table = Object.values(schema).find(
+      (value): value is PgTable => is(value, Table) && getTableName(value) === tableName
+    );
+    if (!model || !table) {
+      throw new ConfigError('CONFIG003', `table ${tableName} in the Drizzle schema`);
+    }
+    this.table = table;
+    for (const [key, column] of Object.entries<Column>(getTableColumns(table))) {
+      this.columns.set(column.name, { key, column });
+    }
+
+    const managed = [this.config.emailField, this.config.passwordField, this.config.roleField];
+    const rules = indexFieldRules(
+      (project.auth?.fieldRules ?? [])
+        .filter((section) => symbols.resolveModel(section.modelName) === model)
+        .flatMap((section) => section.permissions),
+      toSnakeCase
+    );
+    this.signupFields = [...model.fields.values()].flatMap(({ definition, implicit }) => {
+      const type = JSON_TYPES[definition.type];
+      const settable = fieldAllowed(
+        fieldRules(rules, FieldAction.SET, toSnakeCase(definition.name)),
+        undefined
+      );
+      if (implicit || managed.includes(definition.name) || !type || !settable) return [];
+      return [
+        {
+          name: definition.name,
+          type,
+          required: definition.constraints.includes(FieldConstraint.REQUIRED),
+          unique: definition.constraints.includes(FieldConstraint.UNIQUE),
+        },
+      ];
+    });
+  }
+
+  /**
+   * Plugin of the signup, login, refresh and logout routes
+   */
+  routes: FastifyPluginAsync = (app) => {
+    app.post(
+      '/signup',
+      { config: { rateLimit: { action: RateLimitAction.SIGNUPS } } },
+      (request, reply) => this.signup(request, reply)
+    );
+    app.post(
+      '/login',
+      { config: { rateLimit: { action: RateLimitAction.LOGINS } } },
+      (request, reply) => this.login(request, reply)
+    );
+    app.post('/refresh', (request, reply) => this.refresh(request, reply));
+    app.post('/logout', (request, reply) => this.logout(request, reply));
+    return Promise.resolve();
+  };
+
+  /**
+   * Hook rejecting requests without a valid access token or API key
+   */
+  authenticate: preHandlerAsyncHookHandler = async (request, reply) => {
+    const key = this.apiKeys?.keyOf(request);
+    if (key !== undefined && !this.authentications.has(request)) {
+      const user = await this.apiKeys?.verify(key);
+      this.authentications.set(request, user ? { user } : { error: INVALID_TOKEN });
+    }
+    const authentication = this.authentication(request);
+    if ('error' in authentication) {
+      return sendError(this.api, request, reply, 401, authentication.error);
+    }
+  };
+
+  /**
+   * Id of the user a request is made by, undefined without a valid access
+   * token (API keys included)
+   */
+  currentUser = (request: FastifyRequest): number | undefined =>
+    this.user(request)?.id as number | undefined;
+
+  /**
+   * User a request is made by, for the policy engine. API keys are only
+   * known once the authenticate hook verified them
+   */
+  user = (request: FastifyRequest): PolicyUser | undefined => {
+    const authentication = this.authentication(request);
+    return 'user' in authentication ? authentication.user : undefined;
+  };
+
+  /**
+   * Hash a password as the users table stores it (e.g., for seed data, or the
+   * hashPassword option of the generated routes)
+   */
+  hashPassword = (password: string): Promise<string> =>
+    bcrypt.hash(password, this.config.bcryptRounds);
+
+  private async signup(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+    const body = bodyOf(request);
+    const credentials = this.credentials(body);
+    if ('code' in credentials) return sendError(this.api, request, reply, 400, credentials);
+    if (!EMAIL_FORMAT.test(credentials.email)) {
+      return sendError(this.api, request, reply, 400, {
+        code: 'VAL002',
+        message: `${this.config.emailField} must be valid email`,
+      });
+    }
+    if (Buffer.byteLength(credentials.password) > MAX_PASSWORD_BYTES) {
+      return sendError(this.api, request, reply, 400, {
+        code: 'VAL003',
+        message: `${this.config.passwordField} must be at most ${MAX_PASSWORD_BYTES} bytes`,
+      });
+    }
+
+    const values: UserRow = {
+      [this.key(this.config.emailField)]: credentials.email,
+      [this.key(this.config.passwordField)]: await this.hashPassword(credentials.password),
+    };
+    const unique = [this.config.emailField];
+    for (const field of this.signupFields) {
+      const value = body[field.name];
+      if (value === undefined || value === null) {
+        if (field.required) {
+          return sendError(this.api, request, reply, 400, {
+            code: 'VAL001',
+            message: `${field.name} is required`,
+          });
+        }
+        continue;
+      }
+      if (typeof value !== field.type) {
+        return sendError(this.api, request, reply, 400, {
+          code: 'VAL002',
+          message: `${field.name} must be valid ${field.type}`,
+        });
+      }
+      values[this.key(field.name)] = value;
+      if (field.unique) unique.push(field.name);
+    }
+
+    const taken = (field: string) =>
+      sendError(this.api, request, reply, 409, {
+        code: 'VAL007',
+        message: `${field} must be unique`,
+      });
+    for (const field of unique) {
+      if (await this.findUser(field, values[this.key(field)])) return taken(field);
+    }
+
+    let user: UserRow | undefined;
+    try {
+      [user] = (await this.db.insert(this.table).values(values).returning()) as UserRow[];
+    } catch (error) {
+      // Another signup took the value between the check and the insert
+      const constraint = uniqueViolation(error);
+      if (constraint === undefined) throw error;
+      const fields = [this.config.emailField, ...this.signupFields.map((field) => field.name)];
+      return taken(
+        fields.find((field) => constraint.includes(toSnakeCase(field))) ?? this.config.emailField
+      );
+    }
+    if (!user) throw new Error(`User ${credentials.email} was not written`);
+    return sendData(this.api, request, reply, 201, await this.issueTokens(user));
+  }
+
+  private async login(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+    const credentials = this.credentials(bodyOf(request));
+    if ('code' in credentials) return sendError(this.api, request, reply, 400, credentials);
+
+    const user = await this.findUser(this.config.emailField, credentials.email);
+    const hash = user?.[this.key(this.config.passwordField)];
+    // Compare with a hash of the same cost when the user does not exist, so
+    // that the response time does not tell which emails have an account
+    this.dummyHash ??= this.hashPassword(randomUUID());
+    const matches = await bcrypt.compare(
+      credentials.password,
+      typeof hash === 'string' ? hash : await this.dummyHash
+    );
+    if (!user || !matches) return sendError(this.api, request, reply, 401, INVALID_CREDENTIALS);
+    return sendData(this.api, request, reply, 200, await this.issueTokens(user));
+  }
+
+  private async refresh(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+    const token = refreshTokenOf(bodyOf(request));
+    if (token === undefined)
+      return sendError(this.api, request, reply, 400, REFRESH_TOKEN_REQUIRED);
+
+    const now = this.now();
+    const record = await this.store.consume(hashSecret(token), now);
+    if (!record || record.expiresAt <= now) {
+      return sendError(this.api, request, reply, 401, INVALID_TOKEN);
+    }
+    if (record.usedAt !== undefined) {
+      request.log.warn({ family: record.family }, 'Refresh token reused, revoking its family');
+      await this.store.revoke(record.family);
+      return sendError(this.api, request, reply, 401, INVALID_TOKEN);
+    }
+    const user = await this.findUser('id', record.userId);
+    if (!user) {
+      await this.store.revoke(record.family);
+      return sendError(this.api, request, reply, 401, INVALID_TOKEN);
+    }
+    return sendData(this.api, request, reply, 200, await this.issueTokens(user, record.family));
+  }
+
+  private async logout(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+    const token = refreshTokenOf(bodyOf(request));
+    if (token === undefined)
+      return sendError(this.api, request, reply, 400, REFRESH_TOKEN_REQUIRED);
+
+    const record = await this.store.consume(hashSecret(token), this.now());
+    if (record) await this.store.revoke(record.family);
+    return reply.status(204).send();
+  }
+
+  /**
+   * Issue an access token and a refresh token to a user
+   *
+   * @param family - Family of the refresh token, a new one for logins
+   */
+  private async issueTokens(user: UserRow, family: string = randomUUID()): Promise<AuthTokens> {
+    const now = this.now();
+    const userId = Number(user[this.key('id')]);
+    const iat = Math.floor(now / 1000);
+    const claims: AccessTokenClaims = {
+      sub: String(userId),
+      roles: this.rolesOf(user),
+      iat,
+      exp: iat + this.config.accessTokenTtl,
+    };
+    const refreshToken = randomBytes(32).toString('base64url');
+    await this.store.save({
+      tokenHash: hashSecret(refreshToken),
+      family,
+      userId,
+      expiresAt: now + this.config.refreshTokenTtl * 1000,
+    });
+    return {
+      access_token: jwt.sign(claims, this.secret, { algorithm: 'HS256' }),
+      refresh_token: refreshToken,
+      token_type: 'Bearer',
+      expires_in: this.config.accessTokenTtl,
+    };
+  }
+
+  /**
+   * Authenticate a request by its access token, once per request. API keys
+   * need the database: until the authenticate hook verified them, they are
+   * not valid
+   */
+  private authentication(request: FastifyRequest): Authentication {
+    let authentication = this.authentications.get(request);
+    if (!authentication && this.apiKeys?.keyOf(request) !== undefined) {
+      return { error: INVALID_TOKEN };
+    }
+    if (!authentication) {
+      authentication = this.verify(request.headers.authorization);
+      this.authentications.set(request, authentication);
+    }
+    return authentication;
+  }
+
+  private verify(header: string | undefined): Authentication {
+    if (!header) return { error: NOT_AUTHENTICATED };
+    const token = BEARER.exec(header)?.[1];
+    if (!token) return { error: INVALID_TOKEN };
+    try {
+      const claims = jwt.verify(token, this.secret, {
+        algorithms: ['HS256'],
+        clockTimestamp: Math.floor(this.now() / 1000),
+      });
+      if (typeof claims === 'string' || typeof claims.sub !== 'string') {
+        return { error: INVALID_TOKEN };
+      }
+      const id = Number(claims.sub);
+      const roles: unknown = claims['roles'];
+      if (!Number.isSafeInteger(id) || !Array.isArray(roles)) return { error: INVALID_TOKEN };
+      return { user: { id, roles: roles.filter((role) => typeof role === 'string') } };
+    } catch {
+      return { error: INVALID_TOKEN };
+    }
+  }
+
+  /**
+   * Roles of a user declared in auth.dsl
+   */
+  private rolesOf(user: UserRow): string[] {
+    if (!this.config.roleField) return [];
+    const role = user[this.key(this.config.roleField)];
+    if (typeof role !== 'string') return [];
+    const name = role.trim().toLowerCase();
+    return this.config.roles.includes(name) ? [name] : [];
+  }
+
+  /**
+   * Email and password of a request body
+   */
+  private credentials(
+    body: Record<string, unknown>
+  ): { email: string; password: string } | ApiError {
+    const { emailField, passwordField } = this.config;
+    const email = body[emailField];
+    const password = body[passwordField];
+    if (typeof email !== 'string' || email.trim() === '') {
+      return { code: 'VAL001', message: `${emailField} is required` };
+    }
+    if (typeof password !== 'string' || password === '') {
+      return { code: 'VAL001', message: `${passwordField} is required` };
+    }
+    return { email: email.trim().toLowerCase(), password };
+  }
+
+  private async findUser(field: string, value: unknown): Promise<UserRow | undefined> {
+    const column = this.columns.get(toSnakeCase(field))?.column;
+    if (!column) throw new Error(`Column ${field} is missing from the users table`);
+    const [user] = (await this.db
+      .select()
+      .from(this.table)
+      .where(eq(column, value))
+      .limit(1)) as UserRow[];
+    return user;
+  }
+
+  /**
+   * Property of the Drizzle table of a field
+   */
+  private key(field: string): string {
+    const column = toSnakeCase(field);
+    return this.columns.get(column)?.key ?? column;
+  }
+}
+
+function bodyOf(request: FastifyRequest): Record<string, unknown> {
+  const body = request.body;
+  return typeof body === 'object' && body !== null ? (body as Record<string, unknown>) : {};
+}
+
+function refreshTokenOf(body: Record<string, unknown>): string | undefined {
+  const token = body['refresh_token'];
+  return typeof token === 'string' && token !== '' ? token : undefined;
+}
+
+/**
+ * Constraint of the unique violation (23505) a query failed with, if any
+ */
+function uniqueViolation(error: unknown): string | undefined {
+  for (let current = error; typeof current === 'object' && current !== null; ) {
+    const { code, constraint, cause } = current as Record<string, unknown>;
+    if (code === '23505') return typeof constraint === 'string' ? constraint : '';
+    current = cause;
+  }
+  return undefined;
+}
@@ -0,0 +1,128 @@
+/**
+ * Authentication settings
+ * Resolved from the DSL files of a project:
+ * - the users are the records of the model with `email` and `password`
+ *   fields, and their role the value of its `role` field, when it names a
+ *   role of auth.dsl
+ * - passwords are hashed as the constraints of security.dsl ask
+ *   (`all password fields must be hashed with bcrypt`, `... must have
+ *   minimum 12 rounds`); bcrypt with 12 rounds without them
+ * - access tokens expire within the bound of its enforce rules (`JWT tokens
+ *   must expire within 24 hours`)
+ */
+
+import { AUTHFile, DDLFile, SECURITYFile, SymbolTable } from '@declarelang/core';
+import { ConfigError } from '../bootstrap/errors.js';
+import type { AuthConfig } from './types.js';
+
+/**
+ * Options overriding the resolved settings
+ */
+export interface AuthConfigOptions {
+  model?: string; // model users sign up as, when several have email and password fields
+  accessTokenTtl?: number; // in seconds, 15 minutes by default
+  refreshTokenTtl?: number; // in seconds, 7 days by default
+}
+
+const DEFAULT_BCRYPT_ROUNDS = 12;
+const DEFAULT_ACCESS_TOKEN_TTL = 15 * 60;
+const DEFAULT_REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60;
+
+const UNITS: Record<string, number> = {
+  second: 1,
+  minute: 60,
+  hour: 3_600,
+  day: 86_400,
+  week: 604_800,
+};
+
+const HASH_RULE = /password fields must be hashed with (\S+)/i;
+const ROUNDS_RULE = /password fields must have minimum (\d+) rounds/i;
+const EXPIRY_RULE = /JWT tokens must expire within (\d+) (second|minute|hour|day|week)s?\b/i;
+
+/**
+ * Resolve the authentication settings of a project
+ *
+ * @throws ConfigError when no model holds the users, or when the options or
+ *   the rules of security.dsl cannot be honored
+ */
+export function resolveAuthConfig(
+  project: { ddl: DDLFile; auth?: AUTHFile; security?: SECURITYFile },
+  options: AuthConfigOptions = {}
+): AuthConfig {
+  const symbols = new SymbolTable(project.ddl);
+  const candidates = options.model
+    ? [symbols.resolveModel(options.model)]
+    : symbols
+        .getModels()
+        .filter((model) => model.fields.has('email') && model.fields.has('password'));
+  const [model, other] = candidates;
+  if (!model || !model.fields.has('email') || !model.fields.has('password')) {
+    throw new ConfigError(
+      'CONFIG003',
+      options.model
+        ? `model ${options.model} with email and password fields`
+        : 'a model with email and password fields'
+    );
+  }
+  if (other) {
+    throw new ConfigError(
+      'CONFIG006',
+      `${model.definition.name.singular} and ${other.definition.name.singular} both have email and password fields, pick one with the model option`
+    );
+  }
+  const role = model.fields.get('role');
+
+  let bcryptRounds = DEFAULT_BCRYPT_ROUNDS;
+  for (const rule of project.security?.constraints ?? []) {
+    const algorithm = HASH_RULE.exec(rule.description)?.[1];
+    if (algorithm && algorithm.toLowerCase() !== 'bcrypt') {
+      throw new ConfigError(
+        'CONFIG002',
+        `passwords cannot be hashed with ${algorithm}, only bcrypt`
+      );
+    }
+    const rounds = ROUNDS_RULE.exec(rule.description)?.[1];
+    if (rounds) bcryptRounds = Number(rounds);
+  }
+  if (bcryptRounds < 4 || bcryptRounds > 31) {
+    throw new ConfigError(
+      'CONFIG002',
+      `bcrypt rounds must be between 4 and 31, got ${bcryptRounds}`
+    );
+  }
+
+  // Shortest expiry bound of the enforce rules
+  let expiry: { ttl: number; rule: string } | undefined;
+  for (const rule of project.security?.enforce ?? []) {
+    const [, count, unit = ''] = EXPIRY_RULE.exec(rule.description) ?? [];
+    if (count === undefined) continue;
+    const ttl = Number(count) * (UNITS[unit.toLowerCase()] ?? 1);
+    if (!expiry || ttl < expiry.ttl) expiry = { ttl, rule: rule.description };
+  }
+  const accessTokenTtl =
+    options.accessTokenTtl ?? Math.min(DEFAULT_ACCESS_TOKEN_TTL, expiry?.ttl ?? Infinity);
+  if (expiry && accessTokenTtl > expiry.ttl) {
+    throw new ConfigError(
+      'CONFIG006',
+      `access tokens expiring after ${accessTokenTtl} seconds break "${expiry.rule}"`
+    );
+  }
+  const refreshTokenTtl = options.refreshTokenTtl ?? DEFAULT_REFRESH_TOKEN_TTL;
+  for (const [name, ttl] of Object.entries({ accessTokenTtl, refreshTokenTtl })) {
+    if (!Number.isInteger(ttl) || ttl <= 0) {
+      throw new ConfigError('CONFIG002', `${name} must be a positive number of seconds`);
+    }
+  }
+
+  return {
+    modelName: model.definition.name.singular,
+    emailField: 'email',
+    passwordField: 'password',
+    ...(role && !role.implicit ? { roleField: role.definition.name } : {}),
+    roles: project.auth?.roles.map((definition) => definition.name) ?? [],
+    bcryptRounds,
+    accessTokenTtl,
+    refreshTokenTtl,
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Authentication runtime
+ */
+
+export * from './types.js';
+export { resolveAuthConfig } from './config.js';
+export type { AuthConfigOptions } from './config.js';
+export { Authenticator } from './authenticator.js';
+export type { AuthenticatorOptions } from './authenticator.js';
+export { ApiKeys, apiKeysTable } from './api-keys.js';
+export type { ApiKey, ApiKeyRouteOptions, ApiKeysOptions } from './api-keys.js';
+export { MemoryRefreshTokenStore } from './memory-store.js';
+export { SqlRefreshTokenStore, refreshTokensTable } from './sql-store.js';
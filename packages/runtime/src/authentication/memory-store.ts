@@ -0,0 +1,32 @@
+/**
+ * In-memory refresh token store
+ * Tokens live in the process (see storage/expiring-map.ts and sql-store.ts).
+ */
+
+import { ExpiringMap } from '../storage/expiring-map.js';
+import type { RefreshTokenRecord, RefreshTokenStore } from './types.js';
+
+/**
+ * Refresh token store keeping the tokens in a map
+ */
+export class MemoryRefreshTokenStore implements RefreshTokenStore {
+  private tokens = new ExpiringMap<RefreshTokenRecord>((record) => record.expiresAt);
+
+  save(record: RefreshTokenRecord): Promise<void> {
+    this.tokens.set(record.tokenHash, { ...record });
+    return Promise.resolve();
+  }
+
+  consume(tokenHash: string, now: number): Promise<RefreshTokenRecord | undefined> {
+    const record = this.tokens.get(tokenHash, now);
+    if (!record) return Promise.resolve(undefined);
+    const previous = { ...record };
+    record.usedAt ??= now;
+    return Promise.resolve(previous);
+  }
+
+  revoke(family: string): Promise<void> {
+    this.tokens.deleteWhere((record) => record.family === family);
+    return Promise.resolve();
+  }
+}
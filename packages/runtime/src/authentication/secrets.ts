@@ -0,0 +1,14 @@
+/**
+ * Hashes of random secrets
+ * Refresh tokens and API keys are random and long, so their SHA-256 is kept
+ * in place of them: they need no salt nor slow hash, unlike passwords.
+ */
+
+import { createHash } from 'node:crypto';
+
+/**
+ * SHA-256 of a random secret (refresh token, API key), in hex
+ */
+export function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
@@ -0,0 +1,74 @@
+/**
+ * SQL refresh token store
+ * Keeps the tokens in the `_refresh_tokens` table, so that every instance of
+ * an API accepts the tokens the others issued. A token is consumed by a
+ * single conditional update: of two concurrent refreshes with the same
+ * token, only one gets it unused. `refreshTokensTable` is a table of the
+ * runtime (see ../index.ts).
+ */
+
+import { and, eq, isNull } from 'drizzle-orm';
+import { index, integer, pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import type { RefreshTokenRecord, RefreshTokenStore } from './types.js';
+
+/**
+ * Table of the refresh tokens
+ */
+export const refreshTokensTable = pgTable(
+  '_refresh_tokens',
+  {
+    token_hash: text('token_hash').primaryKey(),
+    family: text('family').notNull(),
+    user_id: integer('user_id').notNull(),
+    expires_at: timestamp('expires_at', { withTimezone: true }).notNull(),
+    used_at: timestamp('used_at', { withTimezone: true }),
+  },
+  (table) => [index('_refresh_tokens_family_idx').on(table.family)]
+);
+
+type RefreshTokenRow = typeof refreshTokensTable.$inferSelect;
+
+/**
+ * Refresh token store keeping the tokens in a PostgreSQL table
+ */
+export class SqlRefreshTokenStore implements RefreshTokenStore {
+  constructor(private db: PgDatabase<PgQueryResultHKT>) {}
+
+  async save(record: RefreshTokenRecord): Promise<void> {
+    await this.db.insert(refreshTokensTable).values({
+      token_hash: record.tokenHash,
+      family: record.family,
+      user_id: record.userId,
+      expires_at: new Date(record.expiresAt),
+      used_at: record.usedAt === undefined ? null : new Date(record.usedAt),
+    });
+  }
+
+  async consume(tokenHash: string, now: number): Promise<RefreshTokenRecord | undefined> {
+    const table = refreshTokensTable;
+    const [unused] = await this.db
+      .update(table)
+      .set({ used_at: new Date(now) })
+      .where(and(eq(table.token_hash, tokenHash), isNull(table.used_at)))
+      .returning();
+    if (unused) return toRecord({ ...unused, used_at: null });
+
+    const [used] = await this.db.select().from(table).where(eq(table.token_hash, tokenHash));
+    return used ? toRecord(used) : undefined;
+  }
+
+  async revoke(family: string): Promise<void> {
+    await this.db.delete(refreshTokensTable).where(eq(refreshTokensTable.family, family));
+  }
+}
+
+function toRecord(row: RefreshTokenRow): RefreshTokenRecord {
+  return {
+    tokenHash: row.token_hash,
+    family: row.family,
+    userId: row.user_id,
+    expiresAt: row.expires_at.getTime(),
+    ...(row.used_at ? { usedAt: row.used_at.getTime() } : {}),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Types of the authentication runtime
+ */
+
+/**
+ * Settings of the authentication routes, resolved from the DSL files
+ */
+export interface AuthConfig {
+  modelName: string; // singular name of the model users sign up as (e.g., "User")
+  emailField: string; // field names, normalized (e.g., "email")
+  passwordField: string;
+  roleField?: string; // field holding the role of a user, when the model has one
+  roles: string[]; // role names declared in auth.dsl
+  bcryptRounds: number; // cost of the password hashes
+  accessTokenTtl: number; // lifetime of the access tokens, in seconds
+  refreshTokenTtl: number; // lifetime of the refresh tokens, in seconds
+}
+
+/**
+ * Claims of an access token
+ */
+export interface AccessTokenClaims {
+  sub: string; // id of the user
+  roles: string[]; // roles of the user declared in auth.dsl
+  iat: number; // issue time, in seconds since the epoch
+  exp: number; // expiry time, in seconds since the epoch
+}
+
+/**
+ * Tokens sent by the signup, login and refresh routes
+ */
+export interface AuthTokens {
+  access_token: string; // JWT sent as `Authorization: Bearer <token>`
+  refresh_token: string; // opaque token exchanged for new tokens once
+  token_type: 'Bearer';
+  expires_in: number; // lifetime of the access token, in seconds
+}
+
+/**
+ * Refresh token as stored: the token itself is only known to its client
+ */
+export interface RefreshTokenRecord {
+  tokenHash: string; // SHA-256 of the token, hex encoded
+  family: string; // shared by the tokens rotated from the same login
+  userId: number;
+  expiresAt: number; // in milliseconds since the epoch
+  usedAt?: number; // when the token was exchanged, in milliseconds since the epoch
+}
+
+/**
+ * Storage of the refresh tokens, shared by the instances of an API
+ */
+export interface RefreshTokenStore {
+  save(record: RefreshTokenRecord): Promise<void>;
+
+  /**
+   * Mark a token as used, atomically under concurrent requests
+   *
+   * @param now - Current time, in milliseconds since the epoch
+   * @returns The token as it was before, undefined when it is unknown
+   */
+  consume(tokenHash: string, now: number): Promise<RefreshTokenRecord | undefined>;
+
+  /**
+   * Delete the tokens of a family
+   */
+  revoke(family: string): Promise<void>;
+}
@@ -0,0 +1,90 @@
+/**
+ * HTTP bootstrap
+ * Applies the CORS, Security headers, Response compression and Request size
+ * limits sections of api.dsl to a Fastify instance, before its routes are
+ * registered:
+ *
+ *   const app = Fastify();
+ *   bootstrapHttp(app, api); // throws ConfigError on invalid settings
+ *   await app.register(routes, options);
+ *
+ * Security headers go on every response, CORS answers preflight requests,
+ * compression encodes large responses, and the size limits reject requests
+ * with longer bodies (413) or more query parameters (400) than allowed, with
+ * VAL011 and VAL012 errors in the error response shape. Bodies are checked
+ * by their Content-Length, against the file upload limit for
+ * multipart/form-data requests and the body size limit for others; the
+ * larger of the two becomes the bodyLimit of the routes registered
+ * afterwards, to also bound bodies sent without a Content-Length.
+ */
+
+import type { APIFile } from '@declarelang/core';
+import type {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+  onRequestAsyncHookHandler,
+} from 'fastify';
+import { sendError } from '../http/errors.js';
+import { HttpConfig, SizeLimits, resolveHttpConfig } from './config.js';
+import { compressionHook } from './compression.js';
+import { corsHook } from './cors.js';
+
+/**
+ * Apply the HTTP settings of an API file to a Fastify instance
+ *
+ * @returns The resolved settings
+ * @throws ConfigError when a setting is invalid or conflicts with another
+ */
+export function bootstrapHttp(app: FastifyInstance, api: APIFile | undefined): HttpConfig {
+  const config = resolveHttpConfig(api);
+
+  const headers = Object.entries(config.securityHeaders);
+  if (headers.length > 0) {
+    app.addHook('onRequest', async (_request, reply) => {
+      for (const [name, value] of headers) void reply.header(name, value);
+    });
+  }
+  if (config.cors) app.addHook('onRequest', corsHook(config.cors));
+  if (Object.keys(config.limits).length > 0) {
+    app.addHook('onRequest', limitsHook(api, config.limits));
+  }
+  if (config.limits.body !== undefined || config.limits.fileUpload !== undefined) {
+    const bodyLimit = Math.max(config.limits.body ?? 0, config.limits.fileUpload ?? 0);
+    app.addHook('onRoute', (route) => {
+      route.bodyLimit ??= bodyLimit;
+    });
+  }
+  if (config.compression) app.addHook('onSend', compressionHook(config.compression));
+
+  return config;
+}
+
+/**
+ * Hook rejecting requests over the size limits
+ */
+function limitsHook(api: APIFile | undefined, limits: SizeLimits): onRequestAsyncHookHandler {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const multipart = request.headers['content-type']?.startsWith('multipart/form-data') ?? false;
+    const maxBody = multipart ? limits.fileUpload : limits.body;
+    const length = Number(request.headers['content-length'] ?? 0);
+    if (maxBody !== undefined && length > maxBody) {
+      return sendError(api, request, reply, 413, {
+        code: 'VAL011',
+        message: `Request body too large: ${length} bytes, at most ${maxBody} allowed`,
+        details: { max_bytes: maxBody },
+      });
+    }
+
+    const query = request.url.indexOf('?');
+    if (limits.queryParams === undefined || query === -1) return;
+    const count = [...new URLSearchParams(request.url.slice(query + 1)).keys()].length;
+    if (count > limits.queryParams) {
+      return sendError(api, request, reply, 400, {
+        code: 'VAL012',
+        message: `Too many query parameters: ${count}, at most ${limits.queryParams} allowed`,
+        details: { max_params: limits.queryParams },
+      });
+    }
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Compression hook
+ * Compresses the string and buffer bodies of at least the threshold size in
+ * the first configured format the client accepts (Accept-Encoding, with
+ * q=0 declining a format). Streams, bodies already encoded and responses to
+ * HEAD requests are sent as they are.
+ */
+
+import { promisify } from 'node:util';
+import { brotliCompress, deflate, gzip } from 'node:zlib';
+import type { FastifyReply, FastifyRequest, onSendAsyncHookHandler } from 'fastify';
+import type { CompressionFormat, CompressionSettings } from './config.js';
+
+const COMPRESS: Record<CompressionFormat, (body: Buffer) => Promise<Buffer>> = {
+  gzip: promisify(gzip),
+  deflate: promisify(deflate),
+  br: promisify(brotliCompress),
+};
+
+/**
+ * Hook applying compression settings
+ */
+export function compressionHook(compression: CompressionSettings): onSendAsyncHookHandler {
+  return async (request: FastifyRequest, reply: FastifyReply, payload: unknown) => {
+    if (typeof payload !== 'string' && !Buffer.isBuffer(payload)) return payload;
+    if (request.method === 'HEAD' || reply.hasHeader('Content-Encoding')) return payload;
+
+    const body = typeof payload === 'string' ? Buffer.from(payload) : payload;
+    if (body.length < compression.threshold) return payload;
+
+    void reply.header('Vary', varyWith(reply.getHeader('Vary'), 'Accept-Encoding'));
+    const format = negotiate(request.headers['accept-encoding'], compression.formats);
+    if (!format) return payload;
+
+    void reply.header('Content-Encoding', format);
+    reply.removeHeader('Content-Length');
+    return COMPRESS[format](body);
+  };
+}
+
+/**
+ * First configured format an Accept-Encoding header accepts
+ */
+function negotiate(
+  header: string | undefined,
+  formats: CompressionFormat[]
+): CompressionFormat | undefined {
+  if (!header) return undefined;
+  const accepted = new Map<string, number>();
+  for (const part of header.split(',')) {
+    const [name = '', ...params] = part.trim().toLowerCase().split(';');
+    const quality = params.map((param) => /^\s*q=([\d.]+)\s*$/.exec(param)?.[1]).find(Boolean);
+    accepted.set(name.trim(), quality !== undefined ? Number(quality) : 1);
+  }
+  return formats.find((format) => (accepted.get(format) ?? accepted.get('*') ?? 0) > 0);
+}
+
+function varyWith(current: unknown, header: string): string {
+  const values = typeof current === 'string' ? current.split(/\s*,\s*/).filter(Boolean) : [];
+  return values.some((value) => value.toLowerCase() === header.toLowerCase())
+    ? values.join(', ')
+    : [...values, header].join(', ');
+}
@@ -0,0 +1,193 @@
+/**
+ * HTTP configuration
+ * Resolves the CORS, Security headers, Response compression and Request size
+ * limits sections of api.dsl into the settings of the bootstrap hooks, and
+ * rejects settings that are invalid (CONFIG002) or contradict each other
+ * (CONFIG006) before the server starts:
+ * - origins are "*" or origins ("https://example.com"), without paths;
+ *   "*" stands alone, and cannot allow credentials (browsers refuse it)
+ * - methods are HTTP methods; "*" headers cannot allow credentials either
+ * - security headers cannot set the headers the hooks manage (CORS,
+ *   Content-Encoding, Vary) nor set a header twice
+ * - compression formats are gzip, deflate and br; sizes are positive
+ */
+
+import type {
+  APIFile,
+  CORSConfig,
+  RequestSizeLimits,
+  ResponseCompression,
+  SecurityHeader,
+} from '@declarelang/core';
+import { ConfigError } from './errors.js';
+
+/**
+ * CORS settings
+ */
+export interface CorsSettings {
+  origins: string[] | '*';
+  methods: string[];
+  headers?: string[] | '*'; // request headers echoed when undefined
+  credentials: boolean;
+  maxAge?: number; // in seconds
+}
+
+/**
+ * Compression formats, by Content-Encoding
+ */
+export type CompressionFormat = 'gzip' | 'deflate' | 'br';
+
+/**
+ * Compression settings
+ */
+export interface CompressionSettings {
+  threshold: number; // smallest compressed body, in bytes
+  formats: CompressionFormat[]; // in order of preference
+}
+
+/**
+ * Request size limits, in bytes and parameters
+ */
+export interface SizeLimits {
+  body?: number;
+  fileUpload?: number; // multipart/form-data bodies
+  queryParams?: number;
+}
+
+/**
+ * Settings of the bootstrap hooks
+ */
+export interface HttpConfig {
+  cors?: CorsSettings;
+  securityHeaders: Record<string, string>;
+  compression?: CompressionSettings;
+  limits: SizeLimits;
+}
+
+const HTTP_METHODS = new Set(['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']);
+const COMPRESSION_FORMATS = new Set<string>(['gzip', 'deflate', 'br']);
+const DEFAULT_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const DEFAULT_COMPRESSION_FORMATS: CompressionFormat[] = ['gzip', 'deflate'];
+const DEFAULT_THRESHOLD = 1024;
+const MEGABYTE = 1024 * 1024;
+
+/**
+ * Headers set by the hooks, which security headers may not override
+ */
+const MANAGED_HEADERS = /^(access-control-.*|content-encoding|content-length|vary)$/;
+
+/**
+ * Resolve the HTTP settings of an API file
+ *
+ * @throws ConfigError when a setting is invalid or conflicts with another
+ */
+export function resolveHttpConfig(api: APIFile | undefined): HttpConfig {
+  return {
+    ...(api?.cors ? { cors: resolveCors(api.cors) } : {}),
+    securityHeaders: resolveSecurityHeaders(api?.securityHeaders ?? []),
+    ...(api?.compression && api.compression.enabled !== false
+      ? { compression: resolveCompression(api.compression) }
+      : {}),
+    limits: resolveLimits(api?.sizeLimits),
+  };
+}
+
+function resolveCors(cors: CORSConfig): CorsSettings {
+  const credentials = cors.allowCredentials ?? false;
+
+  const listed = cors.allowOrigins ?? ['*'];
+  if (listed.includes('*') && listed.length > 1) {
+    throw new ConfigError('CONFIG006', `allow origins lists "*" with ${listed.length - 1} origins`);
+  }
+  const origins = listed[0] === '*' ? '*' : listed.map(origin);
+  if (origins === '*' && credentials) {
+    throw new ConfigError('CONFIG006', 'allow credentials: true cannot be used with origin "*"');
+  }
+
+  const methods = (cors.allowMethods ?? DEFAULT_METHODS).map((method) => method.toUpperCase());
+  const unknown = methods.find((method) => !HTTP_METHODS.has(method));
+  if (unknown) {
+    throw new ConfigError('CONFIG002', `allow methods: "${unknown}" is not an HTTP method`);
+  }
+
+  const headers = cors.allowHeaders?.includes('*') ? '*' : cors.allowHeaders;
+  if (headers === '*' && credentials) {
+    throw new ConfigError('CONFIG006', 'allow credentials: true cannot be used with headers "*"');
+  }
+
+  return {
+    origins,
+    methods,
+    ...(headers ? { headers } : {}),
+    credentials,
+    ...(cors.maxAge !== undefined ? { maxAge: cors.maxAge } : {}),
+  };
+}
+
+/**
+ * Origin of an allowed origin ("https://example.com/" → "https://example.com")
+ */
+function origin(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ConfigError('CONFIG002', `allow origins: "${value}" is not an origin`);
+  }
+  if (url.pathname !== '/' || url.search || url.hash || !url.protocol.startsWith('http')) {
+    throw new ConfigError('CONFIG002', `allow origins: "${value}" is not an origin`);
+  }
+  return url.origin;
+}
+
+function resolveSecurityHeaders(headers: SecurityHeader[]): Record<string, string> {
+  const resolved: Record<string, string> = {};
+  const seen = new Set<string>();
+  for (const header of headers) {
+    const name = header.name.toLowerCase();
+    if (MANAGED_HEADERS.test(name)) {
+      throw new ConfigError(
+        'CONFIG006',
+        `security header ${header.name} is set by the CORS and compression settings`
+      );
+    }
+    if (seen.has(name)) {
+      throw new ConfigError('CONFIG006', `security header ${header.name} is set twice`);
+    }
+    seen.add(name);
+    resolved[header.name] = header.value;
+  }
+  return resolved;
+}
+
+function resolveCompression(compression: ResponseCompression): CompressionSettings {
+  const formats = (compression.formats ?? DEFAULT_COMPRESSION_FORMATS).map((format) =>
+    format.toLowerCase()
+  );
+  const unknown = formats.find((format) => !COMPRESSION_FORMATS.has(format));
+  if (unknown) {
+    throw new ConfigError(
+      'CONFIG002',
+      `supported formats: "${unknown}" is not one of gzip, deflate, br`
+    );
+  }
+  return {
+    threshold: compression.minSize ?? DEFAULT_THRESHOLD,
+    formats: formats as CompressionFormat[],
+  };
+}
+
+function resolveLimits(limits: RequestSizeLimits | undefined): SizeLimits {
+  const positive = (label: string, value: number | undefined) => {
+    if (value === 0) throw new ConfigError('CONFIG002', `${label} must be greater than 0`);
+    return value;
+  };
+  const body = positive('max body size', limits?.maxBodySize);
+  const fileUpload = positive('max file upload', limits?.maxFileUpload);
+  const queryParams = positive('max query params', limits?.maxQueryParams);
+  return {
+    ...(body !== undefined ? { body: body * MEGABYTE } : {}),
+    ...(fileUpload !== undefined ? { fileUpload: fileUpload * MEGABYTE } : {}),
+    ...(queryParams !== undefined ? { queryParams } : {}),
+  };
+}
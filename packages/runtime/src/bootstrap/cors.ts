@@ -0,0 +1,37 @@
+/**
+ * CORS hook
+ * Answers the preflight requests of allowed origins with 204 and the
+ * Access-Control-Allow-* headers, and marks the responses to allowed origins
+ * with Access-Control-Allow-Origin (and -Credentials). Requests of other
+ * origins get no CORS headers, so browsers keep their responses from pages.
+ */
+
+import type { FastifyReply, FastifyRequest, onRequestAsyncHookHandler } from 'fastify';
+import type { CorsSettings } from './config.js';
+
+/**
+ * Hook applying CORS settings
+ */
+export function corsHook(cors: CorsSettings): onRequestAsyncHookHandler {
+  const methods = cors.methods.join(', ');
+  const headers = Array.isArray(cors.headers) ? cors.headers.join(', ') : cors.headers;
+
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const origin = request.headers.origin;
+    if (cors.origins !== '*') void reply.header('Vary', 'Origin');
+    if (!origin || (cors.origins !== '*' && !cors.origins.includes(origin))) return;
+
+    void reply.header('Access-Control-Allow-Origin', cors.origins === '*' ? '*' : origin);
+    if (cors.credentials) void reply.header('Access-Control-Allow-Credentials', 'true');
+
+    const requestedMethod = request.headers['access-control-request-method'];
+    if (request.method !== 'OPTIONS' || !requestedMethod) return;
+
+    void reply.header('Access-Control-Allow-Methods', methods);
+    const requestedHeaders = request.headers['access-control-request-headers'];
+    const allowHeaders = headers ?? requestedHeaders;
+    if (allowHeaders) void reply.header('Access-Control-Allow-Headers', allowHeaders);
+    if (cors.maxAge !== undefined) void reply.header('Access-Control-Max-Age', cors.maxAge);
+    return reply.status(204).send();
+  };
+}
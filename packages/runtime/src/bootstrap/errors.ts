@@ -0,0 +1,25 @@
+/**
+ * Bootstrap errors
+ * Thrown at startup, before the server listens, when the DSL files or the
+ * options of the runtime ask for settings it cannot honor.
+ */
+
+const PREFIXES = {
+  CONFIG002: 'Invalid configuration',
+  CONFIG003: 'Required configuration missing',
+  CONFIG006: 'Conflicting configuration',
+};
+
+/**
+ * Invalid (CONFIG002), missing (CONFIG003) or conflicting (CONFIG006)
+ * configuration
+ */
+export class ConfigError extends Error {
+  constructor(
+    public code: keyof typeof PREFIXES,
+    message: string
+  ) {
+    super(`${PREFIXES[code]}: ${message}`);
+    this.name = 'ConfigError';
+  }
+}
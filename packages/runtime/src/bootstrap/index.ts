@@ -0,0 +1,9 @@
+/**
+ * HTTP bootstrap runtime
+ */
+
+export * from './config.js';
+export * from './errors.js';
+export { bootstrapHttp } from './bootstrap.js';
+export { compressionHook } from './compression.js';
+export { corsHook } from './cors.js';
@@ -0,0 +1,56 @@
+/**
+ * Error responses of the runtime hooks
+ * Sent in the shape of the "Error response" section of api.dsl, as the
+ * generated routes do: `{ error: { code, message, details }, meta }` by
+ * default, with `status_code` and the meta fields the API file asks for.
+ */
+
+import type { APIFile } from '@declarelang/core';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { responseMeta } from './responses.js';
+
+/**
+ * Error of the error code registry
+ */
+export interface ApiError {
+  code: string; // e.g., "VAL010"
+  message: string;
+  details?: unknown;
+}
+
+const DEFAULT_ERROR_FIELDS = ['code', 'message', 'details'];
+
+/**
+ * Body of an error response
+ *
+ * @param api - API file of the project, for the error response section
+ */
+export function errorBody(
+  api: APIFile | undefined,
+  request: FastifyRequest,
+  statusCode: number,
+  error: ApiError
+): Record<string, unknown> {
+  const errorFields = api?.errorResponse?.errorFields ?? DEFAULT_ERROR_FIELDS;
+  const body: Record<string, unknown> = {};
+  if (api?.errorResponse?.includeStatusCode) body['status_code'] = statusCode;
+  body['error'] = Object.fromEntries(
+    Object.entries(error).filter(([key, value]) => value !== undefined && errorFields.includes(key))
+  );
+  const meta = responseMeta(api, request);
+  if (meta) body[api?.responseEnvelope?.metaField ?? 'meta'] = meta;
+  return body;
+}
+
+/**
+ * Send an error response
+ */
+export function sendError(
+  api: APIFile | undefined,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  statusCode: number,
+  error: ApiError
+): FastifyReply {
+  return reply.status(statusCode).send(errorBody(api, request, statusCode, error));
+}
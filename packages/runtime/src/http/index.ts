@@ -0,0 +1,7 @@
+/**
+ * HTTP helpers of the runtime hooks and routes
+ */
+
+export { errorBody, sendError } from './errors.js';
+export { responseMeta, sendData } from './responses.js';
+export type { ApiError } from './errors.js';
@@ -0,0 +1,45 @@
+/**
+ * Success responses of the runtime routes
+ * Sent in the shape of the "Response envelope" and "Success response"
+ * sections of api.dsl, as the generated routes do: `{ data, meta }` by
+ * default, with `status_code` and the meta fields the API file asks for.
+ */
+
+import type { APIFile } from '@declarelang/core';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+
+const DEFAULT_META_FIELDS = ['request_id', 'timestamp'];
+
+/**
+ * Meta object of a response, undefined when the API file leaves it out
+ */
+export function responseMeta(
+  api: APIFile | undefined,
+  request: FastifyRequest
+): Record<string, unknown> | undefined {
+  const success = api?.successResponse;
+  const metaFields =
+    success?.includeMeta === false ? [] : (success?.metaFields ?? DEFAULT_META_FIELDS);
+  const meta: Record<string, unknown> = {};
+  if (metaFields.includes('request_id')) meta['request_id'] = request.id;
+  if (metaFields.includes('timestamp')) meta['timestamp'] = new Date().toISOString();
+  return Object.keys(meta).length > 0 ? meta : undefined;
+}
+
+/**
+ * Send data wrapped in the success envelope
+ */
+export function sendData(
+  api: APIFile | undefined,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  statusCode: number,
+  data: unknown
+): FastifyReply {
+  const body: Record<string, unknown> = {};
+  if (api?.successResponse?.includeStatusCode) body['status_code'] = statusCode;
+  body[api?.responseEnvelope?.dataField ?? 'data'] = data;
+  const meta = responseMeta(api, request);
+  if (meta) body[api?.responseEnvelope?.metaField ?? 'meta'] = meta;
+  return reply.status(statusCode).send(body);
+}
@@ -0,0 +1,14 @@
+/**
+ * DeclareLang Runtime Package
+ * Runtime support of generated backends
+ *
+ * The SQL stores keep their rows in tables of the runtime (`refreshTokensTable`,
+ * `apiKeysTable`, `rateLimitsTable`): add those of the stores a project uses
+ * to its Drizzle schema to create them with its migrations.
+ */
+
+export * from './auth/index.js';
+export * from './authentication/index.js';
+export * from './bootstrap/index.js';
+export * from './http/index.js';
+export * from './rate-limit/index.js';
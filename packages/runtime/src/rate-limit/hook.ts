@@ -0,0 +1,114 @@
+/**
+ * Rate limiting hook
+ * A Fastify preHandler hook counting each request with a rate limiter. The
+ * action of a request follows its method (GET reads, POST creates, PUT and
+ * PATCH update, DELETE deletes; POSTs on a record such as
+ * "/posts/:id/publish-post" update it) and its model the first segment of its
+ * path ("/blog-posts/1" → BlogPost, past a version prefix such as "/v1"); routes
+ * such as logins and signups set theirs in `config.rateLimit`. The fields of
+ * a write are the keys of its JSON body, for limits on a single field.
+ *
+ * Responses carry the RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset
+ * and RateLimit-Policy headers of the most restrictive limit; requests over a
+ * limit are rejected with 429 and a VAL010 error, and a Retry-After header.
+ */
+
+import { APIFile, RateLimitAction } from '@declarelang/core';
+import type { FastifyReply, FastifyRequest, preHandlerAsyncHookHandler } from 'fastify';
+import { sendError } from '../http/errors.js';
+import type { RateLimiter } from './rate-limiter.js';
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    rateLimit?: {
+      action?: RateLimitAction; // e.g., logins for the login route
+      model?: string; // model of the route, when not its first path segment
+    };
+  }
+}
+
+/**
+ * Options of the rate limiting hook
+ */
+export interface RateLimitHookOptions {
+  api?: APIFile; // for the shape of the error responses
+  currentUser?: (request: FastifyRequest) => number | string | undefined; // id of the authenticated user
+  apiKey?: (request: FastifyRequest) => string | undefined; // API key of the request
+}
+
+const METHOD_ACTIONS: Record<string, RateLimitAction> = {
+  GET: RateLimitAction.READS,
+  HEAD: RateLimitAction.READS,
+  POST: RateLimitAction.CREATES,
+  PUT: RateLimitAction.UPDATES,
+  PATCH: RateLimitAction.UPDATES,
+  DELETE: RateLimitAction.DELETES,
+};
+
+/**
+ * Hook counting requests against the limits of a rate limiter
+ */
+export function rateLimitHook(
+  limiter: RateLimiter,
+  options: RateLimitHookOptions = {}
+): preHandlerAsyncHookHandler {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const config = request.routeOptions.config.rateLimit;
+    const action = config?.action ?? methodAction(request);
+    if (!action) return;
+
+    const userId = options.currentUser?.(request);
+    const apiKey = options.apiKey?.(request);
+    const body = request.body;
+    const result = await limiter.hit({
+      action,
+      modelName: config?.model ?? pathModel(request.url),
+      ...(userId !== undefined ? { userId } : {}),
+      ip: request.ip,
+      ...(apiKey !== undefined ? { apiKey } : {}),
+      ...(body && typeof body === 'object' && !Array.isArray(body)
+        ? { fields: Object.keys(body) }
+        : {}),
+    });
+    const { policy, resetSeconds } = result;
+    if (!policy) return;
+
+    void reply.header('RateLimit-Limit', result.limit);
+    void reply.header('RateLimit-Remaining', result.remaining);
+    void reply.header('RateLimit-Reset', resetSeconds);
+    void reply.header('RateLimit-Policy', `${policy.limit};w=${policy.windowMs / 1000}`);
+    if (result.allowed) return;
+
+    void reply.header('Retry-After', resetSeconds);
+    return sendError(options.api, request, reply, 429, {
+      code: 'VAL010',
+      message: `Rate limit exceeded: ${policy.limit} ${policy.action} per ${policy.window}`,
+      details: {
+        limit: policy.limit,
+        window: policy.window,
+        scope: policy.scope,
+        retry_after: resetSeconds,
+      },
+    });
+  };
+}
+
+/**
+ * Action of a request by its method, POSTs on a record ("/posts/:id/publish-post") updating it
+ */
+function methodAction(request: FastifyRequest): RateLimitAction | undefined {
+  if (request.method === 'POST' && /\/:[^/]+\/[^/:]+\/?$/.test(request.routeOptions.url ?? '')) {
+    return RateLimitAction.UPDATES;
+  }
+  return METHOD_ACTIONS[request.method];
+}
+
+/**
+ * Model segment of a path, past a version prefix ("/v1/blog-posts" → "blogposts")
+ */
+function pathModel(url: string): string | undefined {
+  const [path = ''] = url.split('?');
+  const segments = path.split('/').filter(Boolean);
+  const segment = /^v\d+$/.test(segments[0] ?? '') ? segments[1] : segments[0];
+  return segment?.replace(/-/g, '');
+}
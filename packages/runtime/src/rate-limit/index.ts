@@ -0,0 +1,11 @@
+/**
+ * Rate limiting runtime
+ */
+
+export * from './types.js';
+export { RateLimiter } from './rate-limiter.js';
+export type { RateLimiterOptions } from './rate-limiter.js';
+export { MemoryRateLimitStore } from './memory-store.js';
+export { SqlRateLimitStore, rateLimitsTable } from './sql-store.js';
+export { rateLimitHook } from './hook.js';
+export type { RateLimitHookOptions } from './hook.js';
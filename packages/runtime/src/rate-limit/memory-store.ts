@@ -0,0 +1,24 @@
+/**
+ * In-memory rate limit store
+ * Counters live in the process (see storage/expiring-map.ts and sql-store.ts).
+ */
+
+import { ExpiringMap } from '../storage/expiring-map.js';
+import type { RateLimitCounter, RateLimitStore } from './types.js';
+
+/**
+ * Rate limit store keeping the counters in a map
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new ExpiringMap<RateLimitCounter>((counter) => counter.resetAt);
+
+  hit(key: string, windowMs: number, now: number): Promise<RateLimitCounter> {
+    const current = this.counters.get(key, now);
+    const counter =
+      current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowMs };
+    this.counters.set(key, counter);
+    return Promise.resolve({ ...counter });
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Rate limiter
+ * Enforces the rate limits of api.dsl (`100 requests per minute per user`,
+ * `10 creates per minute per user` for Posts) and the rate limiting rules of
+ * validation.dsl (`User can create at most 10 Posts per day`) on fixed
+ * windows, counted in a pluggable store (in memory by default).
+ *
+ * Every limit a request falls under counts it: `requests` limits every
+ * request (of a model, for model-specific limits), other actions the requests
+ * performing them. Limits per user count anonymous requests per IP address;
+ * limits per API key skip requests without one. Rules of validation.dsl are
+ * quotas per user on create, read, update or delete; rules with other
+ * actions, or on models or periods that do not resolve, are left out.
+ */
+
+import {
+  APIFile,
+  DDLFile,
+  ModelSymbol,
+  RateLimitAction,
+  RateLimitRule,
+  RateLimitScope,
+  SymbolTable,
+  VALIDATIONFile,
+  toSnakeCase,
+} from '@declarelang/core';
+import { MemoryRateLimitStore } from './memory-store.js';
+import type {
+  RateLimitPolicy,
+  RateLimitRequest,
+  RateLimitResult,
+  RateLimitStore,
+} from './types.js';
+
+/**
+ * Length of the windows of each time unit
+ */
+const WINDOWS: Record<string, number> = {
+  second: 1_000,
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 604_800_000,
+};
+
+/**
+ * Rate limit actions of the verbs of validation.dsl rules
+ */
+const VERBS: Record<string, RateLimitAction> = {
+  create: RateLimitAction.CREATES,
+  read: RateLimitAction.READS,
+  update: RateLimitAction.UPDATES,
+  edit: RateLimitAction.UPDATES,
+  delete: RateLimitAction.DELETES,
+};
+
+/**
+ * Options of the rate limiter
+ */
+export interface RateLimiterOptions {
+  store?: RateLimitStore; // default: in memory
+  now?: () => number; // clock, in milliseconds since the epoch
+}
+
+interface Policy extends RateLimitPolicy {
+  model?: ModelSymbol;
+}
+
+/**
+ * Rate limiter of a project
+ */
+export class RateLimiter {
+  private symbols: SymbolTable;
+  private policies: Policy[] = [];
+  private store: RateLimitStore;
+  private now: () => number;
+
+  /**
+   * @param project - Parsed DDL, API and VALIDATION files
+   */
+  constructor(
+    project: { ddl: DDLFile; api?: APIFile; validation?: VALIDATIONFile },
+    options: RateLimiterOptions = {}
+  ) {
+    this.symbols = new SymbolTable(project.ddl);
+    this.store = options.store ?? new MemoryRateLimitStore();
+    this.now = options.now ?? Date.now;
+
+    for (const rule of project.api?.rateLimits ?? []) {
+      const model = rule.modelName ? this.symbols.resolveModel(rule.modelName) : undefined;
+      if (rule.modelName && !model) continue;
+      this.policies.push({
+        source: 'api',
+        limit: rule.count,
+        window: rule.timeUnit,
+        windowMs: WINDOWS[rule.timeUnit] ?? 60_000,
+        action: rule.action,
+        scope: rule.scope,
+        ...(model ? { model, modelName: model.definition.name.singular } : {}),
+      });
+    }
+    for (const rule of project.validation?.rateLimitRules ?? []) {
+      const policy = this.quota(rule);
+      if (policy) this.policies.push(policy);
+    }
+  }
+
+  /**
+   * Limits the rate limiter enforces
+   */
+  getPolicies(): RateLimitPolicy[] {
+    return this.policies.map(({ model: _model, ...policy }) => policy);
+  }
+
+  /**
+   * Count a request against the limits it falls under
+   *
+   * @returns Whether the request is allowed, with the most restrictive limit:
+   *   the exceeded limit that resets last, else the one with the fewest
+   *   requests remaining
+   */
+  async hit(request: RateLimitRequest): Promise<RateLimitResult> {
+    const now = this.now();
+    const model = request.modelName ? this.symbols.resolveModel(request.modelName) : undefined;
+
+    let result: RateLimitResult = {
+      allowed: true,
+      limit: 0,
+      remaining: 0,
+      resetAt: now,
+      resetSeconds: 0,
+    };
+    for (const policy of this.policies) {
+      const subject = this.applies(policy, request, model) && subjectKey(policy, request);
+      if (!subject) continue;
+
+      const counter = await this.store.hit(policyKey(policy, subject), policy.windowMs, now);
+      const { model: _model, ...reported } = policy;
+      const current: RateLimitResult = {
+        allowed: counter.count <= policy.limit,
+        limit: policy.limit,
+        remaining: Math.max(0, policy.limit - counter.count),
+        resetAt: counter.resetAt,
+        resetSeconds: Math.max(0, Math.ceil((counter.resetAt - now) / 1000)),
+        policy: reported,
+      };
+      if (!result.policy || restricts(current, result)) result = current;
+    }
+    return result;
+  }
+
+  /**
+   * Policy of a rule of validation.dsl
+   */
+  private quota(rule: RateLimitRule): Policy | undefined {
+    const [verb = '', ...field] = rule.action.toLowerCase().split(/\s+/);
+    const action = VERBS[verb];
+    const window = rule.period.replace(/^per\s+/, '').replace(/s$/, '');
+    const windowMs = WINDOWS[window];
+    const model = this.symbols.resolveModel(rule.targetModel ?? rule.modelName);
+    if (!action || !windowMs || !model) return undefined;
+    return {
+      source: 'validation',
+      limit: rule.limit,
+      window,
+      windowMs,
+      action,
+      scope: RateLimitScope.USER,
+      model,
+      modelName: model.definition.name.singular,
+      ...(field.length > 0 ? { field: toSnakeCase(field.join(' ')) } : {}),
+    };
+  }
+
+  private applies(
+    policy: Policy,
+    request: RateLimitRequest,
+    model: ModelSymbol | undefined
+  ): boolean {
+    if (policy.model && policy.model !== model) return false;
+    if (policy.action === RateLimitAction.REQUESTS) return true;
+    if (policy.action !== request.action) return false;
+    return !policy.field || (request.fields ?? []).includes(policy.field);
+  }
+}
+
+/**
+ * Who a request is counted for under a policy, undefined when not counted
+ */
+function subjectKey(policy: RateLimitPolicy, request: RateLimitRequest): string | undefined {
+  switch (policy.scope) {
+    case RateLimitScope.USER:
+      return request.userId !== undefined ? `user:${request.userId}` : `ip:${request.ip}`;
+    case RateLimitScope.IP_ADDRESS:
+      return `ip:${request.ip}`;
+    case RateLimitScope.API_KEY:
+      return request.apiKey !== undefined ? `key:${request.apiKey}` : undefined;
+  }
+}
+
+/**
+ * Key of the counter of a subject under a policy
+ * (e.g., "api:creates:Post:10/minute:user:1")
+ */
+function policyKey(policy: RateLimitPolicy, subject: string): string {
+  return [
+    policy.source,
+    policy.field ? `${policy.action}.${policy.field}` : policy.action,
+    policy.modelName ?? '*',
+    `${policy.limit}/${policy.window}`,
+    subject,
+  ].join(':');
+}
+
+function restricts(result: RateLimitResult, than: RateLimitResult): boolean {
+  if (result.allowed !== than.allowed) return !result.allowed;
+  if (!result.allowed) return result.resetAt > than.resetAt;
+  return result.remaining < than.remaining;
+}
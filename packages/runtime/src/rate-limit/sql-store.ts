@@ -0,0 +1,48 @@
+/**
+ * SQL rate limit store
+ * Keeps the counters in the `_rate_limits` table, so that every instance of
+ * an API counts against the same limits. Each hit is a single upsert, atomic
+ * under concurrent requests. `rateLimitsTable` is a table of the runtime
+ * (see ../index.ts).
+ */
+
+import { sql } from 'drizzle-orm';
+import { integer, pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import type { RateLimitCounter, RateLimitStore } from './types.js';
+
+/**
+ * Table of the rate limit counters
+ */
+export const rateLimitsTable = pgTable('_rate_limits', {
+  key: text('key').primaryKey(),
+  count: integer('count').notNull(),
+  reset_at: timestamp('reset_at', { withTimezone: true }).notNull(),
+});
+
+/**
+ * Rate limit store keeping the counters in a PostgreSQL table
+ */
+export class SqlRateLimitStore implements RateLimitStore {
+  constructor(private db: PgDatabase<PgQueryResultHKT>) {}
+
+  async hit(key: string, windowMs: number, now: number): Promise<RateLimitCounter> {
+    const table = rateLimitsTable;
+    const expired = sql`${table.reset_at} <= ${new Date(now)}`;
+    const [row] = await this.db
+      .insert(table)
+      .values({ key, count: 1, reset_at: new Date(now + windowMs) })
+      .onConflictDoUpdate({
+        target: table.key,
+        set: {
+          count: sql`case when ${expired} then 1 else ${table.count} + 1 end`,
+          reset_at: sql`case when ${expired} then excluded.reset_at else ${table.reset_at} end`,
+        },
+      })
+      .returning({ count: table.count, resetAt: table.reset_at });
+    if (!row) {
+      throw new Error(`Rate limit counter of ${key} was not written`);
+    }
+    return { count: row.count, resetAt: row.resetAt.getTime() };
+  }
+}
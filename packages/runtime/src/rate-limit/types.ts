@@ -0,0 +1,65 @@
+/**
+ * Types of the rate limiter
+ */
+
+import type { RateLimitAction, RateLimitScope } from '@declarelang/core';
+
+/**
+ * Hit counter of a key in its current window
+ */
+export interface RateLimitCounter {
+  count: number; // hits in the window, this one included
+  resetAt: number; // end of the window, in milliseconds since the epoch
+}
+
+/**
+ * Storage of the hit counters, shared by the instances of an API
+ */
+export interface RateLimitStore {
+  /**
+   * Count a hit of a key, starting a new window when the current one is over
+   *
+   * @param windowMs - Length of a window
+   * @param now - Current time, in milliseconds since the epoch
+   */
+  hit(key: string, windowMs: number, now: number): Promise<RateLimitCounter>;
+}
+
+/**
+ * Limit enforced by the rate limiter, from the rate limits of api.dsl or the
+ * rate limiting rules of validation.dsl
+ */
+export interface RateLimitPolicy {
+  source: 'api' | 'validation';
+  limit: number;
+  window: string; // time unit of the window (e.g., "minute")
+  windowMs: number;
+  action: RateLimitAction; // `requests` covers every action
+  scope: RateLimitScope;
+  modelName?: string; // singular model name, for model-specific limits
+  field?: string; // field the counted writes set (`update password`)
+}
+
+/**
+ * Request counted by the rate limiter
+ */
+export interface RateLimitRequest {
+  action: RateLimitAction; // creates, reads, logins...
+  modelName?: string; // model the request acts on, singular or plural
+  userId?: number | string; // authenticated user
+  ip: string;
+  apiKey?: string;
+  fields?: string[]; // fields written by the request
+}
+
+/**
+ * Outcome of a request, for the most restrictive limit it counts against
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // end of the window, in milliseconds since the epoch
+  resetSeconds: number; // seconds until the end of the window, by the clock of the limiter
+  policy?: RateLimitPolicy; // undefined when no limit applies
+}
@@ -0,0 +1,48 @@
+/**
+ * Expiring map
+ * Backs the in-memory stores of the runtime. Entries live in the process:
+ * fine for a single instance, while instances behind a load balancer each
+ * keep their own (use the SQL stores there).
+ */
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Map dropping the entries that expired, at most once a minute
+ */
+export class ExpiringMap<V> {
+  private entries = new Map<string, V>();
+  private nextSweep = 0;
+
+  /**
+   * @param expiresAt - When an entry expires (ms since epoch)
+   */
+  constructor(private expiresAt: (value: V) => number) {}
+
+  /**
+   * Entry of a key, after dropping the expired ones when due
+   */
+  get(key: string, now: number): V | undefined {
+    this.sweep(now);
+    return this.entries.get(key);
+  }
+
+  set(key: string, value: V): void {
+    this.entries.set(key, value);
+  }
+
+  /**
+   * Drop the entries matching a predicate
+   */
+  deleteWhere(predicate: (value: V) => boolean): void {
+    for (const [key, value] of this.entries) {
+      if (predicate(value)) this.entries.delete(key);
+    }
+  }
+
+  private sweep(now: number): void {
+    if (now < this.nextSweep) return;
+    this.nextSweep = now + SWEEP_INTERVAL_MS;
+    this.deleteWhere((value) => this.expiresAt(value) <= now);
+  }
+}
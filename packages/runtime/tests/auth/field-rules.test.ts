@@ -0,0 +1,199 @@
+/**
+ * Field Rules Tests
+ * Writes and reads checked against the field rules of auth.dsl
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AUTHParser, CRUDAction, DDLParser, FieldAction, Tokenizer } from '@declarelang/core';
+import { boolean, integer, pgTable, serial, text } from 'drizzle-orm/pg-core';
+import { PolicyEngine } from '../../src/auth/policy-engine.js';
+import { ForbiddenFieldsError } from '../../src/auth/errors.js';
+import type { PolicyUser } from '../../src/auth/types.js';
+
+const DDL = `
+User[s]:
+- has email as text
+- has role as text
+- has is active as boolean
+- has password as text
+
+Post[s]:
+- has title as text
+- has view count as number
+- belongs to User
+`;
+
+const AUTH = `
+Roles:
+- admin
+- moderator
+
+Rules for Users:
+- anyone can create User
+
+Field Rules for Users:
+- users cannot edit role
+- admins can edit role
+- moderators cannot edit role
+- users cannot edit is active
+- admins can edit is active
+- admins can set role
+- anyone cannot read password
+- users can read email
+
+Field Rules for Posts:
+- users cannot edit view count
+- only increment views mutation can edit view count
+`;
+
+const users = pgTable('users', {
+  id: serial('id').primaryKey(),
+  email: text('email'),
+  role: text('role'),
+  is_active: boolean('is_active'),
+  password: text('password'),
+});
+const posts = pgTable('posts', {
+  id: serial('id').primaryKey(),
+  title: text('title'),
+  view_count: integer('view_count'),
+  user_id: integer('user_id'),
+});
+
+const USER: PolicyUser = { id: 1, roles: [] };
+const ADMIN: PolicyUser = { id: 2, roles: ['admin'] };
+const MODERATOR_ADMIN: PolicyUser = { id: 3, roles: ['admin', 'moderator'] };
+
+const engine = new PolicyEngine(
+  {
+    ddl: new DDLParser(new Tokenizer(DDL).tokenize()).parse(),
+    auth: new AUTHParser(new Tokenizer(AUTH).tokenize()).parse(),
+  },
+  { users, posts }
+);
+
+describe('field rules', () => {
+  describe('precedence', () => {
+    it('should let role rules override rules of every user', () => {
+      expect(engine.forbiddenFields(USER, FieldAction.EDIT, 'User', ['role', 'email'])).toEqual([
+        'role',
+      ]);
+      expect(engine.forbiddenFields(ADMIN, FieldAction.EDIT, 'User', ['role', 'email'])).toEqual(
+        []
+      );
+    });
+
+    it('should let cannot win over can between rules of the same specificity', () => {
+      expect(engine.forbiddenFields(MODERATOR_ADMIN, FieldAction.EDIT, 'User', ['role'])).toEqual([
+        'role',
+      ]);
+    });
+
+    it('should deny fields granted to other subjects only', () => {
+      expect(engine.forbiddenFields(undefined, FieldAction.EDIT, 'User', ['is_active'])).toEqual([
+        'is_active',
+      ]);
+      expect(engine.forbiddenFields(undefined, FieldAction.READ, 'User', ['email'])).toEqual([
+        'email',
+      ]);
+      expect(engine.forbiddenFields(USER, FieldAction.READ, 'User', ['email'])).toEqual([]);
+    });
+
+    it('should reserve fields for their mutations', () => {
+      expect(engine.forbiddenFields(ADMIN, FieldAction.EDIT, 'Post', ['view_count'])).toEqual([
+        'view_count',
+      ]);
+      expect(
+        engine.forbiddenFields(USER, FieldAction.EDIT, 'Post', ['view_count'], 'increment_views')
+      ).toEqual([]);
+      expect(
+        engine.forbiddenFields(USER, FieldAction.EDIT, 'Post', ['view_count'], 'reset_views')
+      ).toEqual(['view_count']);
+    });
+
+    it('should allow fields only denied to other subjects', () => {
+      expect(engine.forbiddenFields(undefined, FieldAction.EDIT, 'Post', ['title'])).toEqual([]);
+      expect(engine.forbiddenFields(ADMIN, FieldAction.READ, 'User', ['role'])).toEqual([]);
+    });
+
+    it('should check created records with set rules, then edit rules', () => {
+      expect(engine.forbiddenFields(ADMIN, FieldAction.SET, 'User', ['role'])).toEqual([]);
+      expect(engine.forbiddenFields(USER, FieldAction.SET, 'User', ['role'])).toEqual(['role']);
+      expect(engine.forbiddenFields(USER, FieldAction.SET, 'User', ['is_active'])).toEqual([
+        'is_active',
+      ]);
+    });
+  });
+
+  describe('authorizeWrite', () => {
+    it('should reject forbidden fields with AUTH003', () => {
+      const write = () =>
+        engine.authorizeWrite(USER, CRUDAction.UPDATE, 'User', {
+          email: 'a@example.com',
+          role: 'admin',
+          is_active: true,
+        });
+      expect(write).toThrow(ForbiddenFieldsError);
+      expect(write).toThrow('Insufficient permissions to edit role, is_active');
+      try {
+        write();
+      } catch (error) {
+        expect(error).toMatchObject({
+          code: 'AUTH003',
+          statusCode: 403,
+          fields: ['role', 'is_active'],
+        });
+      }
+    });
+
+    it('should strip forbidden fields when asked to', () => {
+      expect(
+        engine.authorizeWrite(
+          undefined,
+          CRUDAction.CREATE,
+          'Users',
+          { email: 'a@example.com', role: 'admin' },
+          { strip: true }
+        )
+      ).toEqual({ email: 'a@example.com' });
+    });
+
+    it('should ignore fields left undefined', () => {
+      const input = { title: 'Hello', view_count: undefined };
+      expect(engine.authorizeWrite(USER, CRUDAction.EDIT, 'Post', input)).toBe(input);
+    });
+
+    it('should accept fields written by their mutation', () => {
+      expect(
+        engine.authorizeWrite(
+          USER,
+          CRUDAction.UPDATE,
+          'Post',
+          { view_count: 2 },
+          { mutation: 'increment_views' }
+        )
+      ).toEqual({ view_count: 2 });
+    });
+  });
+
+  describe('redact', () => {
+    it('should remove the fields a user may not read', () => {
+      const record = { id: 1, email: 'a@example.com', role: 'user', password: 'hash' };
+      expect(engine.redact(undefined, 'User', record)).toEqual({ id: 1, role: 'user' });
+      expect(engine.redact(ADMIN, 'User', record)).toEqual({
+        id: 1,
+        email: 'a@example.com',
+        role: 'user',
+      });
+    });
+
+    it('should keep records of models without field rules', () => {
+      const engine = new PolicyEngine(
+        { ddl: new DDLParser(new Tokenizer(DDL).tokenize()).parse() },
+        { users, posts }
+      );
+      const record = { id: 1, password: 'hash' };
+      expect(engine.redact(undefined, 'User', record)).toBe(record);
+    });
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Policy Engine Tests
+ * Rules are checked against single records and, as row filters, against an
+ * in-memory PGlite database
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { AUTHParser, CRUDAction, DDLParser, Tokenizer } from '@declarelang/core';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { asc } from 'drizzle-orm';
+import { boolean, integer, pgTable, serial, text, timestamp } from 'drizzle-orm/pg-core';
+import { PolicyEngine } from '../../src/auth/policy-engine.js';
+import type { PolicyUser } from '../../src/auth/types.js';
+
+const DDL = `
+User[s]:
+- has name as text
+
+Post[s]:
+- has title as text
+- has published as boolean
+- belongs to User
+- has many Comments
+
+Comment[s]:
+- has content as text
+- has is approved as boolean
+- has created at as timestamp
+- belongs to User
+- belongs to Post
+
+Tag[s]:
+- has name as text
+`;
+
+const AUTH = `
+Roles:
+- admin
+- author
+
+Rules for Users:
+- anyone can create User
+- users can read own User
+- admins can read any User
+
+Rules for Posts:
+- authenticated users can create Posts
+- anyone can read Posts where published is true
+- users can read own Posts
+- admins can read any Post
+- users can edit own Posts where published is false
+- authors can update own Posts
+- users can delete own Posts where Post has no Comments
+- admins can delete any Post
+
+Rules for Comments:
+- users can create Comments
+- anyone can read Comments where is approved is true and Post published is true
+- users can edit own Comments where created at is within 5 minutes
+- admins can delete Comments where content contains given word
+`;
+
+const users = pgTable('users', {
+  id: serial('id').primaryKey(),
+  name: text('name'),
+});
+const posts = pgTable('posts', {
+  id: serial('id').primaryKey(),
+  title: text('title'),
+  published: boolean('published'),
+  user_id: integer('user_id').notNull(),
+});
+const comments = pgTable('comments', {
+  id: serial('id').primaryKey(),
+  content: text('content'),
+  is_approved: boolean('is_approved'),
+  created_at: timestamp('created_at').defaultNow(),
+  user_id: integer('user_id').notNull(),
+  post_id: integer('post_id').notNull(),
+});
+const tags = pgTable('tags', {
+  id: serial('id').primaryKey(),
+  name: text('name'),
+});
+
+const ALICE: PolicyUser = { id: 1, roles: [] };
+const BOB: PolicyUser = { id: 2, roles: ['author'] };
+const ADMIN: PolicyUser = { id: 3, roles: ['admin'] };
+
+function createEngine(auth = AUTH): PolicyEngine {
+  return new PolicyEngine(
+    {
+      ddl: new DDLParser(new Tokenizer(DDL).tokenize()).parse(),
+      auth: new AUTHParser(new Tokenizer(auth).tokenize()).parse(),
+    },
+    { users, posts, comments, tags }
+  );
+}
+
+describe('PolicyEngine', () => {
+  const engine = createEngine();
+
+  describe('subjects and actions', () => {
+    it('should grant rules of anyone to every request', () => {
+      expect(engine.can(undefined, CRUDAction.CREATE, 'User')).toBe(true);
+      expect(engine.can(undefined, CRUDAction.READ, 'Posts')).toBe(true);
+    });
+
+    it('should grant rules of authenticated users and users to signed-in users', () => {
+      expect(engine.can(undefined, CRUDAction.CREATE, 'Post')).toBe(false);
+      expect(engine.can(ALICE, CRUDAction.CREATE, 'Post')).toBe(true);
+      expect(engine.can(undefined, CRUDAction.CREATE, 'Comment')).toBe(false);
+      expect(engine.can(ALICE, CRUDAction.CREATE, 'Comment')).toBe(true);
+    });
+
+    it('should grant rules of a role to users with the role', () => {
+      expect(engine.can(ALICE, CRUDAction.DELETE, 'Post', { id: 1, user_id: 2 })).toBe(false);
+      expect(engine.can(ADMIN, CRUDAction.DELETE, 'Post', { id: 1, user_id: 2 })).toBe(true);
+    });
+
+    it('should treat edit and update as the same action', () => {
+      const draft = { id: 1, user_id: 1, published: false };
+      expect(engine.can(ALICE, CRUDAction.UPDATE, 'Post', draft)).toBe(true);
+      expect(
+        engine.can(BOB, CRUDAction.EDIT, 'Post', { ...draft, user_id: 2, published: true })
+      ).toBe(true);
+    });
+
+    it('should deny actions no rule grants', () => {
+      expect(engine.can(ADMIN, CRUDAction.CREATE, 'Comment')).toBe(true);
+      expect(engine.can(ADMIN, CRUDAction.EDIT, 'User', { id: 3 })).toBe(false);
+      expect(engine.filter(ADMIN, CRUDAction.EDIT, 'User')).toBeDefined();
+    });
+
+    it('should open models without rules to every action', () => {
+      expect(engine.can(undefined, CRUDAction.DELETE, 'Tag', { id: 1 })).toBe(true);
+      expect(engine.filter(undefined, CRUDAction.DELETE, 'Tags')).toBeUndefined();
+    });
+
+    it('should reject unknown models', () => {
+      expect(() => engine.can(ALICE, CRUDAction.READ, 'Invoice')).toThrow('Unknown model: Invoice');
+    });
+  });
+
+  describe('targets', () => {
+    it('should compare own records with the foreign key of belongs to User', () => {
+      expect(engine.can(ALICE, CRUDAction.READ, 'Post', { id: 5, user_id: 1 })).toBe(true);
+      expect(engine.can(ALICE, CRUDAction.READ, 'Post', { id: 5, user_id: 2 })).toBe(false);
+      expect(engine.can(ALICE, CRUDAction.READ, 'Post', { id: 5, user_id: '1' })).toBe(true);
+    });
+
+    it('should compare own users with their id', () => {
+      expect(engine.can(ALICE, CRUDAction.READ, 'User', { id: 1 })).toBe(true);
+      expect(engine.can(ALICE, CRUDAction.READ, 'User', { id: 2 })).toBe(false);
+      expect(engine.can(ADMIN, CRUDAction.READ, 'User', { id: 2 })).toBe(true);
+    });
+
+    it('should check own records of created records against the input', () => {
+      const engine = createEngine(`
+Roles:
+
+Rules for Posts:
+- users can create own Posts
+`);
+      expect(engine.can(ALICE, CRUDAction.CREATE, 'Post', { user_id: 1 })).toBe(true);
+      expect(engine.can(ALICE, CRUDAction.CREATE, 'Post', { user_id: 2 })).toBe(false);
+    });
+
+    it('should not grant own records to API keys', () => {
+      const key: PolicyUser = { roles: ['author'] };
+      expect(engine.can(key, CRUDAction.CREATE, 'Post')).toBe(true);
+      expect(engine.can(key, CRUDAction.UPDATE, 'Post', { id: 5, user_id: 1 })).toBe(false);
+      expect(engine.can({ roles: ['admin'] }, CRUDAction.READ, 'Post', { id: 5, user_id: 1 })).toBe(
+        true
+      );
+    });
+  });
+
+  describe('conditions on single records', () => {
+    it('should evaluate conditions on the columns of the record', () => {
+      expect(engine.can(undefined, CRUDAction.READ, 'Post', { user_id: 2, published: true })).toBe(
+        true
+      );
+      expect(engine.can(undefined, CRUDAction.READ, 'Post', { user_id: 2, published: false })).toBe(
+        false
+      );
+      expect(engine.can(ALICE, CRUDAction.EDIT, 'Post', { user_id: 1, published: true })).toBe(
+        false
+      );
+    });
+
+    it('should evaluate conditions on the record a record belongs to', () => {
+      const comment = { id: 1, user_id: 2, post_id: 1, is_approved: true };
+      expect(engine.can(undefined, CRUDAction.READ, 'Comment', comment)).toBe(false);
+      expect(
+        engine.can(undefined, CRUDAction.READ, 'Comment', { ...comment, post: { published: true } })
+      ).toBe(true);
+      expect(
+        engine.can(undefined, CRUDAction.READ, 'Comment', {
+          ...comment,
+          post: { published: false },
+        })
+      ).toBe(false);
+    });
+
+    it('should evaluate conditions on the records belonging to a record', () => {
+      const post = { id: 1, user_id: 1 };
+      expect(engine.can(ALICE, CRUDAction.DELETE, 'Post', { ...post, comments: [] })).toBe(true);
+      expect(engine.can(ALICE, CRUDAction.DELETE, 'Post', { ...post, comments: [{ id: 1 }] })).toBe(
+        false
+      );
+      expect(engine.can(ALICE, CRUDAction.DELETE, 'Post', post)).toBe(false);
+    });
+
+    it('should evaluate time windows when checked', () => {
+      const comment = { id: 1, user_id: 1, post_id: 1 };
+      const recent = new Date(Date.now() - 60_000);
+      const old = new Date(Date.now() - 10 * 60_000);
+      expect(
+        engine.can(ALICE, CRUDAction.EDIT, 'Comment', { ...comment, created_at: recent })
+      ).toBe(true);
+      expect(engine.can(ALICE, CRUDAction.EDIT, 'Comment', { ...comment, created_at: old })).toBe(
+        false
+      );
+      expect(
+        engine.can(ALICE, CRUDAction.EDIT, 'Comment', {
+          ...comment,
+          created_at: recent.toISOString(),
+        })
+      ).toBe(true);
+    });
+
+    it('should not grant rules with conditions it cannot evaluate', () => {
+      expect(engine.can(ADMIN, CRUDAction.DELETE, 'Comment')).toBe(false);
+      expect(engine.filter(ADMIN, CRUDAction.DELETE, 'Comment')).toBeDefined();
+    });
+
+    it('should compare fields with the current user', () => {
+      const engine = createEngine(`
+Roles:
+
+Rules for Posts:
+- users can read Posts where user id is current user
+`);
+      expect(engine.can(ALICE, CRUDAction.READ, 'Post', { user_id: 1 })).toBe(true);
+      expect(engine.can(BOB, CRUDAction.READ, 'Post', { user_id: 1 })).toBe(false);
+    });
+  });
+
+  describe('row filters', () => {
+    let pglite: PGlite;
+    let db: ReturnType<typeof drizzle>;
+
+    beforeAll(async () => {
+      pglite = new PGlite();
+      db = drizzle(pglite);
+      await pglite.exec(`
+        create table users (id serial primary key, name text);
+        create table posts (
+          id serial primary key, title text, published boolean, user_id integer not null
+        );
+        create table comments (
+          id serial primary key, content text, is_approved boolean,
+          created_at timestamp default now(), user_id integer not null, post_id integer not null
+        );
+        create table tags (id serial primary key, name text);
+      `);
+      await db.insert(users).values([{ name: 'alice' }, { name: 'bob' }, { name: 'admin' }]);
+      await db.insert(posts).values([
+        { title: 'alice published', published: true, user_id: 1 },
+        { title: 'alice draft', published: false, user_id: 1 },
+        { title: 'bob published', published: true, user_id: 2 },
+        { title: 'bob draft', published: false, user_id: 2 },
+      ]);
+      await db.insert(comments).values([
+        { content: 'approved', is_approved: true, user_id: 2, post_id: 1 },
+        { content: 'pending', is_approved: false, user_id: 2, post_id: 1 },
+        { content: 'on a draft', is_approved: true, user_id: 1, post_id: 2 },
+        {
+          content: 'old',
+          is_approved: true,
+          user_id: 1,
+          post_id: 3,
+          created_at: new Date(Date.now() - 60 * 60_000),
+        },
+      ]);
+    });
+
+    afterAll(async () => {
+      await pglite.close();
+    });
+
+    async function titles(user: PolicyUser | undefined, action: CRUDAction): Promise<string[]> {
+      const rows = await db
+        .select()
+        .from(posts)
+        .where(engine.filter(user, action, 'Posts'))
+        .orderBy(asc(posts.id));
+      return rows.map((row) => row.title ?? '');
+    }
+
+    async function contents(user: PolicyUser | undefined, action: CRUDAction): Promise<string[]> {
+      const rows = await db
+        .select()
+        .from(comments)
+        .where(engine.filter(user, action, 'Comments'))
+        .orderBy(asc(comments.id));
+      return rows.map((row) => row.content ?? '');
+    }
+
+    it('should filter rows with the conditions of the rules', async () => {
+      expect(await titles(undefined, CRUDAction.READ)).toEqual([
+        'alice published',
+        'bob published',
+      ]);
+    });
+
+    it('should combine the rules granting an action', async () => {
+      expect(await titles(ALICE, CRUDAction.READ)).toEqual([
+        'alice published',
+        'alice draft',
+        'bob published',
+      ]);
+      expect(await titles(BOB, CRUDAction.EDIT)).toEqual(['bob published', 'bob draft']);
+    });
+
+    it('should not filter rows for rules granting every record', async () => {
+      expect(engine.filter(ADMIN, CRUDAction.READ, 'Posts')).toBeUndefined();
+      expect(await titles(ADMIN, CRUDAction.READ)).toHaveLength(4);
+    });
+
+    it('should filter out every row when no rule grants the action', async () => {
+      expect(await titles(undefined, CRUDAction.DELETE)).toEqual([]);
+    });
+
+    it('should filter rows on the records they belong to', async () => {
+      expect(await contents(undefined, CRUDAction.READ)).toEqual(['approved', 'old']);
+    });
+
+    it('should filter rows on the records belonging to them', async () => {
+      expect(await titles(BOB, CRUDAction.DELETE)).toEqual(['bob draft']);
+    });
+
+    it('should filter rows on time windows', async () => {
+      expect(await contents(ALICE, CRUDAction.EDIT)).toEqual(['on a draft']);
+    });
+
+    it('should agree with the checks of single records', async () => {
+      const all = await db.select().from(comments).orderBy(asc(comments.id));
+      const parents = await db.select().from(posts);
+      const readable = await contents(undefined, CRUDAction.READ);
+      for (const comment of all) {
+        const post = parents.find((row) => row.id === comment.post_id);
+        const allowed = engine.can(undefined, CRUDAction.READ, 'Comment', { ...comment, post });
+        expect(allowed).toBe(readable.includes(comment.content ?? ''));
+      }
+    });
+  });
+});
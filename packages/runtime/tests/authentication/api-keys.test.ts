@@ -0,0 +1,251 @@
+/**
+ * API Keys Tests
+ * Keys created, listed and revoked by admins, and accepted by the
+ * authenticate hook, against an in-memory PGlite database
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { APIParser, AUTHParser, DDLParser, SECURITYParser, Tokenizer } from '@declarelang/core';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle, type PgliteDatabase } from 'drizzle-orm/pglite';
+import { pgTable, serial, text } from 'drizzle-orm/pg-core';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { ApiKeys, apiKeysTable, type ApiKey } from '../../src/authentication/api-keys.js';
+import { Authenticator } from '../../src/authentication/authenticator.js';
+import { ConfigError } from '../../src/bootstrap/errors.js';
+import { RateLimiter } from '../../src/rate-limit/rate-limiter.js';
+import { rateLimitHook } from '../../src/rate-limit/hook.js';
+
+const DDL = `
+User[s]:
+- has email as unique text and required
+- has password as text and required
+- has role as text
+`;
+
+const AUTH = `
+Roles:
+- admin
+- author
+`;
+
+const API = `
+Rate limit:
+- 3 requests per minute per api key
+`;
+
+const SECURITY = `
+Constraints:
+- all password fields must have minimum 4 rounds
+`;
+
+const users = pgTable('users', {
+  id: serial('id').primaryKey(),
+  email: text('email').notNull(),
+  password: text('password').notNull(),
+  role: text('role'),
+});
+
+const project = {
+  ddl: new DDLParser(new Tokenizer(DDL).tokenize()).parse(),
+  auth: new AUTHParser(new Tokenizer(AUTH).tokenize()).parse(),
+  api: new APIParser(new Tokenizer(API).tokenize()).parse(),
+  security: new SECURITYParser(new Tokenizer(SECURITY).tokenize()).parse(),
+};
+
+describe('ApiKeys', () => {
+  let pglite: PGlite;
+  let db: PgliteDatabase;
+  let clock: number;
+
+  beforeAll(async () => {
+    pglite = new PGlite();
+    db = drizzle(pglite);
+    await pglite.exec(`
+      create table users (id serial primary key, email text not null, password text not null, role text);
+      create table _api_keys (
+        id serial primary key,
+        name text not null,
+        prefix text not null,
+        key_hash text not null unique,
+        role text not null,
+        created_at timestamptz not null,
+        last_used_at timestamptz,
+        revoked_at timestamptz
+      );
+    `);
+  });
+
+  afterAll(async () => {
+    await pglite.close();
+  });
+
+  beforeEach(async () => {
+    clock = Date.now();
+    await pglite.exec('truncate users, _api_keys restart identity');
+  });
+
+  async function createApp() {
+    const apiKeys = new ApiKeys(project, { db, now: () => clock });
+    const authenticator = new Authenticator(
+      project,
+      { users },
+      { db, secret: 'a-secret-of-at-least-thirty-two-bytes', apiKeys, now: () => clock }
+    );
+    for (const [email, role] of [
+      ['admin@example.com', 'admin'],
+      ['author@example.com', 'author'],
+    ] as const) {
+      await db.insert(users).values({
+        email,
+        password: await authenticator.hashPassword('password'),
+        role,
+      });
+    }
+
+    const app = Fastify();
+    app.addHook(
+      'preHandler',
+      rateLimitHook(new RateLimiter(project), { apiKey: apiKeys.prefixOf })
+    );
+    await app.register(authenticator.routes, { prefix: '/auth' });
+    await app.register(apiKeys.routes, { prefix: '/admin/api-keys', authenticator });
+    app.get('/whoami', { preHandler: authenticator.authenticate }, (request) => ({
+      user: authenticator.user(request),
+      id: authenticator.currentUser(request) ?? null,
+    }));
+    return { app, apiKeys };
+  }
+
+  async function bearer(app: FastifyInstance, email: string): Promise<string> {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/auth/login',
+      payload: { email, password: 'password' },
+    });
+    return `Bearer ${response.json<{ data: { access_token: string } }>().data.access_token}`;
+  }
+
+  function errorOf(response: { json: <T>() => T }): string {
+    return response.json<{ error: { code: string } }>().error.code;
+  }
+
+  it('should require the admin role in auth.dsl', () => {
+    const auth = new AUTHParser(new Tokenizer('Roles:\n- author\n').tokenize()).parse();
+    expect(() => new ApiKeys({ auth }, { db })).toThrow(ConfigError);
+  });
+
+  it('should let admins create, list and revoke keys', async () => {
+    const { app } = await createApp();
+    const authorization = await bearer(app, 'admin@example.com');
+
+    const created = await app.inject({
+      method: 'POST',
+      url: '/admin/api-keys',
+      headers: { authorization },
+      payload: { name: 'nightly export', role: 'author' },
+    });
+    expect(created.statusCode).toBe(201);
+    const { key, ...apiKey } = created.json<{ data: ApiKey & { key: string } }>().data;
+    expect(key).toMatch(/^dlk_/);
+    expect(apiKey).toMatchObject({
+      id: 1,
+      name: 'nightly export',
+      prefix: key.slice(0, 12),
+      role: 'author',
+      last_used_at: null,
+      revoked_at: null,
+    });
+
+    const [row] = await db.select().from(apiKeysTable);
+    expect(row?.key_hash).toMatch(/^[0-9a-f]{64}$/);
+    const listed = await app.inject({
+      method: 'GET',
+      url: '/admin/api-keys',
+      headers: { authorization },
+    });
+    expect(listed.json<{ data: ApiKey[] }>().data).toEqual([apiKey]);
+
+    const revoke = {
+      method: 'DELETE' as const,
+      url: '/admin/api-keys/1',
+      headers: { authorization },
+    };
+    expect((await app.inject(revoke)).statusCode).toBe(204);
+    expect((await app.inject(revoke)).statusCode).toBe(404);
+    await app.close();
+  });
+
+  it('should reject keys of undeclared roles', async () => {
+    const { app } = await createApp();
+    const response = await app.inject({
+      method: 'POST',
+      url: '/admin/api-keys',
+      headers: { authorization: await bearer(app, 'admin@example.com') },
+      payload: { name: 'job', role: 'superuser' },
+    });
+    expect(response.statusCode).toBe(400);
+    expect(errorOf(response)).toBe('VAL002');
+    await app.close();
+  });
+
+  it('should not let other users nor API keys manage keys', async () => {
+    const { app, apiKeys } = await createApp();
+    const author = await app.inject({
+      method: 'GET',
+      url: '/admin/api-keys',
+      headers: { authorization: await bearer(app, 'author@example.com') },
+    });
+    expect(author.statusCode).toBe(403);
+    expect(errorOf(author)).toBe('AUTH003');
+
+    const { key } = await apiKeys.create('admin job', 'admin');
+    const service = await app.inject({
+      method: 'GET',
+      url: '/admin/api-keys',
+      headers: { authorization: `ApiKey ${key}` },
+    });
+    expect(service.statusCode).toBe(403);
+    await app.close();
+  });
+
+  it('should authenticate requests with a key as its role, and track its use', async () => {
+    const { app, apiKeys } = await createApp();
+    const { key } = await apiKeys.create('nightly export', 'author');
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/whoami',
+      headers: { authorization: `ApiKey ${key}` },
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ user: { roles: ['author'] }, id: null });
+    const [listed] = await apiKeys.list();
+    expect(listed?.last_used_at).toBe(new Date(clock).toISOString());
+
+    await apiKeys.revoke(1);
+    const revoked = await app.inject({
+      method: 'GET',
+      url: '/whoami',
+      headers: { authorization: `ApiKey ${key}` },
+    });
+    expect(revoked.statusCode).toBe(401);
+    expect(errorOf(revoked)).toBe('AUTH002');
+    await app.close();
+  });
+
+  it('should count requests against the limits per API key', async () => {
+    const { app, apiKeys } = await createApp();
+    const [first, second] = [
+      await apiKeys.create('first', 'author'),
+      await apiKeys.create('second', 'author'),
+    ];
+    const whoami = (key: string) =>
+      app.inject({ method: 'GET', url: '/whoami', headers: { authorization: `ApiKey ${key}` } });
+
+    for (let count = 0; count < 3; count++) await whoami(first.key);
+    expect((await whoami(first.key)).statusCode).toBe(429);
+    expect((await whoami(second.key)).statusCode).toBe(200);
+    await app.close();
+  });
+});
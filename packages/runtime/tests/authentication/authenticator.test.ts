@@ -0,0 +1,394 @@
+/**
+ * Authenticator Tests
+ * Settings resolved from the DSL files, and the signup, login, refresh and
+ * logout routes run against an in-memory PGlite database
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  APIParser,
+  AUTHParser,
+  DDLParser,
+  SECURITYParser,
+  Tokenizer,
+  type SECURITYFile,
+} from '@declarelang/core';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle, type PgliteDatabase } from 'drizzle-orm/pglite';
+import { boolean, integer, pgTable, serial, text, timestamp } from 'drizzle-orm/pg-core';
+import Fastify, { type FastifyInstance } from 'fastify';
+import jwt from 'jsonwebtoken';
+import {
+  Authenticator,
+  type AuthenticatorOptions,
+} from '../../src/authentication/authenticator.js';
+import { resolveAuthConfig } from '../../src/authentication/config.js';
+import { SqlRefreshTokenStore } from '../../src/authentication/sql-store.js';
+import type { AuthTokens } from '../../src/authentication/types.js';
+import { ConfigError } from '../../src/bootstrap/errors.js';
+import { RateLimiter } from '../../src/rate-limit/rate-limiter.js';
+import { rateLimitHook } from '../../src/rate-limit/hook.js';
+
+const DDL = `
+User[s]:
+- has email as unique text and required
+- has username as unique text and required
+- has password as text and required
+- has role as text
+- has age as number
+- has is active as boolean
+- has joined at as timestamp
+
+Post[s]:
+- has title as text
+- belongs to User
+`;
+
+const AUTH = `
+Roles:
+- admin
+- author
+
+Field Rules for Users:
+- admins can edit is active
+`;
+
+const SECURITY = `
+Constraints:
+- all password fields must be hashed with bcrypt
+- all password fields must have minimum 4 rounds
+
+Enforce:
+- JWT tokens must expire within 1 hour
+`;
+
+const API = `
+Rate limit:
+- 3 logins per minute per ip address
+`;
+
+const SECRET = 'a-secret-of-at-least-thirty-two-bytes';
+
+const users = pgTable('users', {
+  id: serial('id').primaryKey(),
+  email: text('email').notNull(),
+  username: text('username').notNull(),
+  password: text('password').notNull(),
+  role: text('role'),
+  age: integer('age'),
+  is_active: boolean('is_active'),
+  joined_at: timestamp('joined_at').notNull().defaultNow(),
+});
+
+function parseProject(security = SECURITY) {
+  return {
+    ddl: new DDLParser(new Tokenizer(DDL).tokenize()).parse(),
+    auth: new AUTHParser(new Tokenizer(AUTH).tokenize()).parse(),
+    security: parseSecurity(security),
+    api: new APIParser(new Tokenizer(API).tokenize()).parse(),
+  };
+}
+
+function parseSecurity(security: string): SECURITYFile {
+  return new SECURITYParser(new Tokenizer(security).tokenize()).parse();
+}
+
+function configError(run: () => unknown): ConfigError | undefined {
+  try {
+    run();
+    return undefined;
+  } catch (error) {
+    if (error instanceof ConfigError) return error;
+    throw error;
+  }
+}
+
+describe('resolveAuthConfig', () => {
+  it('should resolve the users model, roles, rounds and token lifetimes', () => {
+    expect(resolveAuthConfig(parseProject())).toEqual({
+      modelName: 'User',
+      emailField: 'email',
+      passwordField: 'password',
+      roleField: 'role',
+      roles: ['admin', 'author'],
+      bcryptRounds: 4,
+      accessTokenTtl: 900,
+      refreshTokenTtl: 604_800,
+    });
+    expect(resolveAuthConfig({ ...parseProject(), security: undefined }).bcryptRounds).toBe(12);
+  });
+
+  it('should cap access tokens at the expiry of the enforce rules', () => {
+    const project = parseProject('Enforce:\n- JWT tokens must expire within 5 minutes\n');
+    expect(resolveAuthConfig(project).accessTokenTtl).toBe(300);
+    expect(configError(() => resolveAuthConfig(project, { accessTokenTtl: 3600 }))?.message).toBe(
+      'Conflicting configuration: access tokens expiring after 3600 seconds break "JWT tokens must expire within 5 minutes"'
+    );
+  });
+
+  it('should reject other hashes and projects without users', () => {
+    const argon = parseProject('Constraints:\n- all password fields must be hashed with argon2\n');
+    expect(configError(() => resolveAuthConfig(argon))?.code).toBe('CONFIG002');
+    expect(configError(() => resolveAuthConfig(parseProject(), { model: 'Post' }))?.message).toBe(
+      'Required configuration missing: model Post with email and password fields'
+    );
+  });
+});
+
+describe('Authenticator', () => {
+  let pglite: PGlite;
+  let db: PgliteDatabase;
+  let clock: number;
+
+  beforeAll(async () => {
+    pglite = new PGlite();
+    db = drizzle(pglite);
+    await pglite.exec(`
+      create table users (
+        id serial primary key,
+        email text not null unique,
+        username text not null unique,
+        password text not null,
+        role text,
+        age integer,
+        is_active boolean,
+        joined_at timestamp not null default now()
+      );
+      create table _refresh_tokens (
+        token_hash text primary key,
+        family text not null,
+        user_id integer not null,
+        expires_at timestamptz not null,
+        used_at timestamptz
+      );
+    `);
+  });
+
+  afterAll(async () => {
+    await pglite.close();
+  });
+
+  beforeEach(async () => {
+    clock = Date.now();
+    await pglite.exec('truncate users, _refresh_tokens restart identity');
+  });
+
+  function createApp(options: Partial<AuthenticatorOptions> = {}) {
+    const authenticator = new Authenticator(
+      parseProject(),
+      { users },
+      { db, secret: SECRET, now: () => clock, ...options }
+    );
+    const app = Fastify();
+    app.addHook('preHandler', rateLimitHook(new RateLimiter(parseProject())));
+    void app.register(authenticator.routes, { prefix: '/auth' });
+    app.get('/me', { preHandler: authenticator.authenticate }, (request) => ({
+      user: authenticator.user(request),
+      id: authenticator.currentUser(request),
+    }));
+    return { app, authenticator };
+  }
+
+  function post(app: FastifyInstance, url: string, payload: object) {
+    return app.inject({ method: 'POST', url, payload });
+  }
+
+  function tokensOf(response: { json: <T>() => T }): AuthTokens {
+    return response.json<{ data: AuthTokens }>().data;
+  }
+
+  function errorOf(response: { json: <T>() => T }): string {
+    return response.json<{ error: { code: string } }>().error.code;
+  }
+
+  const ALICE = { email: 'Alice@Example.com', username: 'alice', password: 'correct horse' };
+
+  describe('signup and login', () => {
+    it('should sign users up with a bcrypt hash of their password', async () => {
+      const { app } = createApp();
+      const response = await post(app, '/auth/signup', { ...ALICE, age: 30, role: 'admin' });
+      expect(response.statusCode).toBe(201);
+      expect(tokensOf(response)).toMatchObject({ token_type: 'Bearer', expires_in: 900 });
+
+      const [user] = await db.select().from(users);
+      expect(user).toMatchObject({ email: 'alice@example.com', username: 'alice', age: 30 });
+      expect(user?.password).toMatch(/^\$2b\$04\$/);
+      // The role is not for users to pick
+      expect(user?.role).toBeNull();
+      await app.close();
+    });
+
+    it('should only write the fields anyone may set', async () => {
+      const { app } = createApp();
+      const response = await post(app, '/auth/signup', {
+        ...ALICE,
+        is_active: true,
+        joined_at: '2000-01-01T00:00:00Z',
+      });
+      expect(response.statusCode).toBe(201);
+
+      const [user] = await db.select().from(users);
+      expect(user?.is_active).toBeNull();
+      expect(user?.joined_at.getFullYear()).toBeGreaterThan(2000);
+      await app.close();
+    });
+
+    it('should answer unique violations of the insert with 409', async () => {
+      // Stands for a signup taking the username between the check and the insert
+      const project = parseProject();
+      const ddl = DDL.replace('has username as unique text', 'has username as text');
+      const authenticator = new Authenticator(
+        { ...project, ddl: new DDLParser(new Tokenizer(ddl).tokenize()).parse() },
+        { users },
+        { db, secret: SECRET }
+      );
+      const app = Fastify();
+      void app.register(authenticator.routes, { prefix: '/auth' });
+      await post(app, '/auth/signup', ALICE);
+
+      const taken = await post(app, '/auth/signup', { ...ALICE, email: 'alice@example.org' });
+      expect(taken.statusCode).toBe(409);
+      expect(taken.json()).toMatchObject({
+        error: { code: 'VAL007', message: 'username must be unique' },
+      });
+      await app.close();
+    });
+
+    it('should reject invalid and duplicate signups', async () => {
+      const { app } = createApp();
+      await post(app, '/auth/signup', ALICE);
+
+      const duplicate = await post(app, '/auth/signup', { ...ALICE, username: 'alice2' });
+      expect(duplicate.statusCode).toBe(409);
+      expect(duplicate.json<{ error: { message: string } }>().error.message).toBe(
+        'email must be unique'
+      );
+      const missing = await post(app, '/auth/signup', { email: 'bob@example.com', password: 'pw' });
+      expect(errorOf(missing)).toBe('VAL001');
+      const invalid = await post(app, '/auth/signup', { ...ALICE, email: 'bob' });
+      expect(errorOf(invalid)).toBe('VAL002');
+      await app.close();
+    });
+
+    it('should log users in with their password only', async () => {
+      const { app } = createApp();
+      await post(app, '/auth/signup', ALICE);
+
+      const login = await post(app, '/auth/login', {
+        email: 'alice@example.com',
+        password: 'correct horse',
+      });
+      expect(login.statusCode).toBe(200);
+      const wrong = await post(app, '/auth/login', { email: ALICE.email, password: 'battery' });
+      expect(wrong.statusCode).toBe(401);
+      expect(errorOf(wrong)).toBe('AUTH001');
+      const unknown = await post(app, '/auth/login', { email: 'eve@example.com', password: 'x' });
+      expect(errorOf(unknown)).toBe('AUTH001');
+      await app.close();
+    });
+
+    it('should count logins against the rate limits', async () => {
+      const { app } = createApp();
+      for (let count = 0; count < 3; count++) {
+        await post(app, '/auth/login', { email: 'eve@example.com', password: 'x' });
+      }
+      const limited = await post(app, '/auth/login', { email: 'eve@example.com', password: 'x' });
+      expect(limited.statusCode).toBe(429);
+      await app.close();
+    });
+  });
+
+  describe('access tokens', () => {
+    it('should carry the id and roles of the user', async () => {
+      const { app, authenticator } = createApp();
+      await db.insert(users).values({
+        email: 'admin@example.com',
+        username: 'admin',
+        password: await authenticator.hashPassword('admin password'),
+        role: 'Admin',
+      });
+      const login = await post(app, '/auth/login', {
+        email: 'admin@example.com',
+        password: 'admin password',
+      });
+      const { access_token } = tokensOf(login);
+      expect(jwt.decode(access_token)).toMatchObject({ sub: '1', roles: ['admin'] });
+      expect(jwt.decode(access_token, { complete: true })?.header.alg).toBe('HS256');
+
+      const me = await app.inject({
+        method: 'GET',
+        url: '/me',
+        headers: { authorization: `Bearer ${access_token}` },
+      });
+      expect(me.json()).toEqual({ user: { id: 1, roles: ['admin'] }, id: 1 });
+      await app.close();
+    });
+
+    it('should reject missing, invalid and expired tokens', async () => {
+      const { app } = createApp();
+      const { access_token } = tokensOf(await post(app, '/auth/signup', ALICE));
+      const me = (authorization?: string) =>
+        app.inject({ method: 'GET', url: '/me', headers: authorization ? { authorization } : {} });
+
+      expect(errorOf(await me())).toBe('AUTH001');
+      expect(errorOf(await me('Bearer not-a-token'))).toBe('AUTH002');
+      const forged = jwt.sign(
+        { sub: '1', roles: ['admin'] },
+        'another-secret-of-thirty-two-bytes!'
+      );
+      expect(errorOf(await me(`Bearer ${forged}`))).toBe('AUTH002');
+      expect((await me(`Bearer ${access_token}`)).statusCode).toBe(200);
+      clock += 901_000;
+      const expired = await me(`Bearer ${access_token}`);
+      expect(expired.statusCode).toBe(401);
+      expect(errorOf(expired)).toBe('AUTH002');
+      await app.close();
+    });
+  });
+
+  describe('refresh tokens', () => {
+    it.each([
+      ['in memory', () => ({})],
+      ['in SQL', () => ({ store: new SqlRefreshTokenStore(db) })],
+    ])('should rotate refresh tokens %s and revoke replayed ones', async (_, options) => {
+      const { app } = createApp(options());
+      const first = tokensOf(await post(app, '/auth/signup', ALICE));
+
+      const refreshed = await post(app, '/auth/refresh', { refresh_token: first.refresh_token });
+      expect(refreshed.statusCode).toBe(200);
+      const second = tokensOf(refreshed);
+      expect(second.refresh_token).not.toBe(first.refresh_token);
+
+      // Replaying the first token revokes the second one too
+      const replayed = await post(app, '/auth/refresh', { refresh_token: first.refresh_token });
+      expect(replayed.statusCode).toBe(401);
+      expect(errorOf(replayed)).toBe('AUTH002');
+      const revoked = await post(app, '/auth/refresh', { refresh_token: second.refresh_token });
+      expect(errorOf(revoked)).toBe('AUTH002');
+      await app.close();
+    });
+
+    it('should reject expired refresh tokens', async () => {
+      const { app } = createApp({ refreshTokenTtl: 3600 });
+      const { refresh_token } = tokensOf(await post(app, '/auth/signup', ALICE));
+      clock += 3_600_000;
+      expect(errorOf(await post(app, '/auth/refresh', { refresh_token }))).toBe('AUTH002');
+      await app.close();
+    });
+
+    it('should revoke the refresh tokens of a login on logout', async () => {
+      const { app } = createApp({ store: new SqlRefreshTokenStore(db) });
+      const { refresh_token } = tokensOf(await post(app, '/auth/signup', ALICE));
+      const other = tokensOf(
+        await post(app, '/auth/login', { email: ALICE.email, password: ALICE.password })
+      );
+
+      expect((await post(app, '/auth/logout', { refresh_token })).statusCode).toBe(204);
+      expect(errorOf(await post(app, '/auth/refresh', { refresh_token }))).toBe('AUTH002');
+      // Other logins stay signed in
+      const refreshed = await post(app, '/auth/refresh', { refresh_token: other.refresh_token });
+      expect(refreshed.statusCode).toBe(200);
+      await app.close();
+    });
+  });
+});
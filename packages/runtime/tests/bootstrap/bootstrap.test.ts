@@ -0,0 +1,217 @@
+/**
+ * HTTP Bootstrap Tests
+ * Settings of api.dsl resolved, rejected when they conflict, and applied to
+ * Fastify requests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { gunzipSync } from 'node:zlib';
+import { APIParser, Tokenizer, type APIFile } from '@declarelang/core';
+import Fastify from 'fastify';
+import { bootstrapHttp } from '../../src/bootstrap/bootstrap.js';
+import { resolveHttpConfig } from '../../src/bootstrap/config.js';
+import { ConfigError } from '../../src/bootstrap/errors.js';
+
+const API = `
+CORS:
+- allow origins: https://blog.example.com, http://localhost:3000
+- allow methods: GET, POST, PUT, DELETE
+- allow headers: Authorization, Content-Type
+- allow credentials: true
+- max age: 86400
+
+Security headers:
+- X-Content-Type-Options: nosniff
+- Strict-Transport-Security: max-age=31536000; includeSubDomains
+
+Response compression:
+- enable for responses larger than 100 bytes
+- supported formats: gzip, deflate
+
+Request size limits:
+- max body size: 1 megabytes
+- max file upload: 5 megabytes
+- max query params: 3
+`;
+
+function parseAPI(input: string): APIFile {
+  return new APIParser(new Tokenizer(input).tokenize()).parse();
+}
+
+function createApp(api = API) {
+  const app = Fastify();
+  bootstrapHttp(app, parseAPI(api));
+  app.get('/posts', () => ({ data: Array.from({ length: 20 }, (_, id) => ({ id })) }));
+  app.get('/health', () => ({ ok: true }));
+  app.post('/posts', () => ({ data: {} }));
+  return app;
+}
+
+function configError(api: string): ConfigError | undefined {
+  try {
+    resolveHttpConfig(parseAPI(api));
+    return undefined;
+  } catch (error) {
+    if (error instanceof ConfigError) return error;
+    throw error;
+  }
+}
+
+describe('HTTP bootstrap', () => {
+  describe('configuration', () => {
+    it('should resolve the settings of api.dsl', () => {
+      expect(resolveHttpConfig(parseAPI(API))).toEqual({
+        cors: {
+          origins: ['https://blog.example.com', 'http://localhost:3000'],
+          methods: ['GET', 'POST', 'PUT', 'DELETE'],
+          headers: ['Authorization', 'Content-Type'],
+          credentials: true,
+          maxAge: 86400,
+        },
+        securityHeaders: {
+          'X-Content-Type-Options': 'nosniff',
+          'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
+        },
+        compression: { threshold: 100, formats: ['gzip', 'deflate'] },
+        limits: { body: 1024 * 1024, fileUpload: 5 * 1024 * 1024, queryParams: 3 },
+      });
+    });
+
+    it('should reject credentials with a wildcard origin', () => {
+      const error = configError('CORS:\n- allow origins: *\n- allow credentials: true\n');
+      expect(error?.code).toBe('CONFIG006');
+      expect(error?.message).toBe(
+        'Conflicting configuration: allow credentials: true cannot be used with origin "*"'
+      );
+    });
+
+    it('should reject a wildcard origin listed with origins', () => {
+      expect(configError('CORS:\n- allow origins: *, https://example.com\n')?.code).toBe(
+        'CONFIG006'
+      );
+    });
+
+    it('should reject security headers set by other settings or twice', () => {
+      expect(
+        configError('Security headers:\n- Access-Control-Allow-Origin: https://example.com\n')?.code
+      ).toBe('CONFIG006');
+      expect(
+        configError('Security headers:\n- X-Frame-Options: DENY\n- x-frame-options: SAMEORIGIN\n')
+          ?.message
+      ).toBe('Conflicting configuration: security header x-frame-options is set twice');
+    });
+
+    it('should reject invalid origins, methods, formats and sizes', () => {
+      expect(configError('CORS:\n- allow origins: https://example.com/app\n')?.code).toBe(
+        'CONFIG002'
+      );
+      expect(configError('CORS:\n- allow methods: GET, FETCH\n')?.message).toBe(
+        'Invalid configuration: allow methods: "FETCH" is not an HTTP method'
+      );
+      expect(
+        configError(
+          'Response compression:\n- enable for responses larger than 10 bytes\n- supported formats: zstd\n'
+        )?.code
+      ).toBe('CONFIG002');
+      expect(configError('Request size limits:\n- max body size: 0 megabytes\n')?.code).toBe(
+        'CONFIG002'
+      );
+    });
+  });
+
+  describe('hooks', () => {
+    it('should answer preflight requests of allowed origins', async () => {
+      const app = createApp();
+      const response = await app.inject({
+        method: 'OPTIONS',
+        url: '/posts',
+        headers: {
+          origin: 'https://blog.example.com',
+          'access-control-request-method': 'POST',
+        },
+      });
+      expect(response.statusCode).toBe(204);
+      expect(response.headers).toMatchObject({
+        'access-control-allow-origin': 'https://blog.example.com',
+        'access-control-allow-credentials': 'true',
+        'access-control-allow-methods': 'GET, POST, PUT, DELETE',
+        'access-control-allow-headers': 'Authorization, Content-Type',
+        'access-control-max-age': '86400',
+        vary: 'Origin',
+      });
+      await app.close();
+    });
+
+    it('should not allow other origins', async () => {
+      const app = createApp();
+      const response = await app.inject({
+        method: 'GET',
+        url: '/health',
+        headers: { origin: 'https://evil.example.com' },
+      });
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['access-control-allow-origin']).toBeUndefined();
+      await app.close();
+    });
+
+    it('should send the security headers', async () => {
+      const app = createApp();
+      const response = await app.inject({ method: 'GET', url: '/health' });
+      expect(response.headers['x-content-type-options']).toBe('nosniff');
+      expect(response.headers['strict-transport-security']).toBe(
+        'max-age=31536000; includeSubDomains'
+      );
+      await app.close();
+    });
+
+    it('should compress responses over the threshold in an accepted format', async () => {
+      const app = createApp();
+      const response = await app.inject({
+        method: 'GET',
+        url: '/posts',
+        headers: { 'accept-encoding': 'br, gzip;q=0.8' },
+      });
+      expect(response.headers['content-encoding']).toBe('gzip');
+      expect(response.headers['vary']).toContain('Accept-Encoding');
+      expect(JSON.parse(gunzipSync(response.rawPayload).toString())).toHaveProperty('data');
+
+      const small = await app.inject({
+        method: 'GET',
+        url: '/health',
+        headers: { 'accept-encoding': 'gzip' },
+      });
+      expect(small.headers['content-encoding']).toBeUndefined();
+      const declined = await app.inject({
+        method: 'GET',
+        url: '/posts',
+        headers: { 'accept-encoding': 'gzip;q=0' },
+      });
+      expect(declined.headers['content-encoding']).toBeUndefined();
+      await app.close();
+    });
+
+    it('should reject bodies over the size limit', async () => {
+      const app = createApp();
+      const response = await app.inject({
+        method: 'POST',
+        url: '/posts',
+        headers: { 'content-type': 'application/json' },
+        payload: JSON.stringify({ content: 'x'.repeat(1024 * 1024) }),
+      });
+      expect(response.statusCode).toBe(413);
+      expect(response.json<{ error: { code: string } }>().error.code).toBe('VAL011');
+      await app.close();
+    });
+
+    it('should reject requests with too many query parameters', async () => {
+      const app = createApp();
+      expect((await app.inject({ method: 'GET', url: '/health?a=1&b=2&c=3' })).statusCode).toBe(
+        200
+      );
+      const response = await app.inject({ method: 'GET', url: '/health?a=1&b=2&c=3&d=4' });
+      expect(response.statusCode).toBe(400);
+      expect(response.json<{ error: { code: string } }>().error.code).toBe('VAL012');
+      await app.close();
+    });
+  });
+});
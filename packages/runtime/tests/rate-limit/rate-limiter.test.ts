@@ -0,0 +1,324 @@
+/**
+ * Rate Limiter Tests
+ * Limits of api.dsl and validation.dsl counted in memory and in a PGlite
+ * `_rate_limits` table, and enforced on Fastify routes
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  APIParser,
+  DDLParser,
+  RateLimitAction,
+  Tokenizer,
+  VALIDATIONParser,
+} from '@declarelang/core';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import Fastify from 'fastify';
+import { MemoryRateLimitStore } from '../../src/rate-limit/memory-store.js';
+import { RateLimiter, type RateLimiterOptions } from '../../src/rate-limit/rate-limiter.js';
+import { SqlRateLimitStore } from '../../src/rate-limit/sql-store.js';
+import { rateLimitHook } from '../../src/rate-limit/hook.js';
+
+const DDL = `
+User[s]:
+- has email as text
+- has password as text
+
+BlogPost[s]:
+- has title as text
+- belongs to User
+
+Comment[s]:
+- has content as text
+`;
+
+const API = `
+Rate limit:
+- 5 requests per minute per user
+- 2 logins per minute per ip address
+
+Rate limit for BlogPosts:
+- 3 creates per minute per user
+
+Rate limit for Comments:
+- 2 reads per minute per api key
+`;
+
+const VALIDATION = `
+Validate User:
+- email must be valid email format
+
+Rate Limiting Validation:
+- User can create at most 2 BlogPosts per day
+- User can update password at most 1 time per hour
+- User can publish at most 1 BlogPost per day
+`;
+
+const MINUTE = 60_000;
+
+function createLimiter(options: RateLimiterOptions = {}, api = API): RateLimiter {
+  return new RateLimiter(
+    {
+      ddl: new DDLParser(new Tokenizer(DDL).tokenize()).parse(),
+      api: new APIParser(new Tokenizer(api).tokenize()).parse(),
+      validation: new VALIDATIONParser(new Tokenizer(VALIDATION).tokenize()).parse(),
+    },
+    options
+  );
+}
+
+describe('RateLimiter', () => {
+  describe('policies', () => {
+    it('should take the limits of api.dsl and the quotas of validation.dsl', () => {
+      const policies = createLimiter().getPolicies();
+      expect(policies.filter((policy) => policy.source === 'api')).toHaveLength(4);
+      expect(policies.filter((policy) => policy.source === 'validation')).toEqual([
+        expect.objectContaining({
+          action: RateLimitAction.CREATES,
+          modelName: 'BlogPost',
+          limit: 2,
+          window: 'day',
+          windowMs: 24 * 60 * MINUTE,
+        }),
+        expect.objectContaining({
+          action: RateLimitAction.UPDATES,
+          modelName: 'User',
+          field: 'password',
+          window: 'hour',
+        }),
+      ]);
+    });
+  });
+
+  describe('counting', () => {
+    it('should count requests per user within a window', async () => {
+      let now = 0;
+      const limiter = createLimiter({ now: () => now });
+      const read = { action: RateLimitAction.READS, userId: 1, ip: '10.0.0.1' };
+
+      for (let count = 1; count <= 5; count++) {
+        expect(await limiter.hit(read)).toMatchObject({ allowed: true, remaining: 5 - count });
+      }
+      expect(await limiter.hit(read)).toMatchObject({ allowed: false, remaining: 0 });
+      expect(await limiter.hit({ ...read, userId: 2 })).toMatchObject({ allowed: true });
+
+      now = MINUTE;
+      expect(await limiter.hit(read)).toMatchObject({ allowed: true, remaining: 4 });
+    });
+
+    it('should count anonymous requests per IP address', async () => {
+      const limiter = createLimiter();
+      for (let count = 1; count <= 5; count++) {
+        await limiter.hit({ action: RateLimitAction.READS, ip: '10.0.0.1' });
+      }
+      expect(await limiter.hit({ action: RateLimitAction.READS, ip: '10.0.0.1' })).toMatchObject({
+        allowed: false,
+      });
+      expect(await limiter.hit({ action: RateLimitAction.READS, ip: '10.0.0.2' })).toMatchObject({
+        allowed: true,
+      });
+    });
+
+    it('should report the limit with the fewest requests remaining', async () => {
+      const limiter = createLimiter();
+      const result = await limiter.hit({
+        action: RateLimitAction.CREATES,
+        modelName: 'blogposts',
+        userId: 1,
+        ip: '10.0.0.1',
+      });
+      expect(result).toMatchObject({ allowed: true, limit: 2, remaining: 1 });
+      expect(result.policy).toMatchObject({ source: 'validation', window: 'day' });
+    });
+
+    it('should enforce daily quotas of validation.dsl', async () => {
+      let now = 0;
+      const limiter = createLimiter({ now: () => now }, '');
+      const create = { action: RateLimitAction.CREATES, modelName: 'BlogPosts', userId: 1 };
+
+      await limiter.hit({ ...create, ip: '10.0.0.1' });
+      await limiter.hit({ ...create, ip: '10.0.0.2' });
+      const denied = await limiter.hit({ ...create, ip: '10.0.0.3' });
+      expect(denied).toMatchObject({ allowed: false, resetAt: 24 * 60 * MINUTE });
+
+      now = 2 * MINUTE;
+      expect(await limiter.hit({ ...create, ip: '10.0.0.1' })).toMatchObject({ allowed: false });
+      expect(await limiter.hit({ ...create, modelName: 'Comments', ip: '10.0.0.1' })).toMatchObject(
+        { allowed: true, limit: 0 }
+      );
+    });
+
+    it('should count writes of a field against quotas of the field', async () => {
+      const limiter = createLimiter({}, '');
+      const update = { action: RateLimitAction.UPDATES, modelName: 'User', userId: 1, ip: '' };
+
+      expect(await limiter.hit({ ...update, fields: ['email'] })).toMatchObject({ limit: 0 });
+      expect(await limiter.hit({ ...update, fields: ['password'] })).toMatchObject({
+        allowed: true,
+      });
+      expect(await limiter.hit({ ...update, fields: ['password'] })).toMatchObject({
+        allowed: false,
+      });
+    });
+
+    it('should skip limits per API key for requests without one', async () => {
+      const limiter = createLimiter(
+        {},
+        'Rate limit for Comments:\n- 1 reads per minute per api key\n'
+      );
+      const read = { action: RateLimitAction.READS, modelName: 'Comments', ip: '10.0.0.1' };
+
+      expect((await limiter.hit(read)).policy).toBeUndefined();
+      expect(await limiter.hit({ ...read, apiKey: 'a' })).toMatchObject({ allowed: true });
+      expect(await limiter.hit({ ...read, apiKey: 'a' })).toMatchObject({ allowed: false });
+      expect(await limiter.hit({ ...read, apiKey: 'b' })).toMatchObject({ allowed: true });
+    });
+  });
+
+  describe('stores', () => {
+    it('should start a new window in memory once the current one is over', async () => {
+      const store = new MemoryRateLimitStore();
+      expect(await store.hit('key', MINUTE, 0)).toEqual({ count: 1, resetAt: MINUTE });
+      expect(await store.hit('key', MINUTE, 1000)).toEqual({ count: 2, resetAt: MINUTE });
+      expect(await store.hit('key', MINUTE, MINUTE)).toEqual({ count: 1, resetAt: 2 * MINUTE });
+    });
+
+    describe('SQL', () => {
+      let client: PGlite;
+      let store: SqlRateLimitStore;
+
+      beforeAll(async () => {
+        client = new PGlite();
+        await client.exec(
+          'CREATE TABLE _rate_limits (key text PRIMARY KEY, count integer NOT NULL, reset_at timestamptz NOT NULL)'
+        );
+        store = new SqlRateLimitStore(drizzle(client));
+      });
+
+      afterAll(async () => {
+        await client.close();
+      });
+
+      it('should count hits in the table', async () => {
+        const now = Date.parse('2026-01-01T00:00:00Z');
+        expect(await store.hit('a', MINUTE, now)).toEqual({ count: 1, resetAt: now + MINUTE });
+        expect(await store.hit('a', MINUTE, now + 1000)).toEqual({
+          count: 2,
+          resetAt: now + MINUTE,
+        });
+        expect(await store.hit('b', MINUTE, now)).toEqual({ count: 1, resetAt: now + MINUTE });
+        expect(await store.hit('a', MINUTE, now + MINUTE)).toEqual({
+          count: 1,
+          resetAt: now + 2 * MINUTE,
+        });
+      });
+
+      it('should count concurrent hits once each', async () => {
+        const now = Date.parse('2026-01-01T00:00:00Z');
+        const counters = await Promise.all(
+          Array.from({ length: 10 }, () => store.hit('concurrent', MINUTE, now))
+        );
+        expect(counters.map((counter) => counter.count).sort((a, b) => a - b)).toEqual([
+          1, 2, 3, 4, 5, 6, 7, 8, 9, 10,
+        ]);
+      });
+    });
+  });
+
+  describe('hook', () => {
+    function createApp(limiter = createLimiter()) {
+      const app = Fastify();
+      app.addHook(
+        'preHandler',
+        rateLimitHook(limiter, {
+          currentUser: (request) => {
+            const user = request.headers['x-user'];
+            return typeof user === 'string' ? Number(user) : undefined;
+          },
+        })
+      );
+      app.get('/v1/blog-posts', () => ({ data: [] }));
+      app.post('/blog-posts', () => ({ data: {} }));
+      app.post('/blog-posts/:id/publish-blog-post', () => ({ data: {} }));
+      app.post(
+        '/auth/login',
+        { config: { rateLimit: { action: RateLimitAction.LOGINS } } },
+        () => ({
+          data: {},
+        })
+      );
+      return app;
+    }
+
+    it('should send the RateLimit headers of the most restrictive limit', async () => {
+      const app = createApp();
+      const response = await app.inject({ method: 'GET', url: '/v1/blog-posts' });
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['ratelimit-limit']).toBe('5');
+      expect(response.headers['ratelimit-remaining']).toBe('4');
+      expect(Number(response.headers['ratelimit-reset'])).toBeLessThanOrEqual(60);
+      expect(response.headers['ratelimit-policy']).toBe('5;w=60');
+      await app.close();
+    });
+
+    it('should count the reset down on the clock of the limiter', async () => {
+      let now = 0;
+      const app = createApp(createLimiter({ now: () => now }));
+      const login = { method: 'POST' as const, url: '/auth/login', payload: {} };
+      await app.inject(login);
+      now = 20_000;
+      await app.inject(login);
+      now = 45_000;
+      const response = await app.inject(login);
+      expect(response.headers['ratelimit-reset']).toBe('15');
+      expect(response.headers['retry-after']).toBe('15');
+      await app.close();
+    });
+
+    it('should reject requests over a limit with VAL010', async () => {
+      const app = createApp();
+      const login = { method: 'POST' as const, url: '/auth/login', payload: {} };
+      await app.inject(login);
+      await app.inject(login);
+      const response = await app.inject(login);
+      expect(response.statusCode).toBe(429);
+      expect(response.headers['retry-after']).toBeDefined();
+      const body = response.json<{ error: { code: string; message: string }; meta: object }>();
+      expect(body.error).toMatchObject({
+        code: 'VAL010',
+        message: 'Rate limit exceeded: 2 logins per minute',
+      });
+      expect(body.meta).toHaveProperty('request_id');
+      await app.close();
+    });
+
+    it('should count writes against the limits of the model of the path', async () => {
+      const app = createApp();
+      const create = { method: 'POST' as const, url: '/blog-posts', headers: { 'x-user': '1' } };
+      await app.inject(create);
+      const response = await app.inject(create);
+      expect(response.headers['ratelimit-limit']).toBe('2');
+      expect(response.headers['ratelimit-remaining']).toBe('0');
+      expect((await app.inject(create)).statusCode).toBe(429);
+      await app.close();
+    });
+
+    it('should count mutations of a record as updates, not creates', async () => {
+      const app = createApp();
+      const publish = {
+        method: 'POST' as const,
+        url: '/blog-posts/1/publish-blog-post',
+        headers: { 'x-user': '1' },
+      };
+      await app.inject(publish);
+      await app.inject(publish);
+      const create = { method: 'POST' as const, url: '/blog-posts', headers: { 'x-user': '1' } };
+      const response = await app.inject(create);
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['ratelimit-limit']).toBe('2');
+      expect(response.headers['ratelimit-remaining']).toBe('1');
+      await app.close();
+    });
+  });
+});
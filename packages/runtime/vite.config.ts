@@ -19,6 +19,8 @@ export default defineConfig({
         'zod',
         'jsonwebtoken',
         'bcrypt',
+        /^drizzle-orm\//,
+        /^node:/,
       ],
       output: {
         exports: 'named',